@@ -0,0 +1,451 @@
+// File: app/api-resources.server.ts
+// Recursos expostos em /api/v1. Cada definição descreve os campos (usada na validação e no
+// documento OpenAPI) e implementa as operações com as mesmas regras das telas de
+// administração: exclusão lógica de usuários, matrícula única, módulos protegidos e
+// auditoria de toda alteração.
+import {
+  apiError,
+  notFound,
+  type ApiContext,
+  type ApiField,
+  type ApiRecord,
+  type ApiResource,
+} from "~/api.server";
+import { recordAudit } from "~/audit.server";
+import { createTranslator, DEFAULT_LOCALE } from "~/i18n";
+import { hashPassword, validatePasswordPolicy } from "~/password.server";
+import { ModuloRepo, PerfilRepo, PermissaoRepo, UsuarioRepo } from "~/repositories.server";
+import { revokeUserSessions } from "~/session.server";
+
+// Módulos usados pela autorização (requirePermission); não podem ser excluídos nem ter o
+// slug ou o tipo alterados.
+const PROTECTED_MODULES = ["admin", "database"];
+
+function parseId(id: string) {
+  return /^[1-9]\d*$/.test(id) ? Number(id) : null;
+}
+
+function actorOf({ principal }: ApiContext) {
+  return { userId: principal.userId, userName: principal.userName };
+}
+
+// Mantém só os campos publicados do recurso (ex.: tira st_delete e nunca inclui a senha).
+function toApiRecord(fields: Record<string, ApiField>, row: object): ApiRecord {
+  const values = row as Record<string, ApiRecord[string]>;
+  return Object.fromEntries(
+    Object.entries(fields).filter(([name, field]) => !field.writeOnly && name in values).map(([name]) => [name, values[name]])
+  );
+}
+
+async function requireProfileExists(ctx: ApiContext, field: string, id: number) {
+  if (!(await PerfilRepo.findById(ctx.db, id))) {
+    throw apiError(422, "validation_failed", "Dados inválidos.", [{ field, message: `Perfil ${id} não existe.` }]);
+  }
+}
+
+function requirePasswordPolicy(senha: string, matricula: string) {
+  const errors = validatePasswordPolicy(senha, { matricula });
+  if (errors.length > 0) {
+    // As mensagens da API são em português, como as demais.
+    const { t } = createTranslator(DEFAULT_LOCALE);
+    throw apiError(422, "validation_failed", "Dados inválidos.", errors.map(({ key, params }) => ({ field: "senha", message: t(key, params) })));
+  }
+}
+
+const USUARIO_FIELDS: Record<string, ApiField> = {
+  idtb_usuario: { type: "integer", description: "Identificador.", readOnly: true },
+  matricula: { type: "string", description: "Matrícula, única entre todos os usuários.", required: true, createOnly: true, maxLength: 50 },
+  nome_usuario: { type: "string", description: "Nome completo.", required: true, maxLength: 200 },
+  senha: { type: "string", description: "Senha, validada pela política de senhas.", required: true, writeOnly: true },
+  tb_perfil_idtb_perfil: { type: "integer", description: "Perfil do usuário.", required: true },
+  st_usuario: { type: "integer", description: "1 = ativo, 0 = inativo. Padrão 1.", enum: [0, 1] },
+};
+
+const usuarios: ApiResource = {
+  name: "usuarios",
+  schemaName: "Usuario",
+  description: "Usuários do sistema. A exclusão é lógica (st_delete) e usuários excluídos não aparecem na API.",
+  idDescription: "idtb_usuario",
+  operations: ["list", "get", "create", "update", "delete"],
+  fields: USUARIO_FIELDS,
+  filters: {
+    tb_perfil_idtb_perfil: { type: "integer", description: "Somente usuários deste perfil." },
+    st_usuario: { type: "integer", description: "Somente usuários nesta situação.", enum: [0, 1] },
+  },
+
+  async list(ctx, { limit, offset, filters }) {
+    const { total, rows } = await UsuarioRepo.list(
+      ctx.db,
+      { perfil: filters.tb_perfil_idtb_perfil as number | undefined, situacao: filters.st_usuario as number | undefined },
+      limit,
+      offset
+    );
+    return { total, data: rows.map((row) => toApiRecord(USUARIO_FIELDS, row)) };
+  },
+
+  async get(ctx, id) {
+    const userId = parseId(id);
+    const row = userId === null ? null : await UsuarioRepo.findById(ctx.db, userId);
+    return row && toApiRecord(USUARIO_FIELDS, row);
+  },
+
+  async create(ctx, values) {
+    const matricula = String(values.matricula);
+    const senha = String(values.senha);
+    const perfil = Number(values.tb_perfil_idtb_perfil);
+    requirePasswordPolicy(senha, matricula);
+    await requireProfileExists(ctx, "tb_perfil_idtb_perfil", perfil);
+    // A matrícula é única também entre usuários excluídos, que podem ser restaurados.
+    if (await UsuarioRepo.matriculaExists(ctx.db, matricula)) {
+      throw apiError(409, "conflict", `A matrícula ${matricula} já está cadastrada.`);
+    }
+    const id = await UsuarioRepo.create(ctx.db, {
+      matricula,
+      nome_usuario: String(values.nome_usuario),
+      senhaHash: await hashPassword(senha),
+      tb_perfil_idtb_perfil: perfil,
+      st_usuario: values.st_usuario === undefined ? undefined : Number(values.st_usuario),
+    });
+    const created = (await this.get(ctx, String(id)))!;
+    await recordAudit(ctx.db, ctx.request, {
+      actor: actorOf(ctx),
+      action: "usuario.criar",
+      table: "tb_usuario",
+      recordId: id,
+      after: created,
+    });
+    return created;
+  },
+
+  async update(ctx, id, values) {
+    const before = await this.get(ctx, id);
+    if (!before) return null;
+    const userId = Number(before.idtb_usuario);
+    // Valida tudo antes de gravar: um perfil inexistente não pode deixar a senha já trocada.
+    if (typeof values.senha === "string") {
+      requirePasswordPolicy(values.senha, String(before.matricula));
+    }
+    if ("tb_perfil_idtb_perfil" in values) {
+      await requireProfileExists(ctx, "tb_perfil_idtb_perfil", Number(values.tb_perfil_idtb_perfil));
+    }
+    // A senha definida por outro sistema é provisória, como na criação e na redefinição pelo painel.
+    const statements = [
+      typeof values.senha === "string" ? UsuarioRepo.setPasswordStatement(ctx.db, userId, await hashPassword(values.senha), { mustChange: true }) : null,
+      UsuarioRepo.updateStatement(ctx.db, userId, {
+        ...("nome_usuario" in values ? { nome_usuario: String(values.nome_usuario) } : {}),
+        ...("tb_perfil_idtb_perfil" in values ? { tb_perfil_idtb_perfil: Number(values.tb_perfil_idtb_perfil) } : {}),
+        ...("st_usuario" in values ? { st_usuario: Number(values.st_usuario) } : {}),
+      }),
+    ].filter((statement) => statement !== null);
+    if (statements.length > 0) await ctx.db.batch(statements);
+    // Como no painel: sessões abertas carregam os dados antigos e são encerradas.
+    await revokeUserSessions(ctx.db, userId);
+    const after = await this.get(ctx, id);
+    await recordAudit(ctx.db, ctx.request, {
+      actor: actorOf(ctx),
+      action: "senha" in values && Object.keys(values).length === 1 ? "senha.redefinir" : "usuario.editar",
+      table: "tb_usuario",
+      recordId: userId,
+      before,
+      after,
+    });
+    return after;
+  },
+
+  async remove(ctx, id) {
+    const before = await this.get(ctx, id);
+    if (!before) return false;
+    const userId = Number(before.idtb_usuario);
+    await UsuarioRepo.softDelete(ctx.db, userId);
+    await revokeUserSessions(ctx.db, userId);
+    await recordAudit(ctx.db, ctx.request, {
+      actor: actorOf(ctx),
+      action: "usuario.excluir",
+      table: "tb_usuario",
+      recordId: userId,
+      before,
+      after: { ...before, st_delete: 1 },
+    });
+    return true;
+  },
+};
+
+const perfis: ApiResource = {
+  name: "perfis",
+  schemaName: "Perfil",
+  description: "Perfis de acesso. Um perfil com usuários vinculados não pode ser excluído (no painel, os usuários são transferidos antes). O perfil \"Administrador\" não pode ser renomeado nem excluído.",
+  idDescription: "idtb_perfil",
+  operations: ["list", "get", "create", "update", "delete"],
+  fields: {
+    idtb_perfil: { type: "integer", description: "Identificador.", readOnly: true },
+    ds_perfil: { type: "string", description: "Nome do perfil, único.", required: true, maxLength: 100 },
+    st_2fa_obrigatorio: { type: "integer", description: "1 quando o perfil exige verificação em duas etapas. Alterado só pelo painel.", readOnly: true },
+  },
+
+  async list(ctx, { limit, offset }) {
+    const { total, rows } = await PerfilRepo.page(ctx.db, limit, offset);
+    return { total, data: rows };
+  },
+
+  async get(ctx, id) {
+    const profileId = parseId(id);
+    return profileId === null ? null : PerfilRepo.findById(ctx.db, profileId);
+  },
+
+  async create(ctx, values) {
+    const name = String(values.ds_perfil);
+    await ensureUniqueProfileName(ctx, name, null);
+    const id = await PerfilRepo.create(ctx.db, name);
+    const created = { idtb_perfil: id, ds_perfil: name, st_2fa_obrigatorio: 0 };
+    await recordAudit(ctx.db, ctx.request, {
+      actor: actorOf(ctx),
+      action: "perfil.criar",
+      table: "tb_perfil",
+      recordId: id,
+      after: created,
+    });
+    return created;
+  },
+
+  async update(ctx, id, values) {
+    const before = await this.get(ctx, id);
+    if (!before) return null;
+    const name = String(values.ds_perfil);
+    ensureNotProtectedProfile(before);
+    await ensureUniqueProfileName(ctx, name, Number(before.idtb_perfil));
+    await PerfilRepo.rename(ctx.db, Number(before.idtb_perfil), name);
+    const after = { ...before, ds_perfil: name };
+    await recordAudit(ctx.db, ctx.request, {
+      actor: actorOf(ctx),
+      action: "perfil.editar",
+      table: "tb_perfil",
+      recordId: Number(before.idtb_perfil),
+      before,
+      after,
+    });
+    return after;
+  },
+
+  async remove(ctx, id) {
+    const before = await this.get(ctx, id);
+    if (!before) return false;
+    const profileId = Number(before.idtb_perfil);
+    ensureNotProtectedProfile(before);
+    const users = await UsuarioRepo.countByProfile(ctx.db, profileId);
+    if (users > 0) {
+      throw apiError(409, "conflict", `O perfil tem ${users} usuário(s) vinculado(s) e não pode ser excluído.`);
+    }
+    await PerfilRepo.remove(ctx.db, profileId);
+    await recordAudit(ctx.db, ctx.request, {
+      actor: actorOf(ctx),
+      action: "perfil.excluir",
+      table: "tb_perfil",
+      recordId: profileId,
+      before,
+    });
+    return true;
+  },
+};
+
+function ensureNotProtectedProfile(profile: Record<string, unknown>) {
+  if (PerfilRepo.isProtected({ ds_perfil: String(profile.ds_perfil) })) {
+    throw apiError(409, "conflict", `O perfil ${profile.ds_perfil} é do sistema e não pode ser renomeado nem excluído.`);
+  }
+}
+
+async function ensureUniqueProfileName(ctx: ApiContext, name: string, exceptId: number | null) {
+  if (await PerfilRepo.nameExists(ctx.db, name, exceptId)) {
+    throw apiError(409, "conflict", `O perfil ${name} já existe.`);
+  }
+}
+
+const modulos: ApiResource = {
+  name: "modulos",
+  schemaName: "Modulo",
+  description: "Módulos do sistema. Os módulos \"admin\" e \"database\" são usados pela autorização e não podem ser excluídos nem ter slug ou tipo alterados.",
+  idDescription: "id_modulo",
+  operations: ["list", "get", "create", "update", "delete"],
+  fields: {
+    id_modulo: { type: "integer", description: "Identificador.", readOnly: true },
+    ds_modulo: { type: "string", description: "Nome exibido.", required: true, maxLength: 100 },
+    tipo_modulo: { type: "string", description: "Tipo do módulo. Padrão \"app\".", enum: ["app", "admin"] },
+    slug: { type: "string", description: "Identificador de rota (/m/:slug), único.", nullable: true, maxLength: 50 },
+  },
+  filters: {
+    tipo_modulo: { type: "string", description: "Somente módulos deste tipo.", enum: ["app", "admin"] },
+  },
+
+  async list(ctx, { limit, offset, filters }) {
+    const { total, rows } = await ModuloRepo.page(ctx.db, { tipo: filters.tipo_modulo as string | undefined }, limit, offset);
+    return { total, data: rows };
+  },
+
+  async get(ctx, id) {
+    const moduleId = parseId(id);
+    return moduleId === null ? null : ModuloRepo.findById(ctx.db, moduleId);
+  },
+
+  async create(ctx, values) {
+    const slug = values.slug ? String(values.slug) : null;
+    await ensureUniqueSlug(ctx, slug, null);
+    const id = await ModuloRepo.create(ctx.db, {
+      ds_modulo: String(values.ds_modulo),
+      tipo_modulo: String(values.tipo_modulo ?? "app"),
+      slug,
+    });
+    const created = (await this.get(ctx, String(id)))!;
+    await recordAudit(ctx.db, ctx.request, {
+      actor: actorOf(ctx),
+      action: "modulo.criar",
+      table: "tb_modulo",
+      recordId: id,
+      after: created,
+    });
+    return created;
+  },
+
+  async update(ctx, id, values) {
+    const before = await this.get(ctx, id);
+    if (!before) return null;
+    const moduleId = Number(before.id_modulo);
+    const changes = {
+      ...("ds_modulo" in values ? { ds_modulo: String(values.ds_modulo) } : {}),
+      ...("tipo_modulo" in values ? { tipo_modulo: String(values.tipo_modulo) } : {}),
+      ...("slug" in values ? { slug: values.slug ? String(values.slug) : null } : {}),
+    };
+    if (PROTECTED_MODULES.includes(String(before.slug)) && (
+      (changes.slug !== undefined && changes.slug !== before.slug) ||
+      (changes.tipo_modulo !== undefined && changes.tipo_modulo !== before.tipo_modulo)
+    )) {
+      throw apiError(409, "conflict", `O módulo ${before.slug} é usado pela autorização; slug e tipo não podem ser alterados.`);
+    }
+    if (changes.slug !== undefined) await ensureUniqueSlug(ctx, changes.slug, moduleId);
+    await ModuloRepo.update(ctx.db, moduleId, changes);
+    const after = await this.get(ctx, id);
+    await recordAudit(ctx.db, ctx.request, {
+      actor: actorOf(ctx),
+      action: "modulo.editar",
+      table: "tb_modulo",
+      recordId: moduleId,
+      before,
+      after,
+    });
+    return after;
+  },
+
+  async remove(ctx, id) {
+    const before = await this.get(ctx, id);
+    if (!before) return false;
+    if (PROTECTED_MODULES.includes(String(before.slug))) {
+      throw apiError(409, "conflict", `O módulo ${before.slug} é usado pela autorização e não pode ser excluído.`);
+    }
+    await ModuloRepo.remove(ctx.db, Number(before.id_modulo));
+    await recordAudit(ctx.db, ctx.request, {
+      actor: actorOf(ctx),
+      action: "modulo.excluir",
+      table: "tb_modulo",
+      recordId: Number(before.id_modulo),
+      before,
+    });
+    return true;
+  },
+};
+
+async function ensureUniqueSlug(ctx: ApiContext, slug: string | null, exceptId: number | null) {
+  if (slug !== null && (await ModuloRepo.slugExists(ctx.db, slug, exceptId))) {
+    throw apiError(409, "conflict", `O slug ${slug} já está em uso.`);
+  }
+}
+
+// Permissões não têm id próprio: o endereço usa "<id_perfil>-<id_modulo>".
+function parsePermissionId(id: string) {
+  const match = id.match(/^([1-9]\d*)-([1-9]\d*)$/);
+  return match ? { id_perfil: Number(match[1]), id_modulo: Number(match[2]) } : null;
+}
+
+const permissoes: ApiResource = {
+  name: "permissoes",
+  schemaName: "Permissao",
+  description: "Módulos liberados para cada perfil. O identificador é \"<id_perfil>-<id_modulo>\".",
+  idDescription: "<id_perfil>-<id_modulo>",
+  operations: ["list", "get", "create", "delete"],
+  fields: {
+    id_perfil: { type: "integer", description: "Perfil.", required: true },
+    id_modulo: { type: "integer", description: "Módulo liberado para o perfil.", required: true },
+  },
+  filters: {
+    id_perfil: { type: "integer", description: "Somente permissões deste perfil." },
+    id_modulo: { type: "integer", description: "Somente permissões deste módulo." },
+  },
+
+  async list(ctx, { limit, offset, filters }) {
+    const { total, rows } = await PermissaoRepo.page(
+      ctx.db,
+      { perfil: filters.id_perfil as number | undefined, modulo: filters.id_modulo as number | undefined },
+      limit,
+      offset
+    );
+    return { total, data: rows };
+  },
+
+  async get(ctx, id) {
+    const key = parsePermissionId(id);
+    return key && PermissaoRepo.find(ctx.db, key.id_perfil, key.id_modulo);
+  },
+
+  async create(ctx, values) {
+    const permission = { id_perfil: Number(values.id_perfil), id_modulo: Number(values.id_modulo) };
+    await requireProfileExists(ctx, "id_perfil", permission.id_perfil);
+    if (!(await ModuloRepo.findById(ctx.db, permission.id_modulo))) {
+      throw apiError(422, "validation_failed", "Dados inválidos.", [{ field: "id_modulo", message: `Módulo ${permission.id_modulo} não existe.` }]);
+    }
+    if (await PermissaoRepo.find(ctx.db, permission.id_perfil, permission.id_modulo)) {
+      throw apiError(409, "conflict", `O perfil ${permission.id_perfil} já tem acesso ao módulo ${permission.id_modulo}.`);
+    }
+    await PermissaoRepo.apply(ctx.db, { grant: [permission] });
+    await recordAudit(ctx.db, ctx.request, {
+      actor: actorOf(ctx),
+      action: "permissao.conceder",
+      table: "tb_permissao",
+      recordId: `${permission.id_perfil}-${permission.id_modulo}`,
+      after: permission,
+    });
+    return permission;
+  },
+
+  async remove(ctx, id) {
+    const key = parsePermissionId(id);
+    const before = key && (await PermissaoRepo.find(ctx.db, key.id_perfil, key.id_modulo));
+    if (!before) return false;
+    // Como no painel: o último perfil com o módulo "admin" não perde o acesso.
+    const adminModule = await PermissaoRepo.findAdminLockout(ctx.db, { revoke: [before] });
+    if (adminModule) {
+      throw apiError(409, "conflict", `O perfil ${before.id_perfil} é o último com acesso ao módulo ${adminModule.slug} e não pode perdê-lo.`);
+    }
+    await PermissaoRepo.apply(ctx.db, { revoke: [before] });
+    await recordAudit(ctx.db, ctx.request, {
+      actor: actorOf(ctx),
+      action: "permissao.revogar",
+      table: "tb_permissao",
+      recordId: id,
+      before,
+    });
+    return true;
+  },
+};
+
+export const API_RESOURCES: ApiResource[] = [usuarios, perfis, modulos, permissoes];
+
+/** Definição do recurso pelo nome do endereço, ou 404 no formato padrão. */
+export function requireResource(name: string | undefined) {
+  const resource = API_RESOURCES.find((item) => item.name === name);
+  if (!resource) throw apiError(404, "not_found", `Recurso ${name} não existe.`);
+  return resource;
+}
+
+/** Busca o registro ou lança 404 no formato padrão. */
+export async function requireRecord(resource: ApiResource, ctx: ApiContext, id: string) {
+  const record = await resource.get(ctx, id);
+  if (!record) throw notFound();
+  return record;
+}
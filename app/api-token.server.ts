@@ -0,0 +1,117 @@
+// File: app/api-token.server.ts
+// Tokens de acesso à API /api/v1. O token só é exibido ao usuário na criação; no banco
+// (tb_token_api) fica apenas o SHA-256 dele. Cada token tem escopos e data de expiração
+// e age em nome do usuário que o criou.
+import type { D1Database } from "@cloudflare/workers-types";
+import { USER_ACTIVE } from "~/repositories.server";
+
+export const TOKEN_PREFIX = "rnv_";
+export const TOKEN_VALIDITY_DAYS = [30, 90, 180, 365];
+
+// Escopos no formato <recurso>:<read|write>; write não inclui read.
+export const API_SCOPES = [
+  "usuarios:read", "usuarios:write",
+  "perfis:read", "perfis:write",
+  "modulos:read", "modulos:write",
+  "permissoes:read", "permissoes:write",
+] as const;
+
+export type ApiScope = (typeof API_SCOPES)[number];
+
+// O último uso só é regravado após esse intervalo, para não escrever no D1 a cada chamada.
+const LAST_USED_INTERVAL = "-60 seconds";
+
+export interface ApiToken {
+  id_token: number;
+  ds_nome: string;
+  ds_prefixo: string;
+  ds_escopos: string;
+  dt_criacao: string;
+  dt_expiracao: string;
+  dt_ultimo_uso: string | null;
+  dt_revogacao: string | null;
+  expirado: number;
+}
+
+export interface ApiPrincipal {
+  tokenId: number;
+  userId: number;
+  userName: string;
+  scopes: Set<string>;
+}
+
+export function isApiScope(value: string): value is ApiScope {
+  return (API_SCOPES as readonly string[]).includes(value);
+}
+
+async function hashToken(token: string) {
+  const digest = await crypto.subtle.digest("SHA-256", new TextEncoder().encode(token));
+  return Array.from(new Uint8Array(digest), (byte) => byte.toString(16).padStart(2, "0")).join("");
+}
+
+function newToken() {
+  const bytes = crypto.getRandomValues(new Uint8Array(32));
+  const base64url = btoa(String.fromCharCode(...bytes)).replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "");
+  return TOKEN_PREFIX + base64url;
+}
+
+/** Cria o token e retorna o valor em texto, que não poderá ser recuperado depois. */
+export async function createApiToken(
+  db: D1Database,
+  userId: number,
+  { name, scopes, validityDays }: { name: string; scopes: ApiScope[]; validityDays: number }
+) {
+  const token = newToken();
+  const { meta } = await db.prepare(
+    `INSERT INTO tb_token_api (id_usuario, ds_nome, ds_prefixo, ds_hash, ds_escopos, dt_expiracao)
+     VALUES (?, ?, ?, ?, ?, datetime('now', ?))`
+  ).bind(userId, name, token.slice(0, TOKEN_PREFIX.length + 6), await hashToken(token), scopes.join(" "), `+${validityDays} days`).run();
+  return { id: meta.last_row_id, token };
+}
+
+export async function listApiTokens(db: D1Database, userId: number) {
+  const { results } = await db.prepare(
+    `SELECT id_token, ds_nome, ds_prefixo, ds_escopos, dt_criacao, dt_expiracao, dt_ultimo_uso, dt_revogacao,
+            dt_expiracao <= datetime('now') AS expirado
+     FROM tb_token_api WHERE id_usuario = ? ORDER BY dt_criacao DESC`
+  ).bind(userId).all<ApiToken>();
+  return results || [];
+}
+
+/** Revoga o token, desde que pertença ao usuário. Retorna false se não havia o que revogar. */
+export async function revokeApiToken(db: D1Database, userId: number, tokenId: number) {
+  const { meta } = await db.prepare(
+    "UPDATE tb_token_api SET dt_revogacao = datetime('now') WHERE id_token = ? AND id_usuario = ? AND dt_revogacao IS NULL"
+  ).bind(tokenId, userId).run();
+  return meta.changes > 0;
+}
+
+/**
+ * Identifica o token do cabeçalho "Authorization: Bearer". Retorna null se ausente,
+ * desconhecido, revogado, expirado ou se o dono estiver inativo ou excluído.
+ */
+export async function authenticateApiToken(db: D1Database, request: Request): Promise<ApiPrincipal | null> {
+  const match = request.headers.get("Authorization")?.match(/^Bearer\s+(\S+)$/i);
+  if (!match || !match[1].startsWith(TOKEN_PREFIX)) return null;
+
+  const row = await db.prepare(
+    `SELECT t.id_token, t.id_usuario, t.ds_escopos, u.nome_usuario,
+            t.dt_ultimo_uso IS NULL OR t.dt_ultimo_uso <= datetime('now', ?) AS desatualizado
+     FROM tb_token_api t
+     JOIN tb_usuario u ON u.idtb_usuario = t.id_usuario
+     WHERE t.ds_hash = ? AND t.dt_revogacao IS NULL AND t.dt_expiracao > datetime('now')
+       AND ${USER_ACTIVE}`
+  ).bind(LAST_USED_INTERVAL, await hashToken(match[1]))
+    .first<{ id_token: number; id_usuario: number; ds_escopos: string; nome_usuario: string; desatualizado: number }>();
+  if (!row) return null;
+
+  if (row.desatualizado) {
+    await db.prepare("UPDATE tb_token_api SET dt_ultimo_uso = datetime('now') WHERE id_token = ?").bind(row.id_token).run();
+  }
+  return {
+    tokenId: row.id_token,
+    userId: row.id_usuario,
+    userName: row.nome_usuario,
+    scopes: new Set(row.ds_escopos.split(" ").filter(Boolean)),
+  };
+}
@@ -0,0 +1,413 @@
+// File: app/api.server.ts
+// Base da API REST /api/v1: definição dos recursos, respostas JSON, erros padronizados,
+// autenticação por token, paginação e validação do corpo. Os recursos em si ficam em
+// app/api-resources.server.ts; o documento OpenAPI é gerado a partir das mesmas definições.
+import type { D1Database } from "@cloudflare/workers-types";
+import { authenticateApiToken, type ApiPrincipal } from "~/api-token.server";
+import { hasPermission } from "~/auth.server";
+import { logError, setRequestUser } from "~/request-context.server";
+
+export const API_BASE_PATH = "/api/v1";
+export const DEFAULT_LIMIT = 50;
+export const MAX_LIMIT = 200;
+
+export type ApiOperation = "list" | "get" | "create" | "update" | "delete";
+export type ApiFieldType = "integer" | "string";
+export type ApiValue = string | number | null;
+export type ApiRecord = Record<string, ApiValue>;
+
+export interface ApiField {
+  type: ApiFieldType;
+  description: string;
+  required?: boolean;
+  nullable?: boolean;
+  enum?: readonly ApiValue[];
+  maxLength?: number;
+  // Gerado pelo servidor: aparece nas respostas, mas não é aceito no corpo.
+  readOnly?: boolean;
+  // Aceito no corpo, mas nunca devolvido (ex.: senha).
+  writeOnly?: boolean;
+  // Aceito apenas na criação.
+  createOnly?: boolean;
+}
+
+export interface ApiContext {
+  db: D1Database;
+  request: Request;
+  principal: ApiPrincipal;
+}
+
+export interface ApiListParams {
+  limit: number;
+  offset: number;
+  filters: Record<string, ApiValue>;
+}
+
+export interface ApiResource {
+  name: string;
+  // Nome do esquema no OpenAPI (ex.: "Usuario").
+  schemaName: string;
+  description: string;
+  idDescription: string;
+  operations: ApiOperation[];
+  fields: Record<string, ApiField>;
+  // Filtros aceitos na listagem, como parâmetros de consulta.
+  filters?: Record<string, ApiField>;
+  list(ctx: ApiContext, params: ApiListParams): Promise<{ total: number; data: ApiRecord[] }>;
+  get(ctx: ApiContext, id: string): Promise<ApiRecord | null>;
+  create?(ctx: ApiContext, values: ApiRecord): Promise<ApiRecord>;
+  // Retorna null se o registro não existir.
+  update?(ctx: ApiContext, id: string, values: ApiRecord): Promise<ApiRecord | null>;
+  // Retorna false se o registro não existir.
+  remove?(ctx: ApiContext, id: string): Promise<boolean>;
+}
+
+export interface ApiErrorDetail {
+  field: string;
+  message: string;
+}
+
+export function apiJson(data: unknown, status = 200, headers: HeadersInit = {}) {
+  return new Response(JSON.stringify(data), {
+    status,
+    headers: { "Content-Type": "application/json; charset=utf-8", "Cache-Control": "no-store", ...headers },
+  });
+}
+
+/**
+ * Resposta de erro da API. Todas as falhas usam o mesmo corpo:
+ * { "error": { "code": "...", "message": "...", "details": [...] } }.
+ * As rotas lançam a Response (throw apiError(...)) para interromper o processamento.
+ */
+export function apiError(status: number, code: string, message: string, details?: ApiErrorDetail[], headers: HeadersInit = {}) {
+  return apiJson({ error: { code, message, ...(details ? { details } : {}) } }, status, headers);
+}
+
+export function notFound() {
+  return apiError(404, "not_found", "Registro não encontrado.");
+}
+
+export function methodNotAllowed(allowed: string[]) {
+  return apiError(405, "method_not_allowed", "Método não permitido para este endereço.", undefined, { Allow: allowed.join(", ") });
+}
+
+/** Escopo exigido por uma operação: leitura para list/get, escrita para as demais. */
+export function scopeFor(resource: ApiResource, operation: ApiOperation) {
+  return `${resource.name}:${operation === "list" || operation === "get" ? "read" : "write"}`;
+}
+
+/**
+ * Autentica o token e verifica o escopo. Além do escopo, o dono do token precisa ter o
+ * módulo "admin", como nas telas de administração: o token não dá mais acesso que o usuário.
+ */
+export async function requireApiScope(db: D1Database, request: Request, scope: string) {
+  const principal = await authenticateApiToken(db, request);
+  if (!principal) {
+    throw apiError(401, "unauthorized", "Token de acesso ausente, inválido, expirado ou revogado.", undefined, {
+      "WWW-Authenticate": 'Bearer realm="api"',
+    });
+  }
+  setRequestUser(principal.userId);
+  if (!principal.scopes.has(scope)) {
+    throw apiError(403, "insufficient_scope", `O token não tem o escopo ${scope}.`);
+  }
+  if (!(await hasPermission(db, principal.userId, "admin"))) {
+    throw apiError(403, "forbidden", "O usuário do token não tem acesso à administração.");
+  }
+  return principal;
+}
+
+function parseNonNegativeInteger(url: URL, name: string, fallback: number) {
+  const raw = url.searchParams.get(name);
+  if (raw === null || raw === "") return fallback;
+  const value = Number(raw);
+  if (!Number.isInteger(value) || value < 0) {
+    throw apiError(400, "invalid_parameter", `Parâmetro ${name} inválido.`, [{ field: name, message: "Deve ser um inteiro não negativo." }]);
+  }
+  return value;
+}
+
+export function parseListParams(url: URL, resource: ApiResource): ApiListParams {
+  const limit = Math.min(Math.max(parseNonNegativeInteger(url, "limit", DEFAULT_LIMIT), 1), MAX_LIMIT);
+  const offset = parseNonNegativeInteger(url, "offset", 0);
+  const filters: Record<string, ApiValue> = {};
+  const details: ApiErrorDetail[] = [];
+  for (const [name, field] of Object.entries(resource.filters ?? {})) {
+    const raw = url.searchParams.get(name);
+    if (raw === null || raw === "") continue;
+    const converted = convertValue(field, raw);
+    if ("error" in converted) {
+      details.push({ field: name, message: converted.error });
+    } else {
+      filters[name] = converted.value;
+    }
+  }
+  if (details.length > 0) {
+    throw apiError(400, "invalid_parameter", "Filtro inválido.", details);
+  }
+  return { limit, offset, filters };
+}
+
+// Aceita o valor no tipo do campo; nos filtros (texto da URL) inteiros chegam como string.
+function convertValue(field: ApiField, value: unknown): { value: ApiValue } | { error: string } {
+  if (value === null) {
+    return field.nullable ? { value: null } : { error: "Não pode ser nulo." };
+  }
+  let converted: ApiValue;
+  if (field.type === "integer") {
+    const number = typeof value === "string" && value.trim() !== "" ? Number(value) : value;
+    if (typeof number !== "number" || !Number.isInteger(number)) return { error: "Deve ser um número inteiro." };
+    converted = number;
+  } else {
+    if (typeof value !== "string") return { error: "Deve ser um texto." };
+    // Senhas (writeOnly) são gravadas exatamente como enviadas.
+    converted = field.writeOnly ? value : value.trim();
+    if (field.required && converted === "") return { error: "Não pode ser vazio." };
+    if (field.maxLength !== undefined && converted.length > field.maxLength) {
+      return { error: `Deve ter no máximo ${field.maxLength} caracteres.` };
+    }
+  }
+  if (field.enum && !field.enum.includes(converted)) {
+    return { error: `Deve ser um dos valores: ${field.enum.join(", ")}.` };
+  }
+  return { value: converted };
+}
+
+/**
+ * Lê o corpo JSON e valida contra os campos do recurso. Na criação os campos obrigatórios
+ * precisam estar presentes; na atualização (PATCH) só os enviados são alterados. Campos
+ * desconhecidos, somente leitura ou (na atualização) somente de criação geram 422.
+ */
+export async function readBody(request: Request, resource: ApiResource, mode: "create" | "update"): Promise<ApiRecord> {
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    throw apiError(400, "invalid_json", "O corpo da requisição não é um JSON válido.");
+  }
+  if (typeof body !== "object" || body === null || Array.isArray(body)) {
+    throw apiError(400, "invalid_json", "O corpo da requisição deve ser um objeto JSON.");
+  }
+
+  const values: ApiRecord = {};
+  const details: ApiErrorDetail[] = [];
+  for (const [name, value] of Object.entries(body)) {
+    const field = resource.fields[name];
+    if (!field) {
+      details.push({ field: name, message: "Campo desconhecido." });
+    } else if (field.readOnly) {
+      details.push({ field: name, message: "Campo somente leitura." });
+    } else if (mode === "update" && field.createOnly) {
+      details.push({ field: name, message: "Campo não pode ser alterado após a criação." });
+    } else {
+      const converted = convertValue(field, value);
+      if ("error" in converted) {
+        details.push({ field: name, message: converted.error });
+      } else {
+        values[name] = converted.value;
+      }
+    }
+  }
+  if (mode === "create") {
+    for (const [name, field] of Object.entries(resource.fields)) {
+      if (field.required && !field.readOnly && !(name in body)) {
+        details.push({ field: name, message: "Campo obrigatório." });
+      }
+    }
+  }
+  if (mode === "update" && details.length === 0 && Object.keys(values).length === 0) {
+    details.push({ field: "", message: "Nenhum campo para alterar." });
+  }
+  if (details.length > 0) {
+    throw apiError(422, "validation_failed", "Dados inválidos.", details);
+  }
+  return values;
+}
+
+/** Converte exceções inesperadas em 500 com o corpo padrão; Responses lançadas passam direto. */
+export async function handleApi(run: () => Promise<Response>) {
+  try {
+    return await run();
+  } catch (error) {
+    if (error instanceof Response) return error;
+    logError("Falha na API", error);
+    return apiError(500, "internal_error", "Erro interno ao processar a requisição.");
+  }
+}
+
+const OPERATION_SUMMARIES: Record<ApiOperation, string> = {
+  list: "Lista",
+  get: "Consulta",
+  create: "Cria",
+  update: "Altera",
+  delete: "Exclui",
+};
+
+function fieldSchema(field: ApiField) {
+  return {
+    type: field.type,
+    description: field.description,
+    ...(field.nullable ? { nullable: true } : {}),
+    ...(field.enum ? { enum: field.enum } : {}),
+    ...(field.maxLength !== undefined ? { maxLength: field.maxLength } : {}),
+  };
+}
+
+function objectSchema(fields: [string, ApiField][], required: string[]) {
+  return {
+    type: "object",
+    additionalProperties: false,
+    properties: Object.fromEntries(fields.map(([name, field]) => [name, fieldSchema(field)])),
+    ...(required.length > 0 ? { required } : {}),
+  };
+}
+
+function errorResponse(description: string) {
+  return { description, content: { "application/json": { schema: { $ref: "#/components/schemas/Error" } } } };
+}
+
+/**
+ * Documento OpenAPI 3.0 gerado a partir das definições dos recursos: os mesmos campos e
+ * operações que as rotas usam para validar e responder.
+ */
+export function buildOpenApiDocument(resources: ApiResource[], origin: string) {
+  const schemas: Record<string, unknown> = {
+    Error: {
+      type: "object",
+      required: ["error"],
+      properties: {
+        error: {
+          type: "object",
+          required: ["code", "message"],
+          properties: {
+            code: { type: "string", example: "validation_failed" },
+            message: { type: "string" },
+            details: {
+              type: "array",
+              items: { type: "object", properties: { field: { type: "string" }, message: { type: "string" } } },
+            },
+          },
+        },
+      },
+    },
+    Pagination: {
+      type: "object",
+      required: ["total", "limit", "offset"],
+      properties: { total: { type: "integer" }, limit: { type: "integer" }, offset: { type: "integer" } },
+    },
+  };
+  const paths: Record<string, Record<string, unknown>> = {};
+
+  for (const resource of resources) {
+    const fields = Object.entries(resource.fields);
+    const name = resource.schemaName;
+    const readable = fields.filter(([, field]) => !field.writeOnly);
+    schemas[name] = objectSchema(readable, readable.map(([field]) => field));
+    const writable = fields.filter(([, field]) => !field.readOnly);
+    schemas[`${name}Create`] = objectSchema(writable, writable.filter(([, field]) => field.required).map(([field]) => field));
+    schemas[`${name}Update`] = objectSchema(writable.filter(([, field]) => !field.createOnly), []);
+
+    const ref = { $ref: `#/components/schemas/${name}` };
+    const recordResponse = (description: string) => ({ description, content: { "application/json": { schema: ref } } });
+    const operation = (op: ApiOperation, extra: Record<string, unknown>) => ({
+      tags: [resource.name],
+      operationId: `${op}${name}`,
+      summary: `${OPERATION_SUMMARIES[op]} ${resource.name}`,
+      description: `Escopo exigido: ${scopeFor(resource, op)}.`,
+      ...extra,
+    });
+    const body = (schema: string) => ({
+      required: true,
+      content: { "application/json": { schema: { $ref: `#/components/schemas/${schema}` } } },
+    });
+
+    const collection: Record<string, unknown> = {};
+    if (resource.operations.includes("list")) {
+      collection.get = operation("list", {
+        parameters: [
+          { name: "limit", in: "query", schema: { type: "integer", minimum: 1, maximum: MAX_LIMIT, default: DEFAULT_LIMIT } },
+          { name: "offset", in: "query", schema: { type: "integer", minimum: 0, default: 0 } },
+          ...Object.entries(resource.filters ?? {}).map(([filter, field]) => ({
+            name: filter,
+            in: "query",
+            description: field.description,
+            schema: fieldSchema(field),
+          })),
+        ],
+        responses: {
+          200: {
+            description: "Página de registros.",
+            content: {
+              "application/json": {
+                schema: {
+                  type: "object",
+                  required: ["data", "pagination"],
+                  properties: { data: { type: "array", items: ref }, pagination: { $ref: "#/components/schemas/Pagination" } },
+                },
+              },
+            },
+          },
+          400: errorResponse("Parâmetro inválido."),
+        },
+      });
+    }
+    if (resource.operations.includes("create")) {
+      collection.post = operation("create", {
+        requestBody: body(`${name}Create`),
+        responses: {
+          201: recordResponse("Registro criado."),
+          400: errorResponse("JSON inválido."),
+          409: errorResponse("Conflito com um registro existente."),
+          422: errorResponse("Dados inválidos."),
+        },
+      });
+    }
+
+    const item: Record<string, unknown> = {
+      parameters: [{ name: "id", in: "path", required: true, description: resource.idDescription, schema: { type: "string" } }],
+    };
+    if (resource.operations.includes("get")) {
+      item.get = operation("get", { responses: { 200: recordResponse("Registro."), 404: errorResponse("Não encontrado.") } });
+    }
+    if (resource.operations.includes("update")) {
+      item.patch = operation("update", {
+        requestBody: body(`${name}Update`),
+        responses: {
+          200: recordResponse("Registro alterado."),
+          400: errorResponse("JSON inválido."),
+          404: errorResponse("Não encontrado."),
+          409: errorResponse("Conflito com um registro existente."),
+          422: errorResponse("Dados inválidos."),
+        },
+      });
+    }
+    if (resource.operations.includes("delete")) {
+      item.delete = operation("delete", {
+        responses: { 204: { description: "Registro excluído." }, 404: errorResponse("Não encontrado."), 409: errorResponse("Registro em uso.") },
+      });
+    }
+
+    paths[`${API_BASE_PATH}/${resource.name}`] = collection;
+    paths[`${API_BASE_PATH}/${resource.name}/{id}`] = item;
+  }
+
+  return {
+    openapi: "3.0.3",
+    info: {
+      title: "RENOVAAPP API",
+      version: "1",
+      description:
+        "Administração de usuários, perfis, módulos e permissões. Autentique com um token criado em /conta/tokens " +
+        "(Authorization: Bearer <token>); o usuário do token precisa ter acesso à administração. " +
+        "Erros seguem o esquema Error.",
+    },
+    servers: [{ url: origin }],
+    security: [{ bearerAuth: [] }],
+    tags: resources.map((resource) => ({ name: resource.name, description: resource.description })),
+    paths,
+    components: {
+      securitySchemes: { bearerAuth: { type: "http", scheme: "bearer" } },
+      schemas,
+    },
+  };
+}
@@ -0,0 +1,147 @@
+// File: app/audit.server.ts
+// Registro de auditoria (tb_auditoria): logins, logouts e alterações feitas no painel admin.
+import type { D1Database } from "@cloudflare/workers-types";
+import { logError } from "~/request-context.server";
+
+export interface AuditActor {
+    userId: number | null;
+    userName: string | null;
+}
+
+export interface AuditEntry {
+    actor: AuditActor | null;
+    // Ex.: "login", "login.falha", "perfil.excluir", "usuario.editar".
+    action: string;
+    table?: string;
+    recordId?: string | number | null;
+    before?: unknown;
+    after?: unknown;
+}
+
+export interface AuditRecord {
+    id_auditoria: number;
+    dt_evento: string;
+    id_usuario: number | null;
+    ds_usuario: string | null;
+    ds_acao: string;
+    ds_tabela: string | null;
+    id_registro: string | null;
+    js_antes: string | null;
+    js_depois: string | null;
+    ds_ip: string | null;
+    ds_user_agent: string | null;
+}
+
+export interface AuditFilters {
+    usuario: string;
+    acao: string;
+    de: string;
+    ate: string;
+}
+
+function toJson(value: unknown) {
+    return value === undefined || value === null ? null : JSON.stringify(value);
+}
+
+/**
+ * Grava um evento de auditoria. Falhas ao gravar são apenas registradas no console:
+ * a auditoria não deve impedir o login nem desfazer uma alteração já concluída.
+ */
+export async function recordAudit(db: D1Database, request: Request, entry: AuditEntry) {
+    try {
+        await db.prepare(
+            `INSERT INTO tb_auditoria
+               (id_usuario, ds_usuario, ds_acao, ds_tabela, id_registro, js_antes, js_depois, ds_ip, ds_user_agent)
+             VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)`
+        ).bind(
+            entry.actor?.userId ?? null,
+            entry.actor?.userName ?? null,
+            entry.action,
+            entry.table ?? null,
+            entry.recordId === undefined || entry.recordId === null ? null : String(entry.recordId),
+            toJson(entry.before),
+            toJson(entry.after),
+            request.headers.get("CF-Connecting-IP"),
+            request.headers.get("User-Agent"),
+        ).run();
+    } catch (error) {
+        logError("Falha ao registrar auditoria", error, { action: entry.action });
+    }
+}
+
+export function parseAuditFilters(url: URL): AuditFilters {
+    return {
+        usuario: url.searchParams.get("usuario")?.trim() ?? "",
+        acao: url.searchParams.get("acao")?.trim() ?? "",
+        de: url.searchParams.get("de") ?? "",
+        ate: url.searchParams.get("ate") ?? "",
+    };
+}
+
+// Monta o WHERE a partir dos filtros; todos os valores vão como parâmetros.
+function auditWhere(filters: AuditFilters) {
+    const conditions: string[] = [];
+    const params: (string | number)[] = [];
+    if (filters.usuario) {
+        conditions.push("(ds_usuario LIKE ? OR CAST(id_usuario AS TEXT) = ?)");
+        params.push(`%${filters.usuario}%`, filters.usuario);
+    }
+    if (filters.acao) {
+        conditions.push("ds_acao = ?");
+        params.push(filters.acao);
+    }
+    if (/^\d{4}-\d{2}-\d{2}$/.test(filters.de)) {
+        conditions.push("dt_evento >= ?");
+        params.push(filters.de);
+    }
+    if (/^\d{4}-\d{2}-\d{2}$/.test(filters.ate)) {
+        conditions.push("dt_evento < date(?, '+1 day')");
+        params.push(filters.ate);
+    }
+    return { where: conditions.length ? `WHERE ${conditions.join(" AND ")}` : "", params };
+}
+
+export async function countAudit(db: D1Database, filters: AuditFilters) {
+    const { where, params } = auditWhere(filters);
+    const row = await db.prepare(`SELECT COUNT(*) AS total FROM tb_auditoria ${where}`).bind(...params).first<{ total: number }>();
+    return row?.total ?? 0;
+}
+
+export async function queryAudit(db: D1Database, filters: AuditFilters, limit: number, offset = 0) {
+    const { where, params } = auditWhere(filters);
+    const { results } = await db.prepare(
+        `SELECT * FROM tb_auditoria ${where} ORDER BY id_auditoria DESC LIMIT ? OFFSET ?`
+    ).bind(...params, limit, offset).all<AuditRecord>();
+    return results || [];
+}
+
+/**
+ * Próximo bloco da exportação: eventos com id menor que beforeId (null = desde o mais recente).
+ * A paginação pelo id não se desloca com eventos gravados durante a exportação, como o OFFSET.
+ */
+export async function queryAuditBefore(db: D1Database, filters: AuditFilters, limit: number, beforeId: number | null) {
+    const { where, params } = auditWhere(filters);
+    const keyset = beforeId === null ? "" : `${where ? " AND" : "WHERE"} id_auditoria < ?`;
+    const { results } = await db.prepare(
+        `SELECT * FROM tb_auditoria ${where}${keyset} ORDER BY id_auditoria DESC LIMIT ?`
+    ).bind(...params, ...(beforeId === null ? [] : [beforeId]), limit).all<AuditRecord>();
+    return results || [];
+}
+
+export async function listAuditActions(db: D1Database) {
+    const { results } = await db.prepare("SELECT DISTINCT ds_acao FROM tb_auditoria ORDER BY ds_acao").all<{ ds_acao: string }>();
+    return (results || []).map((row) => row.ds_acao);
+}
+
+/**
+ * Compacta eventos com mais de olderThanDays dias: mantém quem, o quê, quando e de onde,
+ * mas descarta os JSONs de antes/depois e o user agent, que ocupam a maior parte do espaço.
+ */
+export async function compactAudit(db: D1Database, olderThanDays: number) {
+    const { meta } = await db.prepare(
+        `UPDATE tb_auditoria SET js_antes = NULL, js_depois = NULL, ds_user_agent = NULL
+         WHERE dt_evento < datetime('now', ?)
+           AND (js_antes IS NOT NULL OR js_depois IS NOT NULL OR ds_user_agent IS NOT NULL)`
+    ).bind(`-${olderThanDays} days`).run();
+    return meta.changes;
+}
@@ -1,57 +1,296 @@
 // File: app/auth.server.ts
-// Correção: createCookieSessionStorage vem do adaptador do Cloudflare.
-import { createCookieSessionStorage } from "@remix-run/cloudflare"; 
-import { redirect, json } from "@remix-run/cloudflare";
+import { createCookie, redirect, json } from "@remix-run/cloudflare";
+import type { Session } from "@remix-run/cloudflare";
 import type { D1Database } from "@cloudflare/workers-types";
+import { hashPassword, verifyPassword } from "~/password.server";
+import { recordAudit } from "~/audit.server";
+import { clearFailures, failureDelay, getActiveLock, registerFailure, sleep, type LoginAttempt } from "~/lockout.server";
+import { getSessionStorage } from "~/session.server";
+import { rotateCsrfToken } from "~/csrf.server";
+import { PermissaoRepo, UsuarioRepo, type UsuarioLogin } from "~/repositories.server";
+import { verifySecondFactor } from "~/totp.server";
+import { setRequestUser } from "~/request-context.server";
 
-const sessionSecret = process.env.SESSION_SECRET;
-if (!sessionSecret && process.env.NODE_ENV === "production") {
-  throw new Error("A variável de ambiente SESSION_SECRET deve ser definida em produção.");
-}
+export { getSessionStorage } from "~/session.server";
+
+// Hash fixo usado quando a matrícula não existe (ver login()).
+const DUMMY_HASH = "$pbkdf2-sha256$v=1$i=100000$AAAAAAAAAAAAAAAAAAAAAA==$AAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAA=";
+
+/**
+ * Motivo da recusa do login, traduzido pela tela de login. Em "locked", lockedUntil traz o
+ * fim do bloqueio (UTC, formato do SQLite) quando conhecido. "expired" e "invalidCode" são
+ * da segunda etapa (código do aplicativo autenticador ou de recuperação).
+ */
+export type LoginError = "required" | "invalid" | "locked" | "expired" | "invalidCode";
+export type LoginFailure = { error: LoginError; lockedUntil?: string | null };
+
+export const TWO_FACTOR_LOGIN_PATH = "/login/2fa";
+// Tempo para digitar o código depois de acertar a senha.
+const PENDING_LOGIN_SECONDS = 5 * 60;
 
-export const sessionStorage = createCookieSessionStorage({
-  cookie: {
-    name: "__session",
+// Login com senha correta aguardando o segundo fator. Guarda só a identificação do usuário:
+// a sessão é criada apenas depois do código, em verifyLoginCode().
+const pendingLoginCookie = createCookie("__login2fa", {
     httpOnly: true,
-    path: "/",
+    path: "/login",
     sameSite: "lax",
-    secrets: [sessionSecret || "DEV_SECRET_FALLBACK"],
+    maxAge: PENDING_LOGIN_SECONDS,
+    secrets: [process.env.SESSION_SECRET || "DEV_SECRET_FALLBACK"],
     secure: process.env.NODE_ENV === "production",
-  },
 });
 
-export const { getSession, commitSession, destroySession } = sessionStorage;
+interface PendingLogin {
+    userId: number;
+    matricula: string;
+    // Expiração em milissegundos, conferida no servidor além do maxAge do cookie.
+    exp: number;
+}
 
-// ... A lógica de login e requireUserId permanece a mesma ...
-export async function login(db: D1Database, matricula: string, senha: string) {
-    if (!matricula || !senha) {
-        return json({ error: "Matrícula e senha são obrigatórios." }, { status: 400 });
-    }
-    const userStmt = db.prepare(
-        `SELECT u.idtb_usuario, u.nome_usuario, u.senha, p.ds_perfil 
-         FROM tb_usuario u 
-         LEFT JOIN tb_perfil p ON u.tb_perfil_idtb_perfil = p.idtb_perfil
-         WHERE u.matricula = ? AND u.st_usuario = 1 AND u.st_delete = 0`
-    ).bind(matricula);
-    const user = await userStmt.first<{ idtb_usuario: number; nome_usuario: string; senha: string; ds_perfil: string; }>();
-    if (!user || user.senha !== senha) {
-        return json({ error: "Matrícula ou senha inválida." }, { status: 401 });
+/** Login pendente de segundo fator, ou null se não houver ou já tiver expirado. */
+export async function getPendingLogin(request: Request): Promise<PendingLogin | null> {
+    const pending = await pendingLoginCookie.parse(request.headers.get("Cookie"));
+    if (!pending || typeof pending.userId !== "number" || typeof pending.matricula !== "string" || !(pending.exp > Date.now())) {
+        return null;
     }
+    return pending;
+}
+
+async function lockedResponse(request: Request, db: D1Database, matricula: string, lock: LoginAttempt) {
+    await recordAudit(db, request, {
+        actor: { userId: null, userName: matricula },
+        action: "login.bloqueado",
+        table: "tb_tentativa_login",
+        recordId: `${lock.ds_tipo}:${lock.ds_chave}`,
+    });
+    return json<LoginFailure>(
+        { error: "locked", lockedUntil: lock.dt_bloqueio_ate },
+        { status: lock.ds_tipo === "ip" ? 429 : 423 }
+    );
+}
+
+/**
+ * Registra uma tentativa errada (senha ou código) no bloqueio por tentativas e na auditoria.
+ * Devolve a resposta de bloqueio quando esta falha atingiu o limite, ou null.
+ */
+async function handleFailure(request: Request, db: D1Database, matricula: string, userId: number | null, action: string) {
+    const ip = request.headers.get("CF-Connecting-IP");
+    await recordAudit(db, request, {
+        actor: { userId, userName: matricula },
+        action,
+        table: "tb_usuario",
+        recordId: userId,
+    });
+    const { failures, lockedNow } = await registerFailure(db, matricula, ip);
+    // Atraso progressivo: cada falha consecutiva dobra o tempo de resposta.
+    await sleep(failureDelay(failures));
+    if (!lockedNow) {
+        return null;
+    }
+    await recordAudit(db, request, {
+        actor: { userId, userName: matricula },
+        action: "login.bloqueio",
+        table: "tb_tentativa_login",
+        recordId: `matricula:${matricula}`,
+    });
+    const lock = await getActiveLock(db, matricula, ip);
+    return json<LoginFailure>({ error: "locked", lockedUntil: lock?.dt_bloqueio_ate ?? null }, { status: 423 });
+}
+
+/** Cria a sessão do usuário autenticado e redireciona para a primeira tela. */
+async function startSession(request: Request, db: D1Database, user: UsuarioLogin, extraCookies: string[] = []) {
+    const { getSession, commitSession } = getSessionStorage(db);
     const session = await getSession();
     session.set("userId", user.idtb_usuario);
     session.set("userName", user.nome_usuario);
     session.set("userProfile", user.ds_perfil);
-    return redirect("/", {
-        headers: { "Set-Cookie": await commitSession(session) },
+    session.set("ip", request.headers.get("CF-Connecting-IP"));
+    session.set("userAgent", request.headers.get("User-Agent"));
+    session.set("mustChangePassword", user.st_troca_senha === 1);
+    // Perfil que exige verificação em duas etapas, com usuário ainda sem cadastro.
+    session.set("mustEnrollTotp", user.st_2fa_obrigatorio === 1 && user.st_totp !== 1);
+    if (user.ds_idioma) {
+        session.set("locale", user.ds_idioma);
+    }
+    const headers = new Headers();
+    headers.append("Set-Cookie", await commitSession(session));
+    // A sessão nova já traz outro token CSRF (derivado do id); o anônimo também é trocado,
+    // para um token obtido antes do login não voltar a valer depois do logout.
+    headers.append("Set-Cookie", await rotateCsrfToken());
+    for (const cookie of extraCookies) {
+        headers.append("Set-Cookie", cookie);
+    }
+    const next = user.st_troca_senha === 1 ? CHANGE_PASSWORD_PATH : user.st_2fa_obrigatorio === 1 && user.st_totp !== 1 ? TWO_FACTOR_SETUP_PATH : "/";
+    return redirect(next, { headers });
+}
+
+/**
+ * Primeira etapa do login (matrícula e senha). Se o usuário tiver a verificação em duas
+ * etapas ativa, não cria a sessão: grava o login pendente e leva à tela do código.
+ */
+export async function login(request: Request, db: D1Database, matricula: string, senha: string) {
+    if (!matricula || !senha) {
+        return json<LoginFailure>({ error: "required" }, { status: 400 });
+    }
+    const ip = request.headers.get("CF-Connecting-IP");
+    const lock = await getActiveLock(db, matricula, ip);
+    if (lock) {
+        return lockedResponse(request, db, matricula, lock);
+    }
+
+    const user = await UsuarioRepo.findForLogin(db, matricula);
+    // Sem usuário, ainda assim derivamos um hash para não revelar pelo tempo de resposta
+    // se a matrícula existe.
+    const { valid, needsRehash } = await verifyPassword(senha, user?.senha ?? DUMMY_HASH);
+    if (!user || !valid) {
+        const locked = await handleFailure(request, db, matricula, user?.idtb_usuario ?? null, "login.falha");
+        return locked ?? json<LoginFailure>({ error: "invalid" }, { status: 401 });
+    }
+    if (needsRehash) {
+        // Senhas legadas em texto puro (ou hashes com parâmetros antigos) são
+        // regravadas no formato atual no primeiro login bem-sucedido.
+        await UsuarioRepo.setPassword(db, user.idtb_usuario, await hashPassword(senha));
+    }
+    if (user.st_totp === 1) {
+        // As falhas só são zeradas depois do código: acertar a senha não libera novas tentativas.
+        const pending: PendingLogin = { userId: user.idtb_usuario, matricula, exp: Date.now() + PENDING_LOGIN_SECONDS * 1000 };
+        return redirect(TWO_FACTOR_LOGIN_PATH, {
+            headers: { "Set-Cookie": await pendingLoginCookie.serialize(pending) },
+        });
+    }
+    await clearFailures(db, matricula);
+    await recordAudit(db, request, {
+        actor: { userId: user.idtb_usuario, userName: user.nome_usuario },
+        action: "login",
+        table: "tb_usuario",
+        recordId: user.idtb_usuario,
+    });
+    return startSession(request, db, user);
+}
+
+/**
+ * Segunda etapa do login: confere o código do aplicativo autenticador ou um código de
+ * recuperação. Códigos errados contam para o bloqueio por tentativas como senhas erradas.
+ */
+export async function verifyLoginCode(request: Request, db: D1Database, code: string) {
+    const pending = await getPendingLogin(request);
+    if (!pending) {
+        return json<LoginFailure>({ error: "expired" }, { status: 401 });
+    }
+    if (!code.trim()) {
+        return json<LoginFailure>({ error: "invalidCode" }, { status: 400 });
+    }
+    const { matricula } = pending;
+    const lock = await getActiveLock(db, matricula, request.headers.get("CF-Connecting-IP"));
+    if (lock) {
+        return lockedResponse(request, db, matricula, lock);
+    }
+
+    const method = await verifySecondFactor(db, pending.userId, code);
+    if (!method) {
+        const locked = await handleFailure(request, db, matricula, pending.userId, "login.2fa.falha");
+        return locked ?? json<LoginFailure>({ error: "invalidCode" }, { status: 401 });
+    }
+    // Confere de novo a situação do usuário, que pode ter sido desativado durante a espera.
+    const user = await UsuarioRepo.findForLogin(db, matricula);
+    if (!user || user.idtb_usuario !== pending.userId) {
+        return json<LoginFailure>({ error: "expired" }, { status: 401 });
+    }
+    await clearFailures(db, matricula);
+    await recordAudit(db, request, {
+        actor: { userId: user.idtb_usuario, userName: user.nome_usuario },
+        action: "login",
+        table: "tb_usuario",
+        recordId: user.idtb_usuario,
+        after: { fator: method },
     });
+    return startSession(request, db, user, [await pendingLoginCookie.serialize("", { maxAge: 0 })]);
 }
 
-export async function requireUserId(request: Request) {
-    const session = await getSession(request.headers.get("Cookie"));
+export const CHANGE_PASSWORD_PATH = "/conta/senha";
+export const TWO_FACTOR_SETUP_PATH = "/conta/2fa";
+
+// Enquanto a troca de senha for obrigatória, qualquer rota protegida leva à tela de troca.
+// Depois dela, se o perfil exigir verificação em duas etapas, leva ao cadastro do autenticador.
+function enforceAccountSetup(request: Request, session: Session) {
+    const pathname = new URL(request.url).pathname.replace(/\.data$/, "");
+    if (session.get("mustChangePassword")) {
+        if (pathname !== CHANGE_PASSWORD_PATH) {
+            throw redirect(CHANGE_PASSWORD_PATH);
+        }
+    } else if (session.get("mustEnrollTotp") && pathname !== TWO_FACTOR_SETUP_PATH) {
+        throw redirect(TWO_FACTOR_SETUP_PATH);
+    }
+}
+
+export async function requireUserId(request: Request, db: D1Database) {
+    const session = await getSessionStorage(db).getSession(request.headers.get("Cookie"));
     const userId = session.get("userId");
     if (!userId) {
         throw redirect("/login");
     }
+    setRequestUser(userId);
+    enforceAccountSetup(request, session);
     return userId;
 }
 
+export interface SessionUser {
+    userId: number;
+    userName: string;
+    userProfile: string;
+    sessionId: string;
+}
+
+// Navegações (GET) sem sessão vão para o login; demais requisições recebem 401.
+function unauthenticated(request: Request): never {
+    if (request.method === "GET" || request.method === "HEAD") {
+        throw redirect("/login");
+    }
+    throw new Response("Não autenticado.", { status: 401, statusText: "Unauthorized" });
+}
+
+function forbidden(): never {
+    throw new Response("Acesso negado.", { status: 403, statusText: "Forbidden" });
+}
+
+export async function requireUser(request: Request, db: D1Database): Promise<SessionUser> {
+    const session = await getSessionStorage(db).getSession(request.headers.get("Cookie"));
+    const userId = session.get("userId");
+    if (!userId) {
+        unauthenticated(request);
+    }
+    setRequestUser(userId);
+    enforceAccountSetup(request, session);
+    return {
+        userId,
+        userName: session.get("userName") || "Usuário",
+        userProfile: session.get("userProfile") || "",
+        sessionId: session.id,
+    };
+}
+
+/**
+ * Verifica se o perfil do usuário tem uma linha em tb_permissao para o módulo. O módulo é
+ * identificado pelo slug (ex.: "admin", "database") ou pelo id_modulo. Usuários inativos
+ * ou excluídos nunca têm permissão.
+ */
+export async function hasPermission(db: D1Database, userId: number, moduleKey: string | number) {
+    return PermissaoRepo.userHasModule(db, userId, moduleKey);
+}
+
+export async function requirePermission(request: Request, db: D1Database, moduleKey: string | number) {
+    const user = await requireUser(request, db);
+    if (!(await hasPermission(db, user.userId, moduleKey))) {
+        forbidden();
+    }
+    return user;
+}
+
+/** Exige que o perfil atual do usuário (lido do banco, não da sessão) seja um dos informados. */
+export async function requireProfile(request: Request, db: D1Database, ...profiles: string[]) {
+    const user = await requireUser(request, db);
+    const profile = await UsuarioRepo.activeProfileName(db, user.userId);
+    if (!profile || !profiles.includes(profile)) {
+        forbidden();
+    }
+    return user;
+}
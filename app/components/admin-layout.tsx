@@ -0,0 +1,54 @@
+// File: app/components/admin-layout.tsx
+import { NavLink, Link } from "react-router";
+import { LanguageSwitcher } from "~/components/language-switcher";
+import { useTranslation, type MessageKey } from "~/i18n";
+
+// Seções do painel administrativo exibidas na barra lateral.
+const sections: { to: string; label: MessageKey }[] = [
+    { to: "/admin", label: "admin.nav.profiles" },
+    { to: "/admin/usuarios", label: "admin.nav.users" },
+    { to: "/admin/permissoes", label: "admin.nav.permissions" },
+    { to: "/admin/auditoria", label: "admin.nav.audit" },
+    { to: "/admin/bloqueios", label: "admin.nav.lockouts" },
+    { to: "/admin/tarefas", label: "admin.nav.jobs" },
+];
+
+export function AdminLayout({ title, children }: { title: string; children: React.ReactNode }) {
+    const { t } = useTranslation();
+    return (
+        <div className="flex min-h-screen bg-gray-100 dark:bg-gray-900">
+            {/* Sidebar */}
+            <aside className="w-64 bg-white dark:bg-gray-800 shadow-md">
+                <div className="p-6">
+                    <h2 className="text-xl font-bold text-gray-800 dark:text-white">{t("admin.title")}</h2>
+                </div>
+                <nav>
+                    {sections.map((section) => (
+                        <NavLink
+                            key={section.to}
+                            to={section.to}
+                            end
+                            className={({ isActive }) =>
+                                isActive
+                                    ? "block px-6 py-3 text-gray-700 dark:text-gray-200 bg-gray-200 dark:bg-gray-700 font-bold"
+                                    : "block px-6 py-3 text-gray-600 dark:text-gray-300 hover:bg-gray-200 dark:hover:bg-gray-700"
+                            }
+                        >
+                            {t(section.label)}
+                        </NavLink>
+                    ))}
+                    <Link to="/" className="block mt-4 px-6 py-3 text-gray-600 dark:text-gray-300 hover:bg-gray-200 dark:hover:bg-gray-700">
+                        {t("admin.nav.backToApp")}
+                    </Link>
+                </nav>
+                <LanguageSwitcher className="px-6 py-4" />
+            </aside>
+
+            {/* Main Content */}
+            <main className="flex-1 p-8">
+                <h1 className="text-3xl font-bold mb-6 text-gray-800 dark:text-white">{title}</h1>
+                {children}
+            </main>
+        </div>
+    );
+}
@@ -0,0 +1,15 @@
+// File: app/components/csrf-input.tsx
+// Token CSRF da sessão do navegador, emitido pelo loader da rota raiz (ver csrf.server.ts).
+// Todo <Form method="post"> inclui <CsrfInput />; envios com useSubmit usam useCsrfToken().
+import { useRouteLoaderData } from "react-router";
+
+export const CSRF_FIELD = "_csrf";
+
+export function useCsrfToken() {
+    const data = useRouteLoaderData("root") as { csrfToken?: string } | undefined;
+    return data?.csrfToken ?? "";
+}
+
+export function CsrfInput() {
+    return <input type="hidden" name={CSRF_FIELD} value={useCsrfToken()} />;
+}
@@ -0,0 +1,34 @@
+// File: app/components/language-switcher.tsx
+import { Form, useLocation } from "react-router";
+import { LOCALE_NAMES, LOCALES, useTranslation } from "~/i18n";
+import { CsrfInput } from "~/components/csrf-input";
+
+// O envio recarrega a página inteira: o idioma muda todos os textos, inclusive o <html lang>.
+export function LanguageSwitcher({ className = "" }: { className?: string }) {
+    const { locale, t } = useTranslation();
+    const location = useLocation();
+
+    return (
+        <Form method="post" action="/idioma" reloadDocument className={`flex items-center gap-2 ${className}`}>
+            <CsrfInput />
+            <input type="hidden" name="redirectTo" value={location.pathname + location.search} />
+            <label htmlFor="locale" className="sr-only">{t("language.label")}</label>
+            <select
+                id="locale"
+                name="locale"
+                key={locale}
+                defaultValue={locale}
+                title={t("language.label")}
+                onChange={(e) => e.currentTarget.form?.requestSubmit()}
+                className="px-2 py-1 text-sm text-gray-700 bg-white border border-gray-300 rounded-md dark:bg-gray-700 dark:text-gray-200 dark:border-gray-600"
+            >
+                {LOCALES.map((code) => (
+                    <option key={code} value={code}>{LOCALE_NAMES[code]}</option>
+                ))}
+            </select>
+            <noscript>
+                <button type="submit" className="px-2 py-1 text-sm text-gray-700 bg-gray-200 rounded-md">{t("language.submit")}</button>
+            </noscript>
+        </Form>
+    );
+}
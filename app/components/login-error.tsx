@@ -0,0 +1,33 @@
+// File: app/components/login-error.tsx
+// Mensagem de recusa do login, usada nas duas etapas (senha e código).
+import type { LoginError, LoginFailure } from "~/auth.server";
+import { useTranslation, type MessageKey } from "~/i18n";
+
+const ERROR_MESSAGES: Record<Exclude<LoginError, "locked">, MessageKey> = {
+    required: "login.error.required",
+    invalid: "login.error.invalid",
+    expired: "login.error.expired",
+    invalidCode: "login.error.invalidCode",
+};
+
+export function LoginErrorAlert({ failure }: { failure: LoginFailure }) {
+    const { t, formatDate } = useTranslation();
+
+    if (failure.error === "locked") {
+        return (
+            <div className="p-3 text-sm text-yellow-800 bg-yellow-100 border-l-4 border-yellow-500 rounded-md dark:bg-yellow-900/30 dark:text-yellow-200" role="alert">
+                <p className="font-bold">{t("login.locked.title")}</p>
+                <p>
+                    {failure.lockedUntil
+                        ? t("login.error.lockedUntil", { time: formatDate(failure.lockedUntil, { timeStyle: "short" }) })
+                        : t("login.error.locked")}
+                </p>
+            </div>
+        );
+    }
+    return (
+        <p className="text-sm text-red-500" role="alert">
+            {t(ERROR_MESSAGES[failure.error])}
+        </p>
+    );
+}
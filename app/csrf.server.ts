@@ -0,0 +1,113 @@
+// File: app/csrf.server.ts
+// Proteção contra CSRF. Com sessão, o token é derivado do id da sessão (HMAC com o segredo
+// do servidor): muda a cada login e deixa de valer quando a sessão é encerrada. Sem sessão
+// (login, seletor de idioma), vale o modelo "double submit": um token aleatório num cookie
+// assinado. O loader raiz entrega o token à página e toda action acionada por formulário
+// chama validateCsrf(). As rotas /api/v1 não usam cookies (autenticam por token Bearer) e
+// ficam de fora.
+import { createCookie } from "@remix-run/cloudflare";
+import type { D1Database } from "@cloudflare/workers-types";
+import { recordAudit } from "~/audit.server";
+import { CSRF_FIELD } from "~/components/csrf-input";
+import { getSessionId, getSessionStorage } from "~/session.server";
+
+const secret = process.env.SESSION_SECRET || "DEV_SECRET_FALLBACK";
+
+// Sem maxAge: o cookie dura enquanto o navegador estiver aberto.
+const csrfCookie = createCookie("__csrf", {
+  httpOnly: true,
+  path: "/",
+  sameSite: "lax",
+  secrets: [secret],
+  secure: process.env.NODE_ENV === "production",
+});
+
+function newToken() {
+  const bytes = crypto.getRandomValues(new Uint8Array(32));
+  return Array.from(bytes, (byte) => byte.toString(16).padStart(2, "0")).join("");
+}
+
+// Comparação em tempo constante, para não revelar o token pelo tempo de resposta.
+function safeEqual(a: string, b: string) {
+  if (a.length !== b.length) return false;
+  let diff = 0;
+  for (let i = 0; i < a.length; i++) {
+    diff |= a.charCodeAt(i) ^ b.charCodeAt(i);
+  }
+  return diff === 0;
+}
+
+let hmacKey: Promise<CryptoKey> | null = null;
+
+async function sessionToken(sessionId: string) {
+  hmacKey ??= crypto.subtle.importKey("raw", new TextEncoder().encode(secret), { name: "HMAC", hash: "SHA-256" }, false, ["sign"]);
+  const signature = await crypto.subtle.sign("HMAC", await hmacKey, new TextEncoder().encode(`csrf:${sessionId}`));
+  return Array.from(new Uint8Array(signature), (byte) => byte.toString(16).padStart(2, "0")).join("");
+}
+
+/**
+ * Token esperado para a requisição: o derivado da sessão, se houver uma; senão o do
+ * cookie anônimo (null se ainda não existir).
+ */
+async function expectedToken(request: Request) {
+  const sessionId = await getSessionId(request);
+  if (sessionId) return sessionToken(sessionId);
+  const current = await csrfCookie.parse(request.headers.get("Cookie"));
+  return typeof current === "string" && current ? current : null;
+}
+
+/**
+ * Token para os formulários da página. Sem sessão e sem cookie válido, gera um token
+ * anônimo e devolve o Set-Cookie que o loader deve incluir na resposta.
+ */
+export async function issueCsrfToken(request: Request) {
+  const sessionId = await getSessionId(request);
+  if (sessionId) {
+    return { token: await sessionToken(sessionId), setCookie: null };
+  }
+  const current = await csrfCookie.parse(request.headers.get("Cookie"));
+  if (typeof current === "string" && current) {
+    return { token: current, setCookie: null };
+  }
+  const token = newToken();
+  return { token, setCookie: await csrfCookie.serialize(token) };
+}
+
+/**
+ * Set-Cookie com um token anônimo novo. Usado no login, para o token de antes dele não
+ * continuar valendo depois do logout.
+ */
+export async function rotateCsrfToken() {
+  return csrfCookie.serialize(newToken());
+}
+
+/**
+ * Exige que o formulário traga o token da sessão. Caso contrário, registra "csrf.falha"
+ * na auditoria e interrompe a action com 403.
+ */
+export async function validateCsrf(request: Request, db: D1Database, formData: FormData) {
+  const cookieHeader = request.headers.get("Cookie");
+  const expected = await expectedToken(request);
+  const received = formData.get(CSRF_FIELD);
+  const reason =
+    !expected ? "cookie ausente ou inválido" :
+    typeof received !== "string" || !received ? "token ausente" :
+    !safeEqual(received, expected) ? "token inválido" :
+    null;
+  if (!reason) return;
+
+  const session = await getSessionStorage(db).getSession(cookieHeader);
+  await recordAudit(db, request, {
+    actor: session.has("userId") ? { userId: session.get("userId"), userName: session.get("userName") ?? null } : null,
+    action: "csrf.falha",
+    after: {
+      rota: new URL(request.url).pathname.replace(/\.data$/, ""),
+      motivo: reason,
+      origem: request.headers.get("Origin") ?? request.headers.get("Referer"),
+    },
+  });
+  throw new Response(`Falha na verificação CSRF (${reason}). Recarregue a página e tente novamente.`, {
+    status: 403,
+    statusText: "Forbidden",
+  });
+}
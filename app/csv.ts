@@ -0,0 +1,97 @@
+// File: app/csv.ts
+// Geração de CSV conforme a RFC 4180 (separador vírgula, quebras de linha CRLF).
+
+// Marca de ordem de bytes UTF-8: faz o Excel reconhecer a acentuação ao abrir o arquivo.
+export const CSV_BOM = "﻿";
+
+// Texto que o Excel e afins interpretariam como fórmula (injeção de fórmula em CSV).
+const FORMULA_START = /^[=+\-@\t\r]/;
+
+export interface CsvOptions {
+  // Prefixa com "'" os textos que começam como fórmula. Desligado só quando o CSV é lido de
+  // volta pela aplicação (ex.: etapas da importação), para os valores não mudarem.
+  escapeFormulas?: boolean;
+}
+
+export function csvField(value: unknown, { escapeFormulas = true }: CsvOptions = {}) {
+  if (value === null || value === undefined) return "";
+  let text = typeof value === "object" ? JSON.stringify(value) : String(value);
+  // Só textos: números negativos continuam números na planilha.
+  if (escapeFormulas && typeof value === "string" && FORMULA_START.test(text)) {
+    text = `'${text}`;
+  }
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+export function csvRow(values: unknown[], options?: CsvOptions) {
+  return values.map((value) => csvField(value, options)).join(",") + "\r\n";
+}
+
+// Planilhas salvas pelo Excel em português usam ";" como separador.
+function detectDelimiter(text: string) {
+  const firstLine = text.slice(0, text.search(/\r?\n|$/));
+  const count = (char: string) => firstLine.split(char).length - 1;
+  return count(";") > count(",") ? ";" : ",";
+}
+
+export interface CsvRecord {
+  // Linha do arquivo em que o registro começa (a partir de 1), contando linhas vazias e as
+  // quebras dentro de campos entre aspas.
+  line: number;
+  fields: string[];
+}
+
+/**
+ * Lê um CSV (RFC 4180) e retorna os registros com a linha de origem de cada um. Aceita
+ * separador "," ou ";" (detectado pelo cabeçalho), BOM inicial e quebras de linha LF ou CRLF.
+ * Linhas totalmente vazias são ignoradas, mas continuam contando na numeração.
+ */
+export function parseCsvRecords(input: string, delimiter = detectDelimiter(input)) {
+  const text = input.startsWith(CSV_BOM) ? input.slice(CSV_BOM.length) : input;
+  const records: CsvRecord[] = [];
+  let row: string[] = [];
+  let field = "";
+  let quoted = false;
+  let line = 1;
+  let startLine = 1;
+
+  const endRow = () => {
+    row.push(field);
+    if (row.length > 1 || row[0] !== "") records.push({ line: startLine, fields: row });
+    row = [];
+    field = "";
+  };
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        if (char === "\n" || (char === "\r" && text[i + 1] !== "\n")) line++;
+        field += char;
+      }
+    } else if (char === '"' && field === "") {
+      quoted = true;
+    } else if (char === delimiter) {
+      row.push(field);
+      field = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && text[i + 1] === "\n") i++;
+      endRow();
+      startLine = ++line;
+    } else {
+      field += char;
+    }
+  }
+  if (field !== "" || row.length > 0) endRow();
+  return records;
+}
+
+/** Como parseCsvRecords(), só com os campos de cada linha. */
+export function parseCsv(input: string, delimiter?: string) {
+  return parseCsvRecords(input, delimiter).map((record) => record.fields);
+}
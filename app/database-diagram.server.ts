@@ -0,0 +1,180 @@
+// File: app/database-diagram.server.ts
+// Diagrama entidade-relacionamento do banco, gerado como SVG no servidor a partir de
+// PRAGMA table_info e PRAGMA foreign_key_list. As tabelas são dispostas em colunas pela
+// profundidade das chaves estrangeiras: tabelas referenciadas ficam à esquerda das que
+// as referenciam.
+import type { D1Database } from "@cloudflare/workers-types";
+import { getForeignKeys, getTableSchema, listTables, type ForeignKey, type TableSchema } from "~/database-explorer.server";
+
+const CHAR_WIDTH = 7.2;
+const HEADER_HEIGHT = 26;
+const ROW_HEIGHT = 18;
+const PADDING = 10;
+const COLUMN_GAP = 90;
+const ROW_GAP = 30;
+const MARGIN = 20;
+
+interface DiagramTable {
+  name: string;
+  columns: TableSchema[];
+  foreignKeys: ForeignKey[];
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+function escapeXml(text: string) {
+  return text.replace(/[&<>"']/g, (char) => `&#${char.charCodeAt(0)};`);
+}
+
+// Tabelas internas do SQLite e do D1 não entram no diagrama.
+function isInternalTable(name: string) {
+  return name.startsWith("sqlite_") || name.startsWith("_cf_");
+}
+
+// Profundidade = 1 + maior profundidade entre as tabelas referenciadas. Autorreferências
+// e ciclos são ignorados.
+function computeLayers(tables: Map<string, DiagramTable>) {
+  const layers = new Map<string, number>();
+  const visiting = new Set<string>();
+  const layerOf = (name: string): number => {
+    const known = layers.get(name);
+    if (known !== undefined) return known;
+    if (visiting.has(name)) return 0;
+    visiting.add(name);
+    const parents = (tables.get(name)?.foreignKeys ?? [])
+      .map((fk) => fk.table)
+      .filter((parent) => parent !== name && tables.has(parent));
+    const layer = parents.length === 0 ? 0 : 1 + Math.max(...parents.map(layerOf));
+    visiting.delete(name);
+    layers.set(name, layer);
+    return layer;
+  };
+  for (const name of tables.keys()) layerOf(name);
+  return layers;
+}
+
+function columnLabel(col: TableSchema, fkColumns: Set<string>) {
+  const tags = [col.pk > 0 && "PK", fkColumns.has(col.name) && "FK"].filter(Boolean).join(",");
+  return `${col.name}${col.type ? ` ${col.type}` : ""}${tags ? `  [${tags}]` : ""}`;
+}
+
+export async function buildErDiagram(db: D1Database) {
+  const names = (await listTables(db)).filter((name) => !isInternalTable(name));
+  const tables = new Map<string, DiagramTable>();
+  for (const name of names) {
+    const [columns, foreignKeys] = await Promise.all([getTableSchema(db, name), getForeignKeys(db, name)]);
+    const fkColumns = new Set(foreignKeys.map((fk) => fk.from));
+    const longest = Math.max(name.length + 2, ...columns.map((col) => columnLabel(col, fkColumns).length));
+    tables.set(name, {
+      name,
+      columns,
+      foreignKeys,
+      x: 0,
+      y: 0,
+      width: Math.ceil(longest * CHAR_WIDTH) + PADDING * 2,
+      height: HEADER_HEIGHT + columns.length * ROW_HEIGHT + PADDING / 2,
+    });
+  }
+
+  // Posiciona cada camada como uma coluna, com as tabelas em ordem alfabética. Tabelas
+  // sem nenhum relacionamento vão para uma coluna à parte, à direita.
+  const layers = computeLayers(tables);
+  const related = new Set<string>();
+  for (const table of tables.values()) {
+    for (const fk of table.foreignKeys) {
+      if (fk.table === table.name || !tables.has(fk.table)) continue;
+      related.add(table.name);
+      related.add(fk.table);
+    }
+  }
+  const isolatedLayer = related.size > 0 ? Math.max(...[...related].map((name) => layers.get(name) ?? 0)) + 1 : 0;
+  for (const name of tables.keys()) {
+    if (!related.has(name)) layers.set(name, isolatedLayer);
+  }
+  const layerCount = Math.max(0, ...layers.values()) + 1;
+  let x = MARGIN;
+  let height = 0;
+  for (let layer = 0; layer < layerCount; layer++) {
+    const members = [...tables.values()].filter((table) => layers.get(table.name) === layer);
+    let y = MARGIN;
+    for (const table of members) {
+      table.x = x;
+      table.y = y;
+      y += table.height + ROW_GAP;
+    }
+    height = Math.max(height, y);
+    x += Math.max(0, ...members.map((table) => table.width)) + COLUMN_GAP;
+  }
+  const width = Math.max(x - COLUMN_GAP + MARGIN, 200);
+  height = Math.max(height - ROW_GAP + MARGIN, 100);
+
+  const rowY = (table: DiagramTable, column: string | null) => {
+    // Referência implícita aponta para a chave primária (ou para o cabeçalho, se não houver).
+    const index = column === null
+      ? table.columns.findIndex((col) => col.pk > 0)
+      : table.columns.findIndex((col) => col.name === column);
+    return index === -1 ? table.y + HEADER_HEIGHT / 2 : table.y + HEADER_HEIGHT + index * ROW_HEIGHT + ROW_HEIGHT / 2;
+  };
+
+  const edges: string[] = [];
+  for (const table of tables.values()) {
+    for (const fk of table.foreignKeys) {
+      const parent = tables.get(fk.table);
+      if (!parent) continue;
+      const y1 = rowY(table, fk.from);
+      const y2 = rowY(parent, fk.to);
+      let path: string;
+      if (parent === table) {
+        // Autorreferência: laço pelo lado direito.
+        const right = table.x + table.width;
+        path = `M${right},${y1} C${right + 40},${y1} ${right + 40},${y2} ${right},${y2}`;
+      } else {
+        // Da tabela que referencia até a referenciada, saindo pelo lado mais próximo.
+        const childLeft = parent.x < table.x;
+        const x1 = childLeft ? table.x : table.x + table.width;
+        const x2 = childLeft ? parent.x + parent.width : parent.x;
+        const bend = (childLeft ? -1 : 1) * Math.max(30, Math.abs(x1 - x2) / 2);
+        path = `M${x1},${y1} C${x1 + bend},${y1} ${x2 - bend},${y2} ${x2},${y2}`;
+      }
+      edges.push(
+        `<path d="${path}" class="edge" marker-end="url(#seta)"><title>${escapeXml(
+          `${table.name}.${fk.from} → ${fk.table}.${fk.to ?? "(chave primária)"}`
+        )}</title></path>`
+      );
+    }
+  }
+
+  const boxes = [...tables.values()].map((table) => {
+    const fkColumns = new Set(table.foreignKeys.map((fk) => fk.from));
+    const rows = table.columns.map((col, index) => {
+      const y = table.y + HEADER_HEIGHT + index * ROW_HEIGHT + ROW_HEIGHT * 0.72;
+      const cls = col.pk > 0 ? "pk" : fkColumns.has(col.name) ? "fk" : "col";
+      return `<text x="${table.x + PADDING}" y="${y}" class="${cls}">${escapeXml(columnLabel(col, fkColumns))}</text>`;
+    });
+    return [
+      `<g>`,
+      `<rect x="${table.x}" y="${table.y}" width="${table.width}" height="${table.height}" rx="6" class="box"/>`,
+      `<rect x="${table.x}" y="${table.y}" width="${table.width}" height="${HEADER_HEIGHT}" rx="6" class="header"/>`,
+      `<text x="${table.x + PADDING}" y="${table.y + HEADER_HEIGHT * 0.68}" class="title">${escapeXml(table.name)}</text>`,
+      ...rows,
+      `</g>`,
+    ].join("");
+  });
+
+  return [
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" viewBox="0 0 ${width} ${height}">`,
+    `<style>`,
+    `text{font-family:ui-monospace,Menlo,Consolas,monospace;font-size:12px;fill:#1f2937}`,
+    `.box{fill:#fff;stroke:#9ca3af}.header{fill:#dbeafe;stroke:#9ca3af}.title{font-weight:bold;fill:#1e3a8a}`,
+    `.pk{font-weight:bold}.fk{fill:#7c3aed}.edge{fill:none;stroke:#7c3aed;stroke-width:1.5}`,
+    `</style>`,
+    `<defs><marker id="seta" viewBox="0 0 10 10" refX="10" refY="5" markerWidth="8" markerHeight="8" orient="auto-start-reverse">`,
+    `<path d="M0,0 L10,5 L0,10 z" fill="#7c3aed"/></marker></defs>`,
+    `<rect width="100%" height="100%" fill="#f9fafb"/>`,
+    ...edges,
+    ...boxes,
+    `</svg>`,
+  ].join("\n");
+}
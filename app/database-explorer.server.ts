@@ -0,0 +1,551 @@
+// File: app/database-explorer.server.ts
+// Consultas do Database Explorer. Nomes de tabela e coluna não podem ser parâmetros no
+// SQL, então só entram na consulta depois de validados contra sqlite_master e
+// PRAGMA table_info; valores de filtro sempre vão como parâmetros (bind).
+import type { D1Database } from "@cloudflare/workers-types";
+import type { LocalizedMessage } from "~/i18n";
+
+export interface TableSchema {
+  cid: number;
+  name: string;
+  type: string;
+  notnull: number;
+  dflt_value: string | null;
+  pk: number;
+}
+
+export type FilterOperator = "eq" | "contains" | "null" | "notnull" | "range";
+
+export interface ColumnFilter {
+  column: string;
+  op: FilterOperator;
+  value: string;
+  // Limite superior, usado apenas por "range" (value é o inferior). Qualquer um pode ficar vazio.
+  value2: string;
+}
+
+export interface GridState {
+  page: number;
+  pageSize: number;
+  sort: string | null;
+  dir: "asc" | "desc";
+  filters: ColumnFilter[];
+}
+
+export type ColumnValue = string | number | null;
+
+export const PAGE_SIZES = [10, 25, 50, 100];
+const FILTER_OPERATORS: FilterOperator[] = ["eq", "contains", "null", "notnull", "range"];
+
+export function quoteIdentifier(name: string) {
+  return `"${name.replace(/"/g, '""')}"`;
+}
+
+/** Colunas da chave primária, na ordem da chave. */
+export function primaryKeyColumns(schema: TableSchema[]) {
+  return schema.filter((col) => col.pk > 0).sort((a, b) => a.pk - b.pk).map((col) => col.name);
+}
+
+// "INTEGER PRIMARY KEY" é apelido do rowid e é gerado automaticamente quando omitido.
+export function isRowidAlias(col: TableSchema, schema: TableSchema[]) {
+  return col.pk > 0 && col.type.toUpperCase() === "INTEGER" && schema.filter((c) => c.pk > 0).length === 1;
+}
+
+/** Converte o texto digitado conforme a afinidade de tipo da coluna no SQLite. */
+export function parseColumnValue(col: TableSchema, text: string): { value: ColumnValue } | { error: LocalizedMessage } {
+  const type = col.type.toUpperCase();
+  if (type.includes("INT")) {
+    return /^[+-]?\d+$/.test(text.trim()) && Number.isSafeInteger(Number(text))
+      ? { value: Number(text) }
+      : { error: { key: "database.value.notInteger", params: { column: col.name, value: text } } };
+  }
+  if (type.includes("REAL") || type.includes("FLOA") || type.includes("DOUB") || type.includes("NUM") || type.includes("DEC")) {
+    const number = Number(text.trim().replace(",", "."));
+    return text.trim() !== "" && Number.isFinite(number)
+      ? { value: number }
+      : { error: { key: "database.value.notNumber", params: { column: col.name, value: text } } };
+  }
+  return { value: text };
+}
+
+export async function listTables(db: D1Database) {
+  const { results } = await db.prepare(
+    "SELECT name FROM sqlite_master WHERE type='table' ORDER BY name"
+  ).all<{ name: string }>();
+  return (results || []).map((row) => row.name);
+}
+
+export async function getTableSchema(db: D1Database, table: string) {
+  const { results } = await db.prepare(`PRAGMA table_info(${quoteIdentifier(table)})`).all<TableSchema>();
+  return results || [];
+}
+
+export interface IndexDetails {
+  name: string;
+  unique: boolean;
+  // "c" = CREATE INDEX, "u" = UNIQUE, "pk" = PRIMARY KEY.
+  origin: string;
+  partial: boolean;
+  columns: string[];
+}
+
+export interface ForeignKey {
+  id: number;
+  seq: number;
+  table: string;
+  from: string;
+  // Nulo quando a referência aponta implicitamente para a chave primária da outra tabela.
+  to: string | null;
+  on_update: string;
+  on_delete: string;
+}
+
+export interface SchemaObject {
+  name: string;
+  sql: string | null;
+}
+
+export interface TableDetails {
+  createSql: string | null;
+  indexes: IndexDetails[];
+  foreignKeys: ForeignKey[];
+  triggers: SchemaObject[];
+  // Visões cujo SQL cita a tabela.
+  views: SchemaObject[];
+}
+
+export async function getForeignKeys(db: D1Database, table: string) {
+  const { results } = await db.prepare(`PRAGMA foreign_key_list(${quoteIdentifier(table)})`).all<ForeignKey>();
+  return results || [];
+}
+
+/** Índices, chaves estrangeiras, gatilhos, visões e a instrução CREATE da tabela. */
+export async function getTableDetails(db: D1Database, table: string): Promise<TableDetails> {
+  const [master, indexList, foreignKeys, views] = await Promise.all([
+    db.prepare("SELECT type, name, sql FROM sqlite_master WHERE tbl_name = ? AND type IN ('table', 'trigger')")
+      .bind(table)
+      .all<{ type: string; name: string; sql: string | null }>(),
+    db.prepare(`PRAGMA index_list(${quoteIdentifier(table)})`)
+      .all<{ name: string; unique: number; origin: string; partial: number }>(),
+    getForeignKeys(db, table),
+    db.prepare("SELECT name, sql FROM sqlite_master WHERE type = 'view' ORDER BY name").all<SchemaObject>(),
+  ]);
+
+  const indexes = await Promise.all((indexList.results || []).map(async (index) => {
+    const { results } = await db.prepare(`PRAGMA index_info(${quoteIdentifier(index.name)})`)
+      .all<{ seqno: number; name: string | null }>();
+    return {
+      name: index.name,
+      unique: Boolean(index.unique),
+      origin: index.origin,
+      partial: Boolean(index.partial),
+      // Colunas de índices sobre expressões vêm sem nome.
+      columns: (results || []).sort((a, b) => a.seqno - b.seqno).map((col) => col.name ?? "(expressão)"),
+    };
+  }));
+
+  const escapedName = table.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+  const mentionsTable = new RegExp(`\\b${escapedName}\\b`, "i");
+  const rows = master.results || [];
+  return {
+    createSql: rows.find((row) => row.type === "table")?.sql ?? null,
+    indexes,
+    foreignKeys: foreignKeys.sort((a, b) => a.id - b.id || a.seq - b.seq),
+    triggers: rows.filter((row) => row.type === "trigger").map(({ name, sql }) => ({ name, sql })),
+    views: (views.results || []).filter((view) => view.sql && mentionsTable.test(view.sql)),
+  };
+}
+
+/**
+ * Lê paginação, ordenação e filtros da URL. Colunas que não existem no esquema são
+ * ignoradas. Os filtros usam os parâmetros op:<coluna>, v:<coluna> e v2:<coluna>.
+ */
+export function parseGridState(url: URL, schema: TableSchema[]): GridState {
+  const columns = new Set(schema.map((col) => col.name));
+  const params = url.searchParams;
+
+  const pageSize = Number(params.get("pageSize"));
+  const sort = params.get("sort");
+  const filters: ColumnFilter[] = [];
+  for (const [key, op] of params) {
+    if (!key.startsWith("op:")) continue;
+    const column = key.slice(3);
+    if (!columns.has(column) || !FILTER_OPERATORS.includes(op as FilterOperator)) continue;
+    const filter: ColumnFilter = {
+      column,
+      op: op as FilterOperator,
+      value: params.get(`v:${column}`) ?? "",
+      value2: params.get(`v2:${column}`) ?? "",
+    };
+    // Filtros de valor sem valor informado não restringem nada.
+    if ((filter.op === "eq" || filter.op === "contains") && filter.value === "") continue;
+    if (filter.op === "range" && filter.value === "" && filter.value2 === "") continue;
+    filters.push(filter);
+  }
+
+  return {
+    page: Math.max(1, Math.floor(Number(params.get("page"))) || 1),
+    pageSize: PAGE_SIZES.includes(pageSize) ? pageSize : PAGE_SIZES[0],
+    sort: sort && columns.has(sort) ? sort : null,
+    dir: params.get("dir") === "desc" ? "desc" : "asc",
+    filters,
+  };
+}
+
+// Valores numéricos digitados no filtro são comparados como número, para que
+// "10" encontre o INTEGER 10 e o intervalo 2..10 não seja comparado como texto.
+function filterValue(value: string) {
+  return value.trim() !== "" && !Number.isNaN(Number(value)) ? Number(value) : value;
+}
+
+export function buildWhere(filters: ColumnFilter[]) {
+  const conditions: string[] = [];
+  const params: (string | number)[] = [];
+  for (const filter of filters) {
+    const column = quoteIdentifier(filter.column);
+    switch (filter.op) {
+      case "eq":
+        conditions.push(`${column} = ?`);
+        params.push(filterValue(filter.value));
+        break;
+      case "contains":
+        conditions.push(`CAST(${column} AS TEXT) LIKE ? ESCAPE '\\'`);
+        params.push(`%${filter.value.replace(/[\\%_]/g, (c) => `\\${c}`)}%`);
+        break;
+      case "null":
+        conditions.push(`${column} IS NULL`);
+        break;
+      case "notnull":
+        conditions.push(`${column} IS NOT NULL`);
+        break;
+      case "range":
+        if (filter.value !== "") {
+          conditions.push(`${column} >= ?`);
+          params.push(filterValue(filter.value));
+        }
+        if (filter.value2 !== "") {
+          conditions.push(`${column} <= ?`);
+          params.push(filterValue(filter.value2));
+        }
+        break;
+    }
+  }
+  return { where: conditions.length ? `WHERE ${conditions.join(" AND ")}` : "", params };
+}
+
+export function buildOrderBy(state: Pick<GridState, "sort" | "dir">) {
+  return state.sort ? `ORDER BY ${quoteIdentifier(state.sort)} ${state.dir === "desc" ? "DESC" : "ASC"}` : "";
+}
+
+/**
+ * Lê um bloco de linhas da tabela aplicando filtros e ordenação. Sem ordenação
+ * escolhida, ordena pela chave primária (ou pelo rowid, em tabelas sem ela) para que a
+ * leitura em blocos seja estável.
+ */
+export async function queryRows(
+  db: D1Database,
+  table: string,
+  schema: TableSchema[],
+  state: Pick<GridState, "sort" | "dir" | "filters">,
+  limit: number,
+  offset: number,
+  options: { withRowid?: boolean } = {}
+) {
+  const { where, params } = buildWhere(state.filters);
+  const primaryKey = primaryKeyColumns(schema).map(quoteIdentifier);
+  const select = options.withRowid ? `rowid AS ${quoteIdentifier(ROWID_KEY)}, *` : "*";
+  const orderBy = state.sort ? buildOrderBy(state) : `ORDER BY ${primaryKey.length ? primaryKey.join(", ") : "rowid"}`;
+  const { results } = await db.prepare(`SELECT ${select} FROM ${quoteIdentifier(table)} ${where} ${orderBy} LIMIT ? OFFSET ?`)
+    .bind(...params, limit, offset)
+    .all<Record<string, unknown>>();
+  return results || [];
+}
+
+/** Retorna a página de linhas pedida e o total de linhas que atendem aos filtros. */
+export async function queryGrid(db: D1Database, table: string, schema: TableSchema[], state: GridState) {
+  const { where, params } = buildWhere(state.filters);
+  const [countResult, rows] = await Promise.all([
+    db.prepare(`SELECT COUNT(*) AS total FROM ${quoteIdentifier(table)} ${where}`).bind(...params).first<{ total: number }>(),
+    // Sem chave primária, o rowid é lido para identificar as linhas na edição.
+    queryRows(db, table, schema, state, state.pageSize, (state.page - 1) * state.pageSize, {
+      withRowid: primaryKeyColumns(schema).length === 0,
+    }),
+  ]);
+  return { total: Number(countResult?.total ?? 0), rows };
+}
+
+/** Converte um valor lido do D1 em literal SQL, para scripts de INSERT. */
+export function sqlLiteral(value: unknown): string {
+  if (value === null || value === undefined) return "NULL";
+  if (typeof value === "number") return Number.isFinite(value) ? String(value) : "NULL";
+  if (typeof value === "bigint") return value.toString();
+  if (typeof value === "boolean") return value ? "1" : "0";
+  // BLOBs chegam do D1 como array de bytes.
+  if (value instanceof ArrayBuffer || ArrayBuffer.isView(value) || Array.isArray(value)) {
+    const bytes = Array.isArray(value)
+      ? value
+      : Array.from(value instanceof ArrayBuffer ? new Uint8Array(value) : new Uint8Array(value.buffer, value.byteOffset, value.byteLength));
+    return `X'${bytes.map((byte) => Number(byte).toString(16).padStart(2, "0")).join("")}'`;
+  }
+  const text = typeof value === "object" ? JSON.stringify(value) : String(value);
+  return `'${text.replace(/'/g, "''")}'`;
+}
+
+// --- Edição de linhas ---
+
+// Coluna extra com o rowid, lida apenas em tabelas sem chave primária.
+export const ROWID_KEY = "rowid";
+
+/** Colunas que identificam uma linha: a chave primária ou, na falta dela, o rowid. */
+export function rowKeyColumns(schema: TableSchema[]) {
+  const pk = primaryKeyColumns(schema);
+  return pk.length > 0 ? pk : [ROWID_KEY];
+}
+
+/**
+ * Condição que localiza a linha pela chave e, para a checagem de concorrência otimista,
+ * exige que cada coluna ainda tenha o valor lido na tela (IS compara NULL corretamente).
+ * BLOBs ficam fora da comparação.
+ */
+function rowCondition(schema: TableSchema[], key: Record<string, unknown>, original: Record<string, unknown>) {
+  const conditions: string[] = [];
+  const params: unknown[] = [];
+  for (const name of rowKeyColumns(schema)) {
+    const value = key[name];
+    if (value === undefined || value === null || typeof value === "object") {
+      throw new Error("Chave da linha inválida.");
+    }
+    conditions.push(`${name === ROWID_KEY ? "rowid" : quoteIdentifier(name)} = ?`);
+    params.push(value);
+  }
+  for (const col of schema) {
+    const value = original[col.name];
+    if (value === undefined) {
+      throw new Error("Valores originais da linha incompletos.");
+    }
+    if (value !== null && typeof value === "object") continue;
+    conditions.push(`${quoteIdentifier(col.name)} IS ?`);
+    params.push(value);
+  }
+  return { where: conditions.join(" AND "), params };
+}
+
+/**
+ * Altera uma coluna da linha. Retorna false se a linha não existe mais ou foi
+ * alterada depois de carregada.
+ */
+export async function updateCell(
+  db: D1Database,
+  table: string,
+  schema: TableSchema[],
+  key: Record<string, unknown>,
+  original: Record<string, unknown>,
+  column: string,
+  value: ColumnValue
+) {
+  if (!schema.some((col) => col.name === column)) {
+    throw new Error(`Coluna "${column}" não encontrada.`);
+  }
+  const { where, params } = rowCondition(schema, key, original);
+  const result = await db.prepare(`UPDATE ${quoteIdentifier(table)} SET ${quoteIdentifier(column)} = ? WHERE ${where}`)
+    .bind(value, ...params)
+    .run();
+  return result.meta.changes > 0;
+}
+
+/** Exclui a linha, com a mesma checagem de concorrência de updateCell. */
+export async function deleteRow(
+  db: D1Database,
+  table: string,
+  schema: TableSchema[],
+  key: Record<string, unknown>,
+  original: Record<string, unknown>
+) {
+  const { where, params } = rowCondition(schema, key, original);
+  const result = await db.prepare(`DELETE FROM ${quoteIdentifier(table)} WHERE ${where}`).bind(...params).run();
+  return result.meta.changes > 0;
+}
+
+/** Insere uma linha; colunas ausentes em values recebem o valor padrão da tabela. */
+export async function insertRow(db: D1Database, table: string, values: Record<string, ColumnValue>) {
+  const columns = Object.keys(values);
+  const sql = columns.length === 0
+    ? `INSERT INTO ${quoteIdentifier(table)} DEFAULT VALUES`
+    : `INSERT INTO ${quoteIdentifier(table)} (${columns.map(quoteIdentifier).join(", ")})
+       VALUES (${columns.map(() => "?").join(", ")})`;
+  const result = await db.prepare(sql).bind(...columns.map((name) => values[name])).run();
+  return result.meta.last_row_id;
+}
+
+// --- Console SQL ---
+
+export const CONSOLE_ROW_LIMIT = 500;
+const CONSOLE_TIMEOUT_MS = 5000;
+
+// Pragmas que apenas leem o esquema. Os demais podem alterar configurações do banco.
+const READ_ONLY_PRAGMAS = new Set([
+  "table_info", "table_xinfo", "table_list", "index_list", "index_info", "index_xinfo",
+  "foreign_key_list", "foreign_key_check",
+]);
+
+// Instruções que gravam, recusadas com mensagem própria. Só a palavra inicial é conferida: um
+// WITH ... DELETE falha ao ser executado dentro do SELECT * FROM (...) de runConsoleQuery, e
+// funções como replace() continuam valendo nas consultas.
+const WRITE_KEYWORDS = new Set([
+  "INSERT", "UPDATE", "DELETE", "REPLACE", "UPSERT", "CREATE", "DROP", "ALTER", "ATTACH", "DETACH",
+  "VACUUM", "REINDEX", "ANALYZE", "BEGIN", "COMMIT", "ROLLBACK", "SAVEPOINT", "RELEASE",
+]);
+
+export type ConsoleStatementKind = "select" | "explain" | "pragma";
+
+export interface QueryPlanStep {
+  depth: number;
+  detail: string;
+}
+
+export interface ConsoleResult {
+  columns: string[];
+  rows: Record<string, unknown>[];
+  truncated: boolean;
+  durationMs: number | null;
+  rowsRead: number | null;
+  plan: QueryPlanStep[];
+}
+
+/**
+ * Troca textos, identificadores entre aspas e comentários por espaços, deixando só o
+ * código SQL para a análise de palavras-chave. Retorna null se algo não foi fechado.
+ */
+function stripLiterals(sql: string) {
+  let code = "";
+  let i = 0;
+  while (i < sql.length) {
+    const char = sql[i];
+    const next = sql[i + 1];
+    let end = -1;
+    if (char === "-" && next === "-") {
+      end = sql.indexOf("\n", i);
+      if (end === -1) end = sql.length;
+    } else if (char === "/" && next === "*") {
+      end = sql.indexOf("*/", i + 2);
+      if (end === -1) return null;
+      end += 2;
+    } else if (char === "'" || char === '"' || char === "`" || char === "[") {
+      const close = char === "[" ? "]" : char;
+      end = i + 1;
+      // Aspas duplicadas ('' ou "") escapam a própria aspa.
+      while (true) {
+        end = sql.indexOf(close, end);
+        if (end === -1) return null;
+        if (close !== "]" && sql[end + 1] === close) {
+          end += 2;
+          continue;
+        }
+        end += 1;
+        break;
+      }
+    }
+    if (end === -1) {
+      code += char;
+      i += 1;
+    } else {
+      code += " ".repeat(end - i);
+      i = end;
+    }
+  }
+  return code;
+}
+
+/**
+ * Aceita uma única instrução SELECT, WITH, EXPLAIN ou PRAGMA de leitura. Retorna a
+ * instrução sem o ";" final ou a mensagem de erro (a traduzir) para o usuário.
+ */
+export function validateConsoleQuery(input: string): { kind: ConsoleStatementKind; sql: string } | { error: LocalizedMessage } {
+  const code = stripLiterals(input);
+  if (code === null) {
+    return { error: { key: "database.console.error.unterminated" } };
+  }
+  const semicolon = code.indexOf(";");
+  if (semicolon !== -1 && code.slice(semicolon + 1).trim() !== "") {
+    return { error: { key: "database.console.error.multiple" } };
+  }
+  const sql = (semicolon === -1 ? input : input.slice(0, semicolon)).trim();
+  const words = (semicolon === -1 ? code : code.slice(0, semicolon)).toUpperCase().match(/[A-Z_][A-Z0-9_$]*/g) ?? [];
+  const [keyword] = words;
+  if (keyword === undefined) {
+    return { error: { key: "database.console.error.empty" } };
+  }
+
+  if (WRITE_KEYWORDS.has(keyword)) {
+    return { error: { key: "database.console.error.readOnly", params: { keyword } } };
+  }
+
+  switch (keyword) {
+    case "SELECT":
+    case "WITH":
+      return { kind: "select", sql };
+    case "EXPLAIN": {
+      const target = words[1] === "QUERY" && words[2] === "PLAN" ? words[3] : words[1];
+      if (target !== "SELECT" && target !== "WITH") {
+        return { error: { key: "database.console.error.explain" } };
+      }
+      return { kind: "explain", sql };
+    }
+    case "PRAGMA": {
+      const name = (words[1] === "MAIN" ? words[2] : words[1])?.toLowerCase();
+      if (!name || !READ_ONLY_PRAGMAS.has(name) || code.includes("=")) {
+        return { error: { key: "database.console.error.pragma", params: { pragmas: [...READ_ONLY_PRAGMAS].join(", ") } } };
+      }
+      return { kind: "pragma", sql };
+    }
+    default:
+      return { error: { key: "database.console.error.statement" } };
+  }
+}
+
+// O D1 não cancela uma consulta em andamento; o limite apenas deixa de esperar por ela.
+function withTimeout<T>(promise: Promise<T>, ms: number) {
+  return new Promise<T>((resolve, reject) => {
+    const timer = setTimeout(() => reject(new Error(`A consulta excedeu o tempo limite de ${ms / 1000} s.`)), ms);
+    promise.then(resolve, reject).finally(() => clearTimeout(timer));
+  });
+}
+
+function toPlanSteps(rows: { id: number; parent: number; detail: string }[]) {
+  const depthById = new Map<number, number>();
+  return rows.map((row) => {
+    const depth = row.parent === 0 ? 0 : (depthById.get(row.parent) ?? 0) + 1;
+    depthById.set(row.id, depth);
+    return { depth, detail: row.detail };
+  });
+}
+
+/** Executa uma instrução já validada por validateConsoleQuery, limitada a CONSOLE_ROW_LIMIT linhas. */
+export async function runConsoleQuery(db: D1Database, kind: ConsoleStatementKind, sql: string): Promise<ConsoleResult> {
+  // Uma linha a mais indica que o resultado foi cortado. A quebra de linha antes do ")"
+  // evita que um comentário "--" no fim da consulta comente o fechamento. O limite vai no
+  // texto, não como parâmetro: um "?" na consulta do usuário receberia o valor dele.
+  const statement = kind === "select"
+    ? db.prepare(`SELECT * FROM (\n${sql}\n) LIMIT ${CONSOLE_ROW_LIMIT + 1}`)
+    : db.prepare(sql);
+  const result = await withTimeout(statement.all<Record<string, unknown>>(), CONSOLE_TIMEOUT_MS);
+
+  let plan: QueryPlanStep[] = [];
+  if (kind === "select") {
+    const { results } = await withTimeout(
+      db.prepare(`EXPLAIN QUERY PLAN ${sql}`).all<{ id: number; parent: number; detail: string }>(),
+      CONSOLE_TIMEOUT_MS
+    );
+    plan = toPlanSteps(results || []);
+  }
+
+  const rows = result.results || [];
+  return {
+    columns: rows.length > 0 ? Object.keys(rows[0]) : [],
+    rows: rows.slice(0, CONSOLE_ROW_LIMIT),
+    truncated: rows.length > CONSOLE_ROW_LIMIT,
+    durationMs: result.meta.timings?.sql_duration_ms ?? result.meta.duration ?? null,
+    rowsRead: result.meta.rows_read ?? null,
+    plan,
+  };
+}
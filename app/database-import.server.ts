@@ -0,0 +1,199 @@
+// File: app/database-import.server.ts
+// Importação de CSV no Database Explorer: valida as linhas contra o esquema da tabela
+// (tipo, NOT NULL, chave primária) e insere as válidas em lotes com db.batch.
+import type { D1Database } from "@cloudflare/workers-types";
+import type { CsvRecord } from "~/csv";
+import type { Translator } from "~/i18n";
+import {
+  isRowidAlias,
+  parseColumnValue,
+  primaryKeyColumns,
+  quoteIdentifier,
+  type ColumnValue,
+  type TableSchema,
+} from "~/database-explorer.server";
+
+export const IMPORT_MAX_BYTES = 5 * 1024 * 1024;
+export const IMPORT_MAX_ROWS = 10000;
+const BATCH_SIZE = 100;
+// O D1 limita a quantidade de parâmetros por instrução.
+const KEY_LOOKUP_SIZE = 90;
+
+export interface ImportRow {
+  // Número da linha no arquivo (o cabeçalho é a linha 1), como lido por parseCsvRecords().
+  line: number;
+  values: Record<string, ColumnValue>;
+}
+
+export interface RejectedRow {
+  line: number;
+  raw: string[];
+  reasons: string[];
+}
+
+export interface ImportPlan {
+  // Colunas da tabela que recebem valores do CSV, na ordem do INSERT.
+  columns: string[];
+  valid: ImportRow[];
+  rejected: RejectedRow[];
+}
+
+export interface ImportReport {
+  inserted: number;
+  skipped: RejectedRow[];
+  failed: { line: number; reason: string }[];
+}
+
+/** Coluna da tabela -> índice da coluna no CSV (ausente = não importada). */
+export type ColumnMapping = Record<string, number>;
+
+/** Sugere o mapeamento ligando colunas de mesmo nome, sem diferenciar maiúsculas. */
+export function suggestMapping(schema: TableSchema[], headers: string[]): ColumnMapping {
+  const mapping: ColumnMapping = {};
+  const normalized = headers.map((header) => header.trim().toLowerCase());
+  for (const col of schema) {
+    const index = normalized.indexOf(col.name.toLowerCase());
+    if (index !== -1) mapping[col.name] = index;
+  }
+  return mapping;
+}
+
+export function parseMapping(formData: FormData, schema: TableSchema[], headerCount: number): ColumnMapping {
+  const mapping: ColumnMapping = {};
+  for (const col of schema) {
+    const value = formData.get(`map:${col.name}`);
+    const index = value === null || value === "" ? NaN : Number(value);
+    if (Number.isInteger(index) && index >= 0 && index < headerCount) mapping[col.name] = index;
+  }
+  return mapping;
+}
+
+/** Colunas obrigatórias que ficaram sem correspondência no CSV. */
+export function missingRequiredColumns(schema: TableSchema[], mapping: ColumnMapping) {
+  return schema
+    .filter((col) => !(col.name in mapping))
+    .filter((col) => (col.notnull || col.pk > 0) && col.dflt_value === null && !isRowidAlias(col, schema))
+    .map((col) => col.name);
+}
+
+function keyOf(values: Record<string, ColumnValue>, pkColumns: string[]) {
+  return JSON.stringify(pkColumns.map((name) => values[name]));
+}
+
+/**
+ * Valida as linhas do CSV (sem o cabeçalho) e separa as que podem ser inseridas das
+ * rejeitadas, com os motivos. Chaves primárias repetidas no arquivo ou já existentes
+ * na tabela (quando a chave tem uma única coluna) também rejeitam a linha. Os motivos saem
+ * no idioma de t.
+ */
+export async function planImport(
+  db: D1Database,
+  table: string,
+  schema: TableSchema[],
+  records: CsvRecord[],
+  mapping: ColumnMapping,
+  { t }: { t: Translator["t"] }
+): Promise<ImportPlan> {
+  const columns = schema.filter((col) => col.name in mapping).map((col) => col.name);
+  const pkColumns = primaryKeyColumns(schema);
+  const checkKeys = pkColumns.length > 0 && pkColumns.every((name) => name in mapping);
+  const valid: ImportRow[] = [];
+  const rejected: RejectedRow[] = [];
+  const seenKeys = new Map<string, number>();
+
+  for (const { line, fields: raw } of records) {
+    const values: Record<string, ColumnValue> = {};
+    const reasons: string[] = [];
+    for (const col of schema) {
+      if (!(col.name in mapping)) continue;
+      // Campo vazio no CSV é gravado como NULL.
+      const text = raw[mapping[col.name]] ?? "";
+      const converted = text === "" ? { value: null } : parseColumnValue(col, text);
+      if ("error" in converted) {
+        reasons.push(t(converted.error.key, converted.error.params));
+        continue;
+      }
+      if (converted.value === null && (col.notnull || (col.pk > 0 && !isRowidAlias(col, schema)))) {
+        reasons.push(t("database.row.required", { column: col.name }));
+      }
+      values[col.name] = converted.value;
+    }
+    if (reasons.length === 0 && checkKeys && pkColumns.every((name) => values[name] !== null)) {
+      const key = keyOf(values, pkColumns);
+      const firstLine = seenKeys.get(key);
+      if (firstLine !== undefined) {
+        reasons.push(t("database.import.reason.duplicateKey", { line: firstLine }));
+      } else {
+        seenKeys.set(key, line);
+      }
+    }
+    if (reasons.length > 0) {
+      rejected.push({ line, raw, reasons });
+    } else {
+      valid.push({ line, values });
+    }
+  }
+
+  if (checkKeys && pkColumns.length === 1) {
+    const existing = await findExistingKeys(db, table, pkColumns[0], valid.map((row) => row.values[pkColumns[0]]));
+    const rawByLine = new Map(records.map((record) => [record.line, record.fields]));
+    return {
+      columns,
+      valid: valid.filter((row) => !existing.has(String(row.values[pkColumns[0]]))),
+      rejected: [
+        ...rejected,
+        ...valid
+          .filter((row) => existing.has(String(row.values[pkColumns[0]])))
+          .map((row) => ({
+            line: row.line,
+            raw: rawByLine.get(row.line) ?? [],
+            reasons: [t("database.import.reason.existingKey", { key: String(row.values[pkColumns[0]]) })],
+          })),
+      ].sort((a, b) => a.line - b.line),
+    };
+  }
+  return { columns, valid, rejected };
+}
+
+async function findExistingKeys(db: D1Database, table: string, column: string, keys: ColumnValue[]) {
+  const existing = new Set<string>();
+  const candidates = keys.filter((key) => key !== null);
+  for (let i = 0; i < candidates.length; i += KEY_LOOKUP_SIZE) {
+    const chunk = candidates.slice(i, i + KEY_LOOKUP_SIZE);
+    const { results } = await db.prepare(
+      `SELECT ${quoteIdentifier(column)} AS chave FROM ${quoteIdentifier(table)}
+       WHERE ${quoteIdentifier(column)} IN (${chunk.map(() => "?").join(", ")})`
+    ).bind(...chunk).all<{ chave: ColumnValue }>();
+    for (const row of results || []) existing.add(String(row.chave));
+  }
+  return existing;
+}
+
+/**
+ * Insere as linhas válidas em lotes. Um lote do D1 é atômico: se falhar, as linhas
+ * dele são reenviadas uma a uma para identificar quais falharam e por quê.
+ */
+export async function executeImport(db: D1Database, table: string, plan: ImportPlan): Promise<ImportReport> {
+  const sql = `INSERT INTO ${quoteIdentifier(table)} (${plan.columns.map(quoteIdentifier).join(", ")})
+               VALUES (${plan.columns.map(() => "?").join(", ")})`;
+  const statementFor = (row: ImportRow) => db.prepare(sql).bind(...plan.columns.map((name) => row.values[name]));
+  const report: ImportReport = { inserted: 0, skipped: plan.rejected, failed: [] };
+
+  for (let i = 0; i < plan.valid.length; i += BATCH_SIZE) {
+    const chunk = plan.valid.slice(i, i + BATCH_SIZE);
+    try {
+      await db.batch(chunk.map(statementFor));
+      report.inserted += chunk.length;
+    } catch {
+      for (const row of chunk) {
+        try {
+          await statementFor(row).run();
+          report.inserted += 1;
+        } catch (e) {
+          report.failed.push({ line: row.line, reason: e instanceof Error ? e.message : String(e) });
+        }
+      }
+    }
+  }
+  return report;
+}
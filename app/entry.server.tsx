@@ -1,7 +1,16 @@
-import type { AppLoadContext, EntryContext } from "react-router";
+import type { AppLoadContext, EntryContext, HandleErrorFunction } from "react-router";
 import { ServerRouter } from "react-router";
 import { isbot } from "isbot";
 import { renderToReadableStream } from "react-dom/server";
+import { logError } from "~/request-context.server";
+
+// Erros inesperados de loaders, actions e da renderização vão para o log em JSON, com o id
+// da requisição. Requisições canceladas pelo navegador não são erro da aplicação.
+export const handleError: HandleErrorFunction = (error, { request }) => {
+  if (!request.signal.aborted) {
+    logError("Erro não tratado", error, { method: request.method });
+  }
+};
 
 export default async function handleRequest(
   request: Request,
@@ -22,7 +31,7 @@ export default async function handleRequest(
         // errors encountered during initial shell rendering since they'll
         // reject and get logged in handleDocumentRequest.
         if (shellRendered) {
-          console.error(error);
+          logError("Erro na renderização", error);
         }
       },
     }
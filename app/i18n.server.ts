@@ -0,0 +1,50 @@
+// File: app/i18n.server.ts
+// Escolha do idioma da requisição. Ordem: preferência do usuário logado (tb_usuario.ds_idioma,
+// copiada para a sessão no login e ao trocar de idioma), cookie gravado pelo seletor e, por
+// fim, o cabeçalho Accept-Language do navegador.
+import { createCookie } from "@remix-run/cloudflare";
+import type { D1Database } from "@cloudflare/workers-types";
+import { createTranslator, DEFAULT_LOCALE, isLocale, matchLocale, type Locale } from "~/i18n";
+import { getSessionStorage } from "~/session.server";
+
+export const localeCookie = createCookie("idioma", {
+  httpOnly: true,
+  path: "/",
+  sameSite: "lax",
+  maxAge: 365 * 24 * 60 * 60,
+  secure: process.env.NODE_ENV === "production",
+});
+
+// "pt-BR,pt;q=0.9,en;q=0.8": tags em ordem decrescente de q (q=0 significa "não aceito").
+function fromAcceptLanguage(header: string | null): Locale | null {
+  if (!header) return null;
+  const ranked = header
+    .split(",")
+    .map((part) => {
+      const [tag, ...params] = part.trim().split(";");
+      const q = params.map((param) => param.trim()).find((param) => param.startsWith("q="));
+      return { tag: tag.trim(), q: q ? Number(q.slice(2)) : 1 };
+    })
+    .filter(({ tag, q }) => tag && tag !== "*" && q > 0)
+    .sort((a, b) => b.q - a.q);
+  for (const { tag } of ranked) {
+    const locale = matchLocale(tag);
+    if (locale) return locale;
+  }
+  return null;
+}
+
+export async function getLocale(request: Request, db: D1Database): Promise<Locale> {
+  const cookieHeader = request.headers.get("Cookie");
+  const session = await getSessionStorage(db).getSession(cookieHeader);
+  const userLocale = session.get("locale");
+  if (isLocale(userLocale)) return userLocale;
+  const cookieLocale = await localeCookie.parse(cookieHeader);
+  if (isLocale(cookieLocale)) return cookieLocale;
+  return fromAcceptLanguage(request.headers.get("Accept-Language")) ?? DEFAULT_LOCALE;
+}
+
+/** Tradutor para mensagens montadas no servidor (loaders e actions). */
+export async function getTranslator(request: Request, db: D1Database) {
+  return createTranslator(await getLocale(request, db));
+}
@@ -0,0 +1,90 @@
+// File: app/i18n.ts
+// Traduções da interface. Os catálogos ficam em app/locales; o pt-BR é a referência e
+// define as chaves que os demais idiomas precisam ter. O idioma de cada requisição é
+// escolhido em i18n.server.ts e chega aos componentes pelo loader da rota raiz.
+import { useMemo } from "react";
+import { useRouteLoaderData, type MetaFunction } from "react-router";
+import { ptBR, type MessageKey } from "~/locales/pt-BR";
+import { en } from "~/locales/en";
+import { es } from "~/locales/es";
+
+export const LOCALES = ["pt-BR", "en", "es"] as const;
+export type Locale = (typeof LOCALES)[number];
+export const DEFAULT_LOCALE: Locale = "pt-BR";
+
+// Nome de cada idioma nele mesmo, para o seletor.
+export const LOCALE_NAMES: Record<Locale, string> = {
+  "pt-BR": "Português",
+  en: "English",
+  es: "Español",
+};
+
+// Mensagem simples ou com formas de plural (categorias de Intl.PluralRules; "other" é obrigatória).
+export type Message = string | ({ other: string } & Partial<Record<Intl.LDMLPluralRule, string>>);
+export type { MessageKey };
+export type MessageParams = Record<string, string | number>;
+/** Mensagem montada fora dos componentes (ex.: validações no servidor), traduzida por quem a exibe. */
+export type LocalizedMessage = { key: MessageKey; params?: MessageParams };
+
+const CATALOGS: Record<Locale, Record<MessageKey, Message>> = { "pt-BR": ptBR, en, es };
+
+export function isLocale(value: unknown): value is Locale {
+  return (LOCALES as readonly unknown[]).includes(value);
+}
+
+/** Idioma suportado mais próximo de uma tag BCP 47 ("pt", "en-US", "es-419"...). */
+export function matchLocale(tag: string): Locale | null {
+  const language = tag.trim().toLowerCase().split("-")[0];
+  return LOCALES.find((locale) => locale.toLowerCase().split("-")[0] === language) ?? null;
+}
+
+// Datas do SQLite vêm em UTC no formato "YYYY-MM-DD HH:MM:SS".
+function parseDate(value: string | Date) {
+  return value instanceof Date ? value : new Date(`${value.replace(" ", "T")}Z`);
+}
+
+export function createTranslator(locale: Locale) {
+  const messages = CATALOGS[locale];
+  const pluralRules = new Intl.PluralRules(locale);
+  const numberFormat = new Intl.NumberFormat(locale);
+
+  const formatNumber = (value: number, options?: Intl.NumberFormatOptions) =>
+    options ? new Intl.NumberFormat(locale, options).format(value) : numberFormat.format(value);
+
+  // Os horários da aplicação são exibidos em UTC, como gravados no banco.
+  const formatDate = (value: string | Date, options: Intl.DateTimeFormatOptions = { dateStyle: "short", timeStyle: "short" }) =>
+    new Intl.DateTimeFormat(locale, { timeZone: "UTC", ...options }).format(parseDate(value));
+
+  /**
+   * Texto da chave com os parâmetros {nome} substituídos. Números são formatados no idioma;
+   * o parâmetro "count" escolhe a forma de plural.
+   */
+  const t = (key: MessageKey, params: MessageParams = {}) => {
+    const message = messages[key] ?? ptBR[key];
+    const text = typeof message === "string"
+      ? message
+      : message[pluralRules.select(Number(params.count ?? 0))] ?? message.other;
+    return text.replace(/\{(\w+)\}/g, (match, name: string) => {
+      const value = params[name];
+      if (value === undefined) return match;
+      return typeof value === "number" ? formatNumber(value) : value;
+    });
+  };
+
+  return { locale, t, formatNumber, formatDate };
+}
+
+export type Translator = ReturnType<typeof createTranslator>;
+
+/** Tradutor do idioma da requisição atual (definido pelo loader da rota raiz). */
+export function useTranslation() {
+  const data = useRouteLoaderData("root") as { locale?: Locale } | undefined;
+  const locale = isLocale(data?.locale) ? data.locale : DEFAULT_LOCALE;
+  return useMemo(() => createTranslator(locale), [locale]);
+}
+
+/** Tradutor para funções meta, que não podem usar hooks. */
+export function metaTranslator(matches: Parameters<MetaFunction>[0]["matches"]) {
+  const data = matches.find((match) => match?.id === "root")?.data as { locale?: Locale } | undefined;
+  return createTranslator(isLocale(data?.locale) ? data.locale : DEFAULT_LOCALE);
+}
@@ -0,0 +1,174 @@
+// File: app/jobs.server.ts
+// Tarefas de manutenção executadas pelo handler "scheduled" do Worker (cron triggers do
+// wrangler.jsonc) ou manualmente em /admin/tarefas. Cada execução fica registrada em
+// tb_execucao_tarefa.
+import type { D1Database } from "@cloudflare/workers-types";
+import { UsuarioRepo } from "~/repositories.server";
+import { purgeExpiredSessions } from "~/session.server";
+import { purgeStaleAttempts } from "~/lockout.server";
+import { compactAudit } from "~/audit.server";
+import type { LocalizedMessage } from "~/i18n";
+import { log, logError } from "~/request-context.server";
+
+// Usuários excluídos logicamente podem ser restaurados durante esse prazo; depois são removidos.
+export const USER_RETENTION_DAYS = 90;
+// Eventos de auditoria mais antigos que isso perdem os JSONs de antes/depois.
+export const AUDIT_COMPACT_AFTER_DAYS = 180;
+// Execução "executando" há mais tempo que isso é considerada interrompida e não impede outra.
+const STALE_RUN_MINUTES = 15;
+
+// Expressões cron; devem ser as mesmas de "triggers.crons" no wrangler.jsonc.
+const HOURLY = "15 * * * *";
+const DAILY = "0 6 * * *";
+
+export type JobOrigin = "agendada" | "manual";
+export type JobStatus = "executando" | "sucesso" | "falha";
+
+export interface JobResult {
+    affected: number;
+    details?: Record<string, unknown>;
+}
+
+export interface JobDefinition {
+    name: string;
+    // Texto exibido em /admin/tarefas, traduzido na página.
+    description: LocalizedMessage;
+    schedule: string;
+    run(db: D1Database): Promise<JobResult>;
+}
+
+export interface JobRun {
+    id_execucao: number;
+    ds_tarefa: string;
+    ds_origem: JobOrigin;
+    id_usuario: number | null;
+    ds_usuario: string | null;
+    ds_situacao: JobStatus;
+    dt_inicio: string;
+    dt_fim: string | null;
+    nr_afetados: number | null;
+    js_detalhes: string | null;
+    ds_erro: string | null;
+}
+
+export const JOBS: JobDefinition[] = [
+    {
+        name: "sessoes-expiradas",
+        description: { key: "admin.jobs.description.expiredSessions" },
+        schedule: HOURLY,
+        async run(db) {
+            return { affected: await purgeExpiredSessions(db) };
+        },
+    },
+    {
+        name: "bloqueios-antigos",
+        description: { key: "admin.jobs.description.staleLockouts" },
+        schedule: HOURLY,
+        async run(db) {
+            return { affected: await purgeStaleAttempts(db) };
+        },
+    },
+    {
+        name: "usuarios-excluidos",
+        description: { key: "admin.jobs.description.deletedUsers", params: { count: USER_RETENTION_DAYS } },
+        schedule: DAILY,
+        async run(db) {
+            const matriculas = await UsuarioRepo.purgeDeleted(db, USER_RETENTION_DAYS);
+            return { affected: matriculas.length, details: matriculas.length ? { matriculas } : undefined };
+        },
+    },
+    {
+        name: "compactar-auditoria",
+        description: { key: "admin.jobs.description.compactAudit", params: { count: AUDIT_COMPACT_AFTER_DAYS } },
+        schedule: DAILY,
+        async run(db) {
+            return { affected: await compactAudit(db, AUDIT_COMPACT_AFTER_DAYS) };
+        },
+    },
+];
+
+export function findJob(name: string) {
+    return JOBS.find((job) => job.name === name) ?? null;
+}
+
+/**
+ * Executa uma tarefa e registra o resultado. Devolve null se a mesma tarefa já estiver em
+ * execução (ex.: cron e botão "Executar agora" ao mesmo tempo). Erros da tarefa não são
+ * propagados: ficam no histórico e no log.
+ */
+export async function runJob(db: D1Database, job: JobDefinition, origin: JobOrigin, userId: number | null = null) {
+    const started = await db.prepare(
+        `INSERT INTO tb_execucao_tarefa (ds_tarefa, ds_origem, id_usuario)
+         SELECT ?, ?, ?
+         WHERE NOT EXISTS (
+           SELECT 1 FROM tb_execucao_tarefa
+           WHERE ds_tarefa = ? AND ds_situacao = 'executando' AND dt_inicio > datetime('now', ?)
+         )
+         RETURNING id_execucao`
+    ).bind(job.name, origin, userId, job.name, `-${STALE_RUN_MINUTES} minutes`).first<{ id_execucao: number }>();
+    if (!started) {
+        log("warn", "Tarefa já em execução", { job: job.name, origin });
+        return null;
+    }
+
+    const runId = started.id_execucao;
+    const startedAt = Date.now();
+    let status: JobStatus = "sucesso";
+    let result: JobResult | null = null;
+    let errorMessage: string | null = null;
+    try {
+        result = await job.run(db);
+        log("info", "Tarefa concluída", { job: job.name, origin, runId, affected: result.affected, durationMs: Date.now() - startedAt });
+    } catch (error) {
+        status = "falha";
+        errorMessage = error instanceof Error ? error.message : String(error);
+        logError("Falha na tarefa agendada", error, { job: job.name, origin, runId });
+    }
+
+    await db.prepare(
+        `UPDATE tb_execucao_tarefa
+         SET ds_situacao = ?, dt_fim = datetime('now'), nr_afetados = ?, js_detalhes = ?, ds_erro = ?
+         WHERE id_execucao = ?`
+    ).bind(
+        status,
+        result?.affected ?? null,
+        result?.details ? JSON.stringify(result.details) : null,
+        errorMessage,
+        runId,
+    ).run();
+
+    return { runId, status, affected: result?.affected ?? null, error: errorMessage };
+}
+
+/** Executa, em sequência, as tarefas cujo agendamento corresponde ao cron disparado. */
+export async function runScheduledJobs(db: D1Database, cron: string) {
+    const jobs = JOBS.filter((job) => job.schedule === cron);
+    if (jobs.length === 0) {
+        log("warn", "Cron sem tarefas associadas", { cron });
+        return;
+    }
+    for (const job of jobs) {
+        await runJob(db, job, "agendada");
+    }
+}
+
+export async function listJobRuns(db: D1Database, limit = 50) {
+    const { results } = await db.prepare(
+        `SELECT e.*, u.nome_usuario AS ds_usuario
+         FROM tb_execucao_tarefa e
+         LEFT JOIN tb_usuario u ON u.idtb_usuario = e.id_usuario
+         ORDER BY e.id_execucao DESC
+         LIMIT ?`
+    ).bind(limit).all<JobRun>();
+    return results || [];
+}
+
+/** Última execução de cada tarefa, indexada pelo nome. */
+export async function lastJobRuns(db: D1Database) {
+    const { results } = await db.prepare(
+        `SELECT e.*, NULL AS ds_usuario
+         FROM tb_execucao_tarefa e
+         WHERE e.id_execucao IN (SELECT MAX(id_execucao) FROM tb_execucao_tarefa GROUP BY ds_tarefa)`
+    ).all<JobRun>();
+    return Object.fromEntries((results || []).map((run) => [run.ds_tarefa, run])) as Record<string, JobRun | undefined>;
+}
@@ -0,0 +1,520 @@
+// File: app/locales/en.ts
+import type { Message, MessageKey } from "~/i18n";
+
+export const en: Record<MessageKey, Message> = {
+  // Comum
+  "common.back": "Back",
+  "common.save": "Save",
+  "common.saving": "Saving...",
+  "common.delete": "Delete",
+  "common.cancel": "Cancel",
+  "common.close": "Close",
+  "common.yes": "Yes",
+  "common.no": "No",
+  "common.none": "None.",
+  "common.previous": "Previous",
+  "common.next": "Next",
+  "language.label": "Language",
+  "language.submit": "Change language",
+
+  // Erros genéricos (rota raiz)
+  "error.title": "Oops!",
+  "error.generic": "Error",
+  "error.unexpected": "An unexpected error occurred.",
+  "error.notFound": "The requested page could not be found.",
+
+  // Login
+  "login.meta.title": "Sign in - RENOVAAPP",
+  "login.subtitle": "Sign in to your account to continue",
+  "login.matricula": "Employee ID",
+  "login.password": "Password",
+  "login.submit": "Sign in",
+  "login.submitting": "Signing in...",
+  "login.locked.title": "Account locked",
+  "login.error.required": "Employee ID and password are required.",
+  "login.error.invalid": "Invalid employee ID or password.",
+  "login.error.locked": "Access temporarily locked after too many attempts. Try again later or contact an administrator.",
+  "login.error.lockedUntil": "Access temporarily locked after too many attempts. Try again after {time} (UTC) or contact an administrator.",
+  "login.error.expired": "The time to enter the code has run out. Sign in again with your ID and password.",
+  "login.error.invalidCode": "Invalid or already used code.",
+  "login2fa.meta.title": "Two-step verification - RENOVAAPP",
+  "login2fa.title": "Two-step verification",
+  "login2fa.instructions": "Enter the 6-digit code shown in your authenticator app.",
+  "login2fa.code": "Code",
+  "login2fa.recoveryHint": "No access to the app? Use one of your recovery codes.",
+  "login2fa.submit": "Verify",
+  "login2fa.submitting": "Verifying...",
+  "login2fa.restart": "Sign in with another account",
+
+  // Página inicial
+  "index.meta.title": "Home - RENOVAAPP",
+  "index.welcome": "Welcome",
+  "index.adminPanel": "Admin Panel",
+  "index.changePassword": "Change Password",
+  "index.sessions": "My Sessions",
+  "index.apiTokens": "API Tokens",
+  "index.twoFactor": "Two-Step Verification",
+  "index.logout": "Sign out",
+  "index.modules": { one: "{count} module available", other: "{count} modules available" },
+  "modules.obras.description": "Tracking of construction works and interventions.",
+  "modules.almoxarifado.description": "Materials control, stock receipts and issues.",
+  "modules.relatorios.description": "Management reports and indicators.",
+  "module.fallbackTitle": "Module",
+  "module.empty": "This module has no content yet.",
+  "module.error.forbiddenTitle": "Access denied",
+  "module.error.forbidden": "Your profile is not allowed to access this module.",
+  "module.error.notFound": "Module not found.",
+  "module.error.loadFailed": "The module could not be loaded.",
+  "module.error.home": "Back to the home page",
+
+  // Troca de senha
+  "account.password.meta.title": "Change Password - RENOVAAPP",
+  "account.password.title": "Change Password",
+  "account.password.mustChange": "Your password was set by an administrator. Choose a new password to continue.",
+  "account.password.temporary": "Temporary password",
+  "account.password.current": "Current password",
+  "account.password.new": "New password",
+  "account.password.hint": "At least {count} characters, with letters and numbers, not containing your employee ID.",
+  "account.password.confirm": "Confirm the new password",
+  "account.password.submit": "Save new password",
+  "account.password.error.current": "The current password is incorrect.",
+  "account.password.error.mismatch": "The confirmation does not match the new password.",
+  "account.password.error.same": "The new password must be different from the current one.",
+
+  // Verificação em duas etapas (conta)
+  "account.twoFactor.meta.title": "Two-Step Verification - RENOVAAPP",
+  "account.twoFactor.intro": "Besides the password, sign-in asks for a 6-digit code generated by an authenticator app (Google Authenticator, Microsoft Authenticator, FreeOTP, etc.).",
+  "account.twoFactor.mustEnroll": "Your profile requires two-step verification. Set up an authenticator app to continue.",
+  "account.twoFactor.recoveryCodes.title": "Recovery codes",
+  "account.twoFactor.recoveryCodes.hint": "Keep these codes somewhere safe: they will not be shown again. Each one allows a single sign-in without the app.",
+  "account.twoFactor.active": "Enabled",
+  "account.twoFactor.inactive": "Disabled",
+  "account.twoFactor.remainingCodes": { one: "{count} of {total} recovery code available.", other: "{count} of {total} recovery codes available." },
+  "account.twoFactor.regenerate.title": "Generate new recovery codes",
+  "account.twoFactor.regenerate.hint": "Confirm with the app's current code.",
+  "account.twoFactor.regenerate.submit": "Generate codes",
+  "account.twoFactor.disable": "Disable",
+  "account.twoFactor.required": "Your profile requires two-step verification.",
+  "account.twoFactor.enroll.scan": "1. In the authenticator app, scan the QR code below or enter the key manually.",
+  "account.twoFactor.enroll.code": "2. Enter the 6-digit code shown by the app to finish.",
+  "account.twoFactor.enroll.submit": "Enable",
+  "account.twoFactor.enroll.cancel": "Cancel setup",
+  "account.twoFactor.passwordOnly": "Your account is protected by the password only.",
+  "account.twoFactor.setup": "Set up authenticator app",
+  "account.twoFactor.enabled": "Two-step verification enabled.",
+  "account.twoFactor.disabled": "Two-step verification disabled.",
+  "account.twoFactor.regenerated": "New recovery codes generated; the previous ones no longer work.",
+  "account.twoFactor.error.alreadyActive": "Two-step verification is already enabled.",
+  "account.twoFactor.error.notActive": "Two-step verification is not enabled.",
+  "account.twoFactor.error.requiredByProfile": "Your profile requires two-step verification; it cannot be disabled.",
+  "account.twoFactor.error.enrollCode": "Invalid code. Check your phone's clock and enter the app's current code.",
+  "account.twoFactor.error.code": "Invalid or already used code.",
+  "account.twoFactor.error.invalidAction": "Invalid action.",
+
+  // Sessões (conta)
+  "account.sessions.meta.title": "My Sessions - RENOVAAPP",
+  "account.sessions.intro": "Devices signed in to your account. Times in UTC.",
+  "account.sessions.revokeOthers": "End other sessions",
+  "account.sessions.device": "Device",
+  "account.sessions.ip": "IP",
+  "account.sessions.start": "Started",
+  "account.sessions.lastAccess": "Last access",
+  "account.sessions.expires": "Expires",
+  "account.sessions.unknownDevice": "Unknown",
+  "account.sessions.current": "Current session",
+  "account.sessions.revoke": "End",
+
+  // Tokens de API (conta)
+  "account.tokens.meta.title": "API Tokens - RENOVAAPP",
+  "account.tokens.intro": "Access to the /api/v1 API on your behalf. Times in UTC.",
+  "account.tokens.docs": "Documentation:",
+  "account.tokens.created": "Token \"{name}\" created. Copy it now: it will not be shown again.",
+  "account.tokens.headerHint": "Send it in the header:",
+  "account.tokens.new": "New token",
+  "account.tokens.namePlaceholder": "Name (e.g. HR integration)",
+  "account.tokens.validity": { one: "Expires in {count} day", other: "Expires in {count} days" },
+  "account.tokens.scopes": "Scopes",
+  "account.tokens.create": "Create token",
+  "account.tokens.name": "Name",
+  "account.tokens.prefix": "Prefix",
+  "account.tokens.createdAt": "Created",
+  "account.tokens.expiresAt": "Expires",
+  "account.tokens.lastUsed": "Last used",
+  "account.tokens.status": "Status",
+  "account.tokens.status.revoked": "Revoked",
+  "account.tokens.status.expired": "Expired",
+  "account.tokens.status.active": "Active",
+  "account.tokens.empty": "No tokens created.",
+  "account.tokens.revoke": "Revoke",
+  "account.tokens.error.required": "Enter a name and at least one scope.",
+  "account.tokens.error.validity": "Invalid validity period.",
+  "account.tokens.error.notFound": "Token not found or already revoked.",
+  "account.tokens.error.invalidAction": "Invalid action.",
+
+  // Painel administrativo
+  "admin.meta.title": "Admin - RENOVAAPP",
+  "admin.title": "Admin",
+  "admin.nav.profiles": "Manage Profiles",
+  "admin.nav.users": "Manage Users",
+  "admin.nav.permissions": "Permissions",
+  "admin.nav.audit": "Audit",
+  "admin.nav.lockouts": "Login Lockouts",
+  "admin.nav.jobs": "Scheduled Jobs",
+  "admin.nav.backToApp": "Back to the App",
+  "admin.profiles.loadError": "Failed to load data.",
+  "admin.profiles.new": "Add New Profile",
+  "admin.profiles.id": "ID",
+  "admin.profiles.name": "Profile Name",
+  "admin.profiles.twoFactor": "2FA required",
+  "admin.profiles.twoFactorRequire": "Require",
+  "admin.profiles.twoFactorRelease": "Waive",
+  "admin.profiles.twoFactorConfirm": "Require two-factor authentication? Open sessions of users with this profile will be signed out.",
+  "admin.profiles.count": { one: "{count} profile", other: "{count} profiles" },
+  "admin.profiles.confirmDelete": "Are you sure you want to delete this profile?",
+  "admin.profiles.usage": "Usage",
+  "admin.profiles.usersCount": { one: "{count} user", other: "{count} users" },
+  "admin.profiles.permissionsCount": { one: "{count} permission", other: "{count} permissions" },
+  "admin.profiles.edit": "Edit",
+  "admin.profiles.protected": "System profile",
+  "admin.profiles.reassignTo": { one: "Move the user to", other: "Move the {count} users to" },
+  "admin.profiles.reassignPlaceholder": "Select a profile",
+  "admin.profiles.deleteHint": "The profile's permissions will be removed.",
+  "admin.profiles.error.nameRequired": "Enter the profile name.",
+  "admin.profiles.error.nameExists": "A profile named {name} already exists.",
+  "admin.profiles.error.notFound": "Profile not found.",
+  "admin.profiles.error.protected": "The {name} profile is built in and cannot be renamed or deleted.",
+  "admin.profiles.error.reassignRequired": { one: "The profile has {count} user: choose another profile to move them to.", other: "The profile has {count} users: choose another profile to move them to." },
+  "admin.profiles.error.saveFailed": "The changes could not be saved.",
+
+  "admin.users.meta.title": "Users - Admin - RENOVAAPP",
+  "admin.users.loadError": "Failed to load data.",
+  "admin.users.new": "Add New User",
+  "admin.users.import": "Import spreadsheet (CSV/XLSX)",
+  "admin.users.matricula": "Employee ID",
+  "admin.users.name": "Name",
+  "admin.users.profile": "Profile",
+  "admin.users.status": "Status",
+  "admin.users.initialPassword": "Initial password",
+  "admin.users.initialPasswordHint": "The user will have to change it on first sign-in.",
+  "admin.users.searchPlaceholder": "Search by employee ID or name",
+  "admin.users.showDeleted": "Show deleted",
+  "admin.users.search": "Search",
+  "admin.users.empty": "No users found.",
+  "admin.users.status.active": "Active",
+  "admin.users.status.inactive": "Inactive",
+  "admin.users.status.deleted": "Deleted",
+  "admin.users.edit": "Edit",
+  "admin.users.activate": "Activate",
+  "admin.users.deactivate": "Deactivate",
+  "admin.users.restore": "Restore",
+  "admin.users.resetPassword": "Reset password",
+  "admin.users.resetPasswordConfirm": "Generate a temporary password for this user? Their open sessions will be ended.",
+  "admin.users.resetTwoFactor": "Reset 2FA",
+  "admin.users.resetTwoFactorConfirm": "Remove this user's authenticator app and recovery codes? Their open sessions will be ended.",
+  "admin.users.deleteConfirm": "Are you sure you want to delete this user?",
+  "admin.users.temporaryPassword.title": "Temporary password for employee ID {matricula}",
+  "admin.users.temporaryPassword.hint": "Write it down and give it to the user: it will not be shown again. A change will be required on next sign-in.",
+  "admin.users.pagination": { one: "{count} user — page {page} of {pages}", other: "{count} users — page {page} of {pages}" },
+  "admin.users.error.createRequired": "Employee ID, name, password and profile are required.",
+  "admin.users.error.updateRequired": "Name and profile are required.",
+  "admin.users.error.matriculaExists": "Employee ID {matricula} is already registered.",
+  "admin.users.error.notFound": "User not found.",
+  "admin.users.error.invalidAction": "Invalid action.",
+  "admin.users.error.saveFailed": "The changes could not be saved.",
+
+  "admin.users.import.meta.title": "Import Users - Admin - RENOVAAPP",
+  "admin.users.import.title": "Import Users",
+  "admin.users.import.file": "Spreadsheet",
+  "admin.users.import.upload": "Load",
+  "admin.users.import.hint": "CSV or XLSX (first sheet) with the columns matricula, nome and perfil (profile name) in the first row. Up to {megabytes} MB and {rows} users. Each user gets a generated initial password and must change it at first sign-in.",
+  "admin.users.import.preview.valid": { one: "{count} user to save", other: "{count} users to save" },
+  "admin.users.import.preview.restoring": { one: "({count} restored)", other: "({count} restored)" },
+  "admin.users.import.preview.rejected": { one: "{count} row rejected", other: "{count} rows rejected" },
+  "admin.users.import.preview.notSaved": "Nothing has been saved yet.",
+  "admin.users.import.restoreDeleted": { one: "Restore the deleted user whose employee ID is in the file, replacing name, profile and password", other: "Restore the {count} deleted users whose employee ID is in the file, replacing name, profile and password" },
+  "admin.users.import.refreshPreview": "Refresh preview",
+  "admin.users.import.confirm": { one: "Save {count} user?", other: "Save {count} users?" },
+  "admin.users.import.importing": "Importing...",
+  "admin.users.import.submit": { one: "Import {count} user", other: "Import {count} users" },
+  "admin.users.import.toSave": "Users to save",
+  "admin.users.import.showing": ", showing {count}",
+  "admin.users.import.noValid": "No valid rows.",
+  "admin.users.import.line": "Row",
+  "admin.users.import.action": "Action",
+  "admin.users.import.create": "Create",
+  "admin.users.import.restore": "Restore",
+  "admin.users.import.rejected": "Rejected rows",
+  "admin.users.import.reasons": "Reasons",
+  "admin.users.import.content": "Content",
+  "admin.users.import.completed": "Import of {file} completed.",
+  "admin.users.import.report.created": { one: "{count} created", other: "{count} created" },
+  "admin.users.import.report.restored": { one: "{count} restored", other: "{count} restored" },
+  "admin.users.import.report.skipped": { one: "{count} skipped by validation", other: "{count} skipped by validation" },
+  "admin.users.import.report.failed": "{count} failed in the database",
+  "admin.users.import.passwords.title": "Initial passwords",
+  "admin.users.import.passwords.hint": "Download the file now and hand each password to its user: they are not stored and will not be shown again.",
+  "admin.users.import.passwords.download": "Download credentials ({count})",
+  "admin.users.import.skipped": "Skipped rows",
+  "admin.users.import.failed": "Failed rows",
+  "admin.users.import.error": "Error",
+  "admin.users.import.credentials.created": "created",
+  "admin.users.import.credentials.restored": "restored",
+  "admin.users.import.reason.matriculaEmpty": "empty employee ID",
+  "admin.users.import.reason.nameEmpty": "empty name",
+  "admin.users.import.reason.profileEmpty": "empty profile",
+  "admin.users.import.reason.profileNotFound": "profile \"{profile}\" not found",
+  "admin.users.import.reason.duplicate": "employee ID repeated in the file (row {line})",
+  "admin.users.import.reason.exists": "employee ID already registered",
+  "admin.users.import.reason.deleted": "employee ID of a deleted user (check the restore option)",
+  "admin.users.import.reason.notDeleted": "the user is no longer deleted",
+  "admin.users.import.error.noFile": "Select a CSV or XLSX file.",
+  "admin.users.import.error.tooLarge": "The file exceeds the {megabytes} MB limit.",
+  "admin.users.import.error.unreadable": "The file could not be read.",
+  "admin.users.import.error.xlsxInvalid": "Invalid or corrupted XLSX file.",
+  "admin.users.import.error.xlsxTooLarge": "The spreadsheet is too large to import.",
+  "admin.users.import.error.xlsxCompression": "The spreadsheet uses an unsupported compression method.",
+  "admin.users.import.error.empty": "The file is empty.",
+  "admin.users.import.error.tooManyRows": "The file has {count} rows; the limit is {max}.",
+  "admin.users.import.error.missingColumns": "Columns not found in the header: {columns}.",
+  "admin.users.import.error.noValid": "There are no valid rows to import.",
+
+  "admin.permissions.meta.title": "Permissions - Admin - RENOVAAPP",
+  "admin.permissions.title": "Permissions by Profile",
+  "admin.permissions.loadError": "Failed to load data.",
+  "admin.permissions.saved": "Permissions saved. Granted: {added}; revoked: {removed}.",
+  "admin.permissions.profile": "Profile",
+  "admin.permissions.copyFrom": "Copy permissions from",
+  "admin.permissions.select": "Select...",
+  "admin.permissions.discard": "Discard",
+  "admin.permissions.review": "Review changes",
+  "admin.permissions.confirmTitle": "Confirm permission changes",
+  "admin.permissions.granted": "Granted ({count})",
+  "admin.permissions.revoked": "Revoked ({count})",
+  "admin.permissions.confirm": "Confirm and save",
+  "admin.permissions.error.invalidAction": "Invalid action.",
+  "admin.permissions.error.stale": "The permissions were changed by another administrator after the page was loaded. Review your changes again.",
+  "admin.permissions.error.invalidChanges": "Invalid permission changes.",
+  "admin.permissions.error.lastAdmin": "At least one profile must keep the \"{module}\" module.",
+  "admin.permissions.error.saveFailed": "The permissions could not be saved.",
+
+  "admin.jobs.meta.title": "Scheduled Jobs - Admin - RENOVAAPP",
+  "admin.jobs.loadError": "Failed to load data.",
+  "admin.jobs.intro": "Maintenance jobs run by the Worker's cron triggers. Schedules and times are in UTC.",
+  "admin.jobs.job": "Job",
+  "admin.jobs.schedule": "Schedule",
+  "admin.jobs.lastRun": "Last run",
+  "admin.jobs.neverRun": "Never run",
+  "admin.jobs.run": "Run now",
+  "admin.jobs.running": "Running...",
+  "admin.jobs.runConfirm": "Run the \"{job}\" job now?",
+  "admin.jobs.history": "History",
+  "admin.jobs.start": "Start",
+  "admin.jobs.end": "End",
+  "admin.jobs.origin": "Origin",
+  "admin.jobs.origin.manual": "Manual",
+  "admin.jobs.origin.manualBy": "Manual ({user})",
+  "admin.jobs.origin.scheduled": "Scheduled",
+  "admin.jobs.status": "Status",
+  "admin.jobs.status.running": "Running",
+  "admin.jobs.status.success": "Success",
+  "admin.jobs.status.failure": "Failure",
+  "admin.jobs.affected": "Affected",
+  "admin.jobs.details": "Details",
+  "admin.jobs.empty": "No runs recorded.",
+  "admin.jobs.completed": { one: "Job \"{job}\" completed: {count} record affected.", other: "Job \"{job}\" completed: {count} records affected." },
+  "admin.jobs.error.invalidAction": "Invalid action.",
+  "admin.jobs.error.running": "The \"{job}\" job is already running.",
+  "admin.jobs.error.failed": "The \"{job}\" job failed: {error}",
+  "admin.jobs.description.expiredSessions": "Deletes sessions expired by age or inactivity.",
+  "admin.jobs.description.staleLockouts": "Deletes login failure counts with no active lockout or recent failure.",
+  "admin.jobs.description.deletedUsers": "Permanently removes users deleted more than {count} days ago.",
+  "admin.jobs.description.compactAudit": "Discards the before/after data and user agent of events older than {count} days.",
+
+  "admin.audit.meta.title": "Audit - Admin - RENOVAAPP",
+  "admin.audit.loadError": "Failed to load data.",
+  "admin.audit.user": "User",
+  "admin.audit.userPlaceholder": "Name, employee ID or id",
+  "admin.audit.action": "Action",
+  "admin.audit.allActions": "All",
+  "admin.audit.from": "From",
+  "admin.audit.to": "To",
+  "admin.audit.filter": "Filter",
+  "admin.audit.export": "Export CSV",
+  "admin.audit.date": "Date (UTC)",
+  "admin.audit.record": "Record",
+  "admin.audit.ip": "IP",
+  "admin.audit.empty": "No events found.",
+  "admin.audit.hide": "Hide",
+  "admin.audit.details": "Details",
+  "admin.audit.before": "Before",
+  "admin.audit.after": "After",
+  "admin.audit.userAgent": "User agent: {userAgent}",
+  "admin.audit.pagination": { one: "{count} event — page {page} of {pages}", other: "{count} events — page {page} of {pages}" },
+
+  "admin.lockouts.meta.title": "Login Lockouts - Admin - RENOVAAPP",
+  "admin.lockouts.loadError": "Failed to load data.",
+  "admin.lockouts.intro": "Employee IDs and IPs with failed sign-in attempts. Times in UTC.",
+  "admin.lockouts.type": "Type",
+  "admin.lockouts.key": "Key",
+  "admin.lockouts.failures": "Failures",
+  "admin.lockouts.lastFailure": "Last failure",
+  "admin.lockouts.lockedUntil": "Locked until",
+  "admin.lockouts.type.ip": "IP",
+  "admin.lockouts.type.matricula": "Employee ID",
+  "admin.lockouts.empty": "No failed attempts recorded.",
+  "admin.lockouts.clearConfirm": "Release this key and reset its failures?",
+  "admin.lockouts.unlock": "Unlock",
+  "admin.lockouts.reset": "Reset failures",
+  "admin.lockouts.error.invalidAction": "Invalid action.",
+  "admin.lockouts.error.clearFailed": "Could not release the lockout.",
+
+  // Database Explorer
+  "database.title": "Database Explorer",
+  "database.tab.tables": "Tables",
+  "database.tab.console": "SQL Console",
+  "database.tab.diagram": "ER Diagram",
+  "database.connectionFailed": "Connection failed.",
+  "database.queryError": "Query error",
+  "database.unknownError": "An unknown error occurred.",
+  "database.tableQueryError": "An unknown error occurred while querying the table.",
+  "database.tableNotFound": "Table \"{table}\" not found.",
+  "database.noTables": "No tables found.",
+  "database.selectTable": "Select a table on the left to see its details.",
+  "database.changeSaved": "Change saved",
+  "database.changeFailed": "Change not applied",
+  "database.data": "Data",
+  "database.records": { one: "{count} record", other: "{count} records" },
+  "database.importCsv": "Import CSV",
+  "database.export": "Export",
+  "database.export.filtered": "Filtered view",
+  "database.export.all": "Whole table",
+
+  "database.console.label": "Query (read-only SELECT, WITH, EXPLAIN and PRAGMA; up to {limit} rows)",
+  "database.console.shortcut": "Ctrl+Enter to run",
+  "database.console.run": "Run",
+  "database.console.running": "Running...",
+  "database.console.failed": "Failed to run the query.",
+  "database.console.result": "Result",
+  "database.console.rows": { one: "{count} row", other: "{count} rows" },
+  "database.console.truncated": "limited to {limit}",
+  "database.console.rowsRead": { one: "{count} row read", other: "{count} rows read" },
+  "database.console.plan": "Query Plan",
+  "database.console.error.unterminated": "Unterminated string, identifier or comment.",
+  "database.console.error.multiple": "Only one statement can be run at a time.",
+  "database.console.error.empty": "Enter a query.",
+  "database.console.error.readOnly": "The console is read-only: \"{keyword}\" is not allowed.",
+  "database.console.error.explain": "EXPLAIN is only accepted for SELECT or WITH queries.",
+  "database.console.error.pragma": "Allowed PRAGMAs: {pragmas}.",
+  "database.console.error.statement": "Only SELECT, WITH, EXPLAIN and PRAGMA statements are allowed.",
+
+  "database.row.invalidColumn": "Invalid column.",
+  "database.row.required": "{column}: value required",
+  "database.row.updated": "Column {column} updated.",
+  "database.row.deleted": "Row deleted.",
+  "database.row.inserted": "Row inserted.",
+  "database.row.invalidAction": "Invalid action.",
+  "database.row.failed": "Failed to change the table.",
+  "database.row.conflict": "The row was changed or deleted after it was loaded. The data has been reloaded; check it and try again.",
+  "database.row.confirmDelete": "Delete the row {key}?",
+  "database.edit.confirm": "Change {column} to {value}?",
+  "database.edit.hint": "Double-click to edit",
+  "database.newRow.title": "Add row",
+  "database.newRow.confirm": "Insert the new row into {table}?",
+  "database.newRow.hint": "Empty fields get the column default (or the next id, for an INTEGER primary key).",
+  "database.newRow.submit": "Insert row",
+
+  "database.schema.title": "Table Schema",
+  "database.schema.column": "Column",
+  "database.schema.type": "Type",
+  "database.schema.notNull": "Not Null",
+  "database.schema.primaryKey": "Primary Key",
+  "database.details.indexes": "Indexes",
+  "database.details.name": "Name",
+  "database.details.columns": "Columns",
+  "database.details.unique": "Unique",
+  "database.details.origin": "Origin",
+  "database.details.partial": "(partial)",
+  "database.details.foreignKeys": "Foreign Keys",
+  "database.details.reference": "References",
+  "database.details.primaryKeyRef": "(primary key)",
+  "database.details.triggers": "Triggers",
+  "database.details.views": "Views using the table",
+  "database.details.createSql": "CREATE statement",
+
+  "database.diagram.title": "Entity-Relationship Diagram",
+  "database.diagram.openSvg": "Open SVG",
+  "database.diagram.legend": "Arrows start at the foreign key column and point to the referenced column. PK = primary key, FK = foreign key.",
+  "database.diagram.alt": "Entity-relationship diagram of the database",
+
+  "database.filter.eq": "Equals",
+  "database.filter.contains": "Contains",
+  "database.filter.null": "Is null",
+  "database.filter.notnull": "Is not null",
+  "database.filter.range": "Between",
+  "database.filter.label": "Filter for {column}",
+  "database.filter.value": "value",
+  "database.filter.from": "from",
+  "database.filter.to": "to",
+  "database.filter.apply": "Filter",
+  "database.filter.clear": "Clear filters",
+
+  "database.grid.noMatches": "No records match the filters.",
+  "database.grid.empty": "No records found.",
+  "database.grid.perPage": "Per page:",
+  "database.grid.range": "{first}–{last} of {total} (page {page} of {pages})",
+  "database.grid.previous": "Previous",
+  "database.grid.next": "Next",
+
+  "database.json.show": "Show JSON",
+  "database.json.title": "JSON Viewer",
+  "database.json.copy": "Copy JSON",
+  "database.json.copied": "Copied!",
+  "database.json.copyFailed": "Failed!",
+
+  "database.import.meta.title": "Import CSV - Database Explorer - RENOVAAPP",
+  "database.import.table": "Table",
+  "database.import.select": "Select...",
+  "database.import.file": "CSV file",
+  "database.import.upload": "Load",
+  "database.import.hint": "First row with the column names; comma or semicolon separator. Up to {megabytes} MB and {rows} rows. Empty fields are saved as NULL.",
+  "database.import.mapping": "Column mapping",
+  "database.import.tableColumn": "Table column",
+  "database.import.constraints": "Constraints",
+  "database.import.csvColumn": "CSV column",
+  "database.import.skipColumn": "— do not import —",
+  "database.import.missing": "Required columns without a match: {columns}.",
+  "database.import.refreshPreview": "Refresh preview",
+  "database.import.confirm": { one: "Insert {count} row into {table}?", other: "Insert {count} rows into {table}?" },
+  "database.import.importing": "Importing...",
+  "database.import.submit": { one: "Import {count} row", other: "Import {count} rows" },
+  "database.import.toInsert": "Rows to insert",
+  "database.import.showing": ", showing {count}",
+  "database.import.noValid": "No valid rows.",
+  "database.import.line": "Row",
+  "database.import.reasons": "Reasons",
+  "database.import.content": "Content",
+  "database.import.rejected": "Rejected rows",
+  "database.import.skipped": "Skipped rows",
+  "database.import.failed": "Failed rows",
+  "database.import.error": "Error",
+  "database.import.completed": "Import of {file} into {table} completed.",
+  "database.import.report.inserted": { one: "{count} inserted", other: "{count} inserted" },
+  "database.import.report.skipped": { one: "{count} skipped by validation", other: "{count} skipped by validation" },
+  "database.import.report.failed": "{count} failed in the database",
+  "database.import.reason.duplicateKey": "duplicate primary key (row {line})",
+  "database.import.reason.existingKey": "primary key {key} already exists in the table",
+  "database.import.error.noFile": "Select a CSV file.",
+  "database.import.error.tooLarge": "The file exceeds the {megabytes} MB limit.",
+  "database.import.error.empty": "The file is empty.",
+  "database.import.error.tooManyRows": "The file has {count} rows; the limit is {max}.",
+  "database.import.error.noValid": "There are no valid rows to import with the given mapping.",
+
+  // Validações compartilhadas
+  "password.policy.minLength": "The password must have at least {count} characters.",
+  "password.policy.maxLength": "The password must have at most {count} characters.",
+  "password.policy.lettersAndDigits": "The password must contain letters and numbers.",
+  "password.policy.matricula": "The password cannot contain your employee ID.",
+
+  "database.value.notInteger": "{column}: \"{value}\" is not an integer",
+  "database.value.notNumber": "{column}: \"{value}\" is not a number",
+};
@@ -0,0 +1,520 @@
+// File: app/locales/es.ts
+import type { Message, MessageKey } from "~/i18n";
+
+export const es: Record<MessageKey, Message> = {
+  // Comum
+  "common.back": "Volver",
+  "common.save": "Guardar",
+  "common.saving": "Guardando...",
+  "common.delete": "Eliminar",
+  "common.cancel": "Cancelar",
+  "common.close": "Cerrar",
+  "common.yes": "Sí",
+  "common.no": "No",
+  "common.none": "Ninguno.",
+  "common.previous": "Anterior",
+  "common.next": "Siguiente",
+  "language.label": "Idioma",
+  "language.submit": "Cambiar idioma",
+
+  // Erros genéricos (rota raiz)
+  "error.title": "¡Ups!",
+  "error.generic": "Error",
+  "error.unexpected": "Se produjo un error inesperado.",
+  "error.notFound": "No se encontró la página solicitada.",
+
+  // Login
+  "login.meta.title": "Iniciar sesión - RENOVAAPP",
+  "login.subtitle": "Accede a tu cuenta para continuar",
+  "login.matricula": "Matrícula",
+  "login.password": "Contraseña",
+  "login.submit": "Entrar",
+  "login.submitting": "Entrando...",
+  "login.locked.title": "Cuenta bloqueada",
+  "login.error.required": "La matrícula y la contraseña son obligatorias.",
+  "login.error.invalid": "Matrícula o contraseña no válida.",
+  "login.error.locked": "Acceso bloqueado temporalmente por exceso de intentos. Inténtalo de nuevo más tarde o contacta a un administrador.",
+  "login.error.lockedUntil": "Acceso bloqueado temporalmente por exceso de intentos. Inténtalo de nuevo después de las {time} (UTC) o contacta a un administrador.",
+  "login.error.expired": "Se agotó el tiempo para ingresar el código. Inicia sesión de nuevo con tu matrícula y contraseña.",
+  "login.error.invalidCode": "Código inválido o ya utilizado.",
+  "login2fa.meta.title": "Verificación en dos pasos - RENOVAAPP",
+  "login2fa.title": "Verificación en dos pasos",
+  "login2fa.instructions": "Ingresa el código de 6 dígitos que muestra tu aplicación de autenticación.",
+  "login2fa.code": "Código",
+  "login2fa.recoveryHint": "¿Sin acceso a la aplicación? Usa uno de tus códigos de recuperación.",
+  "login2fa.submit": "Verificar",
+  "login2fa.submitting": "Verificando...",
+  "login2fa.restart": "Iniciar sesión con otra cuenta",
+
+  // Página inicial
+  "index.meta.title": "Inicio - RENOVAAPP",
+  "index.welcome": "Bienvenido",
+  "index.adminPanel": "Panel de administración",
+  "index.changePassword": "Cambiar contraseña",
+  "index.sessions": "Mis sesiones",
+  "index.apiTokens": "Tokens de API",
+  "index.twoFactor": "Verificación en Dos Pasos",
+  "index.logout": "Salir",
+  "index.modules": { one: "{count} módulo disponible", other: "{count} módulos disponibles" },
+  "modules.obras.description": "Seguimiento de obras e intervenciones.",
+  "modules.almoxarifado.description": "Control de materiales, entradas y salidas de inventario.",
+  "modules.relatorios.description": "Informes de gestión e indicadores.",
+  "module.fallbackTitle": "Módulo",
+  "module.empty": "Este módulo todavía no tiene contenido.",
+  "module.error.forbiddenTitle": "Acceso denegado",
+  "module.error.forbidden": "Su perfil no tiene permiso para acceder a este módulo.",
+  "module.error.notFound": "Módulo no encontrado.",
+  "module.error.loadFailed": "No se pudo cargar el módulo.",
+  "module.error.home": "Volver a la página de inicio",
+
+  // Troca de senha
+  "account.password.meta.title": "Cambiar contraseña - RENOVAAPP",
+  "account.password.title": "Cambiar contraseña",
+  "account.password.mustChange": "Su contraseña fue definida por un administrador. Elija una nueva contraseña para continuar.",
+  "account.password.temporary": "Contraseña temporal",
+  "account.password.current": "Contraseña actual",
+  "account.password.new": "Nueva contraseña",
+  "account.password.hint": "Mínimo de {count} caracteres, con letras y números, sin contener la matrícula.",
+  "account.password.confirm": "Confirme la nueva contraseña",
+  "account.password.submit": "Guardar nueva contraseña",
+  "account.password.error.current": "La contraseña actual es incorrecta.",
+  "account.password.error.mismatch": "La confirmación no coincide con la nueva contraseña.",
+  "account.password.error.same": "La nueva contraseña debe ser diferente de la actual.",
+
+  // Verificação em duas etapas (conta)
+  "account.twoFactor.meta.title": "Verificación en dos pasos - RENOVAAPP",
+  "account.twoFactor.intro": "Además de la contraseña, el inicio de sesión pide un código de 6 dígitos generado por una aplicación autenticadora (Google Authenticator, Microsoft Authenticator, FreeOTP, etc.).",
+  "account.twoFactor.mustEnroll": "Su perfil exige la verificación en dos pasos. Configure una aplicación autenticadora para continuar.",
+  "account.twoFactor.recoveryCodes.title": "Códigos de recuperación",
+  "account.twoFactor.recoveryCodes.hint": "Guarde estos códigos en un lugar seguro: no se volverán a mostrar. Cada uno permite un único inicio de sesión sin la aplicación.",
+  "account.twoFactor.active": "Activa",
+  "account.twoFactor.inactive": "Inactiva",
+  "account.twoFactor.remainingCodes": { one: "{count} de {total} código de recuperación disponible.", other: "{count} de {total} códigos de recuperación disponibles." },
+  "account.twoFactor.regenerate.title": "Generar nuevos códigos de recuperación",
+  "account.twoFactor.regenerate.hint": "Confirme con el código actual de la aplicación.",
+  "account.twoFactor.regenerate.submit": "Generar códigos",
+  "account.twoFactor.disable": "Desactivar",
+  "account.twoFactor.required": "Su perfil exige la verificación en dos pasos.",
+  "account.twoFactor.enroll.scan": "1. En la aplicación autenticadora, escanee el código QR de abajo o introduzca la clave manualmente.",
+  "account.twoFactor.enroll.code": "2. Introduzca el código de 6 dígitos que muestra la aplicación para terminar.",
+  "account.twoFactor.enroll.submit": "Activar",
+  "account.twoFactor.enroll.cancel": "Cancelar configuración",
+  "account.twoFactor.passwordOnly": "Su cuenta está protegida solo por la contraseña.",
+  "account.twoFactor.setup": "Configurar aplicación autenticadora",
+  "account.twoFactor.enabled": "Verificación en dos pasos activada.",
+  "account.twoFactor.disabled": "Verificación en dos pasos desactivada.",
+  "account.twoFactor.regenerated": "Se generaron nuevos códigos de recuperación; los anteriores dejaron de valer.",
+  "account.twoFactor.error.alreadyActive": "La verificación en dos pasos ya está activa.",
+  "account.twoFactor.error.notActive": "La verificación en dos pasos no está activa.",
+  "account.twoFactor.error.requiredByProfile": "Su perfil exige la verificación en dos pasos; no se puede desactivar.",
+  "account.twoFactor.error.enrollCode": "Código no válido. Compruebe la hora del teléfono e introduzca el código actual de la aplicación.",
+  "account.twoFactor.error.code": "Código no válido o ya utilizado.",
+  "account.twoFactor.error.invalidAction": "Acción no válida.",
+
+  // Sessões (conta)
+  "account.sessions.meta.title": "Mis sesiones - RENOVAAPP",
+  "account.sessions.intro": "Dispositivos conectados a su cuenta. Horarios en UTC.",
+  "account.sessions.revokeOthers": "Cerrar las demás sesiones",
+  "account.sessions.device": "Dispositivo",
+  "account.sessions.ip": "IP",
+  "account.sessions.start": "Inicio",
+  "account.sessions.lastAccess": "Último acceso",
+  "account.sessions.expires": "Expira el",
+  "account.sessions.unknownDevice": "Desconocido",
+  "account.sessions.current": "Sesión actual",
+  "account.sessions.revoke": "Cerrar",
+
+  // Tokens de API (conta)
+  "account.tokens.meta.title": "Tokens de API - RENOVAAPP",
+  "account.tokens.intro": "Acceso a la API /api/v1 en su nombre. Horarios en UTC.",
+  "account.tokens.docs": "Documentación:",
+  "account.tokens.created": "Token \"{name}\" creado. Cópielo ahora: no se volverá a mostrar.",
+  "account.tokens.headerHint": "Envíelo en el encabezado:",
+  "account.tokens.new": "Nuevo token",
+  "account.tokens.namePlaceholder": "Nombre (p. ej.: integración RR. HH.)",
+  "account.tokens.validity": { one: "Expira en {count} día", other: "Expira en {count} días" },
+  "account.tokens.scopes": "Ámbitos",
+  "account.tokens.create": "Crear token",
+  "account.tokens.name": "Nombre",
+  "account.tokens.prefix": "Prefijo",
+  "account.tokens.createdAt": "Creado el",
+  "account.tokens.expiresAt": "Expira el",
+  "account.tokens.lastUsed": "Último uso",
+  "account.tokens.status": "Estado",
+  "account.tokens.status.revoked": "Revocado",
+  "account.tokens.status.expired": "Expirado",
+  "account.tokens.status.active": "Activo",
+  "account.tokens.empty": "Ningún token creado.",
+  "account.tokens.revoke": "Revocar",
+  "account.tokens.error.required": "Indique un nombre y al menos un ámbito.",
+  "account.tokens.error.validity": "Validez no válida.",
+  "account.tokens.error.notFound": "Token no encontrado o ya revocado.",
+  "account.tokens.error.invalidAction": "Acción no válida.",
+
+  // Painel administrativo
+  "admin.meta.title": "Admin - RENOVAAPP",
+  "admin.title": "Admin",
+  "admin.nav.profiles": "Gestionar perfiles",
+  "admin.nav.users": "Gestionar usuarios",
+  "admin.nav.permissions": "Permisos",
+  "admin.nav.audit": "Auditoría",
+  "admin.nav.lockouts": "Bloqueos de inicio de sesión",
+  "admin.nav.jobs": "Tareas programadas",
+  "admin.nav.backToApp": "Volver a la aplicación",
+  "admin.profiles.loadError": "Error al cargar los datos.",
+  "admin.profiles.new": "Agregar nuevo perfil",
+  "admin.profiles.id": "ID",
+  "admin.profiles.name": "Nombre del perfil",
+  "admin.profiles.twoFactor": "2FA obligatorio",
+  "admin.profiles.twoFactorRequire": "Exigir",
+  "admin.profiles.twoFactorRelease": "Dispensar",
+  "admin.profiles.twoFactorConfirm": "¿Exigir la verificación en dos pasos? Las sesiones abiertas de los usuarios de este perfil se cerrarán.",
+  "admin.profiles.count": { one: "{count} perfil registrado", other: "{count} perfiles registrados" },
+  "admin.profiles.confirmDelete": "¿Seguro que deseas eliminar este perfil?",
+  "admin.profiles.usage": "Uso",
+  "admin.profiles.usersCount": { one: "{count} usuario", other: "{count} usuarios" },
+  "admin.profiles.permissionsCount": { one: "{count} permiso", other: "{count} permisos" },
+  "admin.profiles.edit": "Editar",
+  "admin.profiles.protected": "Perfil del sistema",
+  "admin.profiles.reassignTo": { one: "Transferir el usuario a", other: "Transferir los {count} usuarios a" },
+  "admin.profiles.reassignPlaceholder": "Selecciona el perfil",
+  "admin.profiles.deleteHint": "Se eliminarán los permisos del perfil.",
+  "admin.profiles.error.nameRequired": "Ingresa el nombre del perfil.",
+  "admin.profiles.error.nameExists": "Ya existe un perfil llamado {name}.",
+  "admin.profiles.error.notFound": "Perfil no encontrado.",
+  "admin.profiles.error.protected": "El perfil {name} es del sistema y no se puede renombrar ni eliminar.",
+  "admin.profiles.error.reassignRequired": { one: "El perfil tiene {count} usuario vinculado: elige otro perfil para transferirlo.", other: "El perfil tiene {count} usuarios vinculados: elige otro perfil para transferirlos." },
+  "admin.profiles.error.saveFailed": "No se pudieron guardar los cambios.",
+
+  "admin.users.meta.title": "Usuarios - Admin - RENOVAAPP",
+  "admin.users.loadError": "Error al cargar los datos.",
+  "admin.users.new": "Agregar nuevo usuario",
+  "admin.users.import": "Importar hoja de cálculo (CSV/XLSX)",
+  "admin.users.matricula": "Matrícula",
+  "admin.users.name": "Nombre",
+  "admin.users.profile": "Perfil",
+  "admin.users.status": "Estado",
+  "admin.users.initialPassword": "Contraseña inicial",
+  "admin.users.initialPasswordHint": "El usuario deberá cambiarla en el primer acceso.",
+  "admin.users.searchPlaceholder": "Buscar por matrícula o nombre",
+  "admin.users.showDeleted": "Mostrar eliminados",
+  "admin.users.search": "Buscar",
+  "admin.users.empty": "No se encontraron usuarios.",
+  "admin.users.status.active": "Activo",
+  "admin.users.status.inactive": "Inactivo",
+  "admin.users.status.deleted": "Eliminado",
+  "admin.users.edit": "Editar",
+  "admin.users.activate": "Activar",
+  "admin.users.deactivate": "Desactivar",
+  "admin.users.restore": "Restaurar",
+  "admin.users.resetPassword": "Restablecer contraseña",
+  "admin.users.resetPasswordConfirm": "¿Generar una contraseña temporal para este usuario? Las sesiones abiertas se cerrarán.",
+  "admin.users.resetTwoFactor": "Restablecer 2FA",
+  "admin.users.resetTwoFactorConfirm": "¿Quitar la aplicación autenticadora y los códigos de recuperación de este usuario? Las sesiones abiertas se cerrarán.",
+  "admin.users.deleteConfirm": "¿Está seguro de que desea eliminar este usuario?",
+  "admin.users.temporaryPassword.title": "Contraseña temporal de la matrícula {matricula}",
+  "admin.users.temporaryPassword.hint": "Anótela y entréguela al usuario: no se volverá a mostrar. El cambio se exigirá en el próximo acceso.",
+  "admin.users.pagination": { one: "{count} usuario — página {page} de {pages}", other: "{count} usuarios — página {page} de {pages}" },
+  "admin.users.error.createRequired": "Matrícula, nombre, contraseña y perfil son obligatorios.",
+  "admin.users.error.updateRequired": "Nombre y perfil son obligatorios.",
+  "admin.users.error.matriculaExists": "La matrícula {matricula} ya está registrada.",
+  "admin.users.error.notFound": "Usuario no encontrado.",
+  "admin.users.error.invalidAction": "Acción no válida.",
+  "admin.users.error.saveFailed": "No se pudieron guardar los cambios.",
+
+  "admin.users.import.meta.title": "Importar usuarios - Admin - RENOVAAPP",
+  "admin.users.import.title": "Importar usuarios",
+  "admin.users.import.file": "Hoja de cálculo",
+  "admin.users.import.upload": "Cargar",
+  "admin.users.import.hint": "CSV o XLSX (primera hoja) con las columnas matricula, nome y perfil (nombre del perfil) en la primera fila. Hasta {megabytes} MB y {rows} usuarios. Cada usuario recibe una contraseña inicial generada y debe cambiarla en el primer acceso.",
+  "admin.users.import.preview.valid": { one: "{count} usuario por guardar", other: "{count} usuarios por guardar" },
+  "admin.users.import.preview.restoring": { one: "({count} restaurado)", other: "({count} restaurados)" },
+  "admin.users.import.preview.rejected": { one: "{count} fila rechazada", other: "{count} filas rechazadas" },
+  "admin.users.import.preview.notSaved": "Todavía no se ha guardado nada.",
+  "admin.users.import.restoreDeleted": { one: "Restaurar el usuario eliminado con matrícula presente en el archivo, sustituyendo nombre, perfil y contraseña", other: "Restaurar los {count} usuarios eliminados con matrícula presente en el archivo, sustituyendo nombre, perfil y contraseña" },
+  "admin.users.import.refreshPreview": "Actualizar vista previa",
+  "admin.users.import.confirm": { one: "¿Guardar {count} usuario?", other: "¿Guardar {count} usuarios?" },
+  "admin.users.import.importing": "Importando...",
+  "admin.users.import.submit": { one: "Importar {count} usuario", other: "Importar {count} usuarios" },
+  "admin.users.import.toSave": "Usuarios por guardar",
+  "admin.users.import.showing": ", mostrando {count}",
+  "admin.users.import.noValid": "Ninguna fila válida.",
+  "admin.users.import.line": "Fila",
+  "admin.users.import.action": "Acción",
+  "admin.users.import.create": "Crear",
+  "admin.users.import.restore": "Restaurar",
+  "admin.users.import.rejected": "Filas rechazadas",
+  "admin.users.import.reasons": "Motivos",
+  "admin.users.import.content": "Contenido",
+  "admin.users.import.completed": "Importación de {file} completada.",
+  "admin.users.import.report.created": { one: "{count} creado", other: "{count} creados" },
+  "admin.users.import.report.restored": { one: "{count} restaurado", other: "{count} restaurados" },
+  "admin.users.import.report.skipped": { one: "{count} omitida en la validación", other: "{count} omitidas en la validación" },
+  "admin.users.import.report.failed": "{count} con error en la base de datos",
+  "admin.users.import.passwords.title": "Contraseñas iniciales",
+  "admin.users.import.passwords.hint": "Descargue el archivo ahora y entregue cada contraseña a su usuario: no se guardan y no se volverán a mostrar.",
+  "admin.users.import.passwords.download": "Descargar credenciales ({count})",
+  "admin.users.import.skipped": "Filas omitidas",
+  "admin.users.import.failed": "Filas con error",
+  "admin.users.import.error": "Error",
+  "admin.users.import.credentials.created": "creado",
+  "admin.users.import.credentials.restored": "restaurado",
+  "admin.users.import.reason.matriculaEmpty": "matrícula vacía",
+  "admin.users.import.reason.nameEmpty": "nombre vacío",
+  "admin.users.import.reason.profileEmpty": "perfil vacío",
+  "admin.users.import.reason.profileNotFound": "perfil \"{profile}\" no encontrado",
+  "admin.users.import.reason.duplicate": "matrícula repetida en el archivo (fila {line})",
+  "admin.users.import.reason.exists": "matrícula ya registrada",
+  "admin.users.import.reason.deleted": "matrícula de un usuario eliminado (marque la opción de restaurar)",
+  "admin.users.import.reason.notDeleted": "el usuario ya no está eliminado",
+  "admin.users.import.error.noFile": "Seleccione un archivo CSV o XLSX.",
+  "admin.users.import.error.tooLarge": "El archivo supera el límite de {megabytes} MB.",
+  "admin.users.import.error.unreadable": "No se pudo leer el archivo.",
+  "admin.users.import.error.xlsxInvalid": "Archivo XLSX no válido o dañado.",
+  "admin.users.import.error.xlsxTooLarge": "La hoja de cálculo es demasiado grande para importarla.",
+  "admin.users.import.error.xlsxCompression": "La hoja de cálculo usa un método de compresión no admitido.",
+  "admin.users.import.error.empty": "El archivo está vacío.",
+  "admin.users.import.error.tooManyRows": "El archivo tiene {count} filas; el límite es {max}.",
+  "admin.users.import.error.missingColumns": "Columnas no encontradas en el encabezado: {columns}.",
+  "admin.users.import.error.noValid": "No hay filas válidas para importar.",
+
+  "admin.permissions.meta.title": "Permisos - Admin - RENOVAAPP",
+  "admin.permissions.title": "Permisos por perfil",
+  "admin.permissions.loadError": "Error al cargar los datos.",
+  "admin.permissions.saved": "Permisos guardados. Concedidos: {added}; revocados: {removed}.",
+  "admin.permissions.profile": "Perfil",
+  "admin.permissions.copyFrom": "Copiar permisos de",
+  "admin.permissions.select": "Seleccione...",
+  "admin.permissions.discard": "Descartar",
+  "admin.permissions.review": "Revisar cambios",
+  "admin.permissions.confirmTitle": "Confirmar cambios de permisos",
+  "admin.permissions.granted": "Concedidos ({count})",
+  "admin.permissions.revoked": "Revocados ({count})",
+  "admin.permissions.confirm": "Confirmar y guardar",
+  "admin.permissions.error.invalidAction": "Acción no válida.",
+  "admin.permissions.error.stale": "Otro administrador cambió los permisos después de que se cargó la página. Revise los cambios de nuevo.",
+  "admin.permissions.error.invalidChanges": "Cambios de permisos no válidos.",
+  "admin.permissions.error.lastAdmin": "Al menos un perfil debe mantener el módulo \"{module}\".",
+  "admin.permissions.error.saveFailed": "No se pudieron guardar los permisos.",
+
+  "admin.jobs.meta.title": "Tareas programadas - Admin - RENOVAAPP",
+  "admin.jobs.loadError": "Error al cargar los datos.",
+  "admin.jobs.intro": "Tareas de mantenimiento ejecutadas por los cron triggers del Worker. Programaciones y horarios en UTC.",
+  "admin.jobs.job": "Tarea",
+  "admin.jobs.schedule": "Programación",
+  "admin.jobs.lastRun": "Última ejecución",
+  "admin.jobs.neverRun": "Nunca ejecutada",
+  "admin.jobs.run": "Ejecutar ahora",
+  "admin.jobs.running": "Ejecutando...",
+  "admin.jobs.runConfirm": "¿Ejecutar la tarea \"{job}\" ahora?",
+  "admin.jobs.history": "Historial",
+  "admin.jobs.start": "Inicio",
+  "admin.jobs.end": "Fin",
+  "admin.jobs.origin": "Origen",
+  "admin.jobs.origin.manual": "Manual",
+  "admin.jobs.origin.manualBy": "Manual ({user})",
+  "admin.jobs.origin.scheduled": "Programada",
+  "admin.jobs.status": "Estado",
+  "admin.jobs.status.running": "En ejecución",
+  "admin.jobs.status.success": "Éxito",
+  "admin.jobs.status.failure": "Error",
+  "admin.jobs.affected": "Afectados",
+  "admin.jobs.details": "Detalles",
+  "admin.jobs.empty": "No hay ejecuciones registradas.",
+  "admin.jobs.completed": { one: "Tarea \"{job}\" completada: {count} registro afectado.", other: "Tarea \"{job}\" completada: {count} registros afectados." },
+  "admin.jobs.error.invalidAction": "Acción no válida.",
+  "admin.jobs.error.running": "La tarea \"{job}\" ya está en ejecución.",
+  "admin.jobs.error.failed": "La tarea \"{job}\" falló: {error}",
+  "admin.jobs.description.expiredSessions": "Elimina las sesiones vencidas por plazo o inactividad.",
+  "admin.jobs.description.staleLockouts": "Elimina los contadores de fallos de inicio de sesión sin bloqueo activo ni fallo reciente.",
+  "admin.jobs.description.deletedUsers": "Elimina definitivamente los usuarios eliminados hace más de {count} días.",
+  "admin.jobs.description.compactAudit": "Descarta los datos de antes/después y el user agent de los eventos con más de {count} días.",
+
+  "admin.audit.meta.title": "Auditoría - Admin - RENOVAAPP",
+  "admin.audit.loadError": "Error al cargar los datos.",
+  "admin.audit.user": "Usuario",
+  "admin.audit.userPlaceholder": "Nombre, matrícula o id",
+  "admin.audit.action": "Acción",
+  "admin.audit.allActions": "Todas",
+  "admin.audit.from": "Desde",
+  "admin.audit.to": "Hasta",
+  "admin.audit.filter": "Filtrar",
+  "admin.audit.export": "Exportar CSV",
+  "admin.audit.date": "Fecha (UTC)",
+  "admin.audit.record": "Registro",
+  "admin.audit.ip": "IP",
+  "admin.audit.empty": "No se encontraron eventos.",
+  "admin.audit.hide": "Ocultar",
+  "admin.audit.details": "Detalles",
+  "admin.audit.before": "Antes",
+  "admin.audit.after": "Después",
+  "admin.audit.userAgent": "User agent: {userAgent}",
+  "admin.audit.pagination": { one: "{count} evento — página {page} de {pages}", other: "{count} eventos — página {page} de {pages}" },
+
+  "admin.lockouts.meta.title": "Bloqueos de inicio de sesión - Admin - RENOVAAPP",
+  "admin.lockouts.loadError": "Error al cargar los datos.",
+  "admin.lockouts.intro": "Matrículas e IP con intentos de inicio de sesión fallidos. Horarios en UTC.",
+  "admin.lockouts.type": "Tipo",
+  "admin.lockouts.key": "Clave",
+  "admin.lockouts.failures": "Fallos",
+  "admin.lockouts.lastFailure": "Último fallo",
+  "admin.lockouts.lockedUntil": "Bloqueado hasta",
+  "admin.lockouts.type.ip": "IP",
+  "admin.lockouts.type.matricula": "Matrícula",
+  "admin.lockouts.empty": "No hay intentos fallidos registrados.",
+  "admin.lockouts.clearConfirm": "¿Liberar esta clave y reiniciar los fallos?",
+  "admin.lockouts.unlock": "Desbloquear",
+  "admin.lockouts.reset": "Reiniciar fallos",
+  "admin.lockouts.error.invalidAction": "Acción no válida.",
+  "admin.lockouts.error.clearFailed": "No se pudo liberar el bloqueo.",
+
+  // Database Explorer
+  "database.title": "Explorador de la base de datos",
+  "database.tab.tables": "Tablas",
+  "database.tab.console": "Consola SQL",
+  "database.tab.diagram": "Diagrama ER",
+  "database.connectionFailed": "Error de conexión.",
+  "database.queryError": "Error en la consulta",
+  "database.unknownError": "Se produjo un error desconocido.",
+  "database.tableQueryError": "Se produjo un error desconocido al consultar la tabla.",
+  "database.tableNotFound": "No se encontró la tabla \"{table}\".",
+  "database.noTables": "No se encontraron tablas.",
+  "database.selectTable": "Selecciona una tabla a la izquierda para ver sus detalles.",
+  "database.changeSaved": "Cambio guardado",
+  "database.changeFailed": "Cambio no realizado",
+  "database.data": "Datos",
+  "database.records": { one: "{count} registro", other: "{count} registros" },
+  "database.importCsv": "Importar CSV",
+  "database.export": "Exportar",
+  "database.export.filtered": "Vista filtrada",
+  "database.export.all": "Tabla completa",
+
+  "database.console.label": "Consulta (solo SELECT, WITH, EXPLAIN y PRAGMA de lectura; hasta {limit} filas)",
+  "database.console.shortcut": "Ctrl+Enter para ejecutar",
+  "database.console.run": "Ejecutar",
+  "database.console.running": "Ejecutando...",
+  "database.console.failed": "Error al ejecutar la consulta.",
+  "database.console.result": "Resultado",
+  "database.console.rows": { one: "{count} fila", other: "{count} filas" },
+  "database.console.truncated": "limitado a {limit}",
+  "database.console.rowsRead": { one: "{count} fila leída", other: "{count} filas leídas" },
+  "database.console.plan": "Plan de ejecución",
+  "database.console.error.unterminated": "Texto, identificador o comentario sin terminar.",
+  "database.console.error.multiple": "Solo se puede ejecutar una instrucción a la vez.",
+  "database.console.error.empty": "Introduzca una consulta.",
+  "database.console.error.readOnly": "La consola es de solo lectura: \"{keyword}\" no está permitido.",
+  "database.console.error.explain": "EXPLAIN solo se acepta para consultas SELECT o WITH.",
+  "database.console.error.pragma": "PRAGMA permitidos: {pragmas}.",
+  "database.console.error.statement": "Solo se permiten instrucciones SELECT, WITH, EXPLAIN y PRAGMA.",
+
+  "database.row.invalidColumn": "Columna no válida.",
+  "database.row.required": "{column}: valor obligatorio",
+  "database.row.updated": "Columna {column} actualizada.",
+  "database.row.deleted": "Fila eliminada.",
+  "database.row.inserted": "Fila insertada.",
+  "database.row.invalidAction": "Acción no válida.",
+  "database.row.failed": "Error al modificar la tabla.",
+  "database.row.conflict": "La fila se modificó o eliminó después de cargarse. Los datos se recargaron; revísalos e inténtalo de nuevo.",
+  "database.row.confirmDelete": "¿Eliminar la fila {key}?",
+  "database.edit.confirm": "¿Cambiar {column} a {value}?",
+  "database.edit.hint": "Doble clic para editar",
+  "database.newRow.title": "Agregar fila",
+  "database.newRow.confirm": "¿Insertar la nueva fila en {table}?",
+  "database.newRow.hint": "Los campos vacíos reciben el valor predeterminado de la columna (o el siguiente id, en la clave primaria INTEGER).",
+  "database.newRow.submit": "Insertar fila",
+
+  "database.schema.title": "Esquema de la tabla",
+  "database.schema.column": "Columna",
+  "database.schema.type": "Tipo",
+  "database.schema.notNull": "No nulo",
+  "database.schema.primaryKey": "Clave primaria",
+  "database.details.indexes": "Índices",
+  "database.details.name": "Nombre",
+  "database.details.columns": "Columnas",
+  "database.details.unique": "Único",
+  "database.details.origin": "Origen",
+  "database.details.partial": "(parcial)",
+  "database.details.foreignKeys": "Claves foráneas",
+  "database.details.reference": "Referencia",
+  "database.details.primaryKeyRef": "(clave primaria)",
+  "database.details.triggers": "Disparadores",
+  "database.details.views": "Vistas que usan la tabla",
+  "database.details.createSql": "Instrucción CREATE",
+
+  "database.diagram.title": "Diagrama entidad-relación",
+  "database.diagram.openSvg": "Abrir SVG",
+  "database.diagram.legend": "Las flechas parten de la columna con la clave foránea y apuntan a la columna referenciada. PK = clave primaria, FK = clave foránea.",
+  "database.diagram.alt": "Diagrama entidad-relación de la base de datos",
+
+  "database.filter.eq": "Igual a",
+  "database.filter.contains": "Contiene",
+  "database.filter.null": "Es nulo",
+  "database.filter.notnull": "No es nulo",
+  "database.filter.range": "Entre",
+  "database.filter.label": "Filtro de {column}",
+  "database.filter.value": "valor",
+  "database.filter.from": "desde",
+  "database.filter.to": "hasta",
+  "database.filter.apply": "Filtrar",
+  "database.filter.clear": "Limpiar filtros",
+
+  "database.grid.noMatches": "Ningún registro cumple los filtros.",
+  "database.grid.empty": "No se encontraron registros.",
+  "database.grid.perPage": "Por página:",
+  "database.grid.range": "{first}–{last} de {total} (página {page} de {pages})",
+  "database.grid.previous": "Anterior",
+  "database.grid.next": "Siguiente",
+
+  "database.json.show": "Ver JSON",
+  "database.json.title": "Visor de JSON",
+  "database.json.copy": "Copiar JSON",
+  "database.json.copied": "¡Copiado!",
+  "database.json.copyFailed": "¡Falló!",
+
+  "database.import.meta.title": "Importar CSV - Database Explorer - RENOVAAPP",
+  "database.import.table": "Tabla",
+  "database.import.select": "Seleccione...",
+  "database.import.file": "Archivo CSV",
+  "database.import.upload": "Cargar",
+  "database.import.hint": "Primera fila con los nombres de las columnas; separador coma o punto y coma. Hasta {megabytes} MB y {rows} filas. Los campos vacíos se guardan como NULL.",
+  "database.import.mapping": "Asignación de columnas",
+  "database.import.tableColumn": "Columna de la tabla",
+  "database.import.constraints": "Restricciones",
+  "database.import.csvColumn": "Columna del CSV",
+  "database.import.skipColumn": "— no importar —",
+  "database.import.missing": "Columnas obligatorias sin correspondencia: {columns}.",
+  "database.import.refreshPreview": "Actualizar vista previa",
+  "database.import.confirm": { one: "¿Insertar {count} fila en {table}?", other: "¿Insertar {count} filas en {table}?" },
+  "database.import.importing": "Importando...",
+  "database.import.submit": { one: "Importar {count} fila", other: "Importar {count} filas" },
+  "database.import.toInsert": "Filas por insertar",
+  "database.import.showing": ", mostrando {count}",
+  "database.import.noValid": "Ninguna fila válida.",
+  "database.import.line": "Fila",
+  "database.import.reasons": "Motivos",
+  "database.import.content": "Contenido",
+  "database.import.rejected": "Filas rechazadas",
+  "database.import.skipped": "Filas omitidas",
+  "database.import.failed": "Filas con error",
+  "database.import.error": "Error",
+  "database.import.completed": "Importación de {file} en {table} completada.",
+  "database.import.report.inserted": { one: "{count} insertada", other: "{count} insertadas" },
+  "database.import.report.skipped": { one: "{count} omitida en la validación", other: "{count} omitidas en la validación" },
+  "database.import.report.failed": "{count} con error en la base de datos",
+  "database.import.reason.duplicateKey": "clave primaria repetida (fila {line})",
+  "database.import.reason.existingKey": "la clave primaria {key} ya existe en la tabla",
+  "database.import.error.noFile": "Seleccione un archivo CSV.",
+  "database.import.error.tooLarge": "El archivo supera el límite de {megabytes} MB.",
+  "database.import.error.empty": "El archivo está vacío.",
+  "database.import.error.tooManyRows": "El archivo tiene {count} filas; el límite es {max}.",
+  "database.import.error.noValid": "No hay filas válidas para importar con la asignación indicada.",
+
+  // Validações compartilhadas
+  "password.policy.minLength": "La contraseña debe tener al menos {count} caracteres.",
+  "password.policy.maxLength": "La contraseña debe tener como máximo {count} caracteres.",
+  "password.policy.lettersAndDigits": "La contraseña debe contener letras y números.",
+  "password.policy.matricula": "La contraseña no puede contener la matrícula.",
+
+  "database.value.notInteger": "{column}: \"{value}\" no es un número entero",
+  "database.value.notNumber": "{column}: \"{value}\" no es un número",
+};
@@ -0,0 +1,524 @@
+// File: app/locales/pt-BR.ts
+// Catálogo de referência: toda chave nova entra aqui primeiro (os demais idiomas são
+// verificados contra ele pelo TypeScript).
+import type { Message } from "~/i18n";
+
+export const ptBR = {
+  // Comum
+  "common.back": "Voltar",
+  "common.save": "Salvar",
+  "common.saving": "Salvando...",
+  "common.delete": "Excluir",
+  "common.cancel": "Cancelar",
+  "common.close": "Fechar",
+  "common.yes": "Sim",
+  "common.no": "Não",
+  "common.none": "Nenhum.",
+  "common.previous": "Anterior",
+  "common.next": "Próxima",
+  "language.label": "Idioma",
+  "language.submit": "Alterar idioma",
+
+  // Erros genéricos (rota raiz)
+  "error.title": "Ops!",
+  "error.generic": "Erro",
+  "error.unexpected": "Ocorreu um erro inesperado.",
+  "error.notFound": "A página solicitada não foi encontrada.",
+
+  // Login
+  "login.meta.title": "Login - RENOVAAPP",
+  "login.subtitle": "Acesse sua conta para continuar",
+  "login.matricula": "Matrícula",
+  "login.password": "Senha",
+  "login.submit": "Entrar",
+  "login.submitting": "Entrando...",
+  "login.locked.title": "Conta bloqueada",
+  "login.error.required": "Matrícula e senha são obrigatórios.",
+  "login.error.invalid": "Matrícula ou senha inválida.",
+  "login.error.locked": "Acesso bloqueado temporariamente por excesso de tentativas. Tente novamente mais tarde ou procure um administrador.",
+  "login.error.lockedUntil": "Acesso bloqueado temporariamente por excesso de tentativas. Tente novamente após {time} (UTC) ou procure um administrador.",
+  "login.error.expired": "O tempo para informar o código acabou. Entre novamente com matrícula e senha.",
+  "login.error.invalidCode": "Código inválido ou já utilizado.",
+  "login2fa.meta.title": "Verificação em duas etapas - RENOVAAPP",
+  "login2fa.title": "Verificação em duas etapas",
+  "login2fa.instructions": "Digite o código de 6 dígitos exibido no seu aplicativo autenticador.",
+  "login2fa.code": "Código",
+  "login2fa.recoveryHint": "Sem acesso ao aplicativo? Use um dos seus códigos de recuperação.",
+  "login2fa.submit": "Verificar",
+  "login2fa.submitting": "Verificando...",
+  "login2fa.restart": "Entrar com outra conta",
+
+  // Página inicial
+  "index.meta.title": "Página Inicial - RENOVAAPP",
+  "index.welcome": "Seja Bem Vindo",
+  "index.adminPanel": "Painel Admin",
+  "index.changePassword": "Alterar Senha",
+  "index.sessions": "Minhas Sessões",
+  "index.apiTokens": "Tokens de API",
+  "index.twoFactor": "Verificação em Duas Etapas",
+  "index.logout": "Sair",
+  "index.modules": { one: "{count} módulo disponível", other: "{count} módulos disponíveis" },
+  "modules.obras.description": "Acompanhamento de obras e intervenções.",
+  "modules.almoxarifado.description": "Controle de materiais, entradas e saídas de estoque.",
+  "modules.relatorios.description": "Relatórios gerenciais e indicadores.",
+  "module.fallbackTitle": "Módulo",
+  "module.empty": "Este módulo ainda não possui conteúdo.",
+  "module.error.forbiddenTitle": "Acesso negado",
+  "module.error.forbidden": "Seu perfil não tem permissão para acessar este módulo.",
+  "module.error.notFound": "Módulo não encontrado.",
+  "module.error.loadFailed": "Não foi possível carregar o módulo.",
+  "module.error.home": "Voltar para a página inicial",
+
+  // Troca de senha
+  "account.password.meta.title": "Alterar Senha - RENOVAAPP",
+  "account.password.title": "Alterar Senha",
+  "account.password.mustChange": "Sua senha foi definida por um administrador. Escolha uma nova senha para continuar.",
+  "account.password.temporary": "Senha temporária",
+  "account.password.current": "Senha atual",
+  "account.password.new": "Nova senha",
+  "account.password.hint": "Mínimo de {count} caracteres, com letras e números, sem conter a matrícula.",
+  "account.password.confirm": "Confirme a nova senha",
+  "account.password.submit": "Salvar nova senha",
+  "account.password.error.current": "A senha atual está incorreta.",
+  "account.password.error.mismatch": "A confirmação não confere com a nova senha.",
+  "account.password.error.same": "A nova senha deve ser diferente da atual.",
+
+  // Verificação em duas etapas (conta)
+  "account.twoFactor.meta.title": "Verificação em Duas Etapas - RENOVAAPP",
+  "account.twoFactor.intro": "Além da senha, o login pede um código de 6 dígitos gerado por um aplicativo autenticador (Google Authenticator, Microsoft Authenticator, FreeOTP etc.).",
+  "account.twoFactor.mustEnroll": "Seu perfil exige a verificação em duas etapas. Cadastre um aplicativo autenticador para continuar.",
+  "account.twoFactor.recoveryCodes.title": "Códigos de recuperação",
+  "account.twoFactor.recoveryCodes.hint": "Guarde estes códigos em local seguro: eles não serão exibidos novamente. Cada um permite um login sem o aplicativo, uma única vez.",
+  "account.twoFactor.active": "Ativa",
+  "account.twoFactor.inactive": "Inativa",
+  "account.twoFactor.remainingCodes": { one: "{count} de {total} código de recuperação disponível.", other: "{count} de {total} códigos de recuperação disponíveis." },
+  "account.twoFactor.regenerate.title": "Gerar novos códigos de recuperação",
+  "account.twoFactor.regenerate.hint": "Confirme com o código atual do aplicativo.",
+  "account.twoFactor.regenerate.submit": "Gerar códigos",
+  "account.twoFactor.disable": "Desativar",
+  "account.twoFactor.required": "Seu perfil exige a verificação em duas etapas.",
+  "account.twoFactor.enroll.scan": "1. No aplicativo autenticador, leia o QR code abaixo ou digite a chave manualmente.",
+  "account.twoFactor.enroll.code": "2. Digite o código de 6 dígitos exibido pelo aplicativo para concluir.",
+  "account.twoFactor.enroll.submit": "Ativar",
+  "account.twoFactor.enroll.cancel": "Cancelar cadastro",
+  "account.twoFactor.passwordOnly": "Sua conta é protegida apenas pela senha.",
+  "account.twoFactor.setup": "Configurar aplicativo autenticador",
+  "account.twoFactor.enabled": "Verificação em duas etapas ativada.",
+  "account.twoFactor.disabled": "Verificação em duas etapas desativada.",
+  "account.twoFactor.regenerated": "Novos códigos de recuperação gerados; os anteriores deixaram de valer.",
+  "account.twoFactor.error.alreadyActive": "A verificação em duas etapas já está ativa.",
+  "account.twoFactor.error.notActive": "A verificação em duas etapas não está ativa.",
+  "account.twoFactor.error.requiredByProfile": "Seu perfil exige a verificação em duas etapas; ela não pode ser desativada.",
+  "account.twoFactor.error.enrollCode": "Código inválido. Confira o horário do celular e digite o código atual do aplicativo.",
+  "account.twoFactor.error.code": "Código inválido ou já utilizado.",
+  "account.twoFactor.error.invalidAction": "Ação inválida.",
+
+  // Sessões (conta)
+  "account.sessions.meta.title": "Minhas Sessões - RENOVAAPP",
+  "account.sessions.intro": "Dispositivos conectados à sua conta. Horários em UTC.",
+  "account.sessions.revokeOthers": "Encerrar as outras sessões",
+  "account.sessions.device": "Dispositivo",
+  "account.sessions.ip": "IP",
+  "account.sessions.start": "Início",
+  "account.sessions.lastAccess": "Último acesso",
+  "account.sessions.expires": "Expira em",
+  "account.sessions.unknownDevice": "Desconhecido",
+  "account.sessions.current": "Sessão atual",
+  "account.sessions.revoke": "Encerrar",
+
+  // Tokens de API (conta)
+  "account.tokens.meta.title": "Tokens de API - RENOVAAPP",
+  "account.tokens.intro": "Acesso à API /api/v1 em seu nome. Horários em UTC.",
+  "account.tokens.docs": "Documentação:",
+  "account.tokens.created": "Token \"{name}\" criado. Copie agora: ele não será exibido novamente.",
+  "account.tokens.headerHint": "Envie no cabeçalho:",
+  "account.tokens.new": "Novo token",
+  "account.tokens.namePlaceholder": "Nome (ex.: integração RH)",
+  "account.tokens.validity": { one: "Expira em {count} dia", other: "Expira em {count} dias" },
+  "account.tokens.scopes": "Escopos",
+  "account.tokens.create": "Criar token",
+  "account.tokens.name": "Nome",
+  "account.tokens.prefix": "Prefixo",
+  "account.tokens.createdAt": "Criado em",
+  "account.tokens.expiresAt": "Expira em",
+  "account.tokens.lastUsed": "Último uso",
+  "account.tokens.status": "Situação",
+  "account.tokens.status.revoked": "Revogado",
+  "account.tokens.status.expired": "Expirado",
+  "account.tokens.status.active": "Ativo",
+  "account.tokens.empty": "Nenhum token criado.",
+  "account.tokens.revoke": "Revogar",
+  "account.tokens.error.required": "Informe um nome e ao menos um escopo.",
+  "account.tokens.error.validity": "Validade inválida.",
+  "account.tokens.error.notFound": "Token não encontrado ou já revogado.",
+  "account.tokens.error.invalidAction": "Ação inválida.",
+
+  // Painel administrativo
+  "admin.meta.title": "Admin - RENOVAAPP",
+  "admin.title": "Admin",
+  "admin.nav.profiles": "Gerenciar Perfis",
+  "admin.nav.users": "Gerenciar Usuários",
+  "admin.nav.permissions": "Permissões",
+  "admin.nav.audit": "Auditoria",
+  "admin.nav.lockouts": "Bloqueios de Login",
+  "admin.nav.jobs": "Tarefas Agendadas",
+  "admin.nav.backToApp": "Voltar para o App",
+  "admin.profiles.loadError": "Falha ao carregar dados.",
+  "admin.profiles.new": "Adicionar Novo Perfil",
+  "admin.profiles.id": "ID",
+  "admin.profiles.name": "Nome do Perfil",
+  "admin.profiles.twoFactor": "2FA obrigatório",
+  "admin.profiles.twoFactorRequire": "Exigir",
+  "admin.profiles.twoFactorRelease": "Dispensar",
+  "admin.profiles.twoFactorConfirm": "Exigir a verificação em duas etapas? As sessões abertas dos usuários deste perfil serão encerradas.",
+  "admin.profiles.count": { one: "{count} perfil cadastrado", other: "{count} perfis cadastrados" },
+  "admin.profiles.confirmDelete": "Tem certeza que deseja excluir este perfil?",
+  "admin.profiles.usage": "Uso",
+  "admin.profiles.usersCount": { one: "{count} usuário", other: "{count} usuários" },
+  "admin.profiles.permissionsCount": { one: "{count} permissão", other: "{count} permissões" },
+  "admin.profiles.edit": "Editar",
+  "admin.profiles.protected": "Perfil do sistema",
+  "admin.profiles.reassignTo": { one: "Transferir o usuário para", other: "Transferir os {count} usuários para" },
+  "admin.profiles.reassignPlaceholder": "Selecione o perfil",
+  "admin.profiles.deleteHint": "As permissões do perfil serão removidas.",
+  "admin.profiles.error.nameRequired": "Informe o nome do perfil.",
+  "admin.profiles.error.nameExists": "Já existe um perfil chamado {name}.",
+  "admin.profiles.error.notFound": "Perfil não encontrado.",
+  "admin.profiles.error.protected": "O perfil {name} é do sistema e não pode ser renomeado nem excluído.",
+  "admin.profiles.error.reassignRequired": { one: "O perfil tem {count} usuário vinculado: escolha outro perfil para transferi-lo.", other: "O perfil tem {count} usuários vinculados: escolha outro perfil para transferi-los." },
+  "admin.profiles.error.saveFailed": "Não foi possível salvar as alterações.",
+
+  "admin.users.meta.title": "Usuários - Admin - RENOVAAPP",
+  "admin.users.loadError": "Falha ao carregar dados.",
+  "admin.users.new": "Adicionar Novo Usuário",
+  "admin.users.import": "Importar planilha (CSV/XLSX)",
+  "admin.users.matricula": "Matrícula",
+  "admin.users.name": "Nome",
+  "admin.users.profile": "Perfil",
+  "admin.users.status": "Situação",
+  "admin.users.initialPassword": "Senha inicial",
+  "admin.users.initialPasswordHint": "O usuário deverá trocá-la no primeiro acesso.",
+  "admin.users.searchPlaceholder": "Buscar por matrícula ou nome",
+  "admin.users.showDeleted": "Mostrar excluídos",
+  "admin.users.search": "Buscar",
+  "admin.users.empty": "Nenhum usuário encontrado.",
+  "admin.users.status.active": "Ativo",
+  "admin.users.status.inactive": "Inativo",
+  "admin.users.status.deleted": "Excluído",
+  "admin.users.edit": "Editar",
+  "admin.users.activate": "Ativar",
+  "admin.users.deactivate": "Desativar",
+  "admin.users.restore": "Restaurar",
+  "admin.users.resetPassword": "Redefinir senha",
+  "admin.users.resetPasswordConfirm": "Gerar uma senha temporária para este usuário? As sessões abertas serão encerradas.",
+  "admin.users.resetTwoFactor": "Redefinir 2FA",
+  "admin.users.resetTwoFactorConfirm": "Remover o aplicativo autenticador e os códigos de recuperação deste usuário? As sessões abertas serão encerradas.",
+  "admin.users.deleteConfirm": "Tem certeza que deseja excluir este usuário?",
+  "admin.users.temporaryPassword.title": "Senha temporária da matrícula {matricula}",
+  "admin.users.temporaryPassword.hint": "Anote e entregue ao usuário: ela não será exibida novamente. A troca será exigida no próximo acesso.",
+  "admin.users.pagination": { one: "{count} usuário — página {page} de {pages}", other: "{count} usuários — página {page} de {pages}" },
+  "admin.users.error.createRequired": "Matrícula, nome, senha e perfil são obrigatórios.",
+  "admin.users.error.updateRequired": "Nome e perfil são obrigatórios.",
+  "admin.users.error.matriculaExists": "A matrícula {matricula} já está cadastrada.",
+  "admin.users.error.notFound": "Usuário não encontrado.",
+  "admin.users.error.invalidAction": "Ação inválida.",
+  "admin.users.error.saveFailed": "Não foi possível salvar as alterações.",
+
+  "admin.users.import.meta.title": "Importar Usuários - Admin - RENOVAAPP",
+  "admin.users.import.title": "Importar Usuários",
+  "admin.users.import.file": "Planilha",
+  "admin.users.import.upload": "Carregar",
+  "admin.users.import.hint": "CSV ou XLSX (primeira aba) com as colunas matricula, nome e perfil (nome do perfil) na primeira linha. Até {megabytes} MB e {rows} usuários. Cada usuário recebe uma senha inicial gerada e deve trocá-la no primeiro acesso.",
+  "admin.users.import.preview.valid": { one: "{count} usuário a gravar", other: "{count} usuários a gravar" },
+  "admin.users.import.preview.restoring": { one: "({count} restaurado)", other: "({count} restaurados)" },
+  "admin.users.import.preview.rejected": { one: "{count} linha rejeitada", other: "{count} linhas rejeitadas" },
+  "admin.users.import.preview.notSaved": "Nada foi gravado ainda.",
+  "admin.users.import.restoreDeleted": { one: "Restaurar o usuário excluído com matrícula presente no arquivo, substituindo nome, perfil e senha", other: "Restaurar os {count} usuários excluídos com matrícula presente no arquivo, substituindo nome, perfil e senha" },
+  "admin.users.import.refreshPreview": "Atualizar prévia",
+  "admin.users.import.confirm": { one: "Gravar {count} usuário?", other: "Gravar {count} usuários?" },
+  "admin.users.import.importing": "Importando...",
+  "admin.users.import.submit": { one: "Importar {count} usuário", other: "Importar {count} usuários" },
+  "admin.users.import.toSave": "Usuários a gravar",
+  "admin.users.import.showing": ", exibindo {count}",
+  "admin.users.import.noValid": "Nenhuma linha válida.",
+  "admin.users.import.line": "Linha",
+  "admin.users.import.action": "Ação",
+  "admin.users.import.create": "Criar",
+  "admin.users.import.restore": "Restaurar",
+  "admin.users.import.rejected": "Linhas rejeitadas",
+  "admin.users.import.reasons": "Motivos",
+  "admin.users.import.content": "Conteúdo",
+  "admin.users.import.completed": "Importação de {file} concluída.",
+  "admin.users.import.report.created": { one: "{count} criado", other: "{count} criados" },
+  "admin.users.import.report.restored": { one: "{count} restaurado", other: "{count} restaurados" },
+  "admin.users.import.report.skipped": { one: "{count} ignorada na validação", other: "{count} ignoradas na validação" },
+  "admin.users.import.report.failed": "{count} com falha no banco",
+  "admin.users.import.passwords.title": "Senhas iniciais",
+  "admin.users.import.passwords.hint": "Baixe o arquivo agora e entregue cada senha ao respectivo usuário: elas não ficam salvas e não serão exibidas novamente.",
+  "admin.users.import.passwords.download": "Baixar credenciais ({count})",
+  "admin.users.import.skipped": "Linhas ignoradas",
+  "admin.users.import.failed": "Linhas com falha",
+  "admin.users.import.error": "Erro",
+  "admin.users.import.credentials.created": "criado",
+  "admin.users.import.credentials.restored": "restaurado",
+  "admin.users.import.reason.matriculaEmpty": "matrícula vazia",
+  "admin.users.import.reason.nameEmpty": "nome vazio",
+  "admin.users.import.reason.profileEmpty": "perfil vazio",
+  "admin.users.import.reason.profileNotFound": "perfil \"{profile}\" não encontrado",
+  "admin.users.import.reason.duplicate": "matrícula repetida no arquivo (linha {line})",
+  "admin.users.import.reason.exists": "matrícula já cadastrada",
+  "admin.users.import.reason.deleted": "matrícula de usuário excluído (marque a opção de restaurar)",
+  "admin.users.import.reason.notDeleted": "o usuário não está mais excluído",
+  "admin.users.import.error.noFile": "Selecione um arquivo CSV ou XLSX.",
+  "admin.users.import.error.tooLarge": "O arquivo excede o limite de {megabytes} MB.",
+  "admin.users.import.error.unreadable": "Não foi possível ler o arquivo.",
+  "admin.users.import.error.xlsxInvalid": "Arquivo XLSX inválido ou corrompido.",
+  "admin.users.import.error.xlsxTooLarge": "A planilha é grande demais para ser importada.",
+  "admin.users.import.error.xlsxCompression": "A planilha usa um método de compressão não suportado.",
+  "admin.users.import.error.empty": "O arquivo está vazio.",
+  "admin.users.import.error.tooManyRows": "O arquivo tem {count} linhas; o limite é {max}.",
+  "admin.users.import.error.missingColumns": "Colunas não encontradas no cabeçalho: {columns}.",
+  "admin.users.import.error.noValid": "Não há linhas válidas para importar.",
+
+  "admin.permissions.meta.title": "Permissões - Admin - RENOVAAPP",
+  "admin.permissions.title": "Permissões por Perfil",
+  "admin.permissions.loadError": "Falha ao carregar dados.",
+  "admin.permissions.saved": "Permissões salvas. Concedidas: {added}; revogadas: {removed}.",
+  "admin.permissions.profile": "Perfil",
+  "admin.permissions.copyFrom": "Copiar permissões de",
+  "admin.permissions.select": "Selecione...",
+  "admin.permissions.discard": "Descartar",
+  "admin.permissions.review": "Revisar alterações",
+  "admin.permissions.confirmTitle": "Confirmar alterações de permissão",
+  "admin.permissions.granted": "Concedidas ({count})",
+  "admin.permissions.revoked": "Revogadas ({count})",
+  "admin.permissions.confirm": "Confirmar e salvar",
+  "admin.permissions.error.invalidAction": "Ação inválida.",
+  "admin.permissions.error.stale": "As permissões foram alteradas por outro administrador desde que a página foi carregada. Revise as alterações novamente.",
+  "admin.permissions.error.invalidChanges": "Alterações de permissão inválidas.",
+  "admin.permissions.error.lastAdmin": "Pelo menos um perfil precisa manter o módulo \"{module}\".",
+  "admin.permissions.error.saveFailed": "Não foi possível salvar as permissões.",
+
+  "admin.jobs.meta.title": "Tarefas Agendadas - Admin - RENOVAAPP",
+  "admin.jobs.loadError": "Falha ao carregar dados.",
+  "admin.jobs.intro": "Tarefas de manutenção executadas pelos cron triggers do Worker. Agendamentos e horários em UTC.",
+  "admin.jobs.job": "Tarefa",
+  "admin.jobs.schedule": "Agendamento",
+  "admin.jobs.lastRun": "Última execução",
+  "admin.jobs.neverRun": "Nunca executada",
+  "admin.jobs.run": "Executar agora",
+  "admin.jobs.running": "Executando...",
+  "admin.jobs.runConfirm": "Executar a tarefa \"{job}\" agora?",
+  "admin.jobs.history": "Histórico",
+  "admin.jobs.start": "Início",
+  "admin.jobs.end": "Fim",
+  "admin.jobs.origin": "Origem",
+  "admin.jobs.origin.manual": "Manual",
+  "admin.jobs.origin.manualBy": "Manual ({user})",
+  "admin.jobs.origin.scheduled": "Agendada",
+  "admin.jobs.status": "Situação",
+  "admin.jobs.status.running": "Executando",
+  "admin.jobs.status.success": "Sucesso",
+  "admin.jobs.status.failure": "Falha",
+  "admin.jobs.affected": "Afetados",
+  "admin.jobs.details": "Detalhes",
+  "admin.jobs.empty": "Nenhuma execução registrada.",
+  "admin.jobs.completed": { one: "Tarefa \"{job}\" concluída: {count} registro afetado.", other: "Tarefa \"{job}\" concluída: {count} registros afetados." },
+  "admin.jobs.error.invalidAction": "Ação inválida.",
+  "admin.jobs.error.running": "A tarefa \"{job}\" já está em execução.",
+  "admin.jobs.error.failed": "A tarefa \"{job}\" falhou: {error}",
+  "admin.jobs.description.expiredSessions": "Apaga sessões vencidas por prazo ou inatividade.",
+  "admin.jobs.description.staleLockouts": "Apaga contagens de falhas de login sem bloqueio ativo nem falha recente.",
+  "admin.jobs.description.deletedUsers": "Remove definitivamente usuários excluídos há mais de {count} dias.",
+  "admin.jobs.description.compactAudit": "Descarta os dados de antes/depois e o user agent de eventos com mais de {count} dias.",
+
+  "admin.audit.meta.title": "Auditoria - Admin - RENOVAAPP",
+  "admin.audit.loadError": "Falha ao carregar dados.",
+  "admin.audit.user": "Usuário",
+  "admin.audit.userPlaceholder": "Nome, matrícula ou id",
+  "admin.audit.action": "Ação",
+  "admin.audit.allActions": "Todas",
+  "admin.audit.from": "De",
+  "admin.audit.to": "Até",
+  "admin.audit.filter": "Filtrar",
+  "admin.audit.export": "Exportar CSV",
+  "admin.audit.date": "Data (UTC)",
+  "admin.audit.record": "Registro",
+  "admin.audit.ip": "IP",
+  "admin.audit.empty": "Nenhum evento encontrado.",
+  "admin.audit.hide": "Ocultar",
+  "admin.audit.details": "Detalhes",
+  "admin.audit.before": "Antes",
+  "admin.audit.after": "Depois",
+  "admin.audit.userAgent": "User agent: {userAgent}",
+  "admin.audit.pagination": { one: "{count} evento — página {page} de {pages}", other: "{count} eventos — página {page} de {pages}" },
+
+  "admin.lockouts.meta.title": "Bloqueios de Login - Admin - RENOVAAPP",
+  "admin.lockouts.loadError": "Falha ao carregar dados.",
+  "admin.lockouts.intro": "Matrículas e IPs com tentativas de login malsucedidas. Horários em UTC.",
+  "admin.lockouts.type": "Tipo",
+  "admin.lockouts.key": "Chave",
+  "admin.lockouts.failures": "Falhas",
+  "admin.lockouts.lastFailure": "Última falha",
+  "admin.lockouts.lockedUntil": "Bloqueado até",
+  "admin.lockouts.type.ip": "IP",
+  "admin.lockouts.type.matricula": "Matrícula",
+  "admin.lockouts.empty": "Nenhuma tentativa com falha registrada.",
+  "admin.lockouts.clearConfirm": "Liberar esta chave e zerar as falhas?",
+  "admin.lockouts.unlock": "Desbloquear",
+  "admin.lockouts.reset": "Zerar falhas",
+  "admin.lockouts.error.invalidAction": "Ação inválida.",
+  "admin.lockouts.error.clearFailed": "Não foi possível liberar o bloqueio.",
+
+  // Database Explorer
+  "database.title": "Explorador do Banco de Dados",
+  "database.tab.tables": "Tabelas",
+  "database.tab.console": "Console SQL",
+  "database.tab.diagram": "Diagrama ER",
+  "database.connectionFailed": "Falha na conexão.",
+  "database.queryError": "Erro na consulta",
+  "database.unknownError": "Ocorreu um erro desconhecido.",
+  "database.tableQueryError": "Ocorreu um erro desconhecido ao consultar a tabela.",
+  "database.tableNotFound": "Tabela \"{table}\" não encontrada.",
+  "database.noTables": "Nenhuma tabela encontrada.",
+  "database.selectTable": "Selecione uma tabela à esquerda para ver os detalhes.",
+  "database.changeSaved": "Alteração salva",
+  "database.changeFailed": "Alteração não realizada",
+  "database.data": "Dados",
+  "database.records": { one: "{count} registro", other: "{count} registros" },
+  "database.importCsv": "Importar CSV",
+  "database.export": "Exportar",
+  "database.export.filtered": "Visão filtrada",
+  "database.export.all": "Tabela inteira",
+
+  "database.console.label": "Consulta (somente SELECT, WITH, EXPLAIN e PRAGMA de leitura; até {limit} linhas)",
+  "database.console.shortcut": "Ctrl+Enter para executar",
+  "database.console.run": "Executar",
+  "database.console.running": "Executando...",
+  "database.console.failed": "Falha ao executar a consulta.",
+  "database.console.result": "Resultado",
+  "database.console.rows": { one: "{count} linha", other: "{count} linhas" },
+  "database.console.truncated": "limitado a {limit}",
+  "database.console.rowsRead": { one: "{count} linha lida", other: "{count} linhas lidas" },
+  "database.console.plan": "Plano de Execução",
+  "database.console.error.unterminated": "Texto, identificador ou comentário não terminado.",
+  "database.console.error.multiple": "Apenas uma instrução pode ser executada por vez.",
+  "database.console.error.empty": "Informe uma consulta.",
+  "database.console.error.readOnly": "O console é somente leitura: \"{keyword}\" não é permitido.",
+  "database.console.error.explain": "EXPLAIN só é aceito para consultas SELECT ou WITH.",
+  "database.console.error.pragma": "PRAGMA permitidos: {pragmas}.",
+  "database.console.error.statement": "Apenas instruções SELECT, WITH, EXPLAIN e PRAGMA são permitidas.",
+
+  "database.row.invalidColumn": "Coluna inválida.",
+  "database.row.required": "{column}: valor obrigatório",
+  "database.row.updated": "Coluna {column} atualizada.",
+  "database.row.deleted": "Linha excluída.",
+  "database.row.inserted": "Linha inserida.",
+  "database.row.invalidAction": "Ação inválida.",
+  "database.row.failed": "Falha ao alterar a tabela.",
+  "database.row.conflict": "A linha foi alterada ou excluída depois de carregada. Os dados foram recarregados; confira e tente novamente.",
+  "database.row.confirmDelete": "Excluir a linha {key}?",
+  "database.edit.confirm": "Alterar {column} para {value}?",
+  "database.edit.hint": "Duplo clique para editar",
+  "database.newRow.title": "Adicionar linha",
+  "database.newRow.confirm": "Inserir a nova linha em {table}?",
+  "database.newRow.hint": "Campos vazios recebem o valor padrão da coluna (ou o próximo id, na chave primária INTEGER).",
+  "database.newRow.submit": "Inserir linha",
+
+  "database.schema.title": "Esquema da Tabela",
+  "database.schema.column": "Coluna",
+  "database.schema.type": "Tipo",
+  "database.schema.notNull": "Não Nulo",
+  "database.schema.primaryKey": "Chave Primária",
+  "database.details.indexes": "Índices",
+  "database.details.name": "Nome",
+  "database.details.columns": "Colunas",
+  "database.details.unique": "Único",
+  "database.details.origin": "Origem",
+  "database.details.partial": "(parcial)",
+  "database.details.foreignKeys": "Chaves Estrangeiras",
+  "database.details.reference": "Referência",
+  "database.details.primaryKeyRef": "(chave primária)",
+  "database.details.triggers": "Gatilhos",
+  "database.details.views": "Visões que usam a tabela",
+  "database.details.createSql": "Instrução CREATE",
+
+  "database.diagram.title": "Diagrama Entidade-Relacionamento",
+  "database.diagram.openSvg": "Abrir SVG",
+  "database.diagram.legend": "As setas partem da coluna com a chave estrangeira e apontam para a coluna referenciada. PK = chave primária, FK = chave estrangeira.",
+  "database.diagram.alt": "Diagrama entidade-relacionamento do banco de dados",
+
+  "database.filter.eq": "Igual a",
+  "database.filter.contains": "Contém",
+  "database.filter.null": "É nulo",
+  "database.filter.notnull": "Não é nulo",
+  "database.filter.range": "Entre",
+  "database.filter.label": "Filtro de {column}",
+  "database.filter.value": "valor",
+  "database.filter.from": "de",
+  "database.filter.to": "até",
+  "database.filter.apply": "Filtrar",
+  "database.filter.clear": "Limpar filtros",
+
+  "database.grid.noMatches": "Nenhum registro atende aos filtros.",
+  "database.grid.empty": "Nenhum registro encontrado.",
+  "database.grid.perPage": "Por página:",
+  "database.grid.range": "{first}–{last} de {total} (página {page} de {pages})",
+  "database.grid.previous": "Anterior",
+  "database.grid.next": "Próxima",
+
+  "database.json.show": "Exibir JSON",
+  "database.json.title": "Visualizador de JSON",
+  "database.json.copy": "Copiar JSON",
+  "database.json.copied": "Copiado!",
+  "database.json.copyFailed": "Falhou!",
+
+  "database.import.meta.title": "Importar CSV - Database Explorer - RENOVAAPP",
+  "database.import.table": "Tabela",
+  "database.import.select": "Selecione...",
+  "database.import.file": "Arquivo CSV",
+  "database.import.upload": "Carregar",
+  "database.import.hint": "Primeira linha com os nomes das colunas; separador vírgula ou ponto e vírgula. Até {megabytes} MB e {rows} linhas. Campos vazios são gravados como NULL.",
+  "database.import.mapping": "Mapeamento de colunas",
+  "database.import.tableColumn": "Coluna da tabela",
+  "database.import.constraints": "Restrições",
+  "database.import.csvColumn": "Coluna do CSV",
+  "database.import.skipColumn": "— não importar —",
+  "database.import.missing": "Colunas obrigatórias sem correspondência: {columns}.",
+  "database.import.refreshPreview": "Atualizar prévia",
+  "database.import.confirm": { one: "Inserir {count} linha em {table}?", other: "Inserir {count} linhas em {table}?" },
+  "database.import.importing": "Importando...",
+  "database.import.submit": { one: "Importar {count} linha", other: "Importar {count} linhas" },
+  "database.import.toInsert": "Linhas a inserir",
+  "database.import.showing": ", exibindo {count}",
+  "database.import.noValid": "Nenhuma linha válida.",
+  "database.import.line": "Linha",
+  "database.import.reasons": "Motivos",
+  "database.import.content": "Conteúdo",
+  "database.import.rejected": "Linhas rejeitadas",
+  "database.import.skipped": "Linhas ignoradas",
+  "database.import.failed": "Linhas com falha",
+  "database.import.error": "Erro",
+  "database.import.completed": "Importação de {file} em {table} concluída.",
+  "database.import.report.inserted": { one: "{count} inserida", other: "{count} inseridas" },
+  "database.import.report.skipped": { one: "{count} ignorada na validação", other: "{count} ignoradas na validação" },
+  "database.import.report.failed": "{count} com falha no banco",
+  "database.import.reason.duplicateKey": "chave primária repetida (linha {line})",
+  "database.import.reason.existingKey": "chave primária {key} já existe na tabela",
+  "database.import.error.noFile": "Selecione um arquivo CSV.",
+  "database.import.error.tooLarge": "O arquivo excede o limite de {megabytes} MB.",
+  "database.import.error.empty": "O arquivo está vazio.",
+  "database.import.error.tooManyRows": "O arquivo tem {count} linhas; o limite é {max}.",
+  "database.import.error.noValid": "Não há linhas válidas para importar com o mapeamento informado.",
+
+  // Validações compartilhadas
+  "password.policy.minLength": "A senha deve ter pelo menos {count} caracteres.",
+  "password.policy.maxLength": "A senha deve ter no máximo {count} caracteres.",
+  "password.policy.lettersAndDigits": "A senha deve conter letras e números.",
+  "password.policy.matricula": "A senha não pode conter a matrícula.",
+
+  "database.value.notInteger": "{column}: \"{value}\" não é um número inteiro",
+  "database.value.notNumber": "{column}: \"{value}\" não é um número",
+} satisfies Record<string, Message>;
+
+export type MessageKey = keyof typeof ptBR;
@@ -0,0 +1,119 @@
+// File: app/lockout.server.ts
+// Proteção contra força bruta no login: conta falhas por matrícula e por IP em
+// tb_tentativa_login, atrasa progressivamente as respostas e bloqueia temporariamente
+// a chave que exceder o limite.
+import type { D1Database } from "@cloudflare/workers-types";
+
+export type LockType = "matricula" | "ip";
+
+export interface LoginAttempt {
+    ds_tipo: LockType;
+    ds_chave: string;
+    nr_falhas: number;
+    dt_ultima_falha: string;
+    dt_bloqueio_ate: string | null;
+}
+
+// Falhas permitidas antes do bloqueio. O limite por IP é maior porque vários usuários
+// podem compartilhar o mesmo endereço (ex.: rede da prefeitura).
+const MAX_FAILURES: Record<LockType, number> = { matricula: 5, ip: 20 };
+const LOCK_DURATION = "+15 minutes";
+// Sem novas falhas nesse intervalo, a contagem recomeça do zero.
+const FAILURE_WINDOW = "-15 minutes";
+const MAX_DELAY_MS = 4000;
+
+function keysFor(matricula: string, ip: string | null) {
+    const keys: [LockType, string][] = [["matricula", matricula]];
+    if (ip) keys.push(["ip", ip]);
+    return keys;
+}
+
+/** Retorna o bloqueio ativo (se houver) para a matrícula ou para o IP da requisição. */
+export async function getActiveLock(db: D1Database, matricula: string, ip: string | null) {
+    const keys = keysFor(matricula, ip);
+    const { results } = await db.prepare(
+        `SELECT * FROM tb_tentativa_login
+         WHERE dt_bloqueio_ate > datetime('now')
+           AND (${keys.map(() => "(ds_tipo = ? AND ds_chave = ?)").join(" OR ")})
+         ORDER BY dt_bloqueio_ate DESC LIMIT 1`
+    ).bind(...keys.flat()).all<LoginAttempt>();
+    return results?.[0] ?? null;
+}
+
+/**
+ * Registra uma falha para a matrícula e o IP. Devolve o número de falhas consecutivas da
+ * matrícula e se a tentativa acabou de provocar um bloqueio.
+ */
+export async function registerFailure(db: D1Database, matricula: string, ip: string | null) {
+    const keys = keysFor(matricula, ip);
+    const results = await db.batch<{ ds_tipo: LockType; nr_falhas: number; dt_bloqueio_ate: string | null }>(
+        keys.map(([tipo, chave]) =>
+            db.prepare(
+                `INSERT INTO tb_tentativa_login (ds_tipo, ds_chave, nr_falhas, dt_ultima_falha)
+                 VALUES (?, ?, 1, datetime('now'))
+                 ON CONFLICT (ds_tipo, ds_chave) DO UPDATE SET
+                   nr_falhas = CASE
+                     WHEN dt_ultima_falha < datetime('now', ?) OR dt_bloqueio_ate <= datetime('now') THEN 1
+                     ELSE nr_falhas + 1
+                   END,
+                   dt_bloqueio_ate = CASE WHEN dt_bloqueio_ate <= datetime('now') THEN NULL ELSE dt_bloqueio_ate END,
+                   dt_ultima_falha = datetime('now')
+                 RETURNING ds_tipo, nr_falhas, dt_bloqueio_ate`
+            ).bind(tipo, chave, FAILURE_WINDOW)
+        )
+    );
+
+    let lockedNow = false;
+    let matriculaFailures = 0;
+    for (const [index, [tipo, chave]] of keys.entries()) {
+        const row = results[index].results?.[0];
+        if (!row) continue;
+        if (tipo === "matricula") matriculaFailures = row.nr_falhas;
+        if (row.nr_falhas >= MAX_FAILURES[tipo] && !row.dt_bloqueio_ate) {
+            await db.prepare(
+                "UPDATE tb_tentativa_login SET dt_bloqueio_ate = datetime('now', ?) WHERE ds_tipo = ? AND ds_chave = ?"
+            ).bind(LOCK_DURATION, tipo, chave).run();
+            lockedNow = true;
+        }
+    }
+    return { failures: matriculaFailures, lockedNow };
+}
+
+/** Login bem-sucedido zera a contagem da matrícula (a do IP continua valendo). */
+export async function clearFailures(db: D1Database, matricula: string) {
+    await db.prepare("DELETE FROM tb_tentativa_login WHERE ds_tipo = 'matricula' AND ds_chave = ?").bind(matricula).run();
+}
+
+/** Atraso aplicado à resposta de uma falha: 250 ms, 500 ms, 1 s, 2 s... até 4 s. */
+export function failureDelay(failures: number) {
+    return Math.min(250 * 2 ** Math.max(0, failures - 1), MAX_DELAY_MS);
+}
+
+export function sleep(ms: number) {
+    return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+/**
+ * Apaga contagens que já não têm efeito: sem bloqueio ativo e sem falha dentro da janela.
+ * Mantém a tela de bloqueios enxuta; o resultado do login não muda.
+ */
+export async function purgeStaleAttempts(db: D1Database) {
+    const { meta } = await db.prepare(
+        `DELETE FROM tb_tentativa_login
+         WHERE (dt_bloqueio_ate IS NULL OR dt_bloqueio_ate <= datetime('now'))
+           AND dt_ultima_falha <= datetime('now', ?)`
+    ).bind(FAILURE_WINDOW).run();
+    return meta.changes;
+}
+
+export async function listLoginAttempts(db: D1Database) {
+    const { results } = await db.prepare(
+        `SELECT *, (dt_bloqueio_ate > datetime('now')) AS bloqueado FROM tb_tentativa_login
+         ORDER BY bloqueado DESC, dt_ultima_falha DESC`
+    ).all<LoginAttempt & { bloqueado: number }>();
+    return results || [];
+}
+
+export async function clearLock(db: D1Database, tipo: LockType, chave: string) {
+    await db.prepare("DELETE FROM tb_tentativa_login WHERE ds_tipo = ? AND ds_chave = ?").bind(tipo, chave).run();
+}
@@ -0,0 +1,56 @@
+// File: app/modules.tsx
+// Registro dos módulos do aplicativo. Cada linha de tb_modulo é associada a uma entrada
+// deste registro pela coluna slug; o módulo fica acessível em /m/<slug>.
+import type { MessageKey } from "~/i18n";
+
+export interface ModuleRow {
+  id_modulo: number;
+  ds_modulo: string;
+  slug: string | null;
+}
+
+export interface ModuleDefinition {
+  icon: React.ReactNode;
+  // Chave do catálogo de traduções (app/locales).
+  description: MessageKey | null;
+}
+
+const iconClasses = "w-16 h-16 mb-4 text-blue-500";
+
+function Icon({ d }: { d: string }) {
+  return (
+    <svg className={iconClasses} fill="none" stroke="currentColor" viewBox="0 0 24 24" xmlns="http://www.w3.org/2000/svg">
+      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d={d}></path>
+    </svg>
+  );
+}
+
+// Usado por módulos que ainda não têm entrada no registro.
+const defaultModule: ModuleDefinition = {
+  icon: <Icon d="M4 6a2 2 0 012-2h2a2 2 0 012 2v2a2 2 0 01-2 2H6a2 2 0 01-2-2V6zM14 6a2 2 0 012-2h2a2 2 0 012 2v2a2 2 0 01-2 2h-2a2 2 0 01-2-2V6zM4 16a2 2 0 012-2h2a2 2 0 012 2v2a2 2 0 01-2 2H6a2 2 0 01-2-2v-2zM14 16a2 2 0 012-2h2a2 2 0 012 2v2a2 2 0 01-2 2h-2a2 2 0 01-2-2v-2z" />,
+  description: null,
+};
+
+const registry: Record<string, ModuleDefinition> = {
+  obras: {
+    icon: <Icon d="M19 21V5a2 2 0 00-2-2H7a2 2 0 00-2 2v16m14 0h2m-2 0h-5m-9 0H3m2 0h5M9 7h1m-1 4h1m4-4h1m-1 4h1m-5 10v-5a1 1 0 011-1h2a1 1 0 011 1v5m-4 0h4" />,
+    description: "modules.obras.description",
+  },
+  almoxarifado: {
+    icon: <Icon d="M20 7l-8-4-8 4m16 0l-8 4m8-4v10l-8 4m0-10L4 7m8 4v10M4 7v10l8 4" />,
+    description: "modules.almoxarifado.description",
+  },
+  relatorios: {
+    icon: <Icon d="M9 17v-2m3 2v-4m3 4v-6m2 10H7a2 2 0 01-2-2V5a2 2 0 012-2h5.586a1 1 0 01.707.293l5.414 5.414a1 1 0 01.293.707V19a2 2 0 01-2 2z" />,
+    description: "modules.relatorios.description",
+  },
+};
+
+export function getModuleDefinition(mod: ModuleRow): ModuleDefinition {
+  return (mod.slug && registry[mod.slug]) || defaultModule;
+}
+
+/** Endereço do módulo: usa o slug quando existe e, sem ele, o id numérico. */
+export function modulePath(mod: ModuleRow) {
+  return `/m/${encodeURIComponent(mod.slug ?? String(mod.id_modulo))}`;
+}
@@ -0,0 +1,151 @@
+// File: app/password.server.ts
+// Hash de senhas com PBKDF2 (WebCrypto), disponível tanto no Worker quanto no Node.
+//
+// Formato armazenado em tb_usuario.senha:
+//   $pbkdf2-sha256$v=1$i=<iterações>$<salt base64>$<hash base64>
+// O prefixo versionado permite trocar parâmetros no futuro sem quebrar os hashes
+// existentes: verifyPassword() informa quando um hash deve ser refeito.
+import type { LocalizedMessage } from "~/i18n";
+
+const ALGORITHM = "pbkdf2-sha256";
+const CURRENT_VERSION = 1;
+// O runtime do Cloudflare Workers limita o PBKDF2 a 100.000 iterações.
+const ITERATIONS = 100_000;
+const SALT_BYTES = 16;
+const HASH_BYTES = 32;
+
+interface ParsedHash {
+  version: number;
+  iterations: number;
+  salt: Uint8Array<ArrayBuffer>;
+  hash: Uint8Array;
+}
+
+export interface PasswordVerification {
+  valid: boolean;
+  // true quando o valor armazenado é texto puro (legado) ou usa parâmetros antigos.
+  needsRehash: boolean;
+}
+
+function toBase64(bytes: Uint8Array) {
+  let binary = "";
+  for (const byte of bytes) binary += String.fromCharCode(byte);
+  return btoa(binary);
+}
+
+function fromBase64(value: string) {
+  const binary = atob(value);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+  return bytes;
+}
+
+async function derive(senha: string, salt: Uint8Array<ArrayBuffer>, iterations: number) {
+  const key = await crypto.subtle.importKey(
+    "raw",
+    new TextEncoder().encode(senha),
+    "PBKDF2",
+    false,
+    ["deriveBits"]
+  );
+  const bits = await crypto.subtle.deriveBits(
+    { name: "PBKDF2", hash: "SHA-256", salt, iterations },
+    key,
+    HASH_BYTES * 8
+  );
+  return new Uint8Array(bits);
+}
+
+function parseHash(stored: string): ParsedHash | null {
+  const parts = stored.split("$");
+  // ["", "pbkdf2-sha256", "v=1", "i=100000", salt, hash]
+  if (parts.length !== 6 || parts[0] !== "" || parts[1] !== ALGORITHM) return null;
+  const version = Number(parts[2].replace(/^v=/, ""));
+  const iterations = Number(parts[3].replace(/^i=/, ""));
+  if (!Number.isInteger(version) || !Number.isInteger(iterations) || iterations <= 0) return null;
+  try {
+    return { version, iterations, salt: fromBase64(parts[4]), hash: fromBase64(parts[5]) };
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Compara dois buffers sem retornar cedo, para não vazar pelo tempo de resposta
+ * quantos bytes iniciais coincidem.
+ */
+export function timingSafeEqual(a: Uint8Array, b: Uint8Array) {
+  const length = Math.max(a.length, b.length);
+  let diff = a.length ^ b.length;
+  for (let i = 0; i < length; i++) {
+    diff |= (a[i] ?? 0) ^ (b[i] ?? 0);
+  }
+  return diff === 0;
+}
+
+/** Indica se o valor de tb_usuario.senha já está no formato de hash deste módulo. */
+export function isPasswordHash(stored: string) {
+  return parseHash(stored) !== null;
+}
+
+export async function hashPassword(senha: string) {
+  const salt = crypto.getRandomValues(new Uint8Array(SALT_BYTES));
+  const hash = await derive(senha, salt, ITERATIONS);
+  return `$${ALGORITHM}$v=${CURRENT_VERSION}$i=${ITERATIONS}$${toBase64(salt)}$${toBase64(hash)}`;
+}
+
+/**
+ * Confere a senha informada contra o valor armazenado. Linhas legadas em texto puro
+ * ainda são aceitas (comparadas em tempo constante) e voltam com needsRehash = true.
+ */
+export async function verifyPassword(senha: string, stored: string): Promise<PasswordVerification> {
+  const parsed = parseHash(stored);
+  if (!parsed) {
+    const encoder = new TextEncoder();
+    const valid = timingSafeEqual(encoder.encode(senha), encoder.encode(stored));
+    return { valid, needsRehash: valid };
+  }
+  const candidate = await derive(senha, parsed.salt, parsed.iterations);
+  const valid = timingSafeEqual(candidate, parsed.hash);
+  const outdated = parsed.version !== CURRENT_VERSION || parsed.iterations !== ITERATIONS;
+  return { valid, needsRehash: valid && outdated };
+}
+
+export const PASSWORD_MIN_LENGTH = 8;
+const PASSWORD_MAX_LENGTH = 128;
+
+/** Regras de senha. Retorna as mensagens (a traduzir) das regras violadas; vazio = senha aceita. */
+export function validatePasswordPolicy(senha: string, { matricula }: { matricula?: string } = {}) {
+  const errors: LocalizedMessage[] = [];
+  if (senha.length < PASSWORD_MIN_LENGTH) {
+    errors.push({ key: "password.policy.minLength", params: { count: PASSWORD_MIN_LENGTH } });
+  }
+  if (senha.length > PASSWORD_MAX_LENGTH) {
+    errors.push({ key: "password.policy.maxLength", params: { count: PASSWORD_MAX_LENGTH } });
+  }
+  if (!/[A-Za-z]/.test(senha) || !/\d/.test(senha)) {
+    errors.push({ key: "password.policy.lettersAndDigits" });
+  }
+  if (matricula && senha.toLowerCase().includes(matricula.toLowerCase())) {
+    errors.push({ key: "password.policy.matricula" });
+  }
+  return errors;
+}
+
+// Sem caracteres ambíguos (0/O, 1/l/I) para facilitar a digitação da senha temporária.
+const TEMPORARY_ALPHABET = "ABCDEFGHJKLMNPQRSTUVWXYZabcdefghijkmnpqrstuvwxyz23456789";
+
+/** Gera uma senha temporária aleatória que atende à política de senhas. */
+export function generateTemporaryPassword(length = 12) {
+  for (;;) {
+    const bytes = crypto.getRandomValues(new Uint8Array(length));
+    // 256 não é múltiplo do tamanho do alfabeto; bytes acima do limite são descartados
+    // para não favorecer os primeiros caracteres.
+    const limit = 256 - (256 % TEMPORARY_ALPHABET.length);
+    const chars = Array.from(bytes).filter((b) => b < limit).map((b) => TEMPORARY_ALPHABET[b % TEMPORARY_ALPHABET.length]);
+    const candidate = chars.join("");
+    if (candidate.length === length && validatePasswordPolicy(candidate).length === 0) {
+      return candidate;
+    }
+  }
+}
@@ -0,0 +1,190 @@
+// File: app/repositories.server.test.ts
+// Testes do repositório contra um D1 local (Miniflare) com as migrações de ./migrations.
+import { readdirSync, readFileSync } from "node:fs";
+import { fileURLToPath } from "node:url";
+import { Miniflare } from "miniflare";
+import { afterAll, beforeAll, beforeEach, describe, expect, it } from "vitest";
+import type { D1Database } from "@cloudflare/workers-types";
+import { PerfilRepo, PermissaoRepo, UsuarioRepo } from "~/repositories.server";
+
+const MIGRATIONS_DIR = fileURLToPath(new URL("../migrations/", import.meta.url));
+
+let mf: Miniflare;
+let db: D1Database;
+
+// As migrações não têm gatilhos nem ";" dentro de textos: basta separar no fim da linha.
+async function applyMigrations() {
+  for (const name of readdirSync(MIGRATIONS_DIR).filter((file) => file.endsWith(".sql")).sort()) {
+    const sql = readFileSync(MIGRATIONS_DIR + name, "utf8").replace(/^\s*--.*$/gm, "");
+    for (const statement of sql.split(/;\s*$/m).map((part) => part.trim()).filter(Boolean)) {
+      await db.prepare(statement).run();
+    }
+  }
+}
+
+async function createProfile(name: string) {
+  return PerfilRepo.create(db, name);
+}
+
+async function createUser(matricula: string, perfil: number, values: { st_usuario?: number } = {}) {
+  return UsuarioRepo.create(db, { matricula, nome_usuario: `Usuário ${matricula}`, senhaHash: "hash", tb_perfil_idtb_perfil: perfil, ...values });
+}
+
+async function setDeletedAt(id: number, modifier: string) {
+  await db.prepare("UPDATE tb_usuario SET st_delete = 1, dt_exclusao = datetime('now', ?) WHERE idtb_usuario = ?").bind(modifier, id).run();
+}
+
+async function moduleId(slug: string) {
+  const row = await db.prepare("SELECT id_modulo FROM tb_modulo WHERE slug = ?").bind(slug).first<{ id_modulo: number }>();
+  return row!.id_modulo;
+}
+
+beforeAll(async () => {
+  mf = new Miniflare({ modules: true, script: "export default {};", d1Databases: { DB: "test" } });
+  db = (await mf.getD1Database("DB")) as unknown as D1Database;
+  await applyMigrations();
+});
+
+afterAll(async () => {
+  await mf.dispose();
+});
+
+beforeEach(async () => {
+  await db.batch([
+    db.prepare("DELETE FROM tb_permissao"),
+    db.prepare("DELETE FROM tb_usuario"),
+    db.prepare("DELETE FROM tb_perfil"),
+  ]);
+});
+
+describe("validação das linhas", () => {
+  it("lança erro quando uma coluna vem com tipo diferente do esperado", async () => {
+    const perfil = await createProfile("Usuário");
+    const id = await createUser("u1", perfil);
+    await db.prepare("UPDATE tb_usuario SET st_usuario = 'sim' WHERE idtb_usuario = ?").bind(id).run();
+
+    await expect(UsuarioRepo.findById(db, id)).rejects.toThrow('Valor inválido em tb_usuario.st_usuario: esperado integer, recebido "sim".');
+  });
+
+  it("aceita NULL nas colunas opcionais", async () => {
+    const id = await createUser("u1", await createProfile("Usuário"));
+    await db.prepare("UPDATE tb_usuario SET tb_perfil_idtb_perfil = NULL WHERE idtb_usuario = ?").bind(id).run();
+
+    expect(await UsuarioRepo.findById(db, id)).toMatchObject({ matricula: "u1", tb_perfil_idtb_perfil: null });
+  });
+});
+
+describe("UsuarioRepo e a exclusão lógica", () => {
+  it("list separa usuários excluídos dos demais", async () => {
+    const perfil = await createProfile("Usuário");
+    await createUser("ativo", perfil);
+    await setDeletedAt(await createUser("excluido", perfil), "-1 day");
+
+    const active = await UsuarioRepo.list(db, {}, 10, 0);
+    const deleted = await UsuarioRepo.list(db, { deleted: true }, 10, 0);
+
+    expect(active.total).toBe(1);
+    expect(active.rows.map((row) => row.matricula)).toEqual(["ativo"]);
+    expect(deleted.total).toBe(1);
+    expect(deleted.rows.map((row) => row.matricula)).toEqual(["excluido"]);
+  });
+
+  it("findForLogin só encontra usuários ativos e não excluídos", async () => {
+    const perfil = await createProfile("Usuário");
+    await createUser("ativo", perfil);
+    await createUser("inativo", perfil, { st_usuario: 0 });
+    await setDeletedAt(await createUser("excluido", perfil), "-1 day");
+
+    expect(await UsuarioRepo.findForLogin(db, "ativo")).toMatchObject({ nome_usuario: "Usuário ativo", ds_perfil: "Usuário" });
+    expect(await UsuarioRepo.findForLogin(db, "inativo")).toBeNull();
+    expect(await UsuarioRepo.findForLogin(db, "excluido")).toBeNull();
+  });
+
+  it("purgeDeleted remove só os excluídos há mais tempo que o prazo", async () => {
+    const perfil = await createProfile("Usuário");
+    await createUser("ativo", perfil);
+    await setDeletedAt(await createUser("antigo", perfil), "-91 days");
+    await setDeletedAt(await createUser("recente", perfil), "-10 days");
+
+    expect(await UsuarioRepo.purgeDeleted(db, 90)).toEqual(["antigo"]);
+    expect(await UsuarioRepo.matriculaExists(db, "antigo")).toBe(false);
+    expect(await UsuarioRepo.matriculaExists(db, "recente")).toBe(true);
+    expect(await UsuarioRepo.matriculaExists(db, "ativo")).toBe(true);
+  });
+});
+
+describe("PerfilRepo.remove", () => {
+  it("transfere os usuários, inclusive excluídos, e apaga as permissões do perfil", async () => {
+    const origem = await createProfile("Origem");
+    const destino = await createProfile("Destino");
+    const ativo = await createUser("ativo", origem);
+    const excluido = await createUser("excluido", origem);
+    await setDeletedAt(excluido, "-1 day");
+    await PermissaoRepo.apply(db, { grant: [{ id_perfil: origem, id_modulo: await moduleId("admin") }] });
+
+    await PerfilRepo.remove(db, origem, destino);
+
+    expect(await PerfilRepo.findById(db, origem)).toBeNull();
+    expect(await PerfilRepo.findById(db, destino)).not.toBeNull();
+    expect((await UsuarioRepo.findById(db, ativo))?.tb_perfil_idtb_perfil).toBe(destino);
+    expect((await UsuarioRepo.findById(db, excluido, { includeDeleted: true }))?.tb_perfil_idtb_perfil).toBe(destino);
+    expect(await PermissaoRepo.list(db)).toEqual([]);
+  });
+
+  it("não apaga nada quando o perfil ainda tem usuários e não há transferência", async () => {
+    const perfil = await createProfile("Usuário");
+    await createUser("u1", perfil);
+
+    await expect(PerfilRepo.remove(db, perfil)).rejects.toThrow();
+    expect(await PerfilRepo.findById(db, perfil)).not.toBeNull();
+  });
+});
+
+describe("PermissaoRepo.apply", () => {
+  it("concede e revoga na mesma chamada", async () => {
+    const perfil = await createProfile("Usuário");
+    const admin = await moduleId("admin");
+    const database = await moduleId("database");
+    await PermissaoRepo.apply(db, { grant: [{ id_perfil: perfil, id_modulo: admin }] });
+
+    await PermissaoRepo.apply(db, {
+      grant: [{ id_perfil: perfil, id_modulo: database }],
+      revoke: [{ id_perfil: perfil, id_modulo: admin }],
+    });
+
+    expect(await PermissaoRepo.list(db)).toEqual([{ id_perfil: perfil, id_modulo: database }]);
+  });
+
+  it("desfaz as revogações quando uma concessão falha", async () => {
+    const perfil = await createProfile("Usuário");
+    const admin = await moduleId("admin");
+    const database = await moduleId("database");
+    await PermissaoRepo.apply(db, { grant: [{ id_perfil: perfil, id_modulo: admin }, { id_perfil: perfil, id_modulo: database }] });
+
+    // A permissão de "database" já existe: o INSERT viola a chave primária.
+    await expect(PermissaoRepo.apply(db, {
+      revoke: [{ id_perfil: perfil, id_modulo: admin }],
+      grant: [{ id_perfil: perfil, id_modulo: database }],
+    })).rejects.toThrow();
+
+    expect(await PermissaoRepo.find(db, perfil, admin)).not.toBeNull();
+    expect(await PermissaoRepo.list(db)).toHaveLength(2);
+  });
+});
+
+describe("PermissaoRepo.findAdminLockout", () => {
+  it("aponta o módulo admin só quando a revogação deixa todos os perfis sem ele", async () => {
+    const primeiro = await createProfile("Primeiro");
+    const segundo = await createProfile("Segundo");
+    const admin = await moduleId("admin");
+    const database = await moduleId("database");
+    await PermissaoRepo.apply(db, { grant: [{ id_perfil: primeiro, id_modulo: admin }, { id_perfil: primeiro, id_modulo: database }] });
+
+    expect(await PermissaoRepo.findAdminLockout(db, { revoke: [{ id_perfil: primeiro, id_modulo: admin }] })).toMatchObject({ slug: "admin" });
+    expect(await PermissaoRepo.findAdminLockout(db, { revoke: [{ id_perfil: primeiro, id_modulo: database }] })).toBeNull();
+    expect(await PermissaoRepo.findAdminLockout(db, {
+      grant: [{ id_perfil: segundo, id_modulo: admin }],
+      revoke: [{ id_perfil: primeiro, id_modulo: admin }],
+    })).toBeNull();
+  });
+});
@@ -0,0 +1,513 @@
+// File: app/repositories.server.ts
+// Acesso às tabelas principais (tb_usuario, tb_perfil, tb_modulo, tb_permissao). Cada
+// linha lida do D1 é validada contra o formato da tabela antes de sair daqui, e as regras
+// de exclusão lógica e de situação do usuário (st_delete, st_usuario) ficam só neste módulo.
+import type { D1Database, D1PreparedStatement } from "@cloudflare/workers-types";
+
+type ColumnType = "integer" | "text" | "integer?" | "text?";
+type ColumnValueOf<T extends ColumnType> =
+  T extends "integer" ? number : T extends "text" ? string : T extends "integer?" ? number | null : string | null;
+type RowShape = Record<string, ColumnType>;
+type RowOf<S extends RowShape> = { [K in keyof S]: ColumnValueOf<S[K]> };
+
+/**
+ * Confere se a linha tem as colunas do formato com o tipo esperado. Uma divergência indica
+ * esquema e código fora de sincronia (ex.: migração não aplicada) e lança um erro.
+ */
+function parseRow<S extends RowShape>(shape: S, row: unknown, table: string): RowOf<S> {
+  if (typeof row !== "object" || row === null) {
+    throw new Error(`Linha inválida em ${table}.`);
+  }
+  const record = row as Record<string, unknown>;
+  const parsed: Record<string, unknown> = {};
+  for (const [column, type] of Object.entries(shape)) {
+    const value = record[column];
+    const nullable = type.endsWith("?");
+    const ok = value === null
+      ? nullable
+      : type.startsWith("integer") ? Number.isInteger(value) : typeof value === "string";
+    if (!ok) {
+      throw new Error(`Valor inválido em ${table}.${column}: esperado ${type}, recebido ${value === undefined ? "coluna ausente" : JSON.stringify(value)}.`);
+    }
+    parsed[column] = value;
+  }
+  return parsed as RowOf<S>;
+}
+
+function parseRows<S extends RowShape>(shape: S, rows: unknown[] | undefined, table: string) {
+  return (rows || []).map((row) => parseRow(shape, row, table));
+}
+
+function parseCount(row: unknown) {
+  return parseRow({ total: "integer" }, row, "COUNT").total;
+}
+
+async function first<S extends RowShape>(shape: S, statement: D1PreparedStatement, table: string) {
+  const row = await statement.first();
+  return row === null ? null : parseRow(shape, row, table);
+}
+
+async function all<S extends RowShape>(shape: S, statement: D1PreparedStatement, table: string) {
+  const { results } = await statement.all();
+  return parseRows(shape, results, table);
+}
+
+// O D1 limita a quantidade de parâmetros por instrução; listas maiores são consultadas em partes.
+const KEY_LOOKUP_SIZE = 90;
+
+// Regras de exclusão lógica e situação, usadas em todas as consultas de usuários (alias "u").
+// Usuários excluídos ficam na tabela (a matrícula continua reservada) e podem ser restaurados.
+const USER_NOT_DELETED = "u.st_delete = 0";
+/** Condição SQL de usuário ativo e não excluído, para consultas que juntam tb_usuario como "u". */
+export const USER_ACTIVE = "u.st_usuario = 1 AND u.st_delete = 0";
+
+const USUARIO = {
+  idtb_usuario: "integer",
+  matricula: "text",
+  nome_usuario: "text",
+  tb_perfil_idtb_perfil: "integer?",
+  st_usuario: "integer",
+  st_delete: "integer",
+} as const;
+const USUARIO_COM_PERFIL = { ...USUARIO, ds_perfil: "text?" } as const;
+const USUARIO_LOGIN = {
+  idtb_usuario: "integer",
+  nome_usuario: "text",
+  senha: "text",
+  st_troca_senha: "integer",
+  ds_idioma: "text?",
+  st_totp: "integer",
+  ds_perfil: "text?",
+  st_2fa_obrigatorio: "integer?",
+} as const;
+const USUARIO_SENHA = { matricula: "text", senha: "text" } as const;
+const PERFIL = { idtb_perfil: "integer", ds_perfil: "text", st_2fa_obrigatorio: "integer" } as const;
+const PERFIL_USO = { ...PERFIL, nr_usuarios: "integer", nr_permissoes: "integer" } as const;
+const MODULO = { id_modulo: "integer", ds_modulo: "text", tipo_modulo: "text", slug: "text?" } as const;
+const PERMISSAO = { id_perfil: "integer", id_modulo: "integer" } as const;
+
+export type Usuario = RowOf<typeof USUARIO>;
+export type UsuarioComPerfil = RowOf<typeof USUARIO_COM_PERFIL>;
+export type UsuarioLogin = RowOf<typeof USUARIO_LOGIN>;
+export type Perfil = RowOf<typeof PERFIL>;
+export type PerfilComUso = RowOf<typeof PERFIL_USO>;
+export type Modulo = RowOf<typeof MODULO>;
+export type Permissao = RowOf<typeof PERMISSAO>;
+
+// Colunas de tb_usuario devolvidas pelo repositório; a senha só sai pelas funções de login e troca.
+const USER_COLUMNS = "u.idtb_usuario, u.matricula, u.nome_usuario, u.tb_perfil_idtb_perfil, u.st_usuario, u.st_delete";
+
+export interface UsuarioFilters {
+  // Busca por matrícula ou nome.
+  q?: string;
+  deleted?: boolean;
+  perfil?: number | null;
+  situacao?: number | null;
+}
+
+export const UsuarioRepo = {
+  /** Usuário não excluído; com includeDeleted, também os excluídos logicamente. */
+  async findById(db: D1Database, id: number, { includeDeleted = false } = {}) {
+    return first(
+      USUARIO,
+      db.prepare(`SELECT ${USER_COLUMNS} FROM tb_usuario u WHERE u.idtb_usuario = ?${includeDeleted ? "" : ` AND ${USER_NOT_DELETED}`}`).bind(id),
+      "tb_usuario"
+    );
+  },
+
+  /** A matrícula é única entre todos os usuários, inclusive os excluídos. */
+  async matriculaExists(db: D1Database, matricula: string) {
+    return (await db.prepare("SELECT 1 FROM tb_usuario WHERE matricula = ?").bind(matricula).first()) !== null;
+  },
+
+  /** Usuários (inclusive excluídos) com as matrículas informadas, para a importação em lote. */
+  async findByMatriculas(db: D1Database, matriculas: string[]) {
+    const rows: Usuario[] = [];
+    for (let i = 0; i < matriculas.length; i += KEY_LOOKUP_SIZE) {
+      const chunk = matriculas.slice(i, i + KEY_LOOKUP_SIZE);
+      rows.push(...await all(
+        USUARIO,
+        db.prepare(`SELECT ${USER_COLUMNS} FROM tb_usuario u WHERE u.matricula IN (${chunk.map(() => "?").join(", ")})`).bind(...chunk),
+        "tb_usuario"
+      ));
+    }
+    return rows;
+  },
+
+  /** Dados de login de um usuário ativo. */
+  async findForLogin(db: D1Database, matricula: string) {
+    return first(
+      USUARIO_LOGIN,
+      db.prepare(
+        `SELECT u.idtb_usuario, u.nome_usuario, u.senha, u.st_troca_senha, u.ds_idioma, u.st_totp, p.ds_perfil, p.st_2fa_obrigatorio
+         FROM tb_usuario u
+         LEFT JOIN tb_perfil p ON u.tb_perfil_idtb_perfil = p.idtb_perfil
+         WHERE u.matricula = ? AND ${USER_ACTIVE}`
+      ).bind(matricula),
+      "tb_usuario"
+    );
+  },
+
+  /** Matrícula e hash da senha atual, para a troca de senha. */
+  async findCredentials(db: D1Database, id: number) {
+    return first(USUARIO_SENHA, db.prepare("SELECT matricula, senha FROM tb_usuario WHERE idtb_usuario = ?").bind(id), "tb_usuario");
+  },
+
+  /** Nome do perfil de um usuário ativo, lido do banco (não da sessão). */
+  async activeProfileName(db: D1Database, id: number) {
+    const row = await first(
+      { ds_perfil: "text" },
+      db.prepare(
+        `SELECT p.ds_perfil FROM tb_usuario u
+         JOIN tb_perfil p ON u.tb_perfil_idtb_perfil = p.idtb_perfil
+         WHERE u.idtb_usuario = ? AND ${USER_ACTIVE}`
+      ).bind(id),
+      "tb_usuario"
+    );
+    return row?.ds_perfil ?? null;
+  },
+
+  async list(db: D1Database, filters: UsuarioFilters, limit: number, offset: number) {
+    const q = filters.q ?? "";
+    const like = `%${q}%`;
+    const perfil = filters.perfil ?? null;
+    const situacao = filters.situacao ?? null;
+    const where = `WHERE u.st_delete = ? AND (? = '' OR u.matricula LIKE ? OR u.nome_usuario LIKE ?)
+                   AND (? IS NULL OR u.tb_perfil_idtb_perfil = ?) AND (? IS NULL OR u.st_usuario = ?)`;
+    const params = [filters.deleted ? 1 : 0, q, like, like, perfil, perfil, situacao, situacao];
+    const [countResult, rowsResult] = await db.batch([
+      db.prepare(`SELECT COUNT(*) AS total FROM tb_usuario u ${where}`).bind(...params),
+      db.prepare(
+        `SELECT ${USER_COLUMNS}, p.ds_perfil
+         FROM tb_usuario u
+         LEFT JOIN tb_perfil p ON u.tb_perfil_idtb_perfil = p.idtb_perfil
+         ${where}
+         ORDER BY u.nome_usuario, u.idtb_usuario
+         LIMIT ? OFFSET ?`
+      ).bind(...params, limit, offset),
+    ]);
+    return {
+      total: parseCount(countResult.results?.[0]),
+      rows: parseRows(USUARIO_COM_PERFIL, rowsResult.results, "tb_usuario"),
+    };
+  },
+
+  /**
+   * Cria o usuário com a senha já em hash e retorna o id. A senha inicial é definida por quem
+   * cadastra, então a troca é exigida no primeiro acesso (st_troca_senha).
+   */
+  async create(
+    db: D1Database,
+    values: { matricula: string; nome_usuario: string; senhaHash: string; tb_perfil_idtb_perfil: number; st_usuario?: number }
+  ) {
+    const { meta } = await db.prepare(
+      `INSERT INTO tb_usuario (matricula, nome_usuario, senha, tb_perfil_idtb_perfil, st_usuario, st_delete, st_troca_senha)
+       VALUES (?, ?, ?, ?, ?, 0, 1)`
+    ).bind(values.matricula, values.nome_usuario, values.senhaHash, values.tb_perfil_idtb_perfil, values.st_usuario ?? 1).run();
+    return meta.last_row_id;
+  },
+
+  /**
+   * Instrução (para db.batch) que grava um usuário importado: cria o registro ou, com
+   * restoreId, restaura o usuário excluído com a mesma matrícula e substitui nome, perfil e
+   * senha. Nos dois casos a troca da senha é exigida no primeiro acesso.
+   */
+  importStatement(
+    db: D1Database,
+    values: { matricula: string; nome_usuario: string; senhaHash: string; tb_perfil_idtb_perfil: number },
+    restoreId: number | null
+  ) {
+    if (restoreId === null) {
+      return db.prepare(
+        `INSERT INTO tb_usuario (matricula, nome_usuario, senha, tb_perfil_idtb_perfil, st_usuario, st_delete, st_troca_senha)
+         VALUES (?, ?, ?, ?, 1, 0, 1)`
+      ).bind(values.matricula, values.nome_usuario, values.senhaHash, values.tb_perfil_idtb_perfil);
+    }
+    // "st_delete = 1" evita sobrescrever um usuário restaurado por outro caminho desde a prévia.
+    return db.prepare(
+      `UPDATE tb_usuario
+       SET nome_usuario = ?, senha = ?, tb_perfil_idtb_perfil = ?, st_usuario = 1, st_delete = 0, dt_exclusao = NULL, st_troca_senha = 1
+       WHERE idtb_usuario = ? AND matricula = ? AND st_delete = 1`
+    ).bind(values.nome_usuario, values.senhaHash, values.tb_perfil_idtb_perfil, restoreId, values.matricula);
+  },
+
+  async update(db: D1Database, id: number, changes: Partial<Pick<Usuario, "nome_usuario" | "tb_perfil_idtb_perfil" | "st_usuario">>) {
+    await UsuarioRepo.updateStatement(db, id, changes)?.run();
+  },
+
+  /** Instrução (para db.batch) de update(); null quando não há nada a alterar. */
+  updateStatement(db: D1Database, id: number, changes: Partial<Pick<Usuario, "nome_usuario" | "tb_perfil_idtb_perfil" | "st_usuario">>) {
+    const columns = Object.keys(changes) as (keyof typeof changes)[];
+    if (columns.length === 0) return null;
+    return db.prepare(`UPDATE tb_usuario SET ${columns.map((column) => `${column} = ?`).join(", ")} WHERE idtb_usuario = ?`)
+      .bind(...columns.map((column) => changes[column]), id);
+  },
+
+  async toggleStatus(db: D1Database, id: number) {
+    await db.prepare("UPDATE tb_usuario SET st_usuario = CASE st_usuario WHEN 1 THEN 0 ELSE 1 END WHERE idtb_usuario = ?").bind(id).run();
+  },
+
+  async softDelete(db: D1Database, id: number) {
+    await db.prepare("UPDATE tb_usuario SET st_delete = 1, dt_exclusao = datetime('now') WHERE idtb_usuario = ?").bind(id).run();
+  },
+
+  async restore(db: D1Database, id: number) {
+    await db.prepare("UPDATE tb_usuario SET st_delete = 0, dt_exclusao = NULL WHERE idtb_usuario = ?").bind(id).run();
+  },
+
+  /**
+   * Remove de vez os usuários excluídos logicamente há mais de retentionDays dias. Sessões,
+   * tokens e códigos de recuperação saem junto (ON DELETE CASCADE); a auditoria fica.
+   * Devolve as matrículas removidas.
+   */
+  async purgeDeleted(db: D1Database, retentionDays: number) {
+    const { results } = await db.prepare(
+      `DELETE FROM tb_usuario
+       WHERE st_delete = 1 AND dt_exclusao IS NOT NULL AND dt_exclusao <= datetime('now', ?)
+       RETURNING matricula`
+    ).bind(`-${retentionDays} days`).all<{ matricula: string }>();
+    return (results || []).map((row) => row.matricula);
+  },
+
+  /** Idioma preferido da interface; null volta a seguir o navegador. */
+  async setLocale(db: D1Database, id: number, locale: string | null) {
+    await db.prepare("UPDATE tb_usuario SET ds_idioma = ? WHERE idtb_usuario = ?").bind(locale, id).run();
+  },
+
+  /** Grava um novo hash de senha; mustChange liga ou desliga a troca obrigatória (st_troca_senha). */
+  async setPassword(db: D1Database, id: number, senhaHash: string, options: { mustChange?: boolean } = {}) {
+    await UsuarioRepo.setPasswordStatement(db, id, senhaHash, options).run();
+  },
+
+  /** Instrução (para db.batch) de setPassword(). */
+  setPasswordStatement(db: D1Database, id: number, senhaHash: string, { mustChange }: { mustChange?: boolean } = {}) {
+    if (mustChange === undefined) {
+      return db.prepare("UPDATE tb_usuario SET senha = ? WHERE idtb_usuario = ?").bind(senhaHash, id);
+    }
+    return db.prepare("UPDATE tb_usuario SET senha = ?, st_troca_senha = ? WHERE idtb_usuario = ?")
+      .bind(senhaHash, mustChange ? 1 : 0, id);
+  },
+
+  /** Usuários que apontam para o perfil, inclusive excluídos (a chave estrangeira continua valendo). */
+  async countByProfile(db: D1Database, perfilId: number) {
+    return parseCount(await db.prepare("SELECT COUNT(*) AS total FROM tb_usuario WHERE tb_perfil_idtb_perfil = ?").bind(perfilId).first());
+  },
+};
+
+const PROFILE_COLUMNS = "idtb_perfil, ds_perfil, st_2fa_obrigatorio";
+/** Perfil embutido, usado pela migração dos módulos administrativos; não pode ser renomeado nem excluído. */
+export const PROTECTED_PROFILE = "Administrador";
+
+export const PerfilRepo = {
+  async list(db: D1Database) {
+    return all(PERFIL, db.prepare(`SELECT ${PROFILE_COLUMNS} FROM tb_perfil ORDER BY ds_perfil`), "tb_perfil");
+  },
+
+  /** Perfis com a quantidade de usuários vinculados (inclusive excluídos) e de permissões. */
+  async listWithUsage(db: D1Database) {
+    return all(
+      PERFIL_USO,
+      db.prepare(
+        `SELECT ${PROFILE_COLUMNS},
+                (SELECT COUNT(*) FROM tb_usuario u WHERE u.tb_perfil_idtb_perfil = p.idtb_perfil) AS nr_usuarios,
+                (SELECT COUNT(*) FROM tb_permissao pm WHERE pm.id_perfil = p.idtb_perfil) AS nr_permissoes
+         FROM tb_perfil p ORDER BY ds_perfil`
+      ),
+      "tb_perfil"
+    );
+  },
+
+  async page(db: D1Database, limit: number, offset: number) {
+    const [countResult, rowsResult] = await db.batch([
+      db.prepare("SELECT COUNT(*) AS total FROM tb_perfil"),
+      db.prepare(`SELECT ${PROFILE_COLUMNS} FROM tb_perfil ORDER BY idtb_perfil LIMIT ? OFFSET ?`).bind(limit, offset),
+    ]);
+    return { total: parseCount(countResult.results?.[0]), rows: parseRows(PERFIL, rowsResult.results, "tb_perfil") };
+  },
+
+  async findById(db: D1Database, id: number) {
+    return first(PERFIL, db.prepare(`SELECT ${PROFILE_COLUMNS} FROM tb_perfil WHERE idtb_perfil = ?`).bind(id), "tb_perfil");
+  },
+
+  /** Verifica se o nome já é usado por outro perfil (exceptId = o próprio, na renomeação). */
+  async nameExists(db: D1Database, name: string, exceptId: number | null = null) {
+    return (await db.prepare("SELECT 1 FROM tb_perfil WHERE ds_perfil = ? AND idtb_perfil IS NOT ?").bind(name, exceptId).first()) !== null;
+  },
+
+  async create(db: D1Database, name: string) {
+    const { meta } = await db.prepare("INSERT INTO tb_perfil (ds_perfil) VALUES (?)").bind(name).run();
+    return meta.last_row_id;
+  },
+
+  async rename(db: D1Database, id: number, name: string) {
+    await db.prepare("UPDATE tb_perfil SET ds_perfil = ? WHERE idtb_perfil = ?").bind(name, id).run();
+  },
+
+  /** Liga ou desliga a exigência de verificação em duas etapas para os usuários do perfil. */
+  async setTwoFactorRequired(db: D1Database, id: number, required: boolean) {
+    await db.prepare("UPDATE tb_perfil SET st_2fa_obrigatorio = ? WHERE idtb_perfil = ?").bind(required ? 1 : 0, id).run();
+  },
+
+  isProtected(profile: Pick<Perfil, "ds_perfil">) {
+    return profile.ds_perfil === PROTECTED_PROFILE;
+  },
+
+  /**
+   * Exclui o perfil e suas permissões na mesma transação. Com reassignTo, os usuários
+   * vinculados (inclusive excluídos) passam para esse perfil no mesmo batch; sem ele, quem
+   * chama garante que não há usuários.
+   */
+  async remove(db: D1Database, id: number, reassignTo: number | null = null) {
+    await db.batch([
+      ...(reassignTo === null ? [] : [
+        db.prepare("UPDATE tb_usuario SET tb_perfil_idtb_perfil = ? WHERE tb_perfil_idtb_perfil = ?").bind(reassignTo, id),
+      ]),
+      db.prepare("DELETE FROM tb_permissao WHERE id_perfil = ?").bind(id),
+      db.prepare("DELETE FROM tb_perfil WHERE idtb_perfil = ?").bind(id),
+    ]);
+  },
+};
+
+const MODULE_COLUMNS = "m.id_modulo, m.ds_modulo, m.tipo_modulo, m.slug";
+
+export const ModuloRepo = {
+  async list(db: D1Database) {
+    return all(MODULO, db.prepare(`SELECT ${MODULE_COLUMNS} FROM tb_modulo m ORDER BY m.tipo_modulo, m.ds_modulo`), "tb_modulo");
+  },
+
+  async page(db: D1Database, { tipo = null }: { tipo?: string | null }, limit: number, offset: number) {
+    const [countResult, rowsResult] = await db.batch([
+      db.prepare("SELECT COUNT(*) AS total FROM tb_modulo m WHERE (? IS NULL OR m.tipo_modulo = ?)").bind(tipo, tipo),
+      db.prepare(`SELECT ${MODULE_COLUMNS} FROM tb_modulo m WHERE (? IS NULL OR m.tipo_modulo = ?) ORDER BY m.id_modulo LIMIT ? OFFSET ?`)
+        .bind(tipo, tipo, limit, offset),
+    ]);
+    return { total: parseCount(countResult.results?.[0]), rows: parseRows(MODULO, rowsResult.results, "tb_modulo") };
+  },
+
+  async findById(db: D1Database, id: number) {
+    return first(MODULO, db.prepare(`SELECT ${MODULE_COLUMNS} FROM tb_modulo m WHERE m.id_modulo = ?`).bind(id), "tb_modulo");
+  },
+
+  /** Módulo do aplicativo pelo endereço /m/:moduleId: o slug ou, sem slug, o id numérico. */
+  async findAppModule(db: D1Database, key: string) {
+    return first(
+      MODULO,
+      db.prepare(
+        `SELECT ${MODULE_COLUMNS} FROM tb_modulo m
+         WHERE m.tipo_modulo = 'app' AND (m.slug = ? OR (m.slug IS NULL AND m.id_modulo = ?))`
+      ).bind(key, Number(key) || 0),
+      "tb_modulo"
+    );
+  },
+
+  /** Módulos do aplicativo liberados para o perfil do usuário. */
+  async listAppModulesForUser(db: D1Database, userId: number) {
+    return all(
+      MODULO,
+      db.prepare(
+        `SELECT ${MODULE_COLUMNS} FROM tb_modulo m
+         JOIN tb_permissao p ON m.id_modulo = p.id_modulo
+         JOIN tb_usuario u ON p.id_perfil = u.tb_perfil_idtb_perfil
+         WHERE u.idtb_usuario = ? AND ${USER_ACTIVE} AND m.tipo_modulo = 'app'
+         ORDER BY m.ds_modulo`
+      ).bind(userId),
+      "tb_modulo"
+    );
+  },
+
+  async slugExists(db: D1Database, slug: string, exceptId: number | null = null) {
+    return (await db.prepare("SELECT 1 FROM tb_modulo WHERE slug = ? AND id_modulo IS NOT ?").bind(slug, exceptId).first()) !== null;
+  },
+
+  async create(db: D1Database, values: { ds_modulo: string; tipo_modulo: string; slug: string | null }) {
+    const { meta } = await db.prepare("INSERT INTO tb_modulo (ds_modulo, tipo_modulo, slug) VALUES (?, ?, ?)")
+      .bind(values.ds_modulo, values.tipo_modulo, values.slug)
+      .run();
+    return meta.last_row_id;
+  },
+
+  async update(db: D1Database, id: number, changes: Partial<Pick<Modulo, "ds_modulo" | "tipo_modulo" | "slug">>) {
+    const columns = Object.keys(changes) as (keyof typeof changes)[];
+    if (columns.length === 0) return;
+    await db.prepare(`UPDATE tb_modulo SET ${columns.map((column) => `${column} = ?`).join(", ")} WHERE id_modulo = ?`)
+      .bind(...columns.map((column) => changes[column]), id)
+      .run();
+  },
+
+  /** Exclui o módulo e as permissões que o liberam, na mesma transação. */
+  async remove(db: D1Database, id: number) {
+    await db.batch([
+      db.prepare("DELETE FROM tb_permissao WHERE id_modulo = ?").bind(id),
+      db.prepare("DELETE FROM tb_modulo WHERE id_modulo = ?").bind(id),
+    ]);
+  },
+};
+
+export const PermissaoRepo = {
+  /**
+   * Verifica se o perfil do usuário tem uma linha em tb_permissao para o módulo, identificado
+   * pelo slug ou pelo id_modulo. Usuários inativos ou excluídos nunca têm permissão.
+   */
+  async userHasModule(db: D1Database, userId: number, moduleKey: string | number) {
+    const column = typeof moduleKey === "number" ? "m.id_modulo" : "m.slug";
+    const row = await db.prepare(
+      `SELECT 1 FROM tb_permissao p
+       JOIN tb_modulo m ON m.id_modulo = p.id_modulo
+       JOIN tb_usuario u ON u.tb_perfil_idtb_perfil = p.id_perfil
+       WHERE u.idtb_usuario = ? AND ${USER_ACTIVE} AND ${column} = ?`
+    ).bind(userId, moduleKey).first();
+    return row !== null;
+  },
+
+  async list(db: D1Database) {
+    return all(PERMISSAO, db.prepare("SELECT id_perfil, id_modulo FROM tb_permissao"), "tb_permissao");
+  },
+
+  async page(db: D1Database, { perfil = null, modulo = null }: { perfil?: number | null; modulo?: number | null }, limit: number, offset: number) {
+    const where = "(? IS NULL OR id_perfil = ?) AND (? IS NULL OR id_modulo = ?)";
+    const params = [perfil, perfil, modulo, modulo];
+    const [countResult, rowsResult] = await db.batch([
+      db.prepare(`SELECT COUNT(*) AS total FROM tb_permissao WHERE ${where}`).bind(...params),
+      db.prepare(`SELECT id_perfil, id_modulo FROM tb_permissao WHERE ${where} ORDER BY id_perfil, id_modulo LIMIT ? OFFSET ?`)
+        .bind(...params, limit, offset),
+    ]);
+    return { total: parseCount(countResult.results?.[0]), rows: parseRows(PERMISSAO, rowsResult.results, "tb_permissao") };
+  },
+
+  async find(db: D1Database, id_perfil: number, id_modulo: number) {
+    return first(
+      PERMISSAO,
+      db.prepare("SELECT id_perfil, id_modulo FROM tb_permissao WHERE id_perfil = ? AND id_modulo = ?").bind(id_perfil, id_modulo),
+      "tb_permissao"
+    );
+  },
+
+  /**
+   * Módulo "admin" quando as alterações revogariam o acesso a ele do último perfil que o tem
+   * (ninguém mais entraria em /admin nem no gerenciamento de tokens); null se podem ser gravadas.
+   */
+  async findAdminLockout(db: D1Database, { grant = [], revoke = [] }: { grant?: Permissao[]; revoke?: Permissao[] }) {
+    const adminModule = await first(MODULO, db.prepare(`SELECT ${MODULE_COLUMNS} FROM tb_modulo m WHERE m.slug = 'admin'`), "tb_modulo");
+    if (!adminModule || !revoke.some((p) => p.id_modulo === adminModule.id_modulo)) return null;
+    const { results } = await db.prepare("SELECT id_perfil FROM tb_permissao WHERE id_modulo = ?")
+      .bind(adminModule.id_modulo)
+      .all<{ id_perfil: number }>();
+    const profiles = new Set((results ?? []).map((row) => row.id_perfil));
+    for (const p of revoke) if (p.id_modulo === adminModule.id_modulo) profiles.delete(p.id_perfil);
+    for (const p of grant) if (p.id_modulo === adminModule.id_modulo) profiles.add(p.id_perfil);
+    return profiles.size === 0 ? adminModule : null;
+  },
+
+  /** Concede e revoga permissões em uma única transação: ou todas as alterações valem, ou nenhuma. */
+  async apply(db: D1Database, { grant = [], revoke = [] }: { grant?: Permissao[]; revoke?: Permissao[] }) {
+    if (grant.length === 0 && revoke.length === 0) return;
+    await db.batch([
+      ...revoke.map(({ id_perfil, id_modulo }) =>
+        db.prepare("DELETE FROM tb_permissao WHERE id_perfil = ? AND id_modulo = ?").bind(id_perfil, id_modulo)
+      ),
+      ...grant.map(({ id_perfil, id_modulo }) =>
+        db.prepare("INSERT INTO tb_permissao (id_perfil, id_modulo) VALUES (?, ?)").bind(id_perfil, id_modulo)
+      ),
+    ]);
+  },
+};
@@ -0,0 +1,181 @@
+// File: app/request-context.server.ts
+// Contexto de cada requisição atendida pelo Worker: id de correlação, usuário autenticado
+// e tempos das consultas ao D1. workers/app.ts cria o contexto, o entrega às rotas em
+// AppLoadContext.requestContext e, ao final, grava uma linha de log em JSON (lida pelo
+// Workers Observability). Módulos que não recebem o AppLoadContext (auth, auditoria)
+// alcançam o contexto atual por getRequestContext().
+import { AsyncLocalStorage } from "node:async_hooks";
+import type { D1Database, D1PreparedStatement } from "@cloudflare/workers-types";
+
+export const REQUEST_ID_HEADER = "X-Request-Id";
+// Id recebido de um proxy à frente do Worker é reaproveitado se tiver formato razoável.
+const INCOMING_ID_PATTERN = /^[\w.:-]{8,128}$/;
+// Limites para uma requisição com muitas consultas não gerar uma linha de log enorme.
+const MAX_LOGGED_QUERIES = 50;
+const MAX_SQL_LENGTH = 200;
+
+export interface QueryTiming {
+  sql: string;
+  ms: number;
+  // Consultas de um db.batch() aparecem como uma entrada só, com os comandos separados por ";".
+  batch?: number;
+  error?: true;
+}
+
+export interface RequestContext {
+  requestId: string;
+  method: string;
+  // Caminho sem o sufixo ".data" das requisições de dados do React Router.
+  route: string;
+  startedAt: number;
+  userId: number | null;
+  queries: QueryTiming[];
+}
+
+type LogLevel = "info" | "warn" | "error";
+
+const storage = new AsyncLocalStorage<RequestContext>();
+
+export function createRequestContext(request: Request): RequestContext {
+  const incoming = request.headers.get(REQUEST_ID_HEADER);
+  return {
+    requestId: incoming && INCOMING_ID_PATTERN.test(incoming) ? incoming : crypto.randomUUID(),
+    method: request.method,
+    route: new URL(request.url).pathname.replace(/\.data$/, ""),
+    startedAt: Date.now(),
+    userId: null,
+    queries: [],
+  };
+}
+
+/** Executa fn com o contexto ativo, para getRequestContext() e os logs o encontrarem. */
+export function runWithRequestContext<T>(context: RequestContext, fn: () => T) {
+  return storage.run(context, fn);
+}
+
+export function getRequestContext() {
+  return storage.getStore() ?? null;
+}
+
+/** Registra o usuário autenticado da requisição (chamado por requireUser e pela API). */
+export function setRequestUser(userId: number) {
+  const context = getRequestContext();
+  if (context) context.userId = userId;
+}
+
+function errorFields(error: unknown) {
+  if (error instanceof Error) {
+    return { error: error.message, stack: error.stack };
+  }
+  if (error instanceof Response) {
+    return { error: `Response ${error.status}` };
+  }
+  return { error: String(error) };
+}
+
+/** Linha de log em JSON com o id da requisição atual. */
+export function log(level: LogLevel, message: string, fields: Record<string, unknown> = {}) {
+  const context = getRequestContext();
+  const line = JSON.stringify({
+    level,
+    message,
+    ...(context ? { requestId: context.requestId, route: context.route, userId: context.userId } : {}),
+    ...fields,
+  });
+  if (level === "error") console.error(line);
+  else if (level === "warn") console.warn(line);
+  else console.log(line);
+}
+
+export function logError(message: string, error: unknown, fields: Record<string, unknown> = {}) {
+  log("error", message, { ...fields, ...errorFields(error) });
+}
+
+/** Linha de resumo da requisição: status, duração e consultas ao D1. */
+export function logRequest(context: RequestContext, status: number, error?: unknown) {
+  const totalMs = context.queries.reduce((sum, query) => sum + query.ms, 0);
+  const line = {
+    level: status >= 500 ? "error" : "info",
+    message: "request",
+    requestId: context.requestId,
+    method: context.method,
+    route: context.route,
+    status,
+    userId: context.userId,
+    durationMs: Date.now() - context.startedAt,
+    d1: {
+      count: context.queries.length,
+      totalMs,
+      queries: context.queries.slice(0, MAX_LOGGED_QUERIES),
+    },
+    ...(error === undefined ? {} : errorFields(error)),
+  };
+  (status >= 500 ? console.error : console.log)(JSON.stringify(line));
+}
+
+function shortSql(sql: string) {
+  const compact = sql.replace(/\s+/g, " ").trim();
+  return compact.length > MAX_SQL_LENGTH ? `${compact.slice(0, MAX_SQL_LENGTH)}…` : compact;
+}
+
+async function timed<T>(context: RequestContext, entry: Omit<QueryTiming, "ms">, run: () => Promise<T>) {
+  const start = Date.now();
+  try {
+    return await run();
+  } catch (error) {
+    entry.error = true;
+    throw error;
+  } finally {
+    context.queries.push({ ...entry, ms: Date.now() - start });
+  }
+}
+
+// Comando original de cada statement instrumentado, usado para desembrulhar no batch().
+const originals = new WeakMap<object, { statement: D1PreparedStatement; sql: string }>();
+const TIMED_METHODS = new Set<PropertyKey>(["first", "run", "all", "raw"]);
+
+function instrumentStatement(statement: D1PreparedStatement, sql: string, context: RequestContext): D1PreparedStatement {
+  const proxy = new Proxy(statement, {
+    get(target, property) {
+      const value = Reflect.get(target, property, target);
+      if (property === "bind") {
+        return (...values: unknown[]) => instrumentStatement(target.bind(...values), sql, context);
+      }
+      if (TIMED_METHODS.has(property) && typeof value === "function") {
+        return (...args: unknown[]) => timed(context, { sql: shortSql(sql) }, () => value.apply(target, args));
+      }
+      return typeof value === "function" ? value.bind(target) : value;
+    },
+  });
+  originals.set(proxy, { statement, sql });
+  return proxy;
+}
+
+/**
+ * Envolve o binding do D1 para medir cada consulta da requisição. O objeto devolvido tem a
+ * mesma interface do D1Database, então as rotas não precisam saber da instrumentação.
+ */
+export function instrumentD1(db: D1Database, context: RequestContext): D1Database {
+  return new Proxy(db, {
+    get(target, property) {
+      const value = Reflect.get(target, property, target);
+      if (property === "prepare") {
+        return (sql: string) => instrumentStatement(target.prepare(sql), sql, context);
+      }
+      if (property === "batch") {
+        return (statements: D1PreparedStatement[]) => {
+          const unwrapped = statements.map((statement) => originals.get(statement) ?? { statement, sql: "?" });
+          return timed(
+            context,
+            { sql: shortSql(unwrapped.map((entry) => entry.sql).join("; ")), batch: unwrapped.length },
+            () => target.batch(unwrapped.map((entry) => entry.statement))
+          );
+        };
+      }
+      if (property === "exec") {
+        return (sql: string) => timed(context, { sql: shortSql(sql) }, () => target.exec(sql));
+      }
+      return typeof value === "function" ? value.bind(target) : value;
+    },
+  });
+}
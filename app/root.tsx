@@ -1,13 +1,18 @@
 import {
+  data,
   isRouteErrorResponse,
   Links,
   Meta,
   Outlet,
   Scripts,
   ScrollRestoration,
+  useRouteLoaderData,
 } from "react-router";
 
 import type { Route } from "./+types/root";
+import { DEFAULT_LOCALE, useTranslation } from "~/i18n";
+import { getLocale } from "~/i18n.server";
+import { issueCsrfToken } from "~/csrf.server";
 import "./app.css";
 
 export const links: Route.LinksFunction = () => [
@@ -23,9 +28,18 @@ export const links: Route.LinksFunction = () => [
   },
 ];
 
+// O idioma da requisição (ver useTranslation) e o token CSRF (ver CsrfInput) ficam
+// disponíveis a todas as rotas.
+export async function loader({ request, context }: Route.LoaderArgs) {
+  const locale = await getLocale(request, context.cloudflare.env.DB_APP);
+  const { token, setCookie } = await issueCsrfToken(request);
+  return data({ locale, csrfToken: token }, setCookie ? { headers: { "Set-Cookie": setCookie } } : undefined);
+}
+
 export function Layout({ children }: { children: React.ReactNode }) {
+  const data = useRouteLoaderData<typeof loader>("root");
   return (
-    <html lang="en">
+    <html lang={data?.locale ?? DEFAULT_LOCALE}>
       <head>
         <meta charSet="utf-8" />
         <meta name="viewport" content="width=device-width, initial-scale=1" />
@@ -46,16 +60,17 @@ export default function App() {
 }
 
 export function ErrorBoundary({ error }: Route.ErrorBoundaryProps) {
-  let message = "Oops!";
-  let details = "An unexpected error occurred.";
+  const { t } = useTranslation();
+  let message = t("error.title");
+  let details = t("error.unexpected");
   let stack: string | undefined;
 
   if (isRouteErrorResponse(error)) {
-    message = error.status === 404 ? "404" : "Error";
+    message = error.status === 404 || error.status === 403 ? String(error.status) : t("error.generic");
     details =
       error.status === 404
-        ? "The requested page could not be found."
-        : error.statusText || details;
+        ? t("error.notFound")
+        : (typeof error.data === "string" && error.data) || error.statusText || details;
   } else if (import.meta.env.DEV && error && error instanceof Error) {
     details = error.message;
     stack = error.stack;
@@ -6,9 +6,30 @@ export default [
   index("routes/index.tsx"), 
   
   route("login", "routes/login.tsx"), 
+  route("login/2fa", "routes/login.2fa.tsx"),
   route("logout", "routes/logout.tsx"),
+  route("idioma", "routes/idioma.ts"),
+  route("healthz", "routes/healthz.ts"),
   route("admin", "routes/admin.tsx"),
+  route("admin/usuarios", "routes/admin.usuarios.tsx"),
+  route("admin/usuarios/importar", "routes/admin.usuarios.importar.tsx"),
+  route("admin/permissoes", "routes/admin.permissoes.tsx"),
+  route("admin/auditoria", "routes/admin.auditoria.tsx"),
+  route("admin/auditoria/exportar", "routes/admin.auditoria.exportar.ts"),
+  route("admin/bloqueios", "routes/admin.bloqueios.tsx"),
+  route("admin/tarefas", "routes/admin.tarefas.tsx"),
   route("database", "routes/database.tsx"),
+  route("database/exportar", "routes/database.exportar.ts"),
+  route("database/importar", "routes/database.importar.tsx"),
+  route("database/diagrama.svg", "routes/database.diagrama.ts"),
+  route("m/:moduleId", "routes/modulo.tsx"),
+  route("conta/sessoes", "routes/conta.sessoes.tsx"),
+  route("conta/senha", "routes/conta.senha.tsx"),
+  route("conta/tokens", "routes/conta.tokens.tsx"),
+  route("conta/2fa", "routes/conta.2fa.tsx"),
+  route("api/v1/openapi.json", "routes/api.v1.openapi.ts"),
+  route("api/v1/:resource", "routes/api.v1.$resource.ts"),
+  route("api/v1/:resource/:id", "routes/api.v1.$resource.$id.ts"),
 
   // A rota "home.tsx" foi removida para resolver o erro de tipo.
 
@@ -0,0 +1,45 @@
+// File: app/routes/admin.auditoria.exportar.ts
+// Rota de recurso: exporta o log de auditoria filtrado em CSV.
+import type { LoaderFunctionArgs } from "react-router";
+import { requirePermission } from "~/auth.server";
+import { parseAuditFilters, queryAuditBefore, type AuditRecord } from "~/audit.server";
+import { CSV_BOM, csvRow } from "~/csv";
+
+const CHUNK_SIZE = 500;
+
+const columns: (keyof AuditRecord)[] = [
+    "id_auditoria", "dt_evento", "id_usuario", "ds_usuario", "ds_acao", "ds_tabela",
+    "id_registro", "js_antes", "js_depois", "ds_ip", "ds_user_agent",
+];
+
+export async function loader({ request, context }: LoaderFunctionArgs) {
+    const db = context.cloudflare.env.DB_APP;
+    await requirePermission(request, db, "admin");
+    const filters = parseAuditFilters(new URL(request.url));
+    const encoder = new TextEncoder();
+
+    // O log é lido em blocos para não carregar a tabela inteira na memória do Worker; cada
+    // bloco continua a partir do último id lido.
+    let lastId: number | null = null;
+    const stream = new ReadableStream<Uint8Array>({
+        start(controller) {
+            controller.enqueue(encoder.encode(CSV_BOM + csvRow(columns)));
+        },
+        async pull(controller) {
+            const rows = await queryAuditBefore(db, filters, CHUNK_SIZE, lastId);
+            if (rows.length > 0) lastId = rows[rows.length - 1].id_auditoria;
+            controller.enqueue(encoder.encode(rows.map((row) => csvRow(columns.map((col) => row[col]))).join("")));
+            if (rows.length < CHUNK_SIZE) {
+                controller.close();
+            }
+        },
+    });
+
+    const date = new Date().toISOString().slice(0, 10);
+    return new Response(stream, {
+        headers: {
+            "Content-Type": "text/csv; charset=utf-8",
+            "Content-Disposition": `attachment; filename="auditoria-${date}.csv"`,
+        },
+    });
+}
@@ -0,0 +1,188 @@
+// File: app/routes/admin.auditoria.tsx
+import { Fragment, useState } from "react";
+import { Form, Link, useLoaderData, useSearchParams } from "react-router";
+import type { LoaderFunctionArgs, MetaFunction } from "react-router";
+import { requirePermission } from "~/auth.server";
+import { countAudit, listAuditActions, parseAuditFilters, queryAudit } from "~/audit.server";
+import { logError } from "~/request-context.server";
+import { metaTranslator, useTranslation } from "~/i18n";
+import { AdminLayout } from "~/components/admin-layout";
+
+const PAGE_SIZE = 50;
+
+export const meta: MetaFunction = ({ matches }) => [{ title: metaTranslator(matches).t("admin.audit.meta.title") }];
+
+export async function loader({ request, context }: LoaderFunctionArgs) {
+    const db = context.cloudflare.env.DB_APP;
+    await requirePermission(request, db, "admin");
+
+    const url = new URL(request.url);
+    const filters = parseAuditFilters(url);
+    const page = Math.max(1, Number(url.searchParams.get("page")) || 1);
+
+    try {
+        const [total, records, actions] = await Promise.all([
+            countAudit(db, filters),
+            queryAudit(db, filters, PAGE_SIZE, (page - 1) * PAGE_SIZE),
+            listAuditActions(db),
+        ]);
+        return { records, actions, total, page, pageSize: PAGE_SIZE, filters };
+    } catch (error) {
+        logError("Falha ao carregar auditoria", error);
+        return { records: [], actions: [], total: 0, page, pageSize: PAGE_SIZE, filters, error: "Falha ao carregar dados." };
+    }
+}
+
+const inputClasses = "px-3 py-2 text-gray-900 bg-gray-100 border border-gray-300 rounded-md shadow-sm dark:bg-gray-700 dark:text-white dark:border-gray-600";
+const thClasses = "px-4 py-3 border-b-2 border-gray-200 dark:border-gray-700 bg-gray-100 dark:bg-gray-900 text-left text-xs font-semibold text-gray-600 dark:text-gray-300 uppercase";
+const tdClasses = "px-4 py-3 border-b border-gray-200 dark:border-gray-700 text-sm";
+
+function formatJson(value: string | null) {
+    if (!value) return "—";
+    try {
+        return JSON.stringify(JSON.parse(value), null, 2);
+    } catch {
+        return value;
+    }
+}
+
+export default function AdminAuditPage() {
+    const { records, actions, total, page, pageSize, filters, error } = useLoaderData() as Awaited<ReturnType<typeof loader>>;
+    const [searchParams] = useSearchParams();
+    const [expandedId, setExpandedId] = useState<number | null>(null);
+    const { t } = useTranslation();
+    const totalPages = Math.max(1, Math.ceil(total / pageSize));
+
+    const pageLink = (target: number) => {
+        const params = new URLSearchParams(searchParams);
+        params.set("page", String(target));
+        return `?${params}`;
+    };
+    const exportParams = new URLSearchParams(searchParams);
+    exportParams.delete("page");
+
+    return (
+        <AdminLayout title={t("admin.nav.audit")}>
+            {error && <p className="text-red-500">{t("admin.audit.loadError")}</p>}
+
+            {/* Filters */}
+            <Form method="get" className="grid grid-cols-1 md:grid-cols-5 gap-4 mb-4 items-end">
+                <label className="text-sm text-gray-700 dark:text-gray-200">
+                    {t("admin.audit.user")}
+                    <input type="text" name="usuario" defaultValue={filters.usuario} placeholder={t("admin.audit.userPlaceholder")} className={`w-full mt-1 ${inputClasses}`} />
+                </label>
+                <label className="text-sm text-gray-700 dark:text-gray-200">
+                    {t("admin.audit.action")}
+                    <select name="acao" defaultValue={filters.acao} className={`w-full mt-1 ${inputClasses}`}>
+                        <option value="">{t("admin.audit.allActions")}</option>
+                        {actions.map((action) => <option key={action} value={action}>{action}</option>)}
+                    </select>
+                </label>
+                <label className="text-sm text-gray-700 dark:text-gray-200">
+                    {t("admin.audit.from")}
+                    <input type="date" name="de" defaultValue={filters.de} className={`w-full mt-1 ${inputClasses}`} />
+                </label>
+                <label className="text-sm text-gray-700 dark:text-gray-200">
+                    {t("admin.audit.to")}
+                    <input type="date" name="ate" defaultValue={filters.ate} className={`w-full mt-1 ${inputClasses}`} />
+                </label>
+                <div className="flex space-x-2">
+                    <button type="submit" className="px-4 py-2 font-medium text-white bg-gray-600 rounded-md hover:bg-gray-700">
+                        {t("admin.audit.filter")}
+                    </button>
+                    {/* reloadDocument: a exportação é uma rota de recurso que devolve o arquivo CSV. */}
+                    <Link
+                        to={`/admin/auditoria/exportar?${exportParams}`}
+                        reloadDocument
+                        className="px-4 py-2 font-medium text-white bg-blue-600 rounded-md hover:bg-blue-700"
+                    >
+                        {t("admin.audit.export")}
+                    </Link>
+                </div>
+            </Form>
+
+            <div className="bg-white dark:bg-gray-800 shadow-md rounded-lg overflow-x-auto">
+                <table className="min-w-full">
+                    <thead>
+                        <tr>
+                            <th className={thClasses}>{t("admin.audit.date")}</th>
+                            <th className={thClasses}>{t("admin.audit.user")}</th>
+                            <th className={thClasses}>{t("admin.audit.action")}</th>
+                            <th className={thClasses}>{t("admin.audit.record")}</th>
+                            <th className={thClasses}>{t("admin.audit.ip")}</th>
+                            <th className={thClasses}></th>
+                        </tr>
+                    </thead>
+                    <tbody className="text-gray-900 dark:text-white">
+                        {records.length === 0 && (
+                            <tr>
+                                <td colSpan={6} className={`${tdClasses} text-center text-gray-500 dark:text-gray-400`}>
+                                    {t("admin.audit.empty")}
+                                </td>
+                            </tr>
+                        )}
+                        {records.map((record) => (
+                            <Fragment key={record.id_auditoria}>
+                                <tr>
+                                    <td className={`${tdClasses} whitespace-nowrap`}>{record.dt_evento}</td>
+                                    <td className={tdClasses}>
+                                        {record.ds_usuario ?? "—"}
+                                        {record.id_usuario !== null && <span className="text-gray-400"> #{record.id_usuario}</span>}
+                                    </td>
+                                    <td className={`${tdClasses} font-mono`}>{record.ds_acao}</td>
+                                    <td className={`${tdClasses} font-mono`}>
+                                        {record.ds_tabela ? `${record.ds_tabela}${record.id_registro ? `#${record.id_registro}` : ""}` : "—"}
+                                    </td>
+                                    <td className={`${tdClasses} font-mono`}>{record.ds_ip ?? "—"}</td>
+                                    <td className={`${tdClasses} text-right`}>
+                                        <button
+                                            type="button"
+                                            onClick={() => setExpandedId(expandedId === record.id_auditoria ? null : record.id_auditoria)}
+                                            className="text-blue-500 hover:text-blue-700 dark:text-blue-400"
+                                        >
+                                            {expandedId === record.id_auditoria ? t("admin.audit.hide") : t("admin.audit.details")}
+                                        </button>
+                                    </td>
+                                </tr>
+                                {expandedId === record.id_auditoria && (
+                                    <tr>
+                                        <td colSpan={6} className={`${tdClasses} bg-gray-50 dark:bg-gray-900`}>
+                                            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                                                <div>
+                                                    <p className="font-semibold mb-1">{t("admin.audit.before")}</p>
+                                                    <pre className="p-2 bg-gray-100 dark:bg-gray-800 rounded text-xs whitespace-pre-wrap break-all">{formatJson(record.js_antes)}</pre>
+                                                </div>
+                                                <div>
+                                                    <p className="font-semibold mb-1">{t("admin.audit.after")}</p>
+                                                    <pre className="p-2 bg-gray-100 dark:bg-gray-800 rounded text-xs whitespace-pre-wrap break-all">{formatJson(record.js_depois)}</pre>
+                                                </div>
+                                            </div>
+                                            <p className="mt-2 text-xs text-gray-500 dark:text-gray-400 break-all">{t("admin.audit.userAgent", { userAgent: record.ds_user_agent ?? "—" })}</p>
+                                        </td>
+                                    </tr>
+                                )}
+                            </Fragment>
+                        ))}
+                    </tbody>
+                </table>
+            </div>
+
+            {/* Pagination */}
+            <div className="flex justify-between items-center mt-4 text-sm text-gray-600 dark:text-gray-300">
+                <span>{t("admin.audit.pagination", { count: total, page, pages: totalPages })}</span>
+                <div className="space-x-2">
+                    {page > 1 && (
+                        <Link to={pageLink(page - 1)} className="px-3 py-1 bg-white dark:bg-gray-800 rounded-md shadow hover:bg-gray-200 dark:hover:bg-gray-700">
+                            {t("common.previous")}
+                        </Link>
+                    )}
+                    {page < totalPages && (
+                        <Link to={pageLink(page + 1)} className="px-3 py-1 bg-white dark:bg-gray-800 rounded-md shadow hover:bg-gray-200 dark:hover:bg-gray-700">
+                            {t("common.next")}
+                        </Link>
+                    )}
+                </div>
+            </div>
+        </AdminLayout>
+    );
+}
@@ -0,0 +1,125 @@
+// File: app/routes/admin.bloqueios.tsx
+import { Form, useActionData, useLoaderData } from "react-router";
+import type { ActionFunctionArgs, LoaderFunctionArgs, MetaFunction } from "react-router";
+import { requirePermission } from "~/auth.server";
+import { validateCsrf } from "~/csrf.server";
+import { recordAudit } from "~/audit.server";
+import { clearLock, listLoginAttempts, type LockType } from "~/lockout.server";
+import { logError } from "~/request-context.server";
+import { getTranslator } from "~/i18n.server";
+import { metaTranslator, useTranslation } from "~/i18n";
+import { CsrfInput } from "~/components/csrf-input";
+import { AdminLayout } from "~/components/admin-layout";
+
+type LocksActionData = { ok?: boolean; error?: string } | undefined;
+
+export const meta: MetaFunction = ({ matches }) => [{ title: metaTranslator(matches).t("admin.lockouts.meta.title") }];
+
+export async function loader({ request, context }: LoaderFunctionArgs) {
+    const db = context.cloudflare.env.DB_APP;
+    await requirePermission(request, db, "admin");
+
+    try {
+        return { attempts: await listLoginAttempts(db) };
+    } catch (error) {
+        logError("Falha ao carregar bloqueios", error);
+        return { attempts: [], error: "Falha ao carregar dados." };
+    }
+}
+
+export async function action({ request, context }: ActionFunctionArgs): Promise<LocksActionData> {
+    const db = context.cloudflare.env.DB_APP;
+    const user = await requirePermission(request, db, "admin");
+
+    const formData = await request.formData();
+    await validateCsrf(request, db, formData);
+    const { t } = await getTranslator(request, db);
+    const tipo = formData.get("ds_tipo");
+    const chave = String(formData.get("ds_chave") ?? "");
+    if (formData.get("_action") !== "clear" || (tipo !== "matricula" && tipo !== "ip") || !chave) {
+        return { error: t("admin.lockouts.error.invalidAction") };
+    }
+
+    try {
+        await clearLock(db, tipo as LockType, chave);
+        await recordAudit(db, request, {
+            actor: user,
+            action: "bloqueio.liberar",
+            table: "tb_tentativa_login",
+            recordId: `${tipo}:${chave}`,
+        });
+    } catch (e) {
+        logError("Falha ao liberar bloqueio", e);
+        return { error: t("admin.lockouts.error.clearFailed") };
+    }
+    return { ok: true };
+}
+
+const thClasses = "px-5 py-3 border-b-2 border-gray-200 dark:border-gray-700 bg-gray-100 dark:bg-gray-900 text-left text-xs font-semibold text-gray-600 dark:text-gray-300 uppercase";
+const tdClasses = "px-5 py-4 border-b border-gray-200 dark:border-gray-700 text-sm";
+
+export default function AdminLocksPage() {
+    const { attempts, error } = useLoaderData() as Awaited<ReturnType<typeof loader>>;
+    const actionData = useActionData<typeof action>();
+    const { t } = useTranslation();
+
+    return (
+        <AdminLayout title={t("admin.nav.lockouts")}>
+            {error && <p className="text-red-500">{t("admin.lockouts.loadError")}</p>}
+            {actionData?.error && <p className="mb-4 text-red-500" role="alert">{actionData.error}</p>}
+            <p className="mb-4 text-sm text-gray-600 dark:text-gray-300">
+                {t("admin.lockouts.intro")}
+            </p>
+
+            <div className="bg-white dark:bg-gray-800 shadow-md rounded-lg overflow-hidden">
+                <table className="min-w-full">
+                    <thead>
+                        <tr>
+                            <th className={thClasses}>{t("admin.lockouts.type")}</th>
+                            <th className={thClasses}>{t("admin.lockouts.key")}</th>
+                            <th className={thClasses}>{t("admin.lockouts.failures")}</th>
+                            <th className={thClasses}>{t("admin.lockouts.lastFailure")}</th>
+                            <th className={thClasses}>{t("admin.lockouts.lockedUntil")}</th>
+                            <th className={thClasses}></th>
+                        </tr>
+                    </thead>
+                    <tbody className="text-gray-900 dark:text-white">
+                        {attempts.length === 0 && (
+                            <tr>
+                                <td colSpan={6} className={`${tdClasses} text-center text-gray-500 dark:text-gray-400`}>
+                                    {t("admin.lockouts.empty")}
+                                </td>
+                            </tr>
+                        )}
+                        {attempts.map((attempt) => (
+                            <tr key={`${attempt.ds_tipo}:${attempt.ds_chave}`}>
+                                <td className={tdClasses}>{attempt.ds_tipo === "ip" ? t("admin.lockouts.type.ip") : t("admin.lockouts.type.matricula")}</td>
+                                <td className={`${tdClasses} font-mono`}>{attempt.ds_chave}</td>
+                                <td className={tdClasses}>{attempt.nr_falhas}</td>
+                                <td className={`${tdClasses} whitespace-nowrap`}>{attempt.dt_ultima_falha}</td>
+                                <td className={`${tdClasses} whitespace-nowrap`}>
+                                    {attempt.bloqueado ? (
+                                        <span className="font-semibold text-red-600 dark:text-red-400">{attempt.dt_bloqueio_ate}</span>
+                                    ) : (
+                                        <span className="text-gray-500">—</span>
+                                    )}
+                                </td>
+                                <td className={`${tdClasses} text-right`}>
+                                    <Form method="post" onSubmit={(e) => !confirm(t("admin.lockouts.clearConfirm")) && e.preventDefault()}>
+                                        <CsrfInput />
+                                        <input type="hidden" name="_action" value="clear" />
+                                        <input type="hidden" name="ds_tipo" value={attempt.ds_tipo} />
+                                        <input type="hidden" name="ds_chave" value={attempt.ds_chave} />
+                                        <button type="submit" className="text-blue-500 hover:text-blue-700 dark:text-blue-400">
+                                            {attempt.bloqueado ? t("admin.lockouts.unlock") : t("admin.lockouts.reset")}
+                                        </button>
+                                    </Form>
+                                </td>
+                            </tr>
+                        ))}
+                    </tbody>
+                </table>
+            </div>
+        </AdminLayout>
+    );
+}
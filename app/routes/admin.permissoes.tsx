@@ -0,0 +1,299 @@
+// File: app/routes/admin.permissoes.tsx
+import { useMemo, useState } from "react";
+import { Form, useActionData, useLoaderData, useNavigation } from "react-router";
+import type { ActionFunctionArgs, LoaderFunctionArgs, MetaFunction } from "react-router";
+import { requirePermission } from "~/auth.server";
+import { validateCsrf } from "~/csrf.server";
+import { recordAudit } from "~/audit.server";
+import { CsrfInput } from "~/components/csrf-input";
+import { AdminLayout } from "~/components/admin-layout";
+import { getTranslator } from "~/i18n.server";
+import { metaTranslator, useTranslation } from "~/i18n";
+import { ModuloRepo, PerfilRepo, PermissaoRepo, type Permissao } from "~/repositories.server";
+import { logError } from "~/request-context.server";
+
+type PermissionsActionData = { ok?: boolean; added?: number; removed?: number; error?: string } | undefined;
+
+// Cada célula da matriz é identificada por "idPerfil:idModulo".
+const cellKey = (id_perfil: number, id_modulo: number) => `${id_perfil}:${id_modulo}`;
+const parseCellKey = (key: string): Permissao => {
+    const [id_perfil, id_modulo] = key.split(":").map(Number);
+    return { id_perfil, id_modulo };
+};
+// Estado da matriz como texto, para detectar alterações feitas entre o carregamento e o envio.
+const snapshotOf = (keys: Iterable<string>) => [...keys].sort().join(",");
+
+export const meta: MetaFunction = ({ matches }) => [{ title: metaTranslator(matches).t("admin.permissions.meta.title") }];
+
+export async function loader({ request, context }: LoaderFunctionArgs) {
+    const db = context.cloudflare.env.DB_APP;
+    await requirePermission(request, db, "admin");
+
+    try {
+        const [profiles, modules, permissions] = await Promise.all([
+            PerfilRepo.list(db),
+            ModuloRepo.list(db),
+            PermissaoRepo.list(db),
+        ]);
+        return { profiles, modules, permissions };
+    } catch (error) {
+        logError("Falha ao carregar permissões", error);
+        return { profiles: [], modules: [], permissions: [], error: true };
+    }
+}
+
+export async function action({ request, context }: ActionFunctionArgs): Promise<PermissionsActionData> {
+    const db = context.cloudflare.env.DB_APP;
+    const user = await requirePermission(request, db, "admin");
+
+    const formData = await request.formData();
+    await validateCsrf(request, db, formData);
+    const { t } = await getTranslator(request, db);
+    if (formData.get("_action") !== "save") {
+        return { error: t("admin.permissions.error.invalidAction") };
+    }
+
+    try {
+        const [profiles, modules, permissions] = await Promise.all([
+            PerfilRepo.list(db),
+            ModuloRepo.list(db),
+            PermissaoRepo.list(db),
+        ]);
+        const profileIds = new Set(profiles.map((p) => p.idtb_perfil));
+        const moduleIds = new Set(modules.map((m) => m.id_modulo));
+        const current = new Set(permissions.map((p) => cellKey(p.id_perfil, p.id_modulo)));
+
+        // O formulário envia a matriz carregada pela página junto com as concessões e revogações
+        // revisadas. Se o banco mudou desde então (outro administrador salvou), nada é gravado:
+        // o que vale é exatamente a prévia confirmada.
+        if (String(formData.get("snapshot") ?? "") !== snapshotOf(current)) {
+            return { error: t("admin.permissions.error.stale") };
+        }
+        const parseList = (name: string) => {
+            const keys = new Set<string>();
+            for (const value of formData.getAll(name)) {
+                const [id_perfil, id_modulo] = String(value).split(":").map(Number);
+                if (!profileIds.has(id_perfil) || !moduleIds.has(id_modulo)) return null;
+                keys.add(cellKey(id_perfil, id_modulo));
+            }
+            return [...keys];
+        };
+        const toAdd = parseList("grant");
+        const toRemove = parseList("revoke");
+        if (!toAdd || !toRemove || toAdd.some((key) => current.has(key)) || toRemove.some((key) => !current.has(key))) {
+            return { error: t("admin.permissions.error.invalidChanges") };
+        }
+        if (toAdd.length === 0 && toRemove.length === 0) {
+            return { ok: true, added: 0, removed: 0 };
+        }
+
+        const desired = new Set([...current, ...toAdd].filter((key) => !toRemove.includes(key)));
+        const changes = { grant: toAdd.map(parseCellKey), revoke: toRemove.map(parseCellKey) };
+        const adminModule = await PermissaoRepo.findAdminLockout(db, changes);
+        if (adminModule) {
+            return { error: t("admin.permissions.error.lastAdmin", { module: adminModule.ds_modulo }) };
+        }
+
+        await PermissaoRepo.apply(db, changes);
+        await recordAudit(db, request, {
+            actor: user,
+            action: "permissao.alterar",
+            table: "tb_permissao",
+            before: [...current].sort(),
+            after: [...desired].sort(),
+        });
+        return { ok: true, added: toAdd.length, removed: toRemove.length };
+    } catch (e) {
+        logError("Falha ao salvar permissões", e);
+        return { error: t("admin.permissions.error.saveFailed") };
+    }
+}
+
+const thClasses = "px-4 py-3 border-b-2 border-gray-200 dark:border-gray-700 bg-gray-100 dark:bg-gray-900 text-xs font-semibold text-gray-600 dark:text-gray-300 uppercase";
+const tdClasses = "px-4 py-3 border-b border-gray-200 dark:border-gray-700 text-sm";
+
+export default function AdminPermissionsPage() {
+    const { profiles, modules, permissions, error } = useLoaderData() as Awaited<ReturnType<typeof loader>>;
+    const actionData = useActionData<typeof action>();
+    const navigation = useNavigation();
+    const isSubmitting = navigation.state === "submitting";
+    const { t } = useTranslation();
+
+    const saved = useMemo(
+        () => new Set(permissions.map((p) => cellKey(p.id_perfil, p.id_modulo))),
+        [permissions]
+    );
+    const [pending, setPending] = useState<Set<string>>(saved);
+    const [handledAction, setHandledAction] = useState(actionData);
+    const [isPreviewVisible, setIsPreviewVisible] = useState(false);
+
+    // Depois de salvar, o loader revalida e a matriz volta a refletir o banco. Se a gravação
+    // falhar, as alterações ainda não salvas continuam na matriz para serem corrigidas.
+    if (handledAction !== actionData) {
+        setHandledAction(actionData);
+        if (actionData?.ok) {
+            setPending(saved);
+            setIsPreviewVisible(false);
+        }
+    }
+
+    const profileName = new Map(profiles.map((p) => [p.idtb_perfil, p.ds_perfil]));
+    const moduleName = new Map(modules.map((m) => [m.id_modulo, m.ds_modulo]));
+    const describe = (key: string) => {
+        const [id_perfil, id_modulo] = key.split(":").map(Number);
+        return `${profileName.get(id_perfil)} → ${moduleName.get(id_modulo)}`;
+    };
+
+    const added = [...pending].filter((key) => !saved.has(key));
+    const removed = [...saved].filter((key) => !pending.has(key));
+    const hasChanges = added.length > 0 || removed.length > 0;
+
+    const toggle = (key: string) => {
+        const next = new Set(pending);
+        if (next.has(key)) next.delete(key);
+        else next.add(key);
+        setPending(next);
+    };
+
+    const copyFrom = (targetId: number, sourceId: number) => {
+        const next = new Set(pending);
+        for (const mod of modules) {
+            const target = cellKey(targetId, mod.id_modulo);
+            if (pending.has(cellKey(sourceId, mod.id_modulo))) next.add(target);
+            else next.delete(target);
+        }
+        setPending(next);
+    };
+
+    return (
+        <AdminLayout title={t("admin.permissions.title")}>
+            {error && <p className="text-red-500">{t("admin.permissions.loadError")}</p>}
+            {actionData?.error && <p className="mb-4 text-red-500" role="alert">{actionData.error}</p>}
+            {actionData?.ok && !hasChanges && (
+                <p className="mb-4 text-green-600 dark:text-green-400">
+                    {t("admin.permissions.saved", { added: actionData.added ?? 0, removed: actionData.removed ?? 0 })}
+                </p>
+            )}
+
+            <div className="bg-white dark:bg-gray-800 shadow-md rounded-lg overflow-x-auto">
+                <table className="min-w-full">
+                    <thead>
+                        <tr>
+                            <th className={`${thClasses} text-left`}>{t("admin.permissions.profile")}</th>
+                            {modules.map((mod) => (
+                                <th key={mod.id_modulo} className={`${thClasses} text-center`}>
+                                    {mod.ds_modulo}
+                                    <span className="block font-normal normal-case text-gray-400">{mod.tipo_modulo}</span>
+                                </th>
+                            ))}
+                            <th className={`${thClasses} text-left`}>{t("admin.permissions.copyFrom")}</th>
+                        </tr>
+                    </thead>
+                    <tbody className="text-gray-900 dark:text-white">
+                        {profiles.map((profile) => (
+                            <tr key={profile.idtb_perfil}>
+                                <td className={`${tdClasses} font-semibold`}>{profile.ds_perfil}</td>
+                                {modules.map((mod) => {
+                                    const key = cellKey(profile.idtb_perfil, mod.id_modulo);
+                                    const changed = pending.has(key) !== saved.has(key);
+                                    return (
+                                        <td key={key} className={`${tdClasses} text-center ${changed ? "bg-yellow-100 dark:bg-yellow-900/30" : ""}`}>
+                                            <input
+                                                type="checkbox"
+                                                aria-label={describe(key)}
+                                                checked={pending.has(key)}
+                                                onChange={() => toggle(key)}
+                                            />
+                                        </td>
+                                    );
+                                })}
+                                <td className={tdClasses}>
+                                    <select
+                                        value=""
+                                        onChange={(e) => e.target.value && copyFrom(profile.idtb_perfil, Number(e.target.value))}
+                                        className="px-2 py-1 text-gray-900 bg-gray-100 border border-gray-300 rounded-md dark:bg-gray-700 dark:text-white dark:border-gray-600"
+                                    >
+                                        <option value="">{t("admin.permissions.select")}</option>
+                                        {profiles
+                                            .filter((source) => source.idtb_perfil !== profile.idtb_perfil)
+                                            .map((source) => (
+                                                <option key={source.idtb_perfil} value={source.idtb_perfil}>{source.ds_perfil}</option>
+                                            ))}
+                                    </select>
+                                </td>
+                            </tr>
+                        ))}
+                    </tbody>
+                </table>
+            </div>
+
+            <div className="flex justify-end mt-4 space-x-2">
+                <button
+                    type="button"
+                    disabled={!hasChanges}
+                    onClick={() => setPending(saved)}
+                    className="px-4 py-2 font-medium text-gray-800 dark:text-gray-200 bg-gray-200 dark:bg-gray-600 rounded-md hover:bg-gray-300 disabled:opacity-50"
+                >
+                    {t("admin.permissions.discard")}
+                </button>
+                <button
+                    type="button"
+                    disabled={!hasChanges}
+                    onClick={() => setIsPreviewVisible(true)}
+                    className="px-4 py-2 font-medium text-white bg-blue-600 rounded-md hover:bg-blue-700 disabled:opacity-50"
+                >
+                    {t("admin.permissions.review")}
+                </button>
+            </div>
+
+            {isPreviewVisible && (
+                <div className="fixed inset-0 bg-black bg-opacity-50 z-50 flex justify-center items-center p-4">
+                    <div className="bg-white dark:bg-gray-800 rounded-lg shadow-xl w-full max-w-lg max-h-[80vh] flex flex-col text-gray-900 dark:text-white">
+                        <div className="p-4 border-b dark:border-gray-700">
+                            <h3 className="text-lg font-semibold">{t("admin.permissions.confirmTitle")}</h3>
+                        </div>
+                        <div className="p-4 overflow-y-auto space-y-4 text-sm">
+                            {added.length > 0 && (
+                                <div>
+                                    <p className="font-semibold text-green-600 dark:text-green-400">{t("admin.permissions.granted", { count: added.length })}</p>
+                                    <ul className="list-disc pl-5">
+                                        {added.map((key) => <li key={key}>{describe(key)}</li>)}
+                                    </ul>
+                                </div>
+                            )}
+                            {removed.length > 0 && (
+                                <div>
+                                    <p className="font-semibold text-red-600 dark:text-red-400">{t("admin.permissions.revoked", { count: removed.length })}</p>
+                                    <ul className="list-disc pl-5">
+                                        {removed.map((key) => <li key={key}>{describe(key)}</li>)}
+                                    </ul>
+                                </div>
+                            )}
+                        </div>
+                        <Form method="post" className="flex justify-end p-4 border-t dark:border-gray-700 space-x-2">
+                            <CsrfInput />
+                            <input type="hidden" name="_action" value="save" />
+                            <input type="hidden" name="snapshot" value={snapshotOf(saved)} />
+                            {added.map((key) => (
+                                <input key={key} type="hidden" name="grant" value={key} />
+                            ))}
+                            {removed.map((key) => (
+                                <input key={key} type="hidden" name="revoke" value={key} />
+                            ))}
+                            <button
+                                type="button"
+                                onClick={() => setIsPreviewVisible(false)}
+                                className="px-4 py-2 bg-gray-200 dark:bg-gray-600 text-gray-800 dark:text-gray-200 rounded-md hover:bg-gray-300 text-sm"
+                            >
+                                {t("common.back")}
+                            </button>
+                            <button type="submit" disabled={isSubmitting} className="px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 text-sm disabled:opacity-50">
+                                {isSubmitting ? t("common.saving") : t("admin.permissions.confirm")}
+                            </button>
+                        </Form>
+                    </div>
+                </div>
+            )}
+        </AdminLayout>
+    );
+}
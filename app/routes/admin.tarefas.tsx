@@ -0,0 +1,187 @@
+// File: app/routes/admin.tarefas.tsx
+import { Form, useActionData, useLoaderData, useNavigation } from "react-router";
+import type { ActionFunctionArgs, LoaderFunctionArgs, MetaFunction } from "react-router";
+import { requirePermission } from "~/auth.server";
+import { validateCsrf } from "~/csrf.server";
+import { recordAudit } from "~/audit.server";
+import { JOBS, findJob, lastJobRuns, listJobRuns, runJob, type JobStatus } from "~/jobs.server";
+import { logError } from "~/request-context.server";
+import { CsrfInput } from "~/components/csrf-input";
+import { AdminLayout } from "~/components/admin-layout";
+import { getTranslator } from "~/i18n.server";
+import { metaTranslator, useTranslation, type MessageKey } from "~/i18n";
+
+type JobsActionData = { ok?: string; error?: string } | undefined;
+
+export const meta: MetaFunction = ({ matches }) => [{ title: metaTranslator(matches).t("admin.jobs.meta.title") }];
+
+export async function loader({ request, context }: LoaderFunctionArgs) {
+    const db = context.cloudflare.env.DB_APP;
+    await requirePermission(request, db, "admin");
+
+    const jobs = JOBS.map(({ name, description, schedule }) => ({ name, description, schedule }));
+    try {
+        const [lastRuns, runs] = await Promise.all([lastJobRuns(db), listJobRuns(db)]);
+        return { jobs, lastRuns, runs };
+    } catch (error) {
+        logError("Falha ao carregar tarefas", error);
+        return { jobs, lastRuns: {} as Awaited<ReturnType<typeof lastJobRuns>>, runs: [], error: true };
+    }
+}
+
+export async function action({ request, context }: ActionFunctionArgs): Promise<JobsActionData> {
+    const db = context.cloudflare.env.DB_APP;
+    const user = await requirePermission(request, db, "admin");
+
+    const formData = await request.formData();
+    await validateCsrf(request, db, formData);
+    const { t } = await getTranslator(request, db);
+    const job = findJob(String(formData.get("ds_tarefa") ?? ""));
+    if (formData.get("_action") !== "run" || !job) {
+        return { error: t("admin.jobs.error.invalidAction") };
+    }
+
+    const result = await runJob(db, job, "manual", user.userId);
+    if (!result) {
+        return { error: t("admin.jobs.error.running", { job: job.name }) };
+    }
+    await recordAudit(db, request, {
+        actor: user,
+        action: "tarefa.executar",
+        table: "tb_execucao_tarefa",
+        recordId: result.runId,
+        after: { ds_tarefa: job.name, ds_situacao: result.status, nr_afetados: result.affected },
+    });
+    if (result.status === "falha") {
+        return { error: t("admin.jobs.error.failed", { job: job.name, error: result.error ?? "" }) };
+    }
+    return { ok: t("admin.jobs.completed", { job: job.name, count: result.affected ?? 0 }) };
+}
+
+const thClasses = "px-5 py-3 border-b-2 border-gray-200 dark:border-gray-700 bg-gray-100 dark:bg-gray-900 text-left text-xs font-semibold text-gray-600 dark:text-gray-300 uppercase";
+const tdClasses = "px-5 py-4 border-b border-gray-200 dark:border-gray-700 text-sm";
+
+const statusLabels: Record<JobStatus, { label: MessageKey; className: string }> = {
+    executando: { label: "admin.jobs.status.running", className: "text-yellow-600 dark:text-yellow-400" },
+    sucesso: { label: "admin.jobs.status.success", className: "text-green-600 dark:text-green-400" },
+    falha: { label: "admin.jobs.status.failure", className: "text-red-600 dark:text-red-400" },
+};
+
+function StatusBadge({ status }: { status: JobStatus }) {
+    const { t } = useTranslation();
+    const { label, className } = statusLabels[status] ?? statusLabels.falha;
+    return <span className={`font-semibold ${className}`}>{t(label)}</span>;
+}
+
+export default function AdminJobsPage() {
+    const { jobs, lastRuns, runs, error } = useLoaderData() as Awaited<ReturnType<typeof loader>>;
+    const actionData = useActionData<typeof action>();
+    const navigation = useNavigation();
+    const runningJob = navigation.state === "submitting" ? navigation.formData?.get("ds_tarefa") : null;
+    const { t } = useTranslation();
+
+    return (
+        <AdminLayout title={t("admin.nav.jobs")}>
+            {error && <p className="text-red-500">{t("admin.jobs.loadError")}</p>}
+            {actionData?.error && <p className="mb-4 text-red-500" role="alert">{actionData.error}</p>}
+            {actionData?.ok && <p className="mb-4 text-green-600 dark:text-green-400" role="status">{actionData.ok}</p>}
+            <p className="mb-4 text-sm text-gray-600 dark:text-gray-300">
+                {t("admin.jobs.intro")}
+            </p>
+
+            <div className="bg-white dark:bg-gray-800 shadow-md rounded-lg overflow-hidden mb-8">
+                <table className="min-w-full">
+                    <thead>
+                        <tr>
+                            <th className={thClasses}>{t("admin.jobs.job")}</th>
+                            <th className={thClasses}>{t("admin.jobs.schedule")}</th>
+                            <th className={thClasses}>{t("admin.jobs.lastRun")}</th>
+                            <th className={thClasses}></th>
+                        </tr>
+                    </thead>
+                    <tbody className="text-gray-900 dark:text-white">
+                        {jobs.map((job) => {
+                            const last = lastRuns[job.name];
+                            return (
+                                <tr key={job.name}>
+                                    <td className={tdClasses}>
+                                        <div className="font-mono">{job.name}</div>
+                                        <div className="text-gray-500 dark:text-gray-400">{t(job.description.key, job.description.params)}</div>
+                                    </td>
+                                    <td className={`${tdClasses} font-mono whitespace-nowrap`}>{job.schedule}</td>
+                                    <td className={`${tdClasses} whitespace-nowrap`}>
+                                        {last ? (
+                                            <>
+                                                <div>{last.dt_inicio}</div>
+                                                <StatusBadge status={last.ds_situacao} />
+                                            </>
+                                        ) : (
+                                            <span className="text-gray-500">{t("admin.jobs.neverRun")}</span>
+                                        )}
+                                    </td>
+                                    <td className={`${tdClasses} text-right`}>
+                                        <Form method="post" onSubmit={(e) => !confirm(t("admin.jobs.runConfirm", { job: job.name })) && e.preventDefault()}>
+                                            <CsrfInput />
+                                            <input type="hidden" name="_action" value="run" />
+                                            <input type="hidden" name="ds_tarefa" value={job.name} />
+                                            <button
+                                                type="submit"
+                                                disabled={runningJob === job.name}
+                                                className="text-blue-500 hover:text-blue-700 dark:text-blue-400 disabled:opacity-50"
+                                            >
+                                                {runningJob === job.name ? t("admin.jobs.running") : t("admin.jobs.run")}
+                                            </button>
+                                        </Form>
+                                    </td>
+                                </tr>
+                            );
+                        })}
+                    </tbody>
+                </table>
+            </div>
+
+            <h2 className="text-xl font-semibold mb-4 text-gray-800 dark:text-white">{t("admin.jobs.history")}</h2>
+            <div className="bg-white dark:bg-gray-800 shadow-md rounded-lg overflow-hidden">
+                <table className="min-w-full">
+                    <thead>
+                        <tr>
+                            <th className={thClasses}>{t("admin.jobs.start")}</th>
+                            <th className={thClasses}>{t("admin.jobs.end")}</th>
+                            <th className={thClasses}>{t("admin.jobs.job")}</th>
+                            <th className={thClasses}>{t("admin.jobs.origin")}</th>
+                            <th className={thClasses}>{t("admin.jobs.status")}</th>
+                            <th className={thClasses}>{t("admin.jobs.affected")}</th>
+                            <th className={thClasses}>{t("admin.jobs.details")}</th>
+                        </tr>
+                    </thead>
+                    <tbody className="text-gray-900 dark:text-white">
+                        {runs.length === 0 && (
+                            <tr>
+                                <td colSpan={7} className={`${tdClasses} text-center text-gray-500 dark:text-gray-400`}>
+                                    {t("admin.jobs.empty")}
+                                </td>
+                            </tr>
+                        )}
+                        {runs.map((run) => (
+                            <tr key={run.id_execucao}>
+                                <td className={`${tdClasses} whitespace-nowrap`}>{run.dt_inicio}</td>
+                                <td className={`${tdClasses} whitespace-nowrap`}>{run.dt_fim ?? "—"}</td>
+                                <td className={`${tdClasses} font-mono`}>{run.ds_tarefa}</td>
+                                <td className={tdClasses}>
+                                    {run.ds_origem === "manual"
+                                        ? run.ds_usuario ? t("admin.jobs.origin.manualBy", { user: run.ds_usuario }) : t("admin.jobs.origin.manual")
+                                        : t("admin.jobs.origin.scheduled")}
+                                </td>
+                                <td className={tdClasses}><StatusBadge status={run.ds_situacao} /></td>
+                                <td className={tdClasses}>{run.nr_afetados ?? "—"}</td>
+                                <td className={`${tdClasses} font-mono text-xs break-all`}>
+                                    {run.ds_erro ? <span className="text-red-600 dark:text-red-400">{run.ds_erro}</span> : run.js_detalhes ?? ""}
+                                </td>
+                            </tr>
+                        ))}
+                    </tbody>
+                </table>
+            </div>
+        </AdminLayout>
+    );
+}
@@ -1,145 +1,297 @@
 // File: app/routes/admin.tsx
-import { Form, useLoaderData, useNavigation, Link } from "react-router";
-import { redirect } from "@remix-run/cloudflare";
+import { useState } from "react";
+import { Form, useActionData, useLoaderData, useNavigation } from "react-router";
 import type { ActionFunctionArgs, LoaderFunctionArgs, MetaFunction } from "react-router";
-import { getSession } from "~/auth.server";
+import { requirePermission } from "~/auth.server";
+import { validateCsrf } from "~/csrf.server";
+import { recordAudit } from "~/audit.server";
+import { getTranslator } from "~/i18n.server";
+import { revokeProfileSessions } from "~/session.server";
+import { CsrfInput } from "~/components/csrf-input";
+import { AdminLayout } from "~/components/admin-layout";
+import { metaTranslator, useTranslation } from "~/i18n";
+import { PerfilRepo, UsuarioRepo, type PerfilComUso } from "~/repositories.server";
+import { logError } from "~/request-context.server";
 
-// ... (interface Profile e meta function permanecem as mesmas) ...
-interface Profile {
-    idtb_perfil: number;
-    ds_perfil: string;
-}
+type ProfilesActionData = { ok?: boolean; error?: string } | undefined;
 
-export const meta: MetaFunction = () => [{ title: "Admin - RENOVAAPP" }];
+export const meta: MetaFunction = ({ matches }) => [{ title: metaTranslator(matches).t("admin.meta.title") }];
 
 export async function loader({ request, context }: LoaderFunctionArgs) {
-    const session = await getSession(request.headers.get("Cookie"));
-    if (session.get("userProfile") !== "Administrador") {
-        // Instead of redirect, return an object with empty profiles and error
-        return { profiles: [], error: "Unauthorized" };
-    }
-
     const db = context.cloudflare.env.DB_APP;
-    const profilesStmt = db.prepare("SELECT idtb_perfil, ds_perfil FROM tb_perfil ORDER BY ds_perfil");
-    
+    await requirePermission(request, db, "admin");
+
     try {
-        const { results } = await profilesStmt.all();
-        const profiles = (results || []) as Profile[];
-        return { profiles };
+        const profiles = await PerfilRepo.listWithUsage(db);
+        return { profiles: profiles.map((profile) => ({ ...profile, protected: PerfilRepo.isProtected(profile) })) };
     } catch (error) {
-        console.error("Falha ao carregar dados de admin:", error);
-        return { profiles: [], error: "Falha ao carregar dados." };
+        logError("Falha ao carregar perfis", error);
+        return { profiles: [], error: true };
     }
 }
 
+function parseProfileId(value: FormDataEntryValue | null | undefined) {
+    const id = Number(value);
+    return Number.isInteger(id) && id > 0 ? id : null;
+}
+
 // Action to handle form submissions (Create, Update, Delete)
-export async function action({ request, context }: ActionFunctionArgs) {
-    const session = await getSession(request.headers.get("Cookie"));
-    if (session.get("userProfile") !== "Administrador") {
-        return new Response("Unauthorized", { status: 403 });
-    }
-    
+export async function action({ request, context }: ActionFunctionArgs): Promise<ProfilesActionData> {
+    const db = context.cloudflare.env.DB_APP;
+    const user = await requirePermission(request, db, "admin");
+
     const formData = await request.formData();
+    await validateCsrf(request, db, formData);
+    const { t } = await getTranslator(request, db);
     const { _action, ...values } = Object.fromEntries(formData);
-    const db = context.cloudflare.env.DB_APP;
+    const ds_perfil = String(values.ds_perfil ?? "").trim();
 
     try {
         if (_action === "create") {
-            const { ds_perfil } = values;
-            if (typeof ds_perfil === "string" && ds_perfil.trim()) {
-                await db.prepare("INSERT INTO tb_perfil (ds_perfil) VALUES (?)").bind(ds_perfil).run();
+            if (!ds_perfil) {
+                return { error: t("admin.profiles.error.nameRequired") };
+            }
+            if (await PerfilRepo.nameExists(db, ds_perfil)) {
+                return { error: t("admin.profiles.error.nameExists", { name: ds_perfil }) };
+            }
+            const idtb_perfil = await PerfilRepo.create(db, ds_perfil);
+            await recordAudit(db, request, {
+                actor: user,
+                action: "perfil.criar",
+                table: "tb_perfil",
+                recordId: idtb_perfil,
+                after: { idtb_perfil, ds_perfil },
+            });
+            return { ok: true };
+        }
+
+        const idtb_perfil = parseProfileId(values.idtb_perfil);
+        const before = idtb_perfil === null ? null : await PerfilRepo.findById(db, idtb_perfil);
+        if (idtb_perfil === null || !before) {
+            return { error: t("admin.profiles.error.notFound") };
+        }
+
+        if (_action === "update") {
+            if (PerfilRepo.isProtected(before)) {
+                return { error: t("admin.profiles.error.protected", { name: before.ds_perfil }) };
+            }
+            if (!ds_perfil) {
+                return { error: t("admin.profiles.error.nameRequired") };
             }
+            if (await PerfilRepo.nameExists(db, ds_perfil, idtb_perfil)) {
+                return { error: t("admin.profiles.error.nameExists", { name: ds_perfil }) };
+            }
+            await PerfilRepo.rename(db, idtb_perfil, ds_perfil);
+            await recordAudit(db, request, {
+                actor: user,
+                action: "perfil.editar",
+                table: "tb_perfil",
+                recordId: idtb_perfil,
+                before,
+                after: { ...before, ds_perfil },
+            });
         } else if (_action === "delete") {
-            const { idtb_perfil } = values;
-            await db.prepare("DELETE FROM tb_perfil WHERE idtb_perfil = ?").bind(idtb_perfil).run();
+            if (PerfilRepo.isProtected(before)) {
+                return { error: t("admin.profiles.error.protected", { name: before.ds_perfil }) };
+            }
+            // Usuários vinculados (inclusive excluídos, que podem ser restaurados) precisam
+            // de outro perfil; a transferência, a limpeza das permissões e a exclusão vão
+            // no mesmo batch.
+            const users = await UsuarioRepo.countByProfile(db, idtb_perfil);
+            let reassignTo: number | null = null;
+            if (users > 0) {
+                reassignTo = parseProfileId(values.reassign_to);
+                const target = reassignTo === null || reassignTo === idtb_perfil ? null : await PerfilRepo.findById(db, reassignTo);
+                if (!target) {
+                    return { error: t("admin.profiles.error.reassignRequired", { count: users }) };
+                }
+                // As sessões abertas carregam o perfil antigo.
+                await revokeProfileSessions(db, idtb_perfil);
+            }
+            await PerfilRepo.remove(db, idtb_perfil, reassignTo);
+            await recordAudit(db, request, {
+                actor: user,
+                action: "perfil.excluir",
+                table: "tb_perfil",
+                recordId: idtb_perfil,
+                before: { ...before, nr_usuarios: users },
+                after: reassignTo === null ? undefined : { usuarios_transferidos_para: reassignTo },
+            });
+        } else if (_action === "toggle-2fa") {
+            const st_2fa_obrigatorio = before.st_2fa_obrigatorio === 1 ? 0 : 1;
+            await PerfilRepo.setTwoFactorRequired(db, idtb_perfil, st_2fa_obrigatorio === 1);
+            // A exigência é aplicada no login (startSession); sessões já abertas do perfil são
+            // encerradas para que todos passem pelo cadastro ou pela verificação. A sessão de
+            // quem fez a alteração continua, mesmo que seja do próprio perfil.
+            if (st_2fa_obrigatorio === 1) {
+                await revokeProfileSessions(db, idtb_perfil, { exceptSessionId: user.sessionId });
+            }
+            await recordAudit(db, request, {
+                actor: user,
+                action: "perfil.2fa",
+                table: "tb_perfil",
+                recordId: idtb_perfil,
+                before,
+                after: { ...before, st_2fa_obrigatorio },
+            });
+        } else {
+            return { error: t("admin.profiles.error.saveFailed") };
         }
-    } catch(e) {
-        console.error("Admin action failed:", e);
+    } catch (e) {
+        logError("Falha na ação de perfis", e, { action: _action });
+        return { error: t("admin.profiles.error.saveFailed") };
     }
-    
+
     return { ok: true };
 }
 
+const inputClasses = "px-3 py-2 text-gray-900 bg-gray-100 border border-gray-300 rounded-md shadow-sm dark:bg-gray-700 dark:text-white dark:border-gray-600";
+const thClasses = "px-5 py-3 border-b-2 border-gray-200 dark:border-gray-700 bg-gray-100 dark:bg-gray-900 text-left text-xs font-semibold text-gray-600 dark:text-gray-300 uppercase";
+const tdClasses = "px-5 py-5 border-b border-gray-200 dark:border-gray-700 text-sm";
+
+type ProfileRow = PerfilComUso & { protected: boolean };
 
 export default function AdminPage() {
-    const { profiles, error } = useLoaderData() as { profiles: Profile[]; error?: string };
+    const { profiles, error } = useLoaderData() as { profiles: ProfileRow[]; error?: boolean };
+    const actionData = useActionData<typeof action>();
     const navigation = useNavigation();
     const isSubmitting = navigation.state === "submitting";
+    const { t } = useTranslation();
+    const [editingId, setEditingId] = useState<number | null>(null);
+    const [deletingId, setDeletingId] = useState<number | null>(null);
 
     return (
-        <div className="flex min-h-screen bg-gray-100 dark:bg-gray-900">
-            {/* Sidebar */}
-            <aside className="w-64 bg-white dark:bg-gray-800 shadow-md">
-                <div className="p-6">
-                    <h2 className="text-xl font-bold text-gray-800 dark:text-white">Admin</h2>
-                </div>
-                <nav>
-                    <Link to="/admin" className="block px-6 py-3 text-gray-700 dark:text-gray-200 bg-gray-200 dark:bg-gray-700 font-bold">
-                        Gerenciar Perfis
-                    </Link>
-                    {/* Placeholder for other admin modules */}
-                    <Link to="/" className="block mt-4 px-6 py-3 text-gray-600 dark:text-gray-300 hover:bg-gray-200 dark:hover:bg-gray-700">
-                        Voltar para o App
-                    </Link>
-                </nav>
-            </aside>
-            
-            {/* Main Content */}
-            <main className="flex-1 p-8">
-                <h1 className="text-3xl font-bold mb-6 text-gray-800 dark:text-white">Gerenciar Perfis</h1>
-                {error && <p className="text-red-500">{error}</p>}
-                
-                {/* Add New Profile Form */}
-                <div className="mb-8 p-6 bg-white dark:bg-gray-800 rounded-lg shadow">
-                     <h2 className="text-xl font-semibold mb-4 text-gray-900 dark:text-white">Adicionar Novo Perfil</h2>
-                    <Form method="post">
-                        <input type="hidden" name="_action" value="create" />
-                        <div className="flex items-center space-x-4">
-                            <input
-                                type="text"
-                                name="ds_perfil"
-                                placeholder="Nome do Perfil"
-                                required
-                                className="flex-grow px-3 py-2 text-gray-900 bg-gray-100 border border-gray-300 rounded-md shadow-sm dark:bg-gray-700 dark:text-white dark:border-gray-600"
-                            />
-                            <button type="submit" disabled={isSubmitting} className="px-4 py-2 font-medium text-white bg-blue-600 rounded-md hover:bg-blue-700 disabled:opacity-50">
-                                {isSubmitting ? 'Salvando...' : 'Salvar'}
-                            </button>
-                        </div>
-                    </Form>
-                </div>
-
-                {/* Profiles Table */}
-                <div className="bg-white dark:bg-gray-800 shadow-md rounded-lg overflow-hidden">
-                    <table className="min-w-full">
-                        <thead>
-                            <tr>
-                                <th className="px-5 py-3 border-b-2 border-gray-200 dark:border-gray-700 bg-gray-100 dark:bg-gray-900 text-left text-xs font-semibold text-gray-600 dark:text-gray-300 uppercase">ID</th>
-                                <th className="px-5 py-3 border-b-2 border-gray-200 dark:border-gray-700 bg-gray-100 dark:bg-gray-900 text-left text-xs font-semibold text-gray-600 dark:text-gray-300 uppercase">Nome do Perfil</th>
-                                <th className="px-5 py-3 border-b-2 border-gray-200 dark:border-gray-700 bg-gray-100 dark:bg-gray-900"></th>
+        <AdminLayout title={t("admin.nav.profiles")}>
+            {error && <p className="text-red-500">{t("admin.profiles.loadError")}</p>}
+            {actionData?.error && <p className="mb-4 text-red-500" role="alert">{actionData.error}</p>}
+
+            {/* Add New Profile Form */}
+            <div className="mb-8 p-6 bg-white dark:bg-gray-800 rounded-lg shadow">
+                 <h2 className="text-xl font-semibold mb-4 text-gray-900 dark:text-white">{t("admin.profiles.new")}</h2>
+                <Form method="post">
+                    <CsrfInput />
+                    <input type="hidden" name="_action" value="create" />
+                    <div className="flex items-center space-x-4">
+                        <input
+                            type="text"
+                            name="ds_perfil"
+                            placeholder={t("admin.profiles.name")}
+                            required
+                            className={`flex-grow ${inputClasses}`}
+                        />
+                        <button type="submit" disabled={isSubmitting} className="px-4 py-2 font-medium text-white bg-blue-600 rounded-md hover:bg-blue-700 disabled:opacity-50">
+                            {isSubmitting ? t("common.saving") : t("common.save")}
+                        </button>
+                    </div>
+                </Form>
+            </div>
+
+            {/* Profiles Table */}
+            <p className="mb-2 text-sm text-gray-600 dark:text-gray-300">{t("admin.profiles.count", { count: profiles.length })}</p>
+            <div className="bg-white dark:bg-gray-800 shadow-md rounded-lg overflow-hidden">
+                <table className="min-w-full">
+                    <thead>
+                        <tr>
+                            <th className={thClasses}>{t("admin.profiles.id")}</th>
+                            <th className={thClasses}>{t("admin.profiles.name")}</th>
+                            <th className={thClasses}>{t("admin.profiles.usage")}</th>
+                            <th className={thClasses}>{t("admin.profiles.twoFactor")}</th>
+                            <th className="px-5 py-3 border-b-2 border-gray-200 dark:border-gray-700 bg-gray-100 dark:bg-gray-900"></th>
+                        </tr>
+                    </thead>
+                    <tbody className="text-gray-900 dark:text-white">
+                        {profiles.map((profile) => (
+                            <tr key={profile.idtb_perfil}>
+                                <td className={tdClasses}>{profile.idtb_perfil}</td>
+                                <td className={tdClasses}>
+                                    {editingId === profile.idtb_perfil ? (
+                                        <Form method="post" onSubmit={() => setEditingId(null)} className="flex items-center space-x-2">
+                                            <CsrfInput />
+                                            <input type="hidden" name="_action" value="update" />
+                                            <input type="hidden" name="idtb_perfil" value={profile.idtb_perfil} />
+                                            <input type="text" name="ds_perfil" defaultValue={profile.ds_perfil} required autoFocus className={inputClasses} />
+                                            <button type="submit" disabled={isSubmitting} className="text-blue-600 hover:underline dark:text-blue-400 disabled:opacity-50">{t("common.save")}</button>
+                                            <button type="button" onClick={() => setEditingId(null)} className="text-gray-600 hover:underline dark:text-gray-300">{t("common.cancel")}</button>
+                                        </Form>
+                                    ) : (
+                                        <>
+                                            {profile.ds_perfil}
+                                            {profile.protected && (
+                                                <span className="ml-2 px-2 py-0.5 text-xs rounded text-gray-700 bg-gray-200 dark:bg-gray-700 dark:text-gray-300">{t("admin.profiles.protected")}</span>
+                                            )}
+                                        </>
+                                    )}
+                                </td>
+                                <td className={`${tdClasses} text-gray-600 dark:text-gray-300`}>
+                                    {t("admin.profiles.usersCount", { count: profile.nr_usuarios })}
+                                    {" · "}
+                                    {t("admin.profiles.permissionsCount", { count: profile.nr_permissoes })}
+                                </td>
+                                <td className={tdClasses}>
+                                    <Form
+                                        method="post"
+                                        className="flex items-center gap-3"
+                                        onSubmit={(e) => profile.st_2fa_obrigatorio !== 1 && !confirm(t("admin.profiles.twoFactorConfirm")) && e.preventDefault()}
+                                    >
+                                        <CsrfInput />
+                                        <input type="hidden" name="_action" value="toggle-2fa" />
+                                        <input type="hidden" name="idtb_perfil" value={profile.idtb_perfil} />
+                                        <span>{profile.st_2fa_obrigatorio === 1 ? t("common.yes") : t("common.no")}</span>
+                                        <button type="submit" disabled={isSubmitting} className="text-blue-600 hover:underline dark:text-blue-400 disabled:opacity-50">
+                                            {profile.st_2fa_obrigatorio === 1 ? t("admin.profiles.twoFactorRelease") : t("admin.profiles.twoFactorRequire")}
+                                        </button>
+                                    </Form>
+                                </td>
+                                <td className={`${tdClasses} text-right`}>
+                                    {!profile.protected && (
+                                        deletingId === profile.idtb_perfil ? (
+                                            <Form method="post" onSubmit={() => setDeletingId(null)} className="flex flex-col items-end gap-2">
+                                                <CsrfInput />
+                                                <input type="hidden" name="_action" value="delete" />
+                                                <input type="hidden" name="idtb_perfil" value={profile.idtb_perfil} />
+                                                <label className="flex items-center gap-2">
+                                                    <span>{t("admin.profiles.reassignTo", { count: profile.nr_usuarios })}</span>
+                                                    <select name="reassign_to" required defaultValue="" className={inputClasses}>
+                                                        <option value="" disabled>{t("admin.profiles.reassignPlaceholder")}</option>
+                                                        {profiles.filter((other) => other.idtb_perfil !== profile.idtb_perfil).map((other) => (
+                                                            <option key={other.idtb_perfil} value={other.idtb_perfil}>{other.ds_perfil}</option>
+                                                        ))}
+                                                    </select>
+                                                </label>
+                                                <p className="text-xs text-gray-500 dark:text-gray-400">{t("admin.profiles.deleteHint")}</p>
+                                                <div className="space-x-4">
+                                                    <button type="button" onClick={() => setDeletingId(null)} className="text-gray-600 hover:underline dark:text-gray-300">{t("common.cancel")}</button>
+                                                    <button type="submit" disabled={isSubmitting} className="text-red-500 hover:text-red-700 dark:text-red-400 dark:hover:text-red-300 disabled:opacity-50">{t("common.delete")}</button>
+                                                </div>
+                                            </Form>
+                                        ) : (
+                                            <div className="flex justify-end space-x-4">
+                                                <button type="button" onClick={() => setEditingId(profile.idtb_perfil)} className="text-blue-500 hover:text-blue-700 dark:text-blue-400">
+                                                    {t("admin.profiles.edit")}
+                                                </button>
+                                                {profile.nr_usuarios > 0 ? (
+                                                    <button type="button" onClick={() => setDeletingId(profile.idtb_perfil)} className="text-red-500 hover:text-red-700 dark:text-red-400 dark:hover:text-red-300">
+                                                        {t("common.delete")}
+                                                    </button>
+                                                ) : (
+                                                    <Form method="post" onSubmit={(e) => !confirm(`${t("admin.profiles.confirmDelete")} ${t("admin.profiles.deleteHint")}`) && e.preventDefault()}>
+                                                        <CsrfInput />
+                                                        <input type="hidden" name="_action" value="delete" />
+                                                        <input type="hidden" name="idtb_perfil" value={profile.idtb_perfil} />
+                                                        <button type="submit" className="text-red-500 hover:text-red-700 dark:text-red-400 dark:hover:text-red-300">
+                                                            {t("common.delete")}
+                                                        </button>
+                                                    </Form>
+                                                )}
+                                            </div>
+                                        )
+                                    )}
+                                </td>
                             </tr>
-                        </thead>
-                        <tbody className="text-gray-900 dark:text-white">
-                            {profiles.map((profile: Profile) => (
-                                <tr key={profile.idtb_perfil}>
-                                    <td className="px-5 py-5 border-b border-gray-200 dark:border-gray-700 text-sm">{profile.idtb_perfil}</td>
-                                    <td className="px-5 py-5 border-b border-gray-200 dark:border-gray-700 text-sm">{profile.ds_perfil}</td>
-                                    <td className="px-5 py-5 border-b border-gray-200 dark:border-gray-700 text-sm text-right">
-                                       <Form method="post" onSubmit={(e) => !confirm('Tem certeza que deseja excluir este perfil?') && e.preventDefault()}>
-                                           <input type="hidden" name="_action" value="delete" />
-                                           <input type="hidden" name="idtb_perfil" value={profile.idtb_perfil} />
-                                           <button type="submit" className="text-red-500 hover:text-red-700 dark:text-red-400 dark:hover:text-red-300">
-                                               Excluir
-                                           </button>
-                                       </Form>
-                                    </td>
-                                </tr>
-                            ))}
-                        </tbody>
-                    </table>
-                </div>
-            </main>
-        </div>
+                        ))}
+                    </tbody>
+                </table>
+            </div>
+        </AdminLayout>
     );
 }
-
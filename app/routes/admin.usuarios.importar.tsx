@@ -0,0 +1,377 @@
+// File: app/routes/admin.usuarios.importar.tsx
+// Importação de usuários em lote: upload da planilha, prévia (nada é gravado), gravação e
+// download das senhas iniciais geradas.
+import { Form, Link, useActionData, useLoaderData, useNavigation } from "react-router";
+import type { ActionFunctionArgs, LoaderFunctionArgs, MetaFunction } from "react-router";
+import { requirePermission } from "~/auth.server";
+import { validateCsrf } from "~/csrf.server";
+import { recordAudit } from "~/audit.server";
+import { CSV_BOM, csvRow, parseCsvRecords, type CsvRecord } from "~/csv";
+import type { RejectedRow } from "~/database-import.server";
+import {
+  executeUserImport,
+  findColumns,
+  planUserImport,
+  readSpreadsheet,
+  USER_IMPORT_MAX_BYTES,
+  USER_IMPORT_MAX_ROWS,
+  type UserImportReport,
+  type UserImportRow,
+} from "~/user-import.server";
+import { SpreadsheetError } from "~/xlsx.server";
+import { logError } from "~/request-context.server";
+import { CsrfInput } from "~/components/csrf-input";
+import { AdminLayout } from "~/components/admin-layout";
+import { getTranslator } from "~/i18n.server";
+import { metaTranslator, useTranslation } from "~/i18n";
+
+// Quantidade de linhas exibidas na prévia e no relatório.
+const PREVIEW_ROWS = 50;
+const REPORT_ROWS = 200;
+
+type UserImportActionData =
+  | { step: "error"; error: string }
+  | {
+      step: "preview";
+      fileName: string;
+      csv: string;
+      restoreDeleted: boolean;
+      restorable: number;
+      validCount: number;
+      restoreCount: number;
+      validPreview: UserImportRow[];
+      rejectedCount: number;
+      rejectedPreview: RejectedRow[];
+    }
+  | {
+      step: "report";
+      fileName: string;
+      createdCount: number;
+      restoredCount: number;
+      failed: UserImportReport["failed"];
+      skippedCount: number;
+      skippedPreview: RejectedRow[];
+      // Matrícula, nome, perfil e senha inicial de cada usuário gravado; não fica salvo no servidor.
+      credentialsCsv: string;
+    };
+
+export const meta: MetaFunction = ({ matches }) => [{ title: metaTranslator(matches).t("admin.users.import.meta.title") }];
+
+export async function loader({ request, context }: LoaderFunctionArgs) {
+  const db = context.cloudflare.env.DB_APP;
+  await requirePermission(request, db, "admin");
+  return { maxMegabytes: USER_IMPORT_MAX_BYTES / 1024 / 1024, maxRows: USER_IMPORT_MAX_ROWS };
+}
+
+export async function action({ request, context }: ActionFunctionArgs): Promise<UserImportActionData> {
+  const db = context.cloudflare.env.DB_APP;
+  const user = await requirePermission(request, db, "admin");
+  const formData = await request.formData();
+  await validateCsrf(request, db, formData);
+  const { t } = await getTranslator(request, db);
+  const _action = formData.get("_action");
+  const restoreDeleted = formData.get("restaurar") === "1";
+
+  // No upload as linhas vêm da planilha e seguem, como CSV, no campo oculto das etapas seguintes,
+  // com a linha de origem na primeira coluna para a numeração continuar a do arquivo enviado.
+  let rows: CsvRecord[];
+  let fileName: string;
+  if (_action === "upload") {
+    const file = formData.get("arquivo");
+    if (!(file instanceof File) || file.size === 0) {
+      return { step: "error", error: t("admin.users.import.error.noFile") };
+    }
+    if (file.size > USER_IMPORT_MAX_BYTES) {
+      return { step: "error", error: t("admin.users.import.error.tooLarge", { megabytes: USER_IMPORT_MAX_BYTES / 1024 / 1024 }) };
+    }
+    try {
+      rows = await readSpreadsheet(file);
+    } catch (e) {
+      logError("Falha ao ler planilha de usuários", e, { fileName: file.name });
+      return { step: "error", error: t(e instanceof SpreadsheetError ? e.key : "admin.users.import.error.unreadable") };
+    }
+    fileName = file.name;
+  } else {
+    rows = parseCsvRecords(String(formData.get("csv") ?? ""), ",").map(({ fields: [line, ...fields] }) => ({ line: Number(line), fields }));
+    fileName = String(formData.get("fileName") ?? "");
+  }
+
+  const [header, ...records] = rows;
+  const headers = header?.fields ?? [];
+  if (headers.length === 0) {
+    return { step: "error", error: t("admin.users.import.error.empty") };
+  }
+  if (records.length > USER_IMPORT_MAX_ROWS) {
+    return { step: "error", error: t("admin.users.import.error.tooManyRows", { count: records.length, max: USER_IMPORT_MAX_ROWS }) };
+  }
+  const { columns, missing } = findColumns(headers);
+  if (missing.length > 0) {
+    return { step: "error", error: t("admin.users.import.error.missingColumns", { columns: missing.join(", ") }) };
+  }
+
+  const plan = await planUserImport(db, records, columns, { restoreDeleted, t });
+
+  if (_action === "import") {
+    if (plan.valid.length === 0) {
+      return { step: "error", error: t("admin.users.import.error.noValid") };
+    }
+    const report = await executeUserImport(db, plan, t);
+    await recordAudit(db, request, {
+      actor: user,
+      action: "usuario.importar",
+      table: "tb_usuario",
+      after: {
+        arquivo: fileName,
+        criados: report.created.map((row) => row.matricula),
+        restaurados: report.restored.map((row) => row.matricula),
+        ignoradas: plan.rejected.length,
+        falhas: report.failed.length,
+      },
+    });
+    const credentials = [...report.created, ...report.restored].sort((a, b) => a.line - b.line);
+    return {
+      step: "report",
+      fileName,
+      createdCount: report.created.length,
+      restoredCount: report.restored.length,
+      failed: report.failed,
+      skippedCount: plan.rejected.length,
+      skippedPreview: plan.rejected.slice(0, REPORT_ROWS),
+      credentialsCsv:
+        csvRow(["matricula", "nome", "perfil", "senha_inicial", "situacao"]) +
+        credentials.map((row) => csvRow([row.matricula, row.nome_usuario, row.ds_perfil, row.senha, t(row.restored ? "admin.users.import.credentials.restored" : "admin.users.import.credentials.created")])).join(""),
+    };
+  }
+
+  return {
+    step: "preview",
+    fileName,
+    csv: rows.map((row) => csvRow([String(row.line), ...row.fields], { escapeFormulas: false })).join(""),
+    restoreDeleted,
+    restorable: plan.restorable,
+    validCount: plan.valid.length,
+    restoreCount: plan.valid.filter((row) => row.restoreId !== null).length,
+    validPreview: plan.valid.slice(0, PREVIEW_ROWS),
+    rejectedCount: plan.rejected.length,
+    rejectedPreview: plan.rejected.slice(0, REPORT_ROWS),
+  };
+}
+
+const thClasses = "px-4 py-2 border-b-2 border-gray-200 dark:border-gray-700 bg-gray-100 dark:bg-gray-900 text-left text-xs font-semibold text-gray-600 dark:text-gray-300 uppercase tracking-wider";
+const tdClasses = "px-4 py-2 border-b border-gray-200 dark:border-gray-600 text-sm";
+const panelClasses = "bg-white dark:bg-gray-800 shadow-md rounded-lg overflow-hidden";
+
+export default function AdminUserImportPage() {
+  const { maxMegabytes, maxRows } = useLoaderData() as Awaited<ReturnType<typeof loader>>;
+  const actionData = useActionData<typeof action>();
+  const navigation = useNavigation();
+  const isSubmitting = navigation.state === "submitting";
+  const { t } = useTranslation();
+
+  return (
+    <AdminLayout title={t("admin.users.import.title")}>
+      <div className="space-y-8 text-gray-800 dark:text-gray-100">
+        <Form method="post" encType="multipart/form-data" className={`${panelClasses} p-4 flex flex-wrap items-end gap-4`}>
+          <CsrfInput />
+          <input type="hidden" name="_action" value="upload" />
+          <label className="text-sm font-medium">
+            {t("admin.users.import.file")}
+            <input
+              type="file"
+              name="arquivo"
+              accept=".csv,.xlsx,text/csv,application/vnd.openxmlformats-officedocument.spreadsheetml.sheet"
+              required
+              className="block mt-1 text-sm"
+            />
+          </label>
+          <button type="submit" disabled={isSubmitting} className="px-4 py-2 bg-blue-600 text-white text-sm font-medium rounded-md hover:bg-blue-700 disabled:opacity-50">
+            {t("admin.users.import.upload")}
+          </button>
+          <Link to="/admin/usuarios" className="px-4 py-2 text-sm font-medium text-white bg-gray-600 rounded-md hover:bg-gray-700">
+            {t("common.back")}
+          </Link>
+          <p className="w-full text-xs text-gray-500 dark:text-gray-400">
+            {t("admin.users.import.hint", { megabytes: maxMegabytes, rows: maxRows })}
+          </p>
+        </Form>
+
+        {actionData?.step === "error" && (
+          <div className="border-l-4 p-4 rounded-md bg-red-100 border-red-500 text-red-700 dark:bg-red-900/30 dark:text-red-300 dark:border-red-700" role="alert">
+            {actionData.error}
+          </div>
+        )}
+        {actionData?.step === "preview" && <ImportPreview data={actionData} isSubmitting={isSubmitting} />}
+        {actionData?.step === "report" && <ImportReportView data={actionData} />}
+      </div>
+    </AdminLayout>
+  );
+}
+
+function ImportPreview({ data, isSubmitting }: { data: Extract<UserImportActionData, { step: "preview" }>; isSubmitting: boolean }) {
+  const { t } = useTranslation();
+  return (
+    <Form method="post" key={data.fileName + data.csv.length} className="space-y-8">
+      <CsrfInput />
+      <input type="hidden" name="fileName" value={data.fileName} />
+      <input type="hidden" name="csv" value={data.csv} />
+
+      <div className={`${panelClasses} p-4 space-y-4`}>
+        <p>
+          <span className="font-semibold">{data.fileName}</span>: {t("admin.users.import.preview.valid", { count: data.validCount })}
+          {data.restoreCount > 0 && ` ${t("admin.users.import.preview.restoring", { count: data.restoreCount })}`},{" "}
+          {t("admin.users.import.preview.rejected", { count: data.rejectedCount })}. {t("admin.users.import.preview.notSaved")}
+        </p>
+        {data.restorable > 0 && (
+          <label className="flex items-center gap-2 text-sm">
+            <input type="checkbox" name="restaurar" value="1" defaultChecked={data.restoreDeleted} />
+            <span>{t("admin.users.import.restoreDeleted", { count: data.restorable })}</span>
+          </label>
+        )}
+        <div className="flex justify-end gap-2">
+          <button type="submit" name="_action" value="preview" disabled={isSubmitting} className="px-4 py-2 text-sm font-medium bg-gray-200 rounded-md hover:bg-gray-300 dark:bg-gray-600 dark:hover:bg-gray-500 disabled:opacity-50">
+            {t("admin.users.import.refreshPreview")}
+          </button>
+          <button
+            type="submit"
+            name="_action"
+            value="import"
+            disabled={isSubmitting || data.validCount === 0}
+            onClick={(e) => !confirm(t("admin.users.import.confirm", { count: data.validCount })) && e.preventDefault()}
+            className="px-4 py-2 text-sm font-medium text-white bg-green-600 rounded-md hover:bg-green-700 disabled:opacity-50"
+          >
+            {isSubmitting ? t("admin.users.import.importing") : t("admin.users.import.submit", { count: data.validCount })}
+          </button>
+        </div>
+      </div>
+
+      <div className={panelClasses}>
+        <h3 className="text-lg font-semibold p-4 border-b dark:border-gray-700">
+          {t("admin.users.import.toSave")}{" "}
+          <span className="text-sm font-normal text-gray-500">
+            ({data.validCount}{data.validCount > data.validPreview.length && t("admin.users.import.showing", { count: data.validPreview.length })})
+          </span>
+        </h3>
+        {data.validPreview.length === 0 ? (
+          <p className="p-4 text-gray-500 dark:text-gray-400">{t("admin.users.import.noValid")}</p>
+        ) : (
+          <table className="min-w-full">
+            <thead>
+              <tr>
+                <th className={thClasses}>{t("admin.users.import.line")}</th>
+                <th className={thClasses}>{t("admin.users.matricula")}</th>
+                <th className={thClasses}>{t("admin.users.name")}</th>
+                <th className={thClasses}>{t("admin.users.profile")}</th>
+                <th className={thClasses}>{t("admin.users.import.action")}</th>
+              </tr>
+            </thead>
+            <tbody>
+              {data.validPreview.map((row) => (
+                <tr key={row.line}>
+                  <td className={tdClasses}>{row.line}</td>
+                  <td className={`${tdClasses} font-mono`}>{row.matricula}</td>
+                  <td className={tdClasses}>{row.nome_usuario}</td>
+                  <td className={tdClasses}>{row.ds_perfil}</td>
+                  <td className={tdClasses}>
+                    {row.restoreId === null ? t("admin.users.import.create") : <span className="text-yellow-600 dark:text-yellow-400">{t("admin.users.import.restore")}</span>}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </div>
+
+      <RejectedRows title={t("admin.users.import.rejected")} total={data.rejectedCount} rows={data.rejectedPreview} />
+    </Form>
+  );
+}
+
+function RejectedRows({ title, total, rows }: { title: string; total: number; rows: RejectedRow[] }) {
+  const { t } = useTranslation();
+  if (total === 0) return null;
+  return (
+    <div className={panelClasses}>
+      <h3 className="text-lg font-semibold p-4 border-b dark:border-gray-700 text-red-700 dark:text-red-400">
+        {title} <span className="text-sm font-normal text-gray-500">({total}{total > rows.length && t("admin.users.import.showing", { count: rows.length })})</span>
+      </h3>
+      <table className="min-w-full">
+        <thead>
+          <tr>
+            <th className={thClasses}>{t("admin.users.import.line")}</th>
+            <th className={thClasses}>{t("admin.users.import.reasons")}</th>
+            <th className={thClasses}>{t("admin.users.import.content")}</th>
+          </tr>
+        </thead>
+        <tbody>
+          {rows.map((row) => (
+            <tr key={row.line}>
+              <td className={tdClasses}>{row.line}</td>
+              <td className={tdClasses}>{row.reasons.join("; ")}</td>
+              <td className={`${tdClasses} font-mono text-xs break-all`}>{row.raw.join(" | ")}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+}
+
+function ImportReportView({ data }: { data: Extract<UserImportActionData, { step: "report" }> }) {
+  const { t } = useTranslation();
+  const saved = data.createdCount + data.restoredCount;
+  const downloadName = `credenciais-${data.fileName.replace(/\.[^.]*$/, "") || "importacao"}.csv`;
+  return (
+    <div className="space-y-8">
+      <div className="border-l-4 p-4 rounded-md bg-green-100 border-green-500 text-green-700 dark:bg-green-900/30 dark:text-green-300 dark:border-green-700" role="status">
+        <p className="font-bold">{t("admin.users.import.completed", { file: data.fileName })}</p>
+        <p>
+          {[
+            t("admin.users.import.report.created", { count: data.createdCount }),
+            t("admin.users.import.report.restored", { count: data.restoredCount }),
+            t("admin.users.import.report.skipped", { count: data.skippedCount }),
+            t("admin.users.import.report.failed", { count: data.failed.length }),
+          ].join(" · ")}
+        </p>
+      </div>
+      {saved > 0 && (
+        <div className="p-4 bg-yellow-100 border-l-4 border-yellow-500 text-yellow-800 rounded-md dark:bg-yellow-900/30 dark:text-yellow-200" role="alert">
+          <p className="font-bold">{t("admin.users.import.passwords.title")}</p>
+          <p className="text-sm mb-2">{t("admin.users.import.passwords.hint")}</p>
+          <a
+            href={`data:text/csv;charset=utf-8,${encodeURIComponent(CSV_BOM + data.credentialsCsv)}`}
+            download={downloadName}
+            className="inline-block px-4 py-2 text-sm font-medium text-white bg-blue-600 rounded-md hover:bg-blue-700"
+          >
+            {t("admin.users.import.passwords.download", { count: saved })}
+          </a>
+        </div>
+      )}
+      <RejectedRows title={t("admin.users.import.skipped")} total={data.skippedCount} rows={data.skippedPreview} />
+      {data.failed.length > 0 && (
+        <div className={panelClasses}>
+          <h3 className="text-lg font-semibold p-4 border-b dark:border-gray-700 text-red-700 dark:text-red-400">
+            {t("admin.users.import.failed")} <span className="text-sm font-normal text-gray-500">({data.failed.length})</span>
+          </h3>
+          <table className="min-w-full">
+            <thead>
+              <tr>
+                <th className={thClasses}>{t("admin.users.import.line")}</th>
+                <th className={thClasses}>{t("admin.users.matricula")}</th>
+                <th className={thClasses}>{t("admin.users.import.error")}</th>
+              </tr>
+            </thead>
+            <tbody>
+              {data.failed.map((failure) => (
+                <tr key={failure.line}>
+                  <td className={tdClasses}>{failure.line}</td>
+                  <td className={`${tdClasses} font-mono`}>{failure.matricula}</td>
+                  <td className={`${tdClasses} font-mono text-xs`}>{failure.reason}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,403 @@
+// File: app/routes/admin.usuarios.tsx
+import { useState } from "react";
+import { Form, Link, useActionData, useLoaderData, useNavigation, useSearchParams } from "react-router";
+import type { ActionFunctionArgs, LoaderFunctionArgs, MetaFunction } from "react-router";
+import { requirePermission } from "~/auth.server";
+import { validateCsrf } from "~/csrf.server";
+import { generateTemporaryPassword, hashPassword, validatePasswordPolicy } from "~/password.server";
+import { clearFailures } from "~/lockout.server";
+import { recordAudit } from "~/audit.server";
+import { revokeUserSessions } from "~/session.server";
+import { disableTwoFactor } from "~/totp.server";
+import { CsrfInput } from "~/components/csrf-input";
+import { AdminLayout } from "~/components/admin-layout";
+import { getTranslator } from "~/i18n.server";
+import { metaTranslator, useTranslation } from "~/i18n";
+import { PerfilRepo, UsuarioRepo, type UsuarioComPerfil } from "~/repositories.server";
+import { logError } from "~/request-context.server";
+
+type UsersActionData = { ok?: boolean; error?: string; temporaryPassword?: string; matricula?: string } | undefined;
+
+const PAGE_SIZE = 20;
+
+export const meta: MetaFunction = ({ matches }) => [{ title: metaTranslator(matches).t("admin.users.meta.title") }];
+
+export async function loader({ request, context }: LoaderFunctionArgs) {
+    const db = context.cloudflare.env.DB_APP;
+    await requirePermission(request, db, "admin");
+
+    const url = new URL(request.url);
+    const q = url.searchParams.get("q")?.trim() ?? "";
+    const showDeleted = url.searchParams.get("excluidos") === "1";
+    const page = Math.max(1, Number(url.searchParams.get("page")) || 1);
+
+    // Usuários excluídos (st_delete = 1) só aparecem quando pedidos, para poderem ser restaurados.
+    try {
+        const [{ total, rows }, profiles] = await Promise.all([
+            UsuarioRepo.list(db, { q, deleted: showDeleted }, PAGE_SIZE, (page - 1) * PAGE_SIZE),
+            PerfilRepo.list(db),
+        ]);
+        return { users: rows, profiles, total, page, pageSize: PAGE_SIZE };
+    } catch (error) {
+        logError("Falha ao carregar usuários", error);
+        return { users: [], profiles: [], total: 0, page, pageSize: PAGE_SIZE, error: true };
+    }
+}
+
+function parseProfileId(value: FormDataEntryValue | null) {
+    const id = Number(value);
+    return Number.isInteger(id) && id > 0 ? id : null;
+}
+
+export async function action({ request, context }: ActionFunctionArgs): Promise<UsersActionData> {
+    const db = context.cloudflare.env.DB_APP;
+    const user = await requirePermission(request, db, "admin");
+
+    const formData = await request.formData();
+    await validateCsrf(request, db, formData);
+    const { t } = await getTranslator(request, db);
+    const _action = formData.get("_action");
+    const idtb_usuario = Number(formData.get("idtb_usuario"));
+    // O repositório não devolve a senha, então o registro pode ir inteiro para a auditoria.
+    const selectForAudit = () => UsuarioRepo.findById(db, idtb_usuario, { includeDeleted: true });
+
+    try {
+        if (_action === "create") {
+            const matricula = String(formData.get("matricula") ?? "").trim();
+            const nome_usuario = String(formData.get("nome_usuario") ?? "").trim();
+            const senha = String(formData.get("senha") ?? "");
+            const perfil = parseProfileId(formData.get("tb_perfil_idtb_perfil"));
+            if (!matricula || !nome_usuario || !senha || !perfil) {
+                return { error: t("admin.users.error.createRequired") };
+            }
+            const policyErrors = validatePasswordPolicy(senha, { matricula });
+            if (policyErrors.length > 0) {
+                return { error: policyErrors.map(({ key, params }) => t(key, params)).join(" ") };
+            }
+            // A matrícula é única também entre usuários excluídos, que podem ser restaurados.
+            if (await UsuarioRepo.matriculaExists(db, matricula)) {
+                return { error: t("admin.users.error.matriculaExists", { matricula }) };
+            }
+            const id = await UsuarioRepo.create(db, {
+                matricula,
+                nome_usuario,
+                senhaHash: await hashPassword(senha),
+                tb_perfil_idtb_perfil: perfil,
+            });
+            await recordAudit(db, request, {
+                actor: user,
+                action: "usuario.criar",
+                table: "tb_usuario",
+                recordId: id,
+                after: await UsuarioRepo.findById(db, id),
+            });
+            return { ok: true };
+        }
+
+        if (_action === "reset-password") {
+            const target = await UsuarioRepo.findById(db, idtb_usuario);
+            if (!target) {
+                return { error: t("admin.users.error.notFound") };
+            }
+            // A senha temporária só é exibida uma vez, nesta resposta; o usuário é obrigado
+            // a trocá-la no próximo acesso (st_troca_senha).
+            const temporaryPassword = generateTemporaryPassword();
+            await UsuarioRepo.setPassword(db, idtb_usuario, await hashPassword(temporaryPassword), { mustChange: true });
+            await revokeUserSessions(db, idtb_usuario);
+            await clearFailures(db, target.matricula);
+            await recordAudit(db, request, {
+                actor: user,
+                action: "senha.redefinir",
+                table: "tb_usuario",
+                recordId: idtb_usuario,
+            });
+            return { ok: true, temporaryPassword, matricula: target.matricula };
+        }
+
+        if (_action === "reset-2fa") {
+            // Para quem perdeu o celular e os códigos de recuperação: remove o autenticador e,
+            // se o perfil exigir a verificação, o usuário cadastra outro no próximo login.
+            const target = await UsuarioRepo.findById(db, idtb_usuario);
+            if (!target) {
+                return { error: t("admin.users.error.notFound") };
+            }
+            await disableTwoFactor(db, idtb_usuario);
+            await revokeUserSessions(db, idtb_usuario);
+            await recordAudit(db, request, {
+                actor: user,
+                action: "2fa.redefinir",
+                table: "tb_usuario",
+                recordId: idtb_usuario,
+            });
+            return { ok: true };
+        }
+
+        let apply: () => Promise<void>;
+        let auditAction;
+        if (_action === "update") {
+            const nome_usuario = String(formData.get("nome_usuario") ?? "").trim();
+            const perfil = parseProfileId(formData.get("tb_perfil_idtb_perfil"));
+            if (!nome_usuario || !perfil) {
+                return { error: t("admin.users.error.updateRequired") };
+            }
+            apply = () => UsuarioRepo.update(db, idtb_usuario, { nome_usuario, tb_perfil_idtb_perfil: perfil });
+            auditAction = "usuario.editar";
+        } else if (_action === "toggle-status") {
+            apply = () => UsuarioRepo.toggleStatus(db, idtb_usuario);
+            auditAction = "usuario.situacao";
+        } else if (_action === "delete") {
+            apply = () => UsuarioRepo.softDelete(db, idtb_usuario);
+            auditAction = "usuario.excluir";
+        } else if (_action === "restore") {
+            apply = () => UsuarioRepo.restore(db, idtb_usuario);
+            auditAction = "usuario.restaurar";
+        } else {
+            return { error: t("admin.users.error.invalidAction") };
+        }
+
+        const before = await selectForAudit();
+        if (!before) {
+            return { error: t("admin.users.error.notFound") };
+        }
+        await apply();
+        // Perfil, nome ou situação alterados: as sessões abertas do usuário carregam os
+        // dados antigos, então são encerradas e ele precisa entrar novamente.
+        if (_action !== "restore") {
+            await revokeUserSessions(db, idtb_usuario);
+        }
+        await recordAudit(db, request, {
+            actor: user,
+            action: auditAction,
+            table: "tb_usuario",
+            recordId: idtb_usuario,
+            before,
+            after: await selectForAudit(),
+        });
+    } catch (e) {
+        logError("Falha na ação de usuários", e, { action: _action });
+        return { error: t("admin.users.error.saveFailed") };
+    }
+
+    return { ok: true };
+}
+
+const inputClasses = "px-3 py-2 text-gray-900 bg-gray-100 border border-gray-300 rounded-md shadow-sm dark:bg-gray-700 dark:text-white dark:border-gray-600";
+const thClasses = "px-5 py-3 border-b-2 border-gray-200 dark:border-gray-700 bg-gray-100 dark:bg-gray-900 text-left text-xs font-semibold text-gray-600 dark:text-gray-300 uppercase";
+const tdClasses = "px-5 py-4 border-b border-gray-200 dark:border-gray-700 text-sm";
+
+export default function AdminUsersPage() {
+    const { users, profiles, total, page, pageSize, error } = useLoaderData() as Awaited<ReturnType<typeof loader>>;
+    const actionData = useActionData<typeof action>();
+    const navigation = useNavigation();
+    const isSubmitting = navigation.state === "submitting";
+    const [searchParams] = useSearchParams();
+    const [editingId, setEditingId] = useState<number | null>(null);
+    const { t } = useTranslation();
+
+    const showDeleted = searchParams.get("excluidos") === "1";
+    const totalPages = Math.max(1, Math.ceil(total / pageSize));
+
+    const pageLink = (target: number) => {
+        const params = new URLSearchParams(searchParams);
+        params.set("page", String(target));
+        return `?${params}`;
+    };
+
+    return (
+        <AdminLayout title={t("admin.nav.users")}>
+            {error && <p className="text-red-500">{t("admin.users.loadError")}</p>}
+            {actionData?.error && <p className="mb-4 text-red-500" role="alert">{actionData.error}</p>}
+            {actionData?.temporaryPassword && (
+                <div className="mb-4 p-4 bg-yellow-100 border-l-4 border-yellow-500 text-yellow-800 rounded-md dark:bg-yellow-900/30 dark:text-yellow-200" role="alert">
+                    <p className="font-bold">{t("admin.users.temporaryPassword.title", { matricula: actionData.matricula ?? "" })}</p>
+                    <p className="font-mono text-lg select-all">{actionData.temporaryPassword}</p>
+                    <p className="text-sm">{t("admin.users.temporaryPassword.hint")}</p>
+                </div>
+            )}
+
+            {/* Add New User Form */}
+            <div className="mb-8 p-6 bg-white dark:bg-gray-800 rounded-lg shadow">
+                <div className="flex justify-between items-center mb-4">
+                    <h2 className="text-xl font-semibold text-gray-900 dark:text-white">{t("admin.users.new")}</h2>
+                    <Link to="/admin/usuarios/importar" className="text-sm text-blue-500 hover:text-blue-700 dark:text-blue-400">
+                        {t("admin.users.import")}
+                    </Link>
+                </div>
+                <Form method="post" className="grid grid-cols-1 md:grid-cols-5 gap-4">
+                    <CsrfInput />
+                    <input type="hidden" name="_action" value="create" />
+                    <input type="text" name="matricula" placeholder={t("admin.users.matricula")} required className={inputClasses} />
+                    <input type="text" name="nome_usuario" placeholder={t("admin.users.name")} required className={inputClasses} />
+                    <input type="password" name="senha" placeholder={t("admin.users.initialPassword")} title={t("admin.users.initialPasswordHint")} required autoComplete="new-password" className={inputClasses} />
+                    <select name="tb_perfil_idtb_perfil" required defaultValue="" className={inputClasses}>
+                        <option value="" disabled>{t("admin.users.profile")}</option>
+                        {profiles.map((profile) => (
+                            <option key={profile.idtb_perfil} value={profile.idtb_perfil}>{profile.ds_perfil}</option>
+                        ))}
+                    </select>
+                    <button type="submit" disabled={isSubmitting} className="px-4 py-2 font-medium text-white bg-blue-600 rounded-md hover:bg-blue-700 disabled:opacity-50">
+                        {isSubmitting ? t("common.saving") : t("common.save")}
+                    </button>
+                </Form>
+            </div>
+
+            {/* Search */}
+            <Form method="get" className="flex items-center mb-4 space-x-4">
+                <input
+                    type="search"
+                    name="q"
+                    defaultValue={searchParams.get("q") ?? ""}
+                    placeholder={t("admin.users.searchPlaceholder")}
+                    className={`flex-grow ${inputClasses}`}
+                />
+                <label className="flex items-center space-x-2 text-sm text-gray-700 dark:text-gray-200">
+                    <input type="checkbox" name="excluidos" value="1" defaultChecked={showDeleted} />
+                    <span>{t("admin.users.showDeleted")}</span>
+                </label>
+                <button type="submit" className="px-4 py-2 font-medium text-white bg-gray-600 rounded-md hover:bg-gray-700">
+                    {t("admin.users.search")}
+                </button>
+            </Form>
+
+            {/* Users Table */}
+            <div className="bg-white dark:bg-gray-800 shadow-md rounded-lg overflow-hidden">
+                <table className="min-w-full">
+                    <thead>
+                        <tr>
+                            <th className={thClasses}>{t("admin.users.matricula")}</th>
+                            <th className={thClasses}>{t("admin.users.name")}</th>
+                            <th className={thClasses}>{t("admin.users.profile")}</th>
+                            <th className={thClasses}>{t("admin.users.status")}</th>
+                            <th className={thClasses}></th>
+                        </tr>
+                    </thead>
+                    <tbody className="text-gray-900 dark:text-white">
+                        {users.length === 0 && (
+                            <tr>
+                                <td colSpan={5} className={`${tdClasses} text-center text-gray-500 dark:text-gray-400`}>
+                                    {t("admin.users.empty")}
+                                </td>
+                            </tr>
+                        )}
+                        {users.map((user) =>
+                            editingId === user.idtb_usuario ? (
+                                <tr key={user.idtb_usuario}>
+                                    <td className={tdClasses}>{user.matricula}</td>
+                                    <td colSpan={4} className={tdClasses}>
+                                        <Form method="post" onSubmit={() => setEditingId(null)} className="flex items-center space-x-2">
+                                            <CsrfInput />
+                                            <input type="hidden" name="_action" value="update" />
+                                            <input type="hidden" name="idtb_usuario" value={user.idtb_usuario} />
+                                            <input type="text" name="nome_usuario" defaultValue={user.nome_usuario} required className={`flex-grow ${inputClasses}`} />
+                                            <select name="tb_perfil_idtb_perfil" defaultValue={user.tb_perfil_idtb_perfil ?? ""} required className={inputClasses}>
+                                                <option value="" disabled>{t("admin.users.profile")}</option>
+                                                {profiles.map((profile) => (
+                                                    <option key={profile.idtb_perfil} value={profile.idtb_perfil}>{profile.ds_perfil}</option>
+                                                ))}
+                                            </select>
+                                            <button type="submit" className="px-3 py-2 text-white bg-blue-600 rounded-md hover:bg-blue-700">{t("common.save")}</button>
+                                            <button type="button" onClick={() => setEditingId(null)} className="px-3 py-2 text-gray-700 dark:text-gray-200 hover:underline">
+                                                {t("common.cancel")}
+                                            </button>
+                                        </Form>
+                                    </td>
+                                </tr>
+                            ) : (
+                                <tr key={user.idtb_usuario}>
+                                    <td className={tdClasses}>{user.matricula}</td>
+                                    <td className={tdClasses}>{user.nome_usuario}</td>
+                                    <td className={tdClasses}>{user.ds_perfil ?? "—"}</td>
+                                    <td className={tdClasses}>
+                                        {user.st_delete ? (
+                                            <span className="text-gray-500">{t("admin.users.status.deleted")}</span>
+                                        ) : user.st_usuario ? (
+                                            <span className="text-green-600 dark:text-green-400">{t("admin.users.status.active")}</span>
+                                        ) : (
+                                            <span className="text-yellow-600 dark:text-yellow-400">{t("admin.users.status.inactive")}</span>
+                                        )}
+                                    </td>
+                                    <td className={`${tdClasses} text-right space-x-4 whitespace-nowrap`}>
+                                        {user.st_delete ? (
+                                            <UserActionButton user={user} action="restore" label={t("admin.users.restore")} className="text-blue-500 hover:text-blue-700" />
+                                        ) : (
+                                            <>
+                                                <button type="button" onClick={() => setEditingId(user.idtb_usuario)} className="text-blue-500 hover:text-blue-700 dark:text-blue-400">
+                                                    {t("admin.users.edit")}
+                                                </button>
+                                                <UserActionButton
+                                                    user={user}
+                                                    action="toggle-status"
+                                                    label={user.st_usuario ? t("admin.users.deactivate") : t("admin.users.activate")}
+                                                    className="text-yellow-600 hover:text-yellow-800 dark:text-yellow-400"
+                                                />
+                                                <UserActionButton
+                                                    user={user}
+                                                    action="reset-password"
+                                                    label={t("admin.users.resetPassword")}
+                                                    confirmMessage={t("admin.users.resetPasswordConfirm")}
+                                                    className="text-blue-500 hover:text-blue-700 dark:text-blue-400"
+                                                />
+                                                <UserActionButton
+                                                    user={user}
+                                                    action="reset-2fa"
+                                                    label={t("admin.users.resetTwoFactor")}
+                                                    confirmMessage={t("admin.users.resetTwoFactorConfirm")}
+                                                    className="text-blue-500 hover:text-blue-700 dark:text-blue-400"
+                                                />
+                                                <UserActionButton
+                                                    user={user}
+                                                    action="delete"
+                                                    label={t("common.delete")}
+                                                    confirmMessage={t("admin.users.deleteConfirm")}
+                                                    className="text-red-500 hover:text-red-700 dark:text-red-400 dark:hover:text-red-300"
+                                                />
+                                            </>
+                                        )}
+                                    </td>
+                                </tr>
+                            )
+                        )}
+                    </tbody>
+                </table>
+            </div>
+
+            {/* Pagination */}
+            <div className="flex justify-between items-center mt-4 text-sm text-gray-600 dark:text-gray-300">
+                <span>{t("admin.users.pagination", { count: total, page, pages: totalPages })}</span>
+                <div className="space-x-2">
+                    {page > 1 && (
+                        <Link to={pageLink(page - 1)} className="px-3 py-1 bg-white dark:bg-gray-800 rounded-md shadow hover:bg-gray-200 dark:hover:bg-gray-700">
+                            {t("common.previous")}
+                        </Link>
+                    )}
+                    {page < totalPages && (
+                        <Link to={pageLink(page + 1)} className="px-3 py-1 bg-white dark:bg-gray-800 rounded-md shadow hover:bg-gray-200 dark:hover:bg-gray-700">
+                            {t("common.next")}
+                        </Link>
+                    )}
+                </div>
+            </div>
+        </AdminLayout>
+    );
+}
+
+function UserActionButton({ user, action, label, className, confirmMessage }: {
+    user: UsuarioComPerfil;
+    action: string;
+    label: string;
+    className: string;
+    confirmMessage?: string;
+}) {
+    return (
+        <Form
+            method="post"
+            className="inline"
+            onSubmit={(e) => confirmMessage && !confirm(confirmMessage) && e.preventDefault()}
+        >
+            <CsrfInput />
+            <input type="hidden" name="_action" value={action} />
+            <input type="hidden" name="idtb_usuario" value={user.idtb_usuario} />
+            <button type="submit" className={className}>{label}</button>
+        </Form>
+    );
+}
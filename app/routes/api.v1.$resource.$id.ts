@@ -0,0 +1,45 @@
+// File: app/routes/api.v1.$resource.$id.ts
+// Rota de recurso: registro da API (/api/v1/:resource/:id). GET consulta, PATCH altera os
+// campos enviados e DELETE exclui.
+import type { ActionFunctionArgs, LoaderFunctionArgs } from "react-router";
+import { apiJson, handleApi, methodNotAllowed, notFound, readBody, requireApiScope, scopeFor, type ApiResource } from "~/api.server";
+import { requireRecord, requireResource } from "~/api-resources.server";
+
+function allowedMethods(resource: ApiResource) {
+    return [
+        ...(resource.operations.includes("get") ? ["GET"] : []),
+        ...(resource.update ? ["PATCH"] : []),
+        ...(resource.remove ? ["DELETE"] : []),
+    ];
+}
+
+export async function loader({ request, params, context }: LoaderFunctionArgs) {
+    return handleApi(async () => {
+        const db = context.cloudflare.env.DB_APP;
+        const resource = requireResource(params.resource);
+        const principal = await requireApiScope(db, request, scopeFor(resource, "get"));
+        return apiJson(await requireRecord(resource, { db, request, principal }, params.id!));
+    });
+}
+
+export async function action({ request, params, context }: ActionFunctionArgs) {
+    return handleApi(async () => {
+        const db = context.cloudflare.env.DB_APP;
+        const resource = requireResource(params.resource);
+        const id = params.id!;
+
+        if (request.method === "PATCH" && resource.update) {
+            const principal = await requireApiScope(db, request, scopeFor(resource, "update"));
+            const values = await readBody(request, resource, "update");
+            const updated = await resource.update({ db, request, principal }, id, values);
+            if (!updated) throw notFound();
+            return apiJson(updated);
+        }
+        if (request.method === "DELETE" && resource.remove) {
+            const principal = await requireApiScope(db, request, scopeFor(resource, "delete"));
+            if (!(await resource.remove({ db, request, principal }, id))) throw notFound();
+            return new Response(null, { status: 204 });
+        }
+        throw methodNotAllowed(allowedMethods(resource));
+    });
+}
@@ -0,0 +1,34 @@
+// File: app/routes/api.v1.$resource.ts
+// Rota de recurso: coleção da API (/api/v1/:resource). GET lista com paginação e filtros;
+// POST cria um registro.
+import type { ActionFunctionArgs, LoaderFunctionArgs } from "react-router";
+import { apiJson, handleApi, methodNotAllowed, parseListParams, readBody, requireApiScope, scopeFor } from "~/api.server";
+import { requireResource } from "~/api-resources.server";
+
+function allowedMethods(operations: string[]) {
+    return [...(operations.includes("list") ? ["GET"] : []), ...(operations.includes("create") ? ["POST"] : [])];
+}
+
+export async function loader({ request, params, context }: LoaderFunctionArgs) {
+    return handleApi(async () => {
+        const db = context.cloudflare.env.DB_APP;
+        const resource = requireResource(params.resource);
+        if (!resource.operations.includes("list")) throw methodNotAllowed(allowedMethods(resource.operations));
+        const principal = await requireApiScope(db, request, scopeFor(resource, "list"));
+        const listParams = parseListParams(new URL(request.url), resource);
+        const { total, data } = await resource.list({ db, request, principal }, listParams);
+        return apiJson({ data, pagination: { total, limit: listParams.limit, offset: listParams.offset } });
+    });
+}
+
+export async function action({ request, params, context }: ActionFunctionArgs) {
+    return handleApi(async () => {
+        const db = context.cloudflare.env.DB_APP;
+        const resource = requireResource(params.resource);
+        if (request.method !== "POST" || !resource.create) throw methodNotAllowed(allowedMethods(resource.operations));
+        const principal = await requireApiScope(db, request, scopeFor(resource, "create"));
+        const values = await readBody(request, resource, "create");
+        const created = await resource.create({ db, request, principal }, values);
+        return apiJson(created, 201);
+    });
+}
@@ -0,0 +1,10 @@
+// File: app/routes/api.v1.openapi.ts
+// Rota de recurso: documento OpenAPI da API /api/v1, gerado das definições dos recursos.
+// É público, como costuma ser a descrição de uma API; os dados continuam exigindo token.
+import type { LoaderFunctionArgs } from "react-router";
+import { apiJson, buildOpenApiDocument } from "~/api.server";
+import { API_RESOURCES } from "~/api-resources.server";
+
+export async function loader({ request }: LoaderFunctionArgs) {
+    return apiJson(buildOpenApiDocument(API_RESOURCES, new URL(request.url).origin));
+}
@@ -0,0 +1,249 @@
+// File: app/routes/conta.2fa.tsx
+import { data, Form, Link, useActionData, useLoaderData, useNavigation } from "react-router";
+import type { ActionFunctionArgs, LoaderFunctionArgs, MetaFunction } from "react-router";
+import { getSessionStorage, requireUser } from "~/auth.server";
+import { validateCsrf } from "~/csrf.server";
+import { recordAudit } from "~/audit.server";
+import { UsuarioRepo } from "~/repositories.server";
+import {
+    RECOVERY_CODE_COUNT,
+    confirmEnrollment,
+    disableTwoFactor,
+    formatSecret,
+    getTwoFactorState,
+    qrCodeSvg,
+    regenerateRecoveryCodes,
+    startEnrollment,
+    totpUri,
+    verifySecondFactor,
+} from "~/totp.server";
+import { CsrfInput } from "~/components/csrf-input";
+import { getTranslator } from "~/i18n.server";
+import { metaTranslator, useTranslation } from "~/i18n";
+
+type TwoFactorActionData = { ok?: string; error?: string; recoveryCodes?: string[] } | undefined;
+
+export const meta: MetaFunction = ({ matches }) => [{ title: metaTranslator(matches).t("account.twoFactor.meta.title") }];
+
+export async function loader({ request, context }: LoaderFunctionArgs) {
+    const db = context.cloudflare.env.DB_APP;
+    const user = await requireUser(request, db);
+    const [state, account] = await Promise.all([getTwoFactorState(db, user.userId), UsuarioRepo.findById(db, user.userId)]);
+    if (!state || !account) {
+        throw new Response("Usuário não encontrado.", { status: 404, statusText: "Not Found" });
+    }
+    // Cadastro iniciado e ainda não confirmado: exibe o QR code do segredo pendente.
+    const pendingSecret = state.st_totp !== 1 ? state.ds_totp_segredo : null;
+    return {
+        enabled: state.st_totp === 1,
+        required: state.st_2fa_obrigatorio === 1,
+        remainingCodes: state.codigos_restantes,
+        enrollment: pendingSecret
+            ? { secret: formatSecret(pendingSecret), qrCode: qrCodeSvg(totpUri(pendingSecret, account.matricula)) }
+            : null,
+    };
+}
+
+export async function action({ request, context }: ActionFunctionArgs) {
+    const db = context.cloudflare.env.DB_APP;
+    const user = await requireUser(request, db);
+    const formData = await request.formData();
+    await validateCsrf(request, db, formData);
+    const { t } = await getTranslator(request, db);
+    const _action = formData.get("_action");
+    const code = String(formData.get("codigo") ?? "");
+
+    const state = await getTwoFactorState(db, user.userId);
+    if (!state) {
+        throw new Response("Usuário não encontrado.", { status: 404, statusText: "Not Found" });
+    }
+
+    if (_action === "start") {
+        if (state.st_totp === 1) {
+            return { error: t("account.twoFactor.error.alreadyActive") };
+        }
+        await startEnrollment(db, user.userId);
+        return null;
+    }
+
+    if (_action === "cancel") {
+        if (state.st_totp !== 1) {
+            await disableTwoFactor(db, user.userId);
+        }
+        return null;
+    }
+
+    if (_action === "confirm") {
+        const recoveryCodes = await confirmEnrollment(db, user.userId, code);
+        if (!recoveryCodes) {
+            return { error: t("account.twoFactor.error.enrollCode") };
+        }
+        await recordAudit(db, request, {
+            actor: user,
+            action: "2fa.ativar",
+            table: "tb_usuario",
+            recordId: user.userId,
+        });
+        // Libera a navegação de quem foi trazido para cá por um perfil que exige o cadastro.
+        const { getSession, commitSession } = getSessionStorage(db);
+        const session = await getSession(request.headers.get("Cookie"));
+        session.set("mustEnrollTotp", false);
+        return data<TwoFactorActionData>(
+            { ok: t("account.twoFactor.enabled"), recoveryCodes },
+            { headers: { "Set-Cookie": await commitSession(session) } }
+        );
+    }
+
+    if (_action === "regenerate" || _action === "disable") {
+        if (state.st_totp !== 1) {
+            return { error: t("account.twoFactor.error.notActive") };
+        }
+        if (_action === "disable" && state.st_2fa_obrigatorio === 1) {
+            return { error: t("account.twoFactor.error.requiredByProfile") };
+        }
+        if (!(await verifySecondFactor(db, user.userId, code))) {
+            return { error: t("account.twoFactor.error.code") };
+        }
+        if (_action === "disable") {
+            await disableTwoFactor(db, user.userId);
+            await recordAudit(db, request, {
+                actor: user,
+                action: "2fa.desativar",
+                table: "tb_usuario",
+                recordId: user.userId,
+            });
+            return { ok: t("account.twoFactor.disabled") };
+        }
+        const recoveryCodes = await regenerateRecoveryCodes(db, user.userId);
+        await recordAudit(db, request, {
+            actor: user,
+            action: "2fa.codigos",
+            table: "tb_codigo_recuperacao",
+            recordId: user.userId,
+        });
+        return { ok: t("account.twoFactor.regenerated"), recoveryCodes };
+    }
+
+    return { error: t("account.twoFactor.error.invalidAction") };
+}
+
+const inputClasses = "px-3 py-2 font-mono tracking-widest text-gray-900 bg-gray-100 border border-gray-300 rounded-md shadow-sm dark:bg-gray-700 dark:text-white dark:border-gray-600";
+const buttonClasses = "px-4 py-2 text-sm font-medium text-white rounded-md disabled:opacity-50";
+
+function CodeForm({ action, label, danger = false, disabled }: { action: string; label: string; danger?: boolean; disabled: boolean }) {
+    const { t } = useTranslation();
+    return (
+        <Form method="post" className="flex flex-wrap items-center gap-2">
+            <CsrfInput />
+            <input type="hidden" name="_action" value={action} />
+            <input type="text" name="codigo" required inputMode="numeric" autoComplete="one-time-code" maxLength={20} placeholder={t("login2fa.code")} className={inputClasses} />
+            <button type="submit" disabled={disabled} className={`${buttonClasses} ${danger ? "bg-red-600 hover:bg-red-700" : "bg-blue-600 hover:bg-blue-700"}`}>
+                {label}
+            </button>
+        </Form>
+    );
+}
+
+export default function TwoFactorPage() {
+    const { enabled, required, remainingCodes, enrollment } = useLoaderData() as Awaited<ReturnType<typeof loader>>;
+    const actionData = useActionData() as TwoFactorActionData;
+    const navigation = useNavigation();
+    const isSubmitting = navigation.state === "submitting";
+    const mustEnroll = required && !enabled;
+    const { t } = useTranslation();
+
+    return (
+        <div className="container max-w-3xl mx-auto p-8 dark:bg-gray-900 min-h-screen">
+            <header className="flex justify-between items-center mb-8">
+                <div>
+                    <h1 className="text-2xl font-bold text-gray-800 dark:text-white">{t("index.twoFactor")}</h1>
+                    <p className="text-gray-600 dark:text-gray-300">{t("account.twoFactor.intro")}</p>
+                </div>
+                {mustEnroll ? (
+                    <Form action="/logout" method="post">
+                        <CsrfInput />
+                        <button type="submit" className="px-4 py-2 text-sm font-medium text-white bg-gray-600 rounded-md hover:bg-gray-700">{t("index.logout")}</button>
+                    </Form>
+                ) : (
+                    <Link to="/" className="px-4 py-2 text-sm font-medium text-white bg-gray-600 rounded-md hover:bg-gray-700">
+                        {t("common.back")}
+                    </Link>
+                )}
+            </header>
+
+            {mustEnroll && (
+                <div className="p-4 mb-6 text-sm text-yellow-800 bg-yellow-100 border-l-4 border-yellow-500 rounded-md dark:bg-yellow-900/30 dark:text-yellow-200" role="alert">
+                    {t("account.twoFactor.mustEnroll")}
+                </div>
+            )}
+            {actionData?.error && (
+                <div className="p-4 mb-6 text-sm text-red-700 bg-red-100 rounded-lg dark:bg-red-900/30 dark:text-red-300">{actionData.error}</div>
+            )}
+            {actionData?.ok && (
+                <div className="p-4 mb-6 text-sm text-green-800 bg-green-100 rounded-lg dark:bg-green-900/30 dark:text-green-300">{actionData.ok}</div>
+            )}
+            {actionData?.recoveryCodes && (
+                <div className="p-6 mb-6 bg-white rounded-lg shadow-md dark:bg-gray-800">
+                    <h2 className="mb-2 text-lg font-semibold text-gray-800 dark:text-white">{t("account.twoFactor.recoveryCodes.title")}</h2>
+                    <p className="mb-4 text-sm text-gray-600 dark:text-gray-300">{t("account.twoFactor.recoveryCodes.hint")}</p>
+                    <ul className="grid grid-cols-2 gap-2 p-4 font-mono text-gray-900 bg-gray-100 rounded select-all dark:bg-gray-700 dark:text-white">
+                        {actionData.recoveryCodes.map((recoveryCode) => <li key={recoveryCode}>{recoveryCode}</li>)}
+                    </ul>
+                </div>
+            )}
+
+            <div className="p-6 bg-white rounded-lg shadow-md dark:bg-gray-800 space-y-4 text-gray-800 dark:text-gray-200">
+                {enabled ? (
+                    <>
+                        <p>
+                            <span className="px-2 py-0.5 text-xs rounded text-green-800 bg-green-100 dark:bg-green-900/30 dark:text-green-300">{t("account.twoFactor.active")}</span>{" "}
+                            {t("account.twoFactor.remainingCodes", { count: remainingCodes, total: RECOVERY_CODE_COUNT })}
+                        </p>
+                        <div>
+                            <h2 className="mb-2 font-semibold">{t("account.twoFactor.regenerate.title")}</h2>
+                            <p className="mb-2 text-sm text-gray-600 dark:text-gray-400">{t("account.twoFactor.regenerate.hint")}</p>
+                            <CodeForm action="regenerate" label={t("account.twoFactor.regenerate.submit")} disabled={isSubmitting} />
+                        </div>
+                        <div>
+                            <h2 className="mb-2 font-semibold">{t("account.twoFactor.disable")}</h2>
+                            {required ? (
+                                <p className="text-sm text-gray-600 dark:text-gray-400">{t("account.twoFactor.required")}</p>
+                            ) : (
+                                <CodeForm action="disable" label={t("account.twoFactor.disable")} danger disabled={isSubmitting} />
+                            )}
+                        </div>
+                    </>
+                ) : enrollment ? (
+                    <>
+                        <p>{t("account.twoFactor.enroll.scan")}</p>
+                        <div className="flex flex-wrap items-center gap-6">
+                            <div className="p-2 bg-white rounded w-48" dangerouslySetInnerHTML={{ __html: enrollment.qrCode }} />
+                            <code className="p-2 font-mono text-sm break-all bg-gray-100 rounded select-all dark:bg-gray-700">{enrollment.secret}</code>
+                        </div>
+                        <p>{t("account.twoFactor.enroll.code")}</p>
+                        <CodeForm action="confirm" label={t("account.twoFactor.enroll.submit")} disabled={isSubmitting} />
+                        <Form method="post">
+                            <CsrfInput />
+                            <input type="hidden" name="_action" value="cancel" />
+                            <button type="submit" className="text-sm text-gray-600 hover:underline dark:text-gray-300">{t("account.twoFactor.enroll.cancel")}</button>
+                        </Form>
+                    </>
+                ) : (
+                    <>
+                        <p>
+                            <span className="px-2 py-0.5 text-xs rounded text-gray-700 bg-gray-200 dark:bg-gray-700 dark:text-gray-300">{t("account.twoFactor.inactive")}</span>{" "}
+                            {t("account.twoFactor.passwordOnly")}
+                        </p>
+                        <Form method="post">
+                            <CsrfInput />
+                            <input type="hidden" name="_action" value="start" />
+                            <button type="submit" disabled={isSubmitting} className={`${buttonClasses} bg-blue-600 hover:bg-blue-700`}>
+                                {t("account.twoFactor.setup")}
+                            </button>
+                        </Form>
+                    </>
+                )}
+            </div>
+        </div>
+    );
+}
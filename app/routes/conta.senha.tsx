@@ -0,0 +1,137 @@
+// File: app/routes/conta.senha.tsx
+import { Form, Link, useActionData, useLoaderData, useNavigation } from "react-router";
+import type { ActionFunctionArgs, LoaderFunctionArgs, MetaFunction } from "react-router";
+import { redirect } from "react-router";
+import { getSessionStorage, requireUser } from "~/auth.server";
+import { validateCsrf } from "~/csrf.server";
+import { recordAudit } from "~/audit.server";
+import { hashPassword, PASSWORD_MIN_LENGTH, validatePasswordPolicy, verifyPassword } from "~/password.server";
+import { revokeUserSessions } from "~/session.server";
+import { UsuarioRepo } from "~/repositories.server";
+import { CsrfInput } from "~/components/csrf-input";
+import { getTranslator } from "~/i18n.server";
+import { metaTranslator, useTranslation } from "~/i18n";
+
+type ChangePasswordActionData = { errors: string[] } | undefined;
+
+export const meta: MetaFunction = ({ matches }) => [{ title: metaTranslator(matches).t("account.password.meta.title") }];
+
+export async function loader({ request, context }: LoaderFunctionArgs) {
+    const db = context.cloudflare.env.DB_APP;
+    await requireUser(request, db);
+    const session = await getSessionStorage(db).getSession(request.headers.get("Cookie"));
+    return { mustChangePassword: Boolean(session.get("mustChangePassword")), minLength: PASSWORD_MIN_LENGTH };
+}
+
+export async function action({ request, context }: ActionFunctionArgs): Promise<ChangePasswordActionData> {
+    const db = context.cloudflare.env.DB_APP;
+    const user = await requireUser(request, db);
+
+    const formData = await request.formData();
+    await validateCsrf(request, db, formData);
+    const { t } = await getTranslator(request, db);
+    const senhaAtual = String(formData.get("senha_atual") ?? "");
+    const novaSenha = String(formData.get("nova_senha") ?? "");
+    const confirmacao = String(formData.get("confirmacao") ?? "");
+
+    const row = await UsuarioRepo.findCredentials(db, user.userId);
+    if (!row) {
+        throw new Response("Usuário não encontrado.", { status: 404, statusText: "Not Found" });
+    }
+
+    const { valid } = await verifyPassword(senhaAtual, row.senha);
+    if (!valid) {
+        return { errors: [t("account.password.error.current")] };
+    }
+    const errors = validatePasswordPolicy(novaSenha, { matricula: row.matricula }).map(({ key, params }) => t(key, params));
+    if (novaSenha !== confirmacao) {
+        errors.push(t("account.password.error.mismatch"));
+    }
+    if (novaSenha === senhaAtual) {
+        errors.push(t("account.password.error.same"));
+    }
+    if (errors.length > 0) {
+        return { errors };
+    }
+
+    await UsuarioRepo.setPassword(db, user.userId, await hashPassword(novaSenha), { mustChange: false });
+    // As demais sessões foram abertas com a senha antiga e são encerradas.
+    await revokeUserSessions(db, user.userId, user.sessionId);
+    await recordAudit(db, request, {
+        actor: user,
+        action: "senha.alterar",
+        table: "tb_usuario",
+        recordId: user.userId,
+    });
+
+    const { getSession, commitSession } = getSessionStorage(db);
+    const session = await getSession(request.headers.get("Cookie"));
+    session.set("mustChangePassword", false);
+    throw redirect("/", { headers: { "Set-Cookie": await commitSession(session) } });
+}
+
+const inputClasses = "w-full px-3 py-2 mt-1 text-gray-900 bg-gray-100 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500 dark:bg-gray-700 dark:text-white dark:border-gray-600";
+const labelClasses = "block text-sm font-medium text-gray-700 dark:text-gray-200";
+
+export default function ChangePasswordPage() {
+    const { mustChangePassword, minLength } = useLoaderData() as Awaited<ReturnType<typeof loader>>;
+    const actionData = useActionData<typeof action>();
+    const navigation = useNavigation();
+    const isSubmitting = navigation.state === "submitting";
+    const { t } = useTranslation();
+
+    return (
+        <div className="flex items-center justify-center min-h-screen bg-gray-50 dark:bg-gray-900">
+            <div className="w-full max-w-md p-8 space-y-6 bg-white rounded-lg shadow-md dark:bg-gray-800">
+                <h1 className="text-2xl font-bold text-center text-gray-900 dark:text-white">{t("account.password.title")}</h1>
+                {mustChangePassword && (
+                    <div className="p-3 text-sm text-yellow-800 bg-yellow-100 border-l-4 border-yellow-500 rounded-md dark:bg-yellow-900/30 dark:text-yellow-200" role="alert">
+                        {t("account.password.mustChange")}
+                    </div>
+                )}
+                <Form method="post" className="space-y-6">
+                    <CsrfInput />
+                    <div>
+                        <label htmlFor="senha_atual" className={labelClasses}>
+                            {mustChangePassword ? t("account.password.temporary") : t("account.password.current")}
+                        </label>
+                        <input id="senha_atual" name="senha_atual" type="password" required autoComplete="current-password" className={inputClasses} />
+                    </div>
+                    <div>
+                        <label htmlFor="nova_senha" className={labelClasses}>{t("account.password.new")}</label>
+                        <input id="nova_senha" name="nova_senha" type="password" required minLength={minLength} autoComplete="new-password" className={inputClasses} />
+                        <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">
+                            {t("account.password.hint", { count: minLength })}
+                        </p>
+                    </div>
+                    <div>
+                        <label htmlFor="confirmacao" className={labelClasses}>{t("account.password.confirm")}</label>
+                        <input id="confirmacao" name="confirmacao" type="password" required autoComplete="new-password" className={inputClasses} />
+                    </div>
+                    {actionData?.errors && (
+                        <ul className="text-sm text-red-500 list-disc pl-5" role="alert">
+                            {actionData.errors.map((error) => <li key={error}>{error}</li>)}
+                        </ul>
+                    )}
+                    <button
+                        type="submit"
+                        disabled={isSubmitting}
+                        className="w-full px-4 py-2 text-sm font-medium text-white bg-blue-600 rounded-md hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 disabled:opacity-50"
+                    >
+                        {isSubmitting ? t("common.saving") : t("account.password.submit")}
+                    </button>
+                </Form>
+                {mustChangePassword ? (
+                    <Form action="/logout" method="post" className="text-center">
+                        <CsrfInput />
+                        <button type="submit" className="text-sm text-gray-600 hover:underline dark:text-gray-300">{t("index.logout")}</button>
+                    </Form>
+                ) : (
+                    <p className="text-center">
+                        <Link to="/" className="text-sm text-gray-600 hover:underline dark:text-gray-300">{t("common.back")}</Link>
+                    </p>
+                )}
+            </div>
+        </div>
+    );
+}
@@ -0,0 +1,128 @@
+// File: app/routes/conta.sessoes.tsx
+import { Form, Link, useLoaderData } from "react-router";
+import type { ActionFunctionArgs, LoaderFunctionArgs, MetaFunction } from "react-router";
+import { redirect } from "react-router";
+import { getSessionStorage, requireUser } from "~/auth.server";
+import { validateCsrf } from "~/csrf.server";
+import { recordAudit } from "~/audit.server";
+import { listActiveSessions, revokeSession } from "~/session.server";
+import { metaTranslator, useTranslation } from "~/i18n";
+import { CsrfInput } from "~/components/csrf-input";
+
+export const meta: MetaFunction = ({ matches }) => [{ title: metaTranslator(matches).t("account.sessions.meta.title") }];
+
+export async function loader({ request, context }: LoaderFunctionArgs) {
+    const db = context.cloudflare.env.DB_APP;
+    const user = await requireUser(request, db);
+    return {
+        sessions: await listActiveSessions(db, user.userId),
+        currentSessionId: user.sessionId,
+    };
+}
+
+export async function action({ request, context }: ActionFunctionArgs) {
+    const db = context.cloudflare.env.DB_APP;
+    const user = await requireUser(request, db);
+    const formData = await request.formData();
+    await validateCsrf(request, db, formData);
+    const _action = formData.get("_action");
+
+    const targets = _action === "revoke-others"
+        ? (await listActiveSessions(db, user.userId)).map((s) => s.id_sessao).filter((id) => id !== user.sessionId)
+        : [String(formData.get("id_sessao") ?? "")];
+
+    for (const id of targets) {
+        await revokeSession(db, user.userId, id);
+    }
+    await recordAudit(db, request, {
+        actor: user,
+        action: "sessao.encerrar",
+        table: "tb_sessao",
+        // Apenas o início do id: o id completo é a credencial da sessão.
+        recordId: targets.map((id) => id.slice(0, 8)).join(","),
+    });
+
+    // Encerrar a própria sessão equivale a sair.
+    if (targets.includes(user.sessionId)) {
+        const { getSession, destroySession } = getSessionStorage(db);
+        const session = await getSession(request.headers.get("Cookie"));
+        return redirect("/login", { headers: { "Set-Cookie": await destroySession(session) } });
+    }
+    return { ok: true };
+}
+
+const thClasses = "px-5 py-3 border-b-2 border-gray-200 dark:border-gray-700 bg-gray-100 dark:bg-gray-900 text-left text-xs font-semibold text-gray-600 dark:text-gray-300 uppercase";
+const tdClasses = "px-5 py-4 border-b border-gray-200 dark:border-gray-700 text-sm";
+
+export default function MySessionsPage() {
+    const { sessions, currentSessionId } = useLoaderData() as Awaited<ReturnType<typeof loader>>;
+    const { t } = useTranslation();
+
+    return (
+        <div className="container mx-auto p-8 dark:bg-gray-900 min-h-screen">
+            <header className="flex justify-between items-center mb-8">
+                <div>
+                    <h1 className="text-2xl font-bold text-gray-800 dark:text-white">{t("index.sessions")}</h1>
+                    <p className="text-gray-600 dark:text-gray-300">{t("account.sessions.intro")}</p>
+                </div>
+                <div className="flex items-center space-x-4">
+                    {sessions.length > 1 && (
+                        <Form method="post">
+                            <CsrfInput />
+                            <input type="hidden" name="_action" value="revoke-others" />
+                            <button type="submit" className="px-4 py-2 text-sm font-medium text-white bg-red-600 rounded-md hover:bg-red-700">
+                                {t("account.sessions.revokeOthers")}
+                            </button>
+                        </Form>
+                    )}
+                    <Link to="/" className="px-4 py-2 text-sm font-medium text-white bg-gray-600 rounded-md hover:bg-gray-700">
+                        {t("common.back")}
+                    </Link>
+                </div>
+            </header>
+
+            <div className="bg-white dark:bg-gray-800 shadow-md rounded-lg overflow-hidden">
+                <table className="min-w-full">
+                    <thead>
+                        <tr>
+                            <th className={thClasses}>{t("account.sessions.device")}</th>
+                            <th className={thClasses}>{t("account.sessions.ip")}</th>
+                            <th className={thClasses}>{t("account.sessions.start")}</th>
+                            <th className={thClasses}>{t("account.sessions.lastAccess")}</th>
+                            <th className={thClasses}>{t("account.sessions.expires")}</th>
+                            <th className={thClasses}></th>
+                        </tr>
+                    </thead>
+                    <tbody className="text-gray-900 dark:text-white">
+                        {sessions.map((session) => (
+                            <tr key={session.id_sessao}>
+                                <td className={`${tdClasses} break-all`}>
+                                    {session.ds_user_agent ?? t("account.sessions.unknownDevice")}
+                                    {session.id_sessao === currentSessionId && (
+                                        <span className="ml-2 px-2 py-0.5 text-xs text-green-800 bg-green-100 rounded dark:bg-green-900/30 dark:text-green-300">
+                                            {t("account.sessions.current")}
+                                        </span>
+                                    )}
+                                </td>
+                                <td className={`${tdClasses} font-mono`}>{session.ds_ip ?? "—"}</td>
+                                <td className={`${tdClasses} whitespace-nowrap`}>{session.dt_criacao}</td>
+                                <td className={`${tdClasses} whitespace-nowrap`}>{session.dt_ultimo_acesso}</td>
+                                <td className={`${tdClasses} whitespace-nowrap`}>{session.dt_expiracao}</td>
+                                <td className={`${tdClasses} text-right`}>
+                                    <Form method="post">
+                                        <CsrfInput />
+                                        <input type="hidden" name="_action" value="revoke" />
+                                        <input type="hidden" name="id_sessao" value={session.id_sessao} />
+                                        <button type="submit" className="text-red-500 hover:text-red-700 dark:text-red-400 dark:hover:text-red-300">
+                                            {session.id_sessao === currentSessionId ? t("index.logout") : t("account.sessions.revoke")}
+                                        </button>
+                                    </Form>
+                                </td>
+                            </tr>
+                        ))}
+                    </tbody>
+                </table>
+            </div>
+        </div>
+    );
+}
@@ -0,0 +1,207 @@
+// File: app/routes/conta.tokens.tsx
+import { Form, Link, useActionData, useLoaderData, useNavigation } from "react-router";
+import type { ActionFunctionArgs, LoaderFunctionArgs, MetaFunction } from "react-router";
+import { requirePermission } from "~/auth.server";
+import { validateCsrf } from "~/csrf.server";
+import { recordAudit } from "~/audit.server";
+import {
+    API_SCOPES,
+    TOKEN_VALIDITY_DAYS,
+    createApiToken,
+    isApiScope,
+    listApiTokens,
+    revokeApiToken,
+} from "~/api-token.server";
+import { getTranslator } from "~/i18n.server";
+import { metaTranslator, useTranslation, type MessageKey } from "~/i18n";
+import { CsrfInput } from "~/components/csrf-input";
+
+type TokensActionData = { ok?: boolean; error?: string; token?: string; name?: string } | undefined;
+
+export const meta: MetaFunction = ({ matches }) => [{ title: metaTranslator(matches).t("account.tokens.meta.title") }];
+
+// A API só atende usuários com acesso à administração, então a tela segue a mesma regra.
+export async function loader({ request, context }: LoaderFunctionArgs) {
+    const db = context.cloudflare.env.DB_APP;
+    const user = await requirePermission(request, db, "admin");
+    return {
+        tokens: await listApiTokens(db, user.userId),
+        scopes: [...API_SCOPES],
+        validityDays: TOKEN_VALIDITY_DAYS,
+    };
+}
+
+export async function action({ request, context }: ActionFunctionArgs): Promise<TokensActionData> {
+    const db = context.cloudflare.env.DB_APP;
+    const user = await requirePermission(request, db, "admin");
+    const formData = await request.formData();
+    await validateCsrf(request, db, formData);
+    const { t } = await getTranslator(request, db);
+    const _action = formData.get("_action");
+
+    if (_action === "create") {
+        const name = String(formData.get("ds_nome") ?? "").trim();
+        const scopes = formData.getAll("escopo").map(String).filter(isApiScope);
+        const validityDays = Number(formData.get("validade"));
+        if (!name || scopes.length === 0) {
+            return { error: t("account.tokens.error.required") };
+        }
+        if (!TOKEN_VALIDITY_DAYS.includes(validityDays)) {
+            return { error: t("account.tokens.error.validity") };
+        }
+        const { id, token } = await createApiToken(db, user.userId, { name, scopes, validityDays });
+        await recordAudit(db, request, {
+            actor: user,
+            action: "token.criar",
+            table: "tb_token_api",
+            recordId: id,
+            after: { ds_nome: name, ds_escopos: scopes.join(" "), validade_dias: validityDays },
+        });
+        // O token só é exibido nesta resposta; no banco fica apenas o hash.
+        return { ok: true, token, name };
+    }
+
+    if (_action === "revoke") {
+        const id = Number(formData.get("id_token"));
+        if (!(await revokeApiToken(db, user.userId, id))) {
+            return { error: t("account.tokens.error.notFound") };
+        }
+        await recordAudit(db, request, {
+            actor: user,
+            action: "token.revogar",
+            table: "tb_token_api",
+            recordId: id,
+        });
+        return { ok: true };
+    }
+
+    return { error: t("account.tokens.error.invalidAction") };
+}
+
+const inputClasses = "px-3 py-2 text-gray-900 bg-gray-100 border border-gray-300 rounded-md shadow-sm dark:bg-gray-700 dark:text-white dark:border-gray-600";
+const thClasses = "px-5 py-3 border-b-2 border-gray-200 dark:border-gray-700 bg-gray-100 dark:bg-gray-900 text-left text-xs font-semibold text-gray-600 dark:text-gray-300 uppercase";
+const tdClasses = "px-5 py-4 border-b border-gray-200 dark:border-gray-700 text-sm";
+
+function tokenStatus(token: { dt_revogacao: string | null; expirado: number }): { label: MessageKey; className: string } {
+    if (token.dt_revogacao) return { label: "account.tokens.status.revoked", className: "text-gray-700 bg-gray-200 dark:bg-gray-700 dark:text-gray-300" };
+    if (token.expirado) return { label: "account.tokens.status.expired", className: "text-yellow-800 bg-yellow-100 dark:bg-yellow-900/30 dark:text-yellow-300" };
+    return { label: "account.tokens.status.active", className: "text-green-800 bg-green-100 dark:bg-green-900/30 dark:text-green-300" };
+}
+
+export default function ApiTokensPage() {
+    const { tokens, scopes, validityDays } = useLoaderData() as Awaited<ReturnType<typeof loader>>;
+    const actionData = useActionData() as TokensActionData;
+    const navigation = useNavigation();
+    const isSubmitting = navigation.state === "submitting";
+    const { t } = useTranslation();
+
+    return (
+        <div className="container mx-auto p-8 dark:bg-gray-900 min-h-screen">
+            <header className="flex justify-between items-center mb-8">
+                <div>
+                    <h1 className="text-2xl font-bold text-gray-800 dark:text-white">{t("index.apiTokens")}</h1>
+                    <p className="text-gray-600 dark:text-gray-300">
+                        {t("account.tokens.intro")} {t("account.tokens.docs")}{" "}
+                        <a href="/api/v1/openapi.json" className="text-blue-600 hover:underline dark:text-blue-400">/api/v1/openapi.json</a>
+                    </p>
+                </div>
+                <Link to="/" className="px-4 py-2 text-sm font-medium text-white bg-gray-600 rounded-md hover:bg-gray-700">
+                    {t("common.back")}
+                </Link>
+            </header>
+
+            {actionData?.error && (
+                <div className="p-4 mb-6 text-sm text-red-700 bg-red-100 rounded-lg dark:bg-red-900/30 dark:text-red-300">{actionData.error}</div>
+            )}
+            {actionData?.token && (
+                <div className="p-4 mb-6 text-sm text-green-800 bg-green-100 rounded-lg dark:bg-green-900/30 dark:text-green-300">
+                    <p className="mb-2">{t("account.tokens.created", { name: actionData.name ?? "" })}</p>
+                    <code className="block p-2 font-mono break-all bg-white rounded select-all dark:bg-gray-800">{actionData.token}</code>
+                    <p className="mt-2">{t("account.tokens.headerHint")} <code>Authorization: Bearer &lt;token&gt;</code></p>
+                </div>
+            )}
+
+            <div className="p-6 mb-8 bg-white rounded-lg shadow-md dark:bg-gray-800">
+                <h2 className="mb-4 text-xl font-semibold text-gray-800 dark:text-white">{t("account.tokens.new")}</h2>
+                <Form method="post" className="space-y-4">
+                    <CsrfInput />
+                    <input type="hidden" name="_action" value="create" />
+                    <div className="flex flex-wrap gap-4">
+                        <input type="text" name="ds_nome" required maxLength={100} placeholder={t("account.tokens.namePlaceholder")} className={`${inputClasses} flex-grow`} />
+                        <select name="validade" defaultValue={validityDays[1]} className={inputClasses}>
+                            {validityDays.map((days) => (
+                                <option key={days} value={days}>{t("account.tokens.validity", { count: days })}</option>
+                            ))}
+                        </select>
+                    </div>
+                    <fieldset>
+                        <legend className="mb-2 text-sm font-medium text-gray-700 dark:text-gray-300">{t("account.tokens.scopes")}</legend>
+                        <div className="grid grid-cols-2 gap-2 md:grid-cols-4">
+                            {scopes.map((scope) => (
+                                <label key={scope} className="flex items-center gap-2 text-sm text-gray-700 dark:text-gray-300">
+                                    <input type="checkbox" name="escopo" value={scope} />
+                                    <span className="font-mono">{scope}</span>
+                                </label>
+                            ))}
+                        </div>
+                    </fieldset>
+                    <button type="submit" disabled={isSubmitting} className="px-4 py-2 text-sm font-medium text-white bg-blue-600 rounded-md hover:bg-blue-700 disabled:opacity-50">
+                        {t("account.tokens.create")}
+                    </button>
+                </Form>
+            </div>
+
+            <div className="bg-white dark:bg-gray-800 shadow-md rounded-lg overflow-hidden">
+                <table className="min-w-full">
+                    <thead>
+                        <tr>
+                            <th className={thClasses}>{t("account.tokens.name")}</th>
+                            <th className={thClasses}>{t("account.tokens.prefix")}</th>
+                            <th className={thClasses}>{t("account.tokens.scopes")}</th>
+                            <th className={thClasses}>{t("account.tokens.createdAt")}</th>
+                            <th className={thClasses}>{t("account.tokens.expiresAt")}</th>
+                            <th className={thClasses}>{t("account.tokens.lastUsed")}</th>
+                            <th className={thClasses}>{t("account.tokens.status")}</th>
+                            <th className={thClasses}></th>
+                        </tr>
+                    </thead>
+                    <tbody className="text-gray-900 dark:text-white">
+                        {tokens.length === 0 && (
+                            <tr>
+                                <td colSpan={8} className={`${tdClasses} text-center text-gray-500`}>{t("account.tokens.empty")}</td>
+                            </tr>
+                        )}
+                        {tokens.map((token) => {
+                            const status = tokenStatus(token);
+                            return (
+                                <tr key={token.id_token}>
+                                    <td className={tdClasses}>{token.ds_nome}</td>
+                                    <td className={`${tdClasses} font-mono`}>{token.ds_prefixo}…</td>
+                                    <td className={`${tdClasses} font-mono text-xs`}>{token.ds_escopos.split(" ").join(", ")}</td>
+                                    <td className={`${tdClasses} whitespace-nowrap`}>{token.dt_criacao}</td>
+                                    <td className={`${tdClasses} whitespace-nowrap`}>{token.dt_expiracao}</td>
+                                    <td className={`${tdClasses} whitespace-nowrap`}>{token.dt_ultimo_uso ?? "—"}</td>
+                                    <td className={tdClasses}>
+                                        <span className={`px-2 py-0.5 text-xs rounded ${status.className}`}>{t(status.label)}</span>
+                                    </td>
+                                    <td className={`${tdClasses} text-right`}>
+                                        {!token.dt_revogacao && !token.expirado && (
+                                            <Form method="post">
+                                                <CsrfInput />
+                                                <input type="hidden" name="_action" value="revoke" />
+                                                <input type="hidden" name="id_token" value={token.id_token} />
+                                                <button type="submit" className="text-red-500 hover:text-red-700 dark:text-red-400 dark:hover:text-red-300">
+                                                    {t("account.tokens.revoke")}
+                                                </button>
+                                            </Form>
+                                        )}
+                                    </td>
+                                </tr>
+                            );
+                        })}
+                    </tbody>
+                </table>
+            </div>
+        </div>
+    );
+}
@@ -0,0 +1,16 @@
+// File: app/routes/database.diagrama.ts
+// Rota de recurso: diagrama entidade-relacionamento do banco em SVG.
+import type { LoaderFunctionArgs } from "react-router";
+import { requirePermission } from "~/auth.server";
+import { buildErDiagram } from "~/database-diagram.server";
+
+export async function loader({ request, context }: LoaderFunctionArgs) {
+    const db = context.cloudflare.env.DB_APP;
+    await requirePermission(request, db, "database");
+    return new Response(await buildErDiagram(db), {
+        headers: {
+            "Content-Type": "image/svg+xml; charset=utf-8",
+            "Cache-Control": "private, no-store",
+        },
+    });
+}
@@ -0,0 +1,103 @@
+// File: app/routes/database.exportar.ts
+// Rota de recurso: exporta uma tabela do Database Explorer (inteira ou com os filtros e a
+// ordenação da tela) em CSV, NDJSON ou script de INSERT.
+import type { LoaderFunctionArgs } from "react-router";
+import { requirePermission } from "~/auth.server";
+import { recordAudit } from "~/audit.server";
+import { CSV_BOM, csvRow } from "~/csv";
+import { getTableSchema, listTables, parseGridState, queryRows, quoteIdentifier, sqlLiteral } from "~/database-explorer.server";
+
+const CHUNK_SIZE = 500;
+
+type Row = Record<string, unknown>;
+
+interface ExportFormat {
+    contentType: string;
+    extension: string;
+    // Cabeçalho do arquivo e serialização de cada linha, para a tabela e colunas exportadas.
+    serializer: (table: string, columns: string[]) => { header: string; row: (row: Row) => string };
+}
+
+const formats: Record<string, ExportFormat> = {
+    csv: {
+        contentType: "text/csv; charset=utf-8",
+        extension: "csv",
+        serializer: (_table, columns) => ({
+            header: CSV_BOM + csvRow(columns),
+            row: (row) => csvRow(columns.map((col) => row[col])),
+        }),
+    },
+    ndjson: {
+        contentType: "application/x-ndjson; charset=utf-8",
+        extension: "ndjson",
+        serializer: () => ({
+            header: "",
+            row: (row) => JSON.stringify(row) + "\n",
+        }),
+    },
+    sql: {
+        contentType: "application/sql; charset=utf-8",
+        extension: "sql",
+        serializer: (table, columns) => {
+            const prefix = `INSERT INTO ${quoteIdentifier(table)} (${columns.map(quoteIdentifier).join(", ")}) VALUES `;
+            return {
+                header: "",
+                row: (row) => `${prefix}(${columns.map((col) => sqlLiteral(row[col])).join(", ")});\n`,
+            };
+        },
+    },
+};
+
+export async function loader({ request, context }: LoaderFunctionArgs) {
+    const db = context.cloudflare.env.DB_APP;
+    const user = await requirePermission(request, db, "admin");
+    const url = new URL(request.url);
+    const table = url.searchParams.get("table") ?? "";
+    const formatName = url.searchParams.get("formato") ?? "csv";
+
+    const format = Object.hasOwn(formats, formatName) ? formats[formatName] : null;
+    if (!format) {
+        throw new Response("Formato inválido.", { status: 400, statusText: "Bad Request" });
+    }
+    if (!(await listTables(db)).includes(table)) {
+        throw new Response(`Tabela "${table}" não encontrada.`, { status: 404, statusText: "Not Found" });
+    }
+
+    const schema = await getTableSchema(db, table);
+    // Sem filtros na URL, parseGridState não restringe nada e a tabela sai inteira.
+    const state = parseGridState(url, schema);
+    const { header, row: formatRow } = format.serializer(table, schema.map((col) => col.name));
+
+    await recordAudit(db, request, {
+        actor: user,
+        action: "database.exportar",
+        table,
+        after: { formato: formatName, filtros: state.filters, ordem: state.sort && `${state.sort} ${state.dir}` },
+    });
+
+    const encoder = new TextEncoder();
+    // As linhas são lidas em blocos para não carregar a tabela inteira na memória do Worker.
+    let offset = 0;
+    const stream = new ReadableStream<Uint8Array>({
+        start(controller) {
+            if (header) controller.enqueue(encoder.encode(header));
+        },
+        async pull(controller) {
+            const rows = await queryRows(db, table, schema, state, CHUNK_SIZE, offset);
+            offset += rows.length;
+            controller.enqueue(encoder.encode(rows.map(formatRow).join("")));
+            if (rows.length < CHUNK_SIZE) {
+                controller.close();
+            }
+        },
+    });
+
+    const date = new Date().toISOString().slice(0, 10);
+    const fileName = `${table.replace(/[^\w.-]/g, "_")}-${date}.${format.extension}`;
+    return new Response(stream, {
+        headers: {
+            "Content-Type": format.contentType,
+            "Content-Disposition": `attachment; filename="${fileName}"`,
+        },
+    });
+}
@@ -0,0 +1,400 @@
+// File: app/routes/database.importar.tsx
+// Importação de CSV no Database Explorer: upload, mapeamento de colunas, prévia e inserção.
+import { Form, Link, useActionData, useLoaderData, useNavigation } from "react-router";
+import type { MetaFunction } from "react-router";
+import type { Route } from "./+types/database.importar";
+import { requirePermission } from "~/auth.server";
+import { validateCsrf } from "~/csrf.server";
+import { recordAudit } from "~/audit.server";
+import { parseCsvRecords } from "~/csv";
+import { getTableSchema, listTables, type TableSchema } from "~/database-explorer.server";
+import {
+  executeImport,
+  IMPORT_MAX_BYTES,
+  IMPORT_MAX_ROWS,
+  missingRequiredColumns,
+  parseMapping,
+  planImport,
+  suggestMapping,
+  type ColumnMapping,
+  type ImportReport,
+  type ImportRow,
+  type RejectedRow,
+} from "~/database-import.server";
+import { CsrfInput } from "~/components/csrf-input";
+import { getTranslator } from "~/i18n.server";
+import { metaTranslator, useTranslation } from "~/i18n";
+
+// Quantidade de linhas exibidas na prévia e no relatório.
+const PREVIEW_ROWS = 20;
+const REPORT_ROWS = 200;
+
+type ImportActionData =
+  | { step: "error"; error: string }
+  | {
+      step: "preview";
+      table: string;
+      schema: TableSchema[];
+      fileName: string;
+      csv: string;
+      headers: string[];
+      mapping: ColumnMapping;
+      missing: string[];
+      validCount: number;
+      validPreview: ImportRow[];
+      rejectedCount: number;
+      rejectedPreview: RejectedRow[];
+    }
+  | {
+      step: "report";
+      table: string;
+      fileName: string;
+      // Listas cortadas em REPORT_ROWS; as contagens são as totais.
+      report: ImportReport;
+      skippedCount: number;
+      failedCount: number;
+    };
+
+export const meta: MetaFunction = ({ matches }) => [{ title: metaTranslator(matches).t("database.import.meta.title") }];
+
+export async function loader({ request, context }: Route.LoaderArgs) {
+  const db = context.cloudflare.env.DB_APP;
+  await requirePermission(request, db, "admin");
+  return {
+    tables: await listTables(db),
+    selectedTable: new URL(request.url).searchParams.get("table"),
+    maxMegabytes: IMPORT_MAX_BYTES / 1024 / 1024,
+    maxRows: IMPORT_MAX_ROWS,
+  };
+}
+
+export async function action({ request, context }: Route.ActionArgs): Promise<ImportActionData> {
+  const db = context.cloudflare.env.DB_APP;
+  const user = await requirePermission(request, db, "admin");
+  const formData = await request.formData();
+  await validateCsrf(request, db, formData);
+  const { t } = await getTranslator(request, db);
+  const _action = formData.get("_action");
+  const table = String(formData.get("table") ?? "");
+
+  if (!(await listTables(db)).includes(table)) {
+    return { step: "error", error: t("database.tableNotFound", { table }) };
+  }
+  const schema = await getTableSchema(db, table);
+
+  // No upload o CSV vem do arquivo; nas etapas seguintes, do campo oculto do formulário.
+  let csv: string;
+  let fileName: string;
+  if (_action === "upload") {
+    const file = formData.get("arquivo");
+    if (!(file instanceof File) || file.size === 0) {
+      return { step: "error", error: t("database.import.error.noFile") };
+    }
+    if (file.size > IMPORT_MAX_BYTES) {
+      return { step: "error", error: t("database.import.error.tooLarge", { megabytes: IMPORT_MAX_BYTES / 1024 / 1024 }) };
+    }
+    csv = await file.text();
+    fileName = file.name;
+  } else {
+    csv = String(formData.get("csv") ?? "");
+    fileName = String(formData.get("fileName") ?? "");
+    // O campo oculto pode ser editado: o limite do upload vale também aqui.
+    if (new Blob([csv]).size > IMPORT_MAX_BYTES) {
+      return { step: "error", error: t("database.import.error.tooLarge", { megabytes: IMPORT_MAX_BYTES / 1024 / 1024 }) };
+    }
+  }
+
+  const [header, ...records] = parseCsvRecords(csv);
+  const headers = header?.fields ?? [];
+  if (headers.length === 0) {
+    return { step: "error", error: t("database.import.error.empty") };
+  }
+  if (records.length > IMPORT_MAX_ROWS) {
+    return { step: "error", error: t("database.import.error.tooManyRows", { count: records.length, max: IMPORT_MAX_ROWS }) };
+  }
+
+  const mapping = _action === "upload" ? suggestMapping(schema, headers) : parseMapping(formData, schema, headers.length);
+  const missing = missingRequiredColumns(schema, mapping);
+  const plan = missing.length === 0 && Object.keys(mapping).length > 0
+    ? await planImport(db, table, schema, records, mapping, { t })
+    : { columns: [], valid: [], rejected: [] };
+
+  if (_action === "import") {
+    if (missing.length > 0 || plan.valid.length === 0) {
+      return { step: "error", error: t("database.import.error.noValid") };
+    }
+    const report = await executeImport(db, table, plan);
+    await recordAudit(db, request, {
+      actor: user,
+      action: "database.importar",
+      table,
+      after: {
+        arquivo: fileName,
+        colunas: plan.columns,
+        inseridas: report.inserted,
+        ignoradas: report.skipped.length,
+        falhas: report.failed.length,
+      },
+    });
+    return {
+      step: "report",
+      table,
+      fileName,
+      report: { ...report, skipped: report.skipped.slice(0, REPORT_ROWS), failed: report.failed.slice(0, REPORT_ROWS) },
+      skippedCount: report.skipped.length,
+      failedCount: report.failed.length,
+    };
+  }
+
+  return {
+    step: "preview",
+    table,
+    schema,
+    fileName,
+    csv,
+    headers,
+    mapping,
+    missing,
+    validCount: plan.valid.length,
+    validPreview: plan.valid.slice(0, PREVIEW_ROWS),
+    rejectedCount: plan.rejected.length,
+    rejectedPreview: plan.rejected.slice(0, REPORT_ROWS),
+  };
+}
+
+const thClasses = "px-4 py-2 border-b-2 border-gray-200 dark:border-gray-700 bg-gray-100 dark:bg-gray-900 text-left text-xs font-semibold text-gray-600 dark:text-gray-300 uppercase tracking-wider";
+const tdClasses = "px-4 py-2 border-b border-gray-200 dark:border-gray-600 text-sm";
+const panelClasses = "bg-white dark:bg-gray-800 shadow-md rounded-lg overflow-hidden";
+const inputClasses = "px-3 py-2 text-sm bg-gray-50 border border-gray-300 rounded-md dark:bg-gray-900 dark:border-gray-600";
+
+export default function DatabaseImportPage() {
+  const { tables, selectedTable, maxMegabytes, maxRows } = useLoaderData() as Awaited<ReturnType<typeof loader>>;
+  const actionData = useActionData<typeof action>();
+  const navigation = useNavigation();
+  const isSubmitting = navigation.state === "submitting";
+  const currentTable = actionData && actionData.step !== "error" ? actionData.table : selectedTable;
+  const { t } = useTranslation();
+
+  return (
+    <main className="container mx-auto p-4 md:p-8 font-sans text-gray-800 dark:text-gray-100 space-y-8">
+      <header className="flex justify-between items-center">
+        <h1 className="text-3xl font-bold">{t("database.importCsv")}</h1>
+        <Link
+          to={currentTable ? `/database?table=${encodeURIComponent(currentTable)}` : "/database"}
+          className="px-4 py-2 text-sm font-medium text-white bg-gray-600 rounded-md hover:bg-gray-700"
+        >
+          {t("common.back")}
+        </Link>
+      </header>
+
+      <Form method="post" encType="multipart/form-data" className={`${panelClasses} p-4 flex flex-wrap items-end gap-4`}>
+        <CsrfInput />
+        <input type="hidden" name="_action" value="upload" />
+        <label className="text-sm font-medium">
+          {t("database.import.table")}
+          <select name="table" defaultValue={currentTable ?? ""} required className={`${inputClasses} block mt-1`}>
+            <option value="" disabled>{t("database.import.select")}</option>
+            {tables.map((table) => <option key={table} value={table}>{table}</option>)}
+          </select>
+        </label>
+        <label className="text-sm font-medium">
+          {t("database.import.file")}
+          <input type="file" name="arquivo" accept=".csv,text/csv" required className="block mt-1 text-sm" />
+        </label>
+        <button type="submit" disabled={isSubmitting} className="px-4 py-2 bg-blue-600 text-white text-sm font-medium rounded-md hover:bg-blue-700 disabled:opacity-50">
+          {t("database.import.upload")}
+        </button>
+        <p className="w-full text-xs text-gray-500 dark:text-gray-400">
+          {t("database.import.hint", { megabytes: maxMegabytes, rows: maxRows })}
+        </p>
+      </Form>
+
+      {actionData?.step === "error" && (
+        <div className="border-l-4 p-4 rounded-md bg-red-100 border-red-500 text-red-700 dark:bg-red-900/30 dark:text-red-300 dark:border-red-700" role="alert">
+          {actionData.error}
+        </div>
+      )}
+      {actionData?.step === "preview" && <ImportPreview data={actionData} isSubmitting={isSubmitting} />}
+      {actionData?.step === "report" && <ImportReportView data={actionData} />}
+    </main>
+  );
+}
+
+function ImportPreview({ data, isSubmitting }: { data: Extract<ImportActionData, { step: "preview" }>, isSubmitting: boolean }) {
+  const columns = data.schema.filter((col) => col.name in data.mapping).map((col) => col.name);
+  const { t } = useTranslation();
+
+  return (
+    // key: ao carregar outro arquivo, os selects voltam ao mapeamento sugerido.
+    <Form method="post" key={data.fileName + data.csv.length} className="space-y-8">
+      <CsrfInput />
+      <input type="hidden" name="table" value={data.table} />
+      <input type="hidden" name="fileName" value={data.fileName} />
+      <input type="hidden" name="csv" value={data.csv} />
+
+      <div className={panelClasses}>
+        <h3 className="text-lg font-semibold p-4 border-b dark:border-gray-700">
+          {t("database.import.mapping")} <span className="text-sm font-normal text-gray-500">({data.fileName} → {data.table})</span>
+        </h3>
+        <table className="min-w-full">
+          <thead>
+            <tr>
+              <th className={thClasses}>{t("database.import.tableColumn")}</th>
+              <th className={thClasses}>{t("database.schema.type")}</th>
+              <th className={thClasses}>{t("database.import.constraints")}</th>
+              <th className={thClasses}>{t("database.import.csvColumn")}</th>
+            </tr>
+          </thead>
+          <tbody>
+            {data.schema.map((col) => (
+              <tr key={col.name}>
+                <td className={`${tdClasses} font-mono`}>{col.name}</td>
+                <td className={`${tdClasses} font-mono`}>{col.type}</td>
+                <td className={tdClasses}>
+                  {[col.pk > 0 && "PK", col.notnull && "NOT NULL", col.dflt_value !== null && `DEFAULT ${col.dflt_value}`].filter(Boolean).join(" · ")}
+                </td>
+                <td className={tdClasses}>
+                  <select name={`map:${col.name}`} defaultValue={data.mapping[col.name] ?? ""} className={inputClasses}>
+                    <option value="">{t("database.import.skipColumn")}</option>
+                    {data.headers.map((header, index) => <option key={index} value={index}>{header}</option>)}
+                  </select>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+        {data.missing.length > 0 && (
+          <p className="p-4 text-sm text-red-600 dark:text-red-400" role="alert">
+            {t("database.import.missing", { columns: data.missing.join(", ") })}
+          </p>
+        )}
+        <div className="flex justify-end gap-2 p-4 border-t dark:border-gray-700">
+          <button type="submit" name="_action" value="preview" disabled={isSubmitting} className="px-4 py-2 text-sm font-medium bg-gray-200 rounded-md hover:bg-gray-300 dark:bg-gray-600 dark:hover:bg-gray-500 disabled:opacity-50">
+            {t("database.import.refreshPreview")}
+          </button>
+          <button
+            type="submit"
+            name="_action"
+            value="import"
+            disabled={isSubmitting || data.validCount === 0 || data.missing.length > 0}
+            onClick={(e) => !confirm(t("database.import.confirm", { count: data.validCount, table: data.table })) && e.preventDefault()}
+            className="px-4 py-2 text-sm font-medium text-white bg-green-600 rounded-md hover:bg-green-700 disabled:opacity-50"
+          >
+            {isSubmitting ? t("database.import.importing") : t("database.import.submit", { count: data.validCount })}
+          </button>
+        </div>
+      </div>
+
+      <div className={panelClasses}>
+        <h3 className="text-lg font-semibold p-4 border-b dark:border-gray-700">
+          {t("database.import.toInsert")}{" "}
+          <span className="text-sm font-normal text-gray-500">
+            ({data.validCount}{data.validCount > data.validPreview.length && t("database.import.showing", { count: data.validPreview.length })})
+          </span>
+        </h3>
+        {data.validPreview.length === 0 ? (
+          <p className="p-4 text-gray-500 dark:text-gray-400">{t("database.import.noValid")}</p>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="min-w-full">
+              <thead>
+                <tr>
+                  <th className={thClasses}>{t("database.import.line")}</th>
+                  {columns.map((name) => <th key={name} className={thClasses}>{name}</th>)}
+                </tr>
+              </thead>
+              <tbody>
+                {data.validPreview.map((row) => (
+                  <tr key={row.line}>
+                    <td className={tdClasses}>{row.line}</td>
+                    {columns.map((name) => (
+                      <td key={name} className={`${tdClasses} font-mono`}>{row.values[name] === null ? "NULL" : String(row.values[name])}</td>
+                    ))}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+
+      <RejectedRows title={t("database.import.rejected")} total={data.rejectedCount} rows={data.rejectedPreview} />
+    </Form>
+  );
+}
+
+function RejectedRows({ title, total, rows }: { title: string, total: number, rows: RejectedRow[] }) {
+  const { t } = useTranslation();
+  if (total === 0) return null;
+  return (
+    <div className={panelClasses}>
+      <h3 className="text-lg font-semibold p-4 border-b dark:border-gray-700 text-red-700 dark:text-red-400">
+        {title} <span className="text-sm font-normal text-gray-500">({total}{total > rows.length && t("database.import.showing", { count: rows.length })})</span>
+      </h3>
+      <table className="min-w-full">
+        <thead>
+          <tr>
+            <th className={thClasses}>{t("database.import.line")}</th>
+            <th className={thClasses}>{t("database.import.reasons")}</th>
+            <th className={thClasses}>{t("database.import.content")}</th>
+          </tr>
+        </thead>
+        <tbody>
+          {rows.map((row) => (
+            <tr key={row.line}>
+              <td className={tdClasses}>{row.line}</td>
+              <td className={tdClasses}>{row.reasons.join("; ")}</td>
+              <td className={`${tdClasses} font-mono text-xs break-all`}>{row.raw.join(" | ")}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+}
+
+function ImportReportView({ data }: { data: Extract<ImportActionData, { step: "report" }> }) {
+  const { report } = data;
+  const { t } = useTranslation();
+  return (
+    <div className="space-y-8">
+      <div className="border-l-4 p-4 rounded-md bg-green-100 border-green-500 text-green-700 dark:bg-green-900/30 dark:text-green-300 dark:border-green-700" role="status">
+        <p className="font-bold">{t("database.import.completed", { file: data.fileName, table: data.table })}</p>
+        <p>
+          {[
+            t("database.import.report.inserted", { count: report.inserted }),
+            t("database.import.report.skipped", { count: data.skippedCount }),
+            t("database.import.report.failed", { count: data.failedCount }),
+          ].join(" · ")}
+        </p>
+      </div>
+      <RejectedRows title={t("database.import.skipped")} total={data.skippedCount} rows={report.skipped} />
+      {data.failedCount > 0 && (
+        <div className={panelClasses}>
+          <h3 className="text-lg font-semibold p-4 border-b dark:border-gray-700 text-red-700 dark:text-red-400">
+            {t("database.import.failed")}{" "}
+            <span className="text-sm font-normal text-gray-500">
+              ({data.failedCount}{data.failedCount > report.failed.length && t("database.import.showing", { count: report.failed.length })})
+            </span>
+          </h3>
+          <table className="min-w-full">
+            <thead>
+              <tr>
+                <th className={thClasses}>{t("database.import.line")}</th>
+                <th className={thClasses}>{t("database.import.error")}</th>
+              </tr>
+            </thead>
+            <tbody>
+              {report.failed.map((failure) => (
+                <tr key={failure.line}>
+                  <td className={tdClasses}>{failure.line}</td>
+                  <td className={`${tdClasses} font-mono text-xs`}>{failure.reason}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+}
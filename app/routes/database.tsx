@@ -1,66 +1,92 @@
-import { Link, useLoaderData } from "react-router";
-import { useState } from "react";
+import { Form, Link, useActionData, useLoaderData, useNavigation, useSearchParams, useSubmit } from "react-router";
+import { useState, type ReactNode } from "react";
 import type { Route } from "./+types/database";
+import { hasPermission, requirePermission } from "~/auth.server";
+import { validateCsrf } from "~/csrf.server";
+import { recordAudit } from "~/audit.server";
+import { logError } from "~/request-context.server";
+import { CSRF_FIELD, CsrfInput, useCsrfToken } from "~/components/csrf-input";
+import { LanguageSwitcher } from "~/components/language-switcher";
+import { useTranslation, type MessageKey } from "~/i18n";
+import { getTranslator } from "~/i18n.server";
+import {
+  CONSOLE_ROW_LIMIT,
+  deleteRow,
+  getTableDetails,
+  getTableSchema,
+  insertRow,
+  listTables,
+  PAGE_SIZES,
+  parseColumnValue,
+  parseGridState,
+  queryGrid,
+  rowKeyColumns,
+  runConsoleQuery,
+  updateCell,
+  validateConsoleQuery,
+  type ColumnFilter,
+  type ColumnValue,
+  type FilterOperator,
+  type GridState,
+  type TableDetails,
+  type TableSchema,
+} from "~/database-explorer.server";
 
-// Extend Env type to include DB_APP
-declare global {
-  interface Env {
-    DB_APP: any; // Replace 'any' with the actual type if known (e.g., D1Database)
-  }
-}
-
-// Define the interface for table schema data
-interface TableSchema {
-  name: string;
-  type: string;
-  notnull: number;
-  pk: number;
-}
-
-// LOADER FUNCTION (SIMPLIFIED)
+// LOADER FUNCTION
 export async function loader({ request, context }: Route.LoaderArgs) {
   const db = context.cloudflare.env.DB_APP;
+  const user = await requirePermission(request, db, "database");
+  const isAdmin = await hasPermission(db, user.userId, "admin");
+  const { t } = await getTranslator(request, db);
   const url = new URL(request.url);
   const tableName = url.searchParams.get("table");
+  const tabParam = url.searchParams.get("tab");
+  const tab = tabParam === "console" || tabParam === "diagrama" ? tabParam : "tabelas";
 
   let tables: string[];
   try {
-    const tablesStmt = db.prepare(
-      "SELECT name FROM sqlite_master WHERE type='table' ORDER BY name"
-    );
-    const { results: tablesResults } = await tablesStmt.all() as { results: { name: string }[] };
-    tables = tablesResults ? tablesResults.map((row) => row.name) : [];
+    tables = await listTables(db);
   } catch (error) {
-    console.error("Database connection/query failed:", error);
+    logError("Falha ao listar tabelas", error);
     return {
       connection: "failed",
       tables: [],
-      error: error instanceof Error ? error.message : "An unknown error occurred.",
+      error: error instanceof Error ? error.message : t("database.unknownError"),
       selectedTable: null,
       schema: null,
       rows: null,
+      total: 0,
+      grid: null,
+      keyColumns: null,
+      details: null,
+      pageSizes: PAGE_SIZES,
+      tab,
+      consoleRowLimit: CONSOLE_ROW_LIMIT,
+      isAdmin,
     };
   }
 
   let schema: TableSchema[] | null = null;
   let rows: Record<string, unknown>[] | null = null;
+  let total = 0;
+  let grid: GridState | null = null;
+  let details: TableDetails | null = null;
   let queryError: string | null = null;
 
-  if (tableName) {
+  if (tableName && tab === "tabelas") {
     if (!tables.includes(tableName)) {
-      queryError = `Table "${tableName}" not found.`;
+      queryError = t("database.tableNotFound", { table: tableName });
     } else {
       try {
-        const schemaStmt = db.prepare(`PRAGMA table_info("${tableName}")`);
-        const { results: schemaResults } = await schemaStmt.all();
-        schema = schemaResults || [];
-
-        const rowsStmt = db.prepare(`SELECT * FROM "${tableName}" LIMIT 10`);
-        const { results: rowsResults } = await rowsStmt.all();
-        rows = (rowsResults as Record<string, unknown>[]) || [];
+        schema = await getTableSchema(db, tableName);
+        grid = parseGridState(url, schema);
+        [{ rows, total }, details] = await Promise.all([
+          queryGrid(db, tableName, schema, grid),
+          getTableDetails(db, tableName),
+        ]);
       } catch (e) {
-        queryError = e instanceof Error ? e.message : "An unknown error occurred while querying the table.";
-        console.error(`Error fetching data for table '${tableName}':`, e);
+        queryError = e instanceof Error ? e.message : t("database.tableQueryError");
+        logError("Falha ao consultar tabela", e, { table: tableName });
       }
     }
   }
@@ -72,28 +98,160 @@ export async function loader({ request, context }: Route.LoaderArgs) {
     selectedTable: tableName,
     schema,
     rows,
+    total,
+    grid,
+    keyColumns: schema && rowKeyColumns(schema),
+    details,
+    pageSizes: PAGE_SIZES,
+    tab,
+    consoleRowLimit: CONSOLE_ROW_LIMIT,
+    isAdmin,
   };
 }
 
+// ACTION FUNCTION (CONSOLE SQL E EDIÇÃO DE LINHAS)
+export async function action({ request, context }: Route.ActionArgs) {
+  const db = context.cloudflare.env.DB_APP;
+  const formData = await request.formData();
+  const _action = formData.get("_action");
+  // O console exige o módulo "database"; alterações de dados, somente administradores.
+  // A permissão é conferida antes do CSRF, para envios anônimos não irem para a auditoria.
+  const user = await requirePermission(request, db, _action === "console" ? "database" : "admin");
+  await validateCsrf(request, db, formData);
+  const { t } = await getTranslator(request, db);
+
+  if (_action === "console") {
+    const sql = String(formData.get("sql") ?? "");
+    const validation = validateConsoleQuery(sql);
+    if ("error" in validation) {
+      return { kind: "console" as const, sql, result: null, error: t(validation.error.key, validation.error.params) };
+    }
+    await recordAudit(db, request, {
+      actor: user,
+      action: "database.consulta",
+      after: { sql: validation.sql },
+    });
+    try {
+      return { kind: "console" as const, sql, result: await runConsoleQuery(db, validation.kind, validation.sql), error: null };
+    } catch (e) {
+      logError("Falha no console SQL", e);
+      return { kind: "console" as const, sql, result: null, error: e instanceof Error ? e.message : t("database.console.failed") };
+    }
+  }
+
+  const table = String(formData.get("table") ?? "");
+  const rowResult = (message: string | null, error: string | null = null) => ({ kind: "row" as const, message, error });
+  if (!(await listTables(db)).includes(table)) {
+    return rowResult(null, t("database.tableNotFound", { table }));
+  }
+  const schema = await getTableSchema(db, table);
+
+  try {
+    switch (_action) {
+      case "update-cell": {
+        const key = JSON.parse(String(formData.get("key")));
+        const original = JSON.parse(String(formData.get("original")));
+        const column = schema.find((col) => col.name === formData.get("column"));
+        if (!column) return rowResult(null, t("database.row.invalidColumn"));
+        const parsed = formData.get("isNull") === "1"
+          ? { value: null }
+          : parseColumnValue(column, String(formData.get("value") ?? ""));
+        if ("error" in parsed) return rowResult(null, t(parsed.error.key, parsed.error.params));
+        if (parsed.value === null && column.notnull) return rowResult(null, t("database.row.required", { column: column.name }));
+
+        if (!(await updateCell(db, table, schema, key, original, column.name, parsed.value))) {
+          return rowResult(null, t("database.row.conflict"));
+        }
+        await recordAudit(db, request, {
+          actor: user,
+          action: "database.editar",
+          table,
+          recordId: JSON.stringify(key),
+          before: { [column.name]: original[column.name] },
+          after: { [column.name]: parsed.value },
+        });
+        return rowResult(t("database.row.updated", { column: column.name }));
+      }
+      case "delete-row": {
+        const key = JSON.parse(String(formData.get("key")));
+        const original = JSON.parse(String(formData.get("original")));
+        if (!(await deleteRow(db, table, schema, key, original))) {
+          return rowResult(null, t("database.row.conflict"));
+        }
+        await recordAudit(db, request, {
+          actor: user,
+          action: "database.excluir",
+          table,
+          recordId: JSON.stringify(key),
+          before: original,
+        });
+        return rowResult(t("database.row.deleted"));
+      }
+      case "insert-row": {
+        // Campos vazios são omitidos: a coluna recebe o valor padrão (ou o próximo rowid).
+        const values: Record<string, ColumnValue> = {};
+        for (const col of schema) {
+          const text = String(formData.get(`col:${col.name}`) ?? "");
+          if (formData.get(`null:${col.name}`) === "1") {
+            values[col.name] = null;
+          } else if (text !== "") {
+            const parsed = parseColumnValue(col, text);
+            if ("error" in parsed) return rowResult(null, t(parsed.error.key, parsed.error.params));
+            values[col.name] = parsed.value;
+          }
+        }
+        const rowId = await insertRow(db, table, values);
+        await recordAudit(db, request, {
+          actor: user,
+          action: "database.inserir",
+          table,
+          recordId: rowId,
+          after: values,
+        });
+        return rowResult(t("database.row.inserted"));
+      }
+      default:
+        return rowResult(null, t("database.row.invalidAction"));
+    }
+  } catch (e) {
+    logError("Falha ao alterar registro", e);
+    return rowResult(null, e instanceof Error ? e.message : t("database.row.failed"));
+  }
+}
+
 export default function DatabaseExplorer() {
-  const { connection, tables, error, selectedTable, schema, rows } =
+  const { connection, tables, error, selectedTable, schema, rows, total, grid, keyColumns, details, pageSizes, tab, consoleRowLimit, isAdmin } =
     useLoaderData() as Awaited<ReturnType<typeof loader>>;
+  const actionData = useActionData<typeof action>();
+  const rowFeedback = actionData?.kind === "row" ? actionData : null;
+  const { t } = useTranslation();
 
   return (
     <main className="container mx-auto p-4 md:p-8 font-sans text-gray-800 dark:text-gray-100">
-      <h1 className="text-3xl font-bold mb-6">Database Explorer</h1>
+      <header className="flex justify-between items-center mb-6">
+        <h1 className="text-3xl font-bold">{t("database.title")}</h1>
+        <LanguageSwitcher />
+      </header>
+
+      <nav className="flex space-x-2 mb-6 border-b dark:border-gray-700">
+        <TabLink to={selectedTable ? `/database?table=${encodeURIComponent(selectedTable)}` : "/database"} isActive={tab === "tabelas"}>
+          {t("database.tab.tables")}
+        </TabLink>
+        <TabLink to="/database?tab=console" isActive={tab === "console"}>{t("database.tab.console")}</TabLink>
+        <TabLink to="/database?tab=diagrama" isActive={tab === "diagrama"}>{t("database.tab.diagram")}</TabLink>
+      </nav>
 
       {connection === "failed" && (
-        <StatusMessage type="error" title="Connection Failed." message={error || ""} />
+        <StatusMessage type="error" title={t("database.connectionFailed")} message={error || ""} />
       )}
       {error && connection === "success" && (
-        <StatusMessage type="error" title="Query Error" message={error} />
+        <StatusMessage type="error" title={t("database.queryError")} message={error} />
       )}
 
       <div className="md:grid md:grid-cols-12 md:gap-8">
         <aside className="md:col-span-3 mb-8 md:mb-0">
           <h2 className="text-xl font-semibold mb-4 border-b pb-2 dark:border-gray-600">
-            Tabelas
+            {t("database.tab.tables")}
           </h2>
           <nav className="flex flex-col space-y-1">
             {tables && tables.length > 0 ? (
@@ -106,23 +264,48 @@ export default function DatabaseExplorer() {
               ))
             ) : (
               <p className="text-gray-500 dark:text-gray-400 italic">
-                Nenhuma tabela encontrada.
+                {t("database.noTables")}
               </p>
             )}
           </nav>
         </aside>
 
         <div className="md:col-span-9">
-          {!selectedTable ? (
+          {tab === "console" ? (
+            <SqlConsole rowLimit={consoleRowLimit} />
+          ) : tab === "diagrama" ? (
+            <ErDiagram />
+          ) : !selectedTable ? (
             <div className="flex items-center justify-center h-64 bg-gray-50 dark:bg-gray-800 rounded-lg">
               <p className="text-gray-500 dark:text-gray-400">
-                Selecione uma tabela à esquerda para ver os detalhes.
+                {t("database.selectTable")}
               </p>
             </div>
           ) : (
             <div className="space-y-8">
               <SchemaTable schema={schema} />
-              <DataTable schema={schema} rows={rows} />
+              <SchemaDetails details={details} />
+              {rowFeedback?.message && <StatusMessage type="success" title={t("database.changeSaved")} message={rowFeedback.message} />}
+              {rowFeedback?.error && <StatusMessage type="error" title={t("database.changeFailed")} message={rowFeedback.error} />}
+              <DataTable
+                columns={schema?.map((col) => col.name) ?? null}
+                rows={rows}
+                title={<>{t("database.data")} <span className="text-sm font-normal text-gray-500 dark:text-gray-400">({t("database.records", { count: total })})</span></>}
+                grid={grid && { state: grid, total, pageSizes }}
+                actions={isAdmin && (
+                  <>
+                    <Link
+                      to={`/database/importar?table=${encodeURIComponent(selectedTable)}`}
+                      className="inline-flex items-center px-4 py-2 bg-blue-600 text-white text-sm font-medium rounded-md hover:bg-blue-700"
+                    >
+                      {t("database.importCsv")}
+                    </Link>
+                    <ExportMenu hasFilters={(grid?.filters.length ?? 0) > 0} />
+                  </>
+                )}
+                editable={isAdmin && schema && keyColumns ? { table: selectedTable, schema, keyColumns } : null}
+              />
+              {isAdmin && schema && <NewRowForm table={selectedTable} schema={schema} />}
             </div>
           )}
         </div>
@@ -147,6 +330,139 @@ function StatusMessage({ type, title, message }: { type: 'success' | 'error', ti
   );
 }
 
+const EXPORT_FORMATS = [
+  { value: "csv", label: "CSV" },
+  { value: "ndjson", label: "NDJSON" },
+  { value: "sql", label: "SQL (INSERT)" },
+];
+
+// Exporta a tabela inteira ou a visão atual (filtros e ordenação da URL).
+function ExportMenu({ hasFilters }: { hasFilters: boolean }) {
+  const [searchParams] = useSearchParams();
+  const { t } = useTranslation();
+
+  const exportLink = (format: string, currentView: boolean) => {
+    const params = currentView ? new URLSearchParams(searchParams) : new URLSearchParams({ table: searchParams.get("table") ?? "" });
+    params.delete("page");
+    params.delete("pageSize");
+    params.set("formato", format);
+    return `/database/exportar?${params.toString()}`;
+  };
+
+  return (
+    <details className="relative">
+      <summary className="list-none cursor-pointer inline-flex items-center px-4 py-2 bg-green-600 text-white text-sm font-medium rounded-md hover:bg-green-700">
+        {t("database.export")}
+      </summary>
+      <div className="absolute right-0 z-10 mt-2 w-56 p-2 bg-white border rounded-md shadow-lg dark:bg-gray-800 dark:border-gray-700 text-sm">
+        {[false, ...(hasFilters ? [true] : [])].map((currentView) => (
+          <div key={String(currentView)} className="py-1">
+            <p className="px-2 text-xs font-semibold text-gray-500 uppercase dark:text-gray-400">
+              {currentView ? t("database.export.filtered") : t("database.export.all")}
+            </p>
+            {EXPORT_FORMATS.map((format) => (
+              // reloadDocument: é um download, não uma navegação do React Router.
+              <Link
+                key={format.value}
+                to={exportLink(format.value, currentView)}
+                reloadDocument
+                className="block px-2 py-1 rounded hover:bg-gray-100 dark:hover:bg-gray-700"
+              >
+                {format.label}
+              </Link>
+            ))}
+          </div>
+        ))}
+      </div>
+    </details>
+  );
+}
+
+function TabLink({ to, isActive, children }: { to: string; isActive: boolean; children: ReactNode }) {
+  return (
+    <Link
+      to={to}
+      className={`px-4 py-2 -mb-px border-b-2 ${isActive ? "border-blue-600 text-blue-700 dark:text-blue-300 font-semibold" : "border-transparent hover:text-blue-600"}`}
+    >
+      {children}
+    </Link>
+  );
+}
+
+function SqlConsole({ rowLimit }: { rowLimit: number }) {
+  const data = useActionData<typeof action>();
+  const actionData = data?.kind === "console" ? data : undefined;
+  const navigation = useNavigation();
+  const isRunning = navigation.state === "submitting";
+  const result = actionData?.result;
+  const { t, formatNumber } = useTranslation();
+
+  return (
+    <div className="space-y-8">
+      <Form method="post" className="bg-white dark:bg-gray-800 shadow-md rounded-lg p-4 space-y-3">
+        <CsrfInput />
+        <input type="hidden" name="_action" value="console" />
+        <label htmlFor="sql" className="block text-sm font-medium">
+          {t("database.console.label", { limit: rowLimit })}
+        </label>
+        <textarea
+          id="sql"
+          name="sql"
+          rows={6}
+          required
+          spellCheck={false}
+          defaultValue={actionData?.sql ?? "SELECT name FROM sqlite_master WHERE type = 'table';"}
+          onKeyDown={(e) => {
+            // Ctrl+Enter executa a consulta.
+            if (e.key === "Enter" && (e.ctrlKey || e.metaKey)) e.currentTarget.form?.requestSubmit();
+          }}
+          className="w-full p-3 font-mono text-sm bg-gray-50 border border-gray-300 rounded-md dark:bg-gray-900 dark:border-gray-600"
+        />
+        <div className="flex justify-between items-center">
+          <span className="text-xs text-gray-500 dark:text-gray-400">{t("database.console.shortcut")}</span>
+          <button type="submit" disabled={isRunning} className="px-4 py-2 bg-blue-600 text-white text-sm font-medium rounded-md hover:bg-blue-700 disabled:opacity-50">
+            {isRunning ? t("database.console.running") : t("database.console.run")}
+          </button>
+        </div>
+      </Form>
+
+      {actionData?.error && <StatusMessage type="error" title={t("database.queryError")} message={actionData.error} />}
+
+      {result && (
+        <>
+          <DataTable
+            columns={result.columns}
+            rows={result.rows}
+            title={
+              <>
+                {t("database.console.result")}{" "}
+                <span className="text-sm font-normal text-gray-500 dark:text-gray-400">
+                  ({t("database.console.rows", { count: result.rows.length })}
+                  {result.truncated && `, ${t("database.console.truncated", { limit: rowLimit })}`}
+                  {result.durationMs !== null && ` · ${formatNumber(result.durationMs, { minimumFractionDigits: 2, maximumFractionDigits: 2 })} ms`}
+                  {result.rowsRead !== null && ` · ${t("database.console.rowsRead", { count: result.rowsRead })}`})
+                </span>
+              </>
+            }
+          />
+          {result.plan.length > 0 && (
+            <div className="bg-white dark:bg-gray-800 shadow-md rounded-lg overflow-hidden">
+              <h3 className="text-lg font-semibold p-4 border-b dark:border-gray-700">{t("database.console.plan")}</h3>
+              <ul className="p-4 font-mono text-sm space-y-1">
+                {result.plan.map((step, index) => (
+                  <li key={index} style={{ paddingLeft: `${step.depth * 1.5}rem` }}>
+                    {step.depth > 0 && "└ "}{step.detail}
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
+
 function TableLink({ tableName, isActive }: { tableName: string; isActive: boolean }) {
   const baseClasses = "block w-full text-left px-4 py-2 rounded-md transition-colors duration-150";
   const activeClasses = "bg-blue-100 dark:bg-blue-900 text-blue-700 dark:text-blue-200 font-semibold";
@@ -154,7 +470,7 @@ function TableLink({ tableName, isActive }: { tableName: string; isActive: boole
 
   return (
     <Link
-      to={`/database?table=${tableName}`}
+      to={`/database?table=${encodeURIComponent(tableName)}`}
       className={`${baseClasses} ${isActive ? activeClasses : inactiveClasses}`}
     >
       {tableName}
@@ -162,18 +478,21 @@ function TableLink({ tableName, isActive }: { tableName: string; isActive: boole
   );
 }
 
+const SCHEMA_HEADERS: MessageKey[] = ["database.schema.column", "database.schema.type", "database.schema.notNull", "database.schema.primaryKey"];
+
 function SchemaTable({ schema }: { schema: TableSchema[] | null }) {
+  const { t } = useTranslation();
   if (!schema) return null;
   return (
     <div className="bg-white dark:bg-gray-800 shadow-md rounded-lg overflow-hidden">
-      <h3 className="text-lg font-semibold p-4 border-b dark:border-gray-700">Esquema da Tabela</h3>
+      <h3 className="text-lg font-semibold p-4 border-b dark:border-gray-700">{t("database.schema.title")}</h3>
       <div className="overflow-x-auto">
         <table className="min-w-full leading-normal">
           <thead>
             <tr>
-              {['Coluna', 'Tipo', 'Não Nulo', 'Chave Primária'].map((header) => (
+              {SCHEMA_HEADERS.map((header) => (
                 <th key={header} className="px-5 py-3 border-b-2 border-gray-200 dark:border-gray-700 bg-gray-100 dark:bg-gray-900 text-left text-xs font-semibold text-gray-600 dark:text-gray-300 uppercase tracking-wider">
-                  {header}
+                  {t(header)}
                 </th>
               ))}
             </tr>
@@ -183,8 +502,8 @@ function SchemaTable({ schema }: { schema: TableSchema[] | null }) {
               <tr key={col.name}>
                 <td className="px-5 py-3 border-b border-gray-200 dark:border-gray-600 text-sm font-mono">{col.name}</td>
                 <td className="px-5 py-3 border-b border-gray-200 dark:border-gray-600 text-sm font-mono">{col.type}</td>
-                <td className="px-5 py-3 border-b border-gray-200 dark:border-gray-600 text-sm text-center">{col.notnull ? 'Sim' : 'Não'}</td>
-                <td className="px-5 py-3 border-b border-gray-200 dark:border-gray-600 text-sm text-center">{col.pk ? 'Sim' : 'Não'}</td>
+                <td className="px-5 py-3 border-b border-gray-200 dark:border-gray-600 text-sm text-center">{col.notnull ? t("common.yes") : t("common.no")}</td>
+                <td className="px-5 py-3 border-b border-gray-200 dark:border-gray-600 text-sm text-center">{col.pk ? t("common.yes") : t("common.no")}</td>
               </tr>
             ))}
           </tbody>
@@ -194,53 +513,242 @@ function SchemaTable({ schema }: { schema: TableSchema[] | null }) {
   );
 }
 
-function DataTable({ schema, rows }: { schema: TableSchema[] | null, rows: Record<string, unknown>[] | null }) {
+function DetailsPanel({ title, count, children }: { title: string, count?: number, children: ReactNode }) {
+  return (
+    <details className="bg-white dark:bg-gray-800 shadow-md rounded-lg overflow-hidden">
+      <summary className="cursor-pointer text-lg font-semibold p-4">
+        {title}
+        {count !== undefined && <span className="ml-2 text-sm font-normal text-gray-500 dark:text-gray-400">({count})</span>}
+      </summary>
+      <div className="border-t dark:border-gray-700 overflow-x-auto">{children}</div>
+    </details>
+  );
+}
+
+function SqlBlock({ sql }: { sql: string | null }) {
+  return (
+    <pre className="bg-gray-100 dark:bg-gray-900 p-4 text-sm whitespace-pre-wrap break-all">
+      <code>{sql ?? "—"}</code>
+    </pre>
+  );
+}
+
+function DetailsTable({ headers, rows }: { headers: string[], rows: ReactNode[][] }) {
+  const { t } = useTranslation();
+  if (rows.length === 0) {
+    return <p className="p-4 text-gray-500 dark:text-gray-400">{t("common.none")}</p>;
+  }
+  return (
+    <table className="min-w-full leading-normal">
+      <thead>
+        <tr>
+          {headers.map((header) => <th key={header} className={thClasses}>{header}</th>)}
+        </tr>
+      </thead>
+      <tbody>
+        {rows.map((cells, rowIndex) => (
+          <tr key={rowIndex}>
+            {cells.map((cell, cellIndex) => (
+              <td key={cellIndex} className="px-5 py-3 border-b border-gray-200 dark:border-gray-600 text-sm font-mono">{cell}</td>
+            ))}
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  );
+}
+
+const INDEX_ORIGINS: Record<string, string> = { c: "CREATE INDEX", u: "UNIQUE", pk: "PRIMARY KEY" };
+
+// Índices, chaves estrangeiras, gatilhos, visões e a instrução CREATE da tabela.
+function SchemaDetails({ details }: { details: TableDetails | null }) {
+  const { t } = useTranslation();
+  if (!details) return null;
+  return (
+    <div className="space-y-4">
+      <DetailsPanel title={t("database.details.indexes")} count={details.indexes.length}>
+        <DetailsTable
+          headers={[t("database.details.name"), t("database.details.columns"), t("database.details.unique"), t("database.details.origin")]}
+          rows={details.indexes.map((index) => [
+            index.name,
+            index.columns.join(", "),
+            index.unique ? t("common.yes") : t("common.no"),
+            `${INDEX_ORIGINS[index.origin] ?? index.origin}${index.partial ? ` ${t("database.details.partial")}` : ""}`,
+          ])}
+        />
+      </DetailsPanel>
+      <DetailsPanel title={t("database.details.foreignKeys")} count={details.foreignKeys.length}>
+        <DetailsTable
+          headers={[t("database.schema.column"), t("database.details.reference"), "ON UPDATE", "ON DELETE"]}
+          rows={details.foreignKeys.map((fk) => [
+            fk.from,
+            <Link key={fk.table} to={`/database?table=${encodeURIComponent(fk.table)}`} className="text-blue-600 hover:underline dark:text-blue-400">
+              {fk.table}.{fk.to ?? t("database.details.primaryKeyRef")}
+            </Link>,
+            fk.on_update,
+            fk.on_delete,
+          ])}
+        />
+      </DetailsPanel>
+      <DetailsPanel title={t("database.details.triggers")} count={details.triggers.length}>
+        {details.triggers.length === 0
+          ? <DetailsTable headers={[]} rows={[]} />
+          : details.triggers.map((trigger) => <SqlBlock key={trigger.name} sql={trigger.sql} />)}
+      </DetailsPanel>
+      <DetailsPanel title={t("database.details.views")} count={details.views.length}>
+        {details.views.length === 0
+          ? <DetailsTable headers={[]} rows={[]} />
+          : details.views.map((view) => <SqlBlock key={view.name} sql={view.sql} />)}
+      </DetailsPanel>
+      <DetailsPanel title={t("database.details.createSql")}>
+        <SqlBlock sql={details.createSql} />
+      </DetailsPanel>
+    </div>
+  );
+}
+
+function ErDiagram() {
+  const { t } = useTranslation();
+  return (
+    <div className="bg-white dark:bg-gray-800 shadow-md rounded-lg overflow-hidden">
+      <div className="flex justify-between items-center p-4 border-b dark:border-gray-700">
+        <h3 className="text-lg font-semibold">{t("database.diagram.title")}</h3>
+        <a href="/database/diagrama.svg" target="_blank" rel="noreferrer" className="text-sm text-blue-600 hover:underline dark:text-blue-400">
+          {t("database.diagram.openSvg")}
+        </a>
+      </div>
+      <p className="px-4 pt-4 text-xs text-gray-500 dark:text-gray-400">
+        {t("database.diagram.legend")}
+      </p>
+      <div className="p-4 overflow-auto">
+        <img src="/database/diagrama.svg" alt={t("database.diagram.alt")} className="max-w-none" />
+      </div>
+    </div>
+  );
+}
+
+const FILTER_LABELS: Record<FilterOperator, MessageKey> = {
+  eq: "database.filter.eq",
+  contains: "database.filter.contains",
+  null: "database.filter.null",
+  notnull: "database.filter.notnull",
+  range: "database.filter.range",
+};
+
+const thClasses = "px-5 py-3 border-b-2 border-gray-200 dark:border-gray-700 bg-gray-100 dark:bg-gray-900 text-left text-xs font-semibold text-gray-600 dark:text-gray-300 uppercase tracking-wider";
+const filterInputClasses = "w-full min-w-24 px-2 py-1 text-xs font-normal normal-case bg-white border border-gray-300 rounded dark:bg-gray-700 dark:border-gray-600 dark:text-white";
+const pagerLinkClasses = "px-3 py-1 border rounded-md dark:border-gray-600 hover:bg-gray-100 dark:hover:bg-gray-700";
+
+// Monta a URL da página atual alterando apenas os parâmetros informados (null remove).
+function useGridLink() {
+  const [searchParams] = useSearchParams();
+  return (changes: Record<string, string | number | null>) => {
+    const params = new URLSearchParams(searchParams);
+    for (const [key, value] of Object.entries(changes)) {
+      if (value === null) params.delete(key);
+      else params.set(key, String(value));
+    }
+    return `?${params.toString()}`;
+  };
+}
+
+interface GridView {
+  state: GridState;
+  total: number;
+  pageSizes: number[];
+}
+
+// Sem "grid", exibe apenas as linhas recebidas (ex.: resultado do console SQL).
+interface EditableTable {
+  table: string;
+  schema: TableSchema[];
+  keyColumns: string[];
+}
+
+function DataTable({ columns, rows, title, grid, actions, editable }: {
+  columns: string[] | null,
+  rows: Record<string, unknown>[] | null,
+  title: ReactNode,
+  grid?: GridView | null,
+  actions?: ReactNode,
+  // Com "editable", as células podem ser editadas (duplo clique) e as linhas excluídas.
+  editable?: EditableTable | null,
+}) {
   const [isJsonVisible, setIsJsonVisible] = useState(false);
+  const { t } = useTranslation();
 
-  if (!schema || !rows) return null;
+  if (!columns || !rows) return null;
 
-  const headers = schema.map(col => col.name);
+  const table = (
+    <div className="overflow-x-auto">
+      <table className="min-w-full leading-normal">
+        <thead>
+          <tr>
+            {columns.map((header) => (
+              <th key={header} className={thClasses}>
+                {grid ? <SortLink column={header} state={grid.state} /> : header}
+              </th>
+            ))}
+            {editable && <th className={thClasses}></th>}
+          </tr>
+          {grid && (
+            <tr>
+              {columns.map((header) => (
+                <th key={header} className="px-2 py-2 border-b border-gray-200 dark:border-gray-700 bg-gray-50 dark:bg-gray-900/50 align-top">
+                  <FilterCell column={header} filter={grid.state.filters.find((filter) => filter.column === header)} />
+                </th>
+              ))}
+              {editable && <th className="border-b border-gray-200 dark:border-gray-700 bg-gray-50 dark:bg-gray-900/50"></th>}
+            </tr>
+          )}
+        </thead>
+        <tbody>
+          {rows.length === 0 && (
+            <tr>
+              <td colSpan={Math.max(columns.length + (editable ? 1 : 0), 1)} className="p-4 text-gray-500 dark:text-gray-400">
+                {grid && grid.state.filters.length > 0 ? t("database.grid.noMatches") : t("database.grid.empty")}
+              </td>
+            </tr>
+          )}
+          {rows.map((row, rowIndex) => (
+            <tr key={rowIndex} className="hover:bg-gray-50 dark:hover:bg-gray-700/50">
+              {columns.map((header, colIndex) => (
+                <td key={colIndex} className="px-5 py-3 border-b border-gray-200 dark:border-gray-600 text-sm font-mono whitespace-pre-wrap break-all">
+                  {editable ? (
+                    <EditableCell editable={editable} row={row} column={header} />
+                  ) : (
+                    String(row[header] === null ? 'NULL' : row[header])
+                  )}
+                </td>
+              ))}
+              {editable && (
+                <td className="px-5 py-3 border-b border-gray-200 dark:border-gray-600 text-sm text-right">
+                  <DeleteRowButton editable={editable} row={row} />
+                </td>
+              )}
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
 
   return (
     <>
       <div className="bg-white dark:bg-gray-800 shadow-md rounded-lg overflow-hidden">
           <div className="flex justify-between items-center p-4 border-b dark:border-gray-700">
-              <h3 className="text-lg font-semibold">Amostra de Dados (Primeiros 10 Registros)</h3>
-              <button
-                  onClick={() => setIsJsonVisible(true)}
-                  className="inline-flex items-center px-4 py-2 bg-gray-600 text-white text-sm font-medium rounded-md hover:bg-gray-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-gray-500 transition-colors"
-              >
-                  Exibir JSON
-              </button>
+              <h3 className="text-lg font-semibold">{title}</h3>
+              <div className="flex items-center gap-2">
+                {actions}
+                <button
+                    onClick={() => setIsJsonVisible(true)}
+                    className="inline-flex items-center px-4 py-2 bg-gray-600 text-white text-sm font-medium rounded-md hover:bg-gray-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-gray-500 transition-colors"
+                >
+                    {t("database.json.show")}
+                </button>
+              </div>
           </div>
-        {rows.length === 0 ? (
-           <p className="p-4 text-gray-500 dark:text-gray-400">Nenhum registro encontrado nesta tabela.</p>
-        ) : (
-          <div className="overflow-x-auto">
-            <table className="min-w-full leading-normal">
-              <thead>
-                <tr>
-                  {headers.map((header) => (
-                     <th key={header} className="px-5 py-3 border-b-2 border-gray-200 dark:border-gray-700 bg-gray-100 dark:bg-gray-900 text-left text-xs font-semibold text-gray-600 dark:text-gray-300 uppercase tracking-wider">
-                      {header}
-                    </th>
-                  ))}
-                </tr>
-              </thead>
-              <tbody>
-                {rows.map((row, rowIndex) => (
-                  <tr key={rowIndex} className="hover:bg-gray-50 dark:hover:bg-gray-700/50">
-                    {headers.map((header, colIndex) => (
-                      <td key={colIndex} className="px-5 py-3 border-b border-gray-200 dark:border-gray-600 text-sm font-mono whitespace-pre-wrap break-all">
-                        {String(row[header] === null ? 'NULL' : row[header])}
-                      </td>
-                    ))}
-                  </tr>
-                ))}
-              </tbody>
-            </table>
-          </div>
-        )}
+          {grid ? <GridForm grid={grid}>{table}</GridForm> : table}
       </div>
       <JsonViewerModal 
         isVisible={isJsonVisible} 
@@ -251,9 +759,247 @@ function DataTable({ schema, rows }: { schema: TableSchema[] | null, rows: Recor
   );
 }
 
+// Chave que identifica a linha e valores lidos na tela, usados na checagem de concorrência.
+function rowIdentity(editable: EditableTable, row: Record<string, unknown>) {
+  const key = Object.fromEntries(editable.keyColumns.map((name) => [name, row[name]]));
+  const original = Object.fromEntries(editable.schema.map((col) => [col.name, row[col.name]]));
+  return { table: editable.table, key: JSON.stringify(key), original: JSON.stringify(original) };
+}
+
+// As células ficam dentro do formulário de filtros (GET), então a edição é enviada com
+// useSubmit em vez de um <Form> aninhado.
+function EditableCell({ editable, row, column }: { editable: EditableTable, row: Record<string, unknown>, column: string }) {
+  const submit = useSubmit();
+  const csrfToken = useCsrfToken();
+  const [isEditing, setIsEditing] = useState(false);
+  const [value, setValue] = useState("");
+  const [isNull, setIsNull] = useState(false);
+  const { t } = useTranslation();
+  const current = row[column];
+  // BLOBs não são editáveis.
+  const canEdit = current === null || typeof current !== "object";
+
+  const startEditing = () => {
+    if (!canEdit) return;
+    setValue(current === null ? "" : String(current));
+    setIsNull(current === null);
+    setIsEditing(true);
+  };
+
+  const save = () => {
+    const display = isNull ? "NULL" : `"${value}"`;
+    if (!confirm(t("database.edit.confirm", { column, value: display }))) return;
+    submit(
+      { _action: "update-cell", [CSRF_FIELD]: csrfToken, ...rowIdentity(editable, row), column, value, isNull: isNull ? "1" : "0" },
+      { method: "post" }
+    );
+    setIsEditing(false);
+  };
+
+  if (!isEditing) {
+    return (
+      <span onDoubleClick={startEditing} title={canEdit ? t("database.edit.hint") : undefined} className={canEdit ? "cursor-text" : undefined}>
+        {String(current === null ? 'NULL' : current)}
+      </span>
+    );
+  }
+
+  return (
+    <div className="flex flex-col gap-1 min-w-40">
+      <input
+        autoFocus
+        value={value}
+        disabled={isNull}
+        onChange={(e) => setValue(e.target.value)}
+        onKeyDown={(e) => {
+          // Enter enviaria o formulário de filtros.
+          if (e.key === "Enter") {
+            e.preventDefault();
+            save();
+          } else if (e.key === "Escape") {
+            setIsEditing(false);
+          }
+        }}
+        className={filterInputClasses}
+      />
+      <div className="flex items-center gap-2 text-xs font-sans">
+        <label className="inline-flex items-center gap-1">
+          <input type="checkbox" checked={isNull} onChange={(e) => setIsNull(e.target.checked)} /> NULL
+        </label>
+        <button type="button" onClick={save} className="text-blue-600 hover:underline dark:text-blue-400">{t("common.save")}</button>
+        <button type="button" onClick={() => setIsEditing(false)} className="text-gray-500 hover:underline">{t("common.cancel")}</button>
+      </div>
+    </div>
+  );
+}
+
+function DeleteRowButton({ editable, row }: { editable: EditableTable, row: Record<string, unknown> }) {
+  const submit = useSubmit();
+  const csrfToken = useCsrfToken();
+  const { t } = useTranslation();
+  const describeKey = editable.keyColumns.map((name) => `${name} = ${String(row[name])}`).join(", ");
+  return (
+    <button
+      type="button"
+      onClick={() => confirm(t("database.row.confirmDelete", { key: describeKey })) && submit({ _action: "delete-row", [CSRF_FIELD]: csrfToken, ...rowIdentity(editable, row) }, { method: "post" })}
+      className="text-red-500 hover:text-red-700 dark:text-red-400 dark:hover:text-red-300"
+    >
+      {t("common.delete")}
+    </button>
+  );
+}
+
+// Formulário de inclusão gerado a partir do esquema da tabela.
+function NewRowForm({ table, schema }: { table: string, schema: TableSchema[] }) {
+  const { t } = useTranslation();
+  return (
+    <details className="bg-white dark:bg-gray-800 shadow-md rounded-lg overflow-hidden">
+      <summary className="cursor-pointer text-lg font-semibold p-4">{t("database.newRow.title")}</summary>
+      <Form
+        method="post"
+        onSubmit={(e) => !confirm(t("database.newRow.confirm", { table })) && e.preventDefault()}
+        className="p-4 border-t dark:border-gray-700 space-y-3"
+      >
+        <CsrfInput />
+        <input type="hidden" name="_action" value="insert-row" />
+        <input type="hidden" name="table" value={table} />
+        <p className="text-xs text-gray-500 dark:text-gray-400">
+          {t("database.newRow.hint")}
+        </p>
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          {schema.map((col) => (
+            <label key={col.name} className="text-sm">
+              <span className="font-mono font-medium">{col.name}</span>{" "}
+              <span className="text-xs text-gray-500 dark:text-gray-400">
+                {[col.type || "ANY", col.pk > 0 && "PK", col.notnull && "NOT NULL", col.dflt_value !== null && `DEFAULT ${col.dflt_value}`].filter(Boolean).join(" · ")}
+              </span>
+              <input
+                name={`col:${col.name}`}
+                inputMode={/INT|REAL|FLOA|DOUB|NUM|DEC/i.test(col.type) ? "decimal" : undefined}
+                required={Boolean(col.notnull) && col.dflt_value === null && col.pk === 0}
+                className="w-full mt-1 px-3 py-2 text-sm font-mono bg-gray-50 border border-gray-300 rounded-md dark:bg-gray-900 dark:border-gray-600"
+              />
+              {!col.notnull && (
+                <span className="inline-flex items-center gap-1 mt-1 text-xs">
+                  <input type="checkbox" name={`null:${col.name}`} value="1" /> NULL
+                </span>
+              )}
+            </label>
+          ))}
+        </div>
+        <div className="flex justify-end">
+          <button type="submit" className="px-4 py-2 bg-green-600 text-white text-sm font-medium rounded-md hover:bg-green-700">
+            {t("database.newRow.submit")}
+          </button>
+        </div>
+      </Form>
+    </details>
+  );
+}
+
+// Clicar na coluna ordenada inverte a direção; em outra coluna, começa ascendente.
+function SortLink({ column, state }: { column: string, state: GridState }) {
+  const gridLink = useGridLink();
+  return (
+    <Link
+      to={gridLink({ sort: column, dir: state.sort === column && state.dir === "asc" ? "desc" : "asc", page: null })}
+      className="inline-flex items-center gap-1 hover:text-blue-600 dark:hover:text-blue-400"
+    >
+      {column}
+      {state.sort === column && <span aria-hidden>{state.dir === "asc" ? "▲" : "▼"}</span>}
+    </Link>
+  );
+}
+
+function GridForm({ grid, children }: { grid: GridView, children: ReactNode }) {
+  const [searchParams] = useSearchParams();
+  const gridLink = useGridLink();
+  const { state, total, pageSizes } = grid;
+  const { t } = useTranslation();
+  const totalPages = Math.max(1, Math.ceil(total / state.pageSize));
+  const firstRow = total === 0 ? 0 : (state.page - 1) * state.pageSize + 1;
+  const lastRow = Math.min(total, state.page * state.pageSize);
+
+  return (
+    // Os filtros são enviados por GET para ficarem na URL junto com ordenação e tamanho da página.
+    <Form method="get" key={searchParams.toString()}>
+      <input type="hidden" name="table" value={searchParams.get("table") ?? ""} />
+      {state.sort && <input type="hidden" name="sort" value={state.sort} />}
+      {state.sort && <input type="hidden" name="dir" value={state.dir} />}
+      <input type="hidden" name="pageSize" value={state.pageSize} />
+      {children}
+      <div className="flex flex-wrap justify-between items-center gap-4 p-4 border-t dark:border-gray-700 text-sm">
+        <div className="flex items-center gap-2">
+          <button type="submit" className="px-3 py-1 bg-blue-600 text-white rounded-md hover:bg-blue-700">{t("database.filter.apply")}</button>
+          {state.filters.length > 0 && (
+            <Link to={`?table=${encodeURIComponent(searchParams.get("table") ?? "")}`} className="px-3 py-1 text-gray-600 hover:underline dark:text-gray-300">
+              {t("database.filter.clear")}
+            </Link>
+          )}
+        </div>
+        <div className="flex items-center gap-2">
+          <span className="text-gray-600 dark:text-gray-300">{t("database.grid.perPage")}</span>
+          {pageSizes.map((size) => (
+            <Link
+              key={size}
+              to={gridLink({ pageSize: size, page: null })}
+              className={size === state.pageSize ? "font-semibold text-blue-600 dark:text-blue-400" : "hover:underline"}
+            >
+              {size}
+            </Link>
+          ))}
+        </div>
+        <div className="flex items-center gap-2">
+          <span className="text-gray-600 dark:text-gray-300">
+            {t("database.grid.range", { first: firstRow, last: lastRow, total, page: state.page, pages: totalPages })}
+          </span>
+          {state.page > 1 && <Link to={gridLink({ page: state.page - 1 })} className={pagerLinkClasses}>{t("database.grid.previous")}</Link>}
+          {state.page < totalPages && <Link to={gridLink({ page: state.page + 1 })} className={pagerLinkClasses}>{t("database.grid.next")}</Link>}
+        </div>
+      </div>
+    </Form>
+  );
+}
+
+function FilterCell({ column, filter }: { column: string, filter: ColumnFilter | undefined }) {
+  const [op, setOp] = useState<FilterOperator | "">(filter?.op ?? "");
+  const needsValue = op === "eq" || op === "contains" || op === "range";
+  const { t } = useTranslation();
+
+  return (
+    <div className="flex flex-col gap-1">
+      <select
+        // Sem operador, o campo fica sem name e não polui a URL.
+        name={op ? `op:${column}` : undefined}
+        value={op}
+        onChange={(e) => setOp(e.target.value as FilterOperator | "")}
+        className={filterInputClasses}
+        aria-label={t("database.filter.label", { column })}
+      >
+        <option value="">—</option>
+        {(Object.keys(FILTER_LABELS) as FilterOperator[]).map((key) => (
+          <option key={key} value={key}>{t(FILTER_LABELS[key])}</option>
+        ))}
+      </select>
+      {needsValue && (
+        <input
+          name={`v:${column}`}
+          defaultValue={filter?.value}
+          placeholder={op === "range" ? t("database.filter.from") : t("database.filter.value")}
+          className={filterInputClasses}
+        />
+      )}
+      {op === "range" && (
+        <input name={`v2:${column}`} defaultValue={filter?.value2} placeholder={t("database.filter.to")} className={filterInputClasses} />
+      )}
+    </div>
+  );
+}
+
 function JsonViewerModal({ isVisible, onClose, data }: { isVisible: boolean, onClose: () => void, data: Record<string, unknown>[] | null }) {
-  const [copyButtonText, setCopyButtonText] = useState("Copiar JSON");
-  
+  const { t } = useTranslation();
+  const [copyButtonText, setCopyButtonText] = useState(t("database.json.copy"));
+
   if (!isVisible || !data) return null;
 
   const jsonString = JSON.stringify(data, null, 2);
@@ -269,12 +1015,12 @@ function JsonViewerModal({ isVisible, onClose, data }: { isVisible: boolean, onC
     textArea.select();
     try {
       document.execCommand('copy');
-      setCopyButtonText("Copiado!");
-      setTimeout(() => setCopyButtonText("Copiar JSON"), 2000);
+      setCopyButtonText(t("database.json.copied"));
+      setTimeout(() => setCopyButtonText(t("database.json.copy")), 2000);
     } catch (err) {
       console.error('Failed to copy text: ', err);
-      setCopyButtonText("Falhou!");
-      setTimeout(() => setCopyButtonText("Copiar JSON"), 2000);
+      setCopyButtonText(t("database.json.copyFailed"));
+      setTimeout(() => setCopyButtonText(t("database.json.copy")), 2000);
     }
     document.body.removeChild(textArea);
   };
@@ -283,7 +1029,7 @@ function JsonViewerModal({ isVisible, onClose, data }: { isVisible: boolean, onC
     <div className="fixed inset-0 bg-black bg-opacity-50 z-50 flex justify-center items-center p-4">
       <div className="bg-white dark:bg-gray-800 rounded-lg shadow-xl w-full max-w-2xl max-h-[80vh] flex flex-col">
         <div className="flex justify-between items-center p-4 border-b dark:border-gray-700">
-          <h3 className="text-lg font-semibold">Visualizador de JSON</h3>
+          <h3 className="text-lg font-semibold">{t("database.json.title")}</h3>
           <button onClick={onClose} className="text-gray-400 hover:text-gray-600 dark:hover:text-gray-200">&times;</button>
         </div>
         <div className="p-4 overflow-y-auto">
@@ -296,7 +1042,7 @@ function JsonViewerModal({ isVisible, onClose, data }: { isVisible: boolean, onC
             {copyButtonText}
           </button>
           <button onClick={onClose} className="px-4 py-2 bg-gray-200 dark:bg-gray-600 text-gray-800 dark:text-gray-200 rounded-md hover:bg-gray-300 dark:hover:bg-gray-500 transition-colors text-sm">
-            Fechar
+            {t("common.close")}
           </button>
         </div>
       </div>
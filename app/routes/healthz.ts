@@ -0,0 +1,34 @@
+// File: app/routes/healthz.ts
+// Rota de recurso para monitoramento: faz uma consulta ao D1 e informa a versão publicada do
+// Worker. É pública e não expõe detalhes do erro (ficam no log, com o id da requisição).
+import type { LoaderFunctionArgs } from "react-router";
+import type { D1Database } from "@cloudflare/workers-types";
+import { logError } from "~/request-context.server";
+
+export async function loader({ context }: LoaderFunctionArgs) {
+    const { env } = context.cloudflare;
+    const version = env.CF_VERSION_METADATA
+        ? { id: env.CF_VERSION_METADATA.id, tag: env.CF_VERSION_METADATA.tag || null, timestamp: env.CF_VERSION_METADATA.timestamp || null }
+        : null;
+
+    const db: D1Database = env.DB_APP;
+    const start = Date.now();
+    let database: { ok: boolean; latencyMs: number };
+    try {
+        const row = await db.prepare("SELECT 1 AS ok").first<{ ok: number }>();
+        database = { ok: row?.ok === 1, latencyMs: Date.now() - start };
+    } catch (error) {
+        logError("Falha no health check do D1", error);
+        database = { ok: false, latencyMs: Date.now() - start };
+    }
+
+    return Response.json(
+        {
+            status: database.ok ? "ok" : "error",
+            requestId: context.requestContext.requestId,
+            version,
+            checks: { d1: database },
+        },
+        { status: database.ok ? 200 : 503, headers: { "Cache-Control": "no-store" } }
+    );
+}
@@ -0,0 +1,49 @@
+// File: app/routes/idioma.ts
+// Destino do seletor de idioma. O cookie vale para qualquer visitante; com usuário logado,
+// a escolha também fica gravada no cadastro e na sessão atual.
+import { redirect } from "react-router";
+import type { ActionFunctionArgs } from "react-router";
+import { isLocale } from "~/i18n";
+import { localeCookie } from "~/i18n.server";
+import { getSessionStorage } from "~/session.server";
+import { UsuarioRepo } from "~/repositories.server";
+import { validateCsrf } from "~/csrf.server";
+
+// Só aceita caminhos internos, para o formulário não virar um redirecionamento aberto. O
+// caminho é resolvido como o navegador faria ("/\site" vira "//site") e precisa ficar na
+// mesma origem.
+function safeRedirect(request: Request, value: FormDataEntryValue | null) {
+  const path = typeof value === "string" ? value : "";
+  if (!path.startsWith("/")) return "/";
+  const base = new URL(request.url);
+  const target = new URL(path, base);
+  return target.origin === base.origin ? `${target.pathname}${target.search}${target.hash}` : "/";
+}
+
+export async function loader() {
+  return redirect("/");
+}
+
+export async function action({ request, context }: ActionFunctionArgs) {
+  const db = context.cloudflare.env.DB_APP;
+  const formData = await request.formData();
+  await validateCsrf(request, db, formData);
+  const locale = formData.get("locale");
+  if (!isLocale(locale)) {
+    throw new Response("Idioma inválido.", { status: 400, statusText: "Bad Request" });
+  }
+
+  const headers = new Headers();
+  headers.append("Set-Cookie", await localeCookie.serialize(locale));
+
+  const { getSession, commitSession } = getSessionStorage(db);
+  const session = await getSession(request.headers.get("Cookie"));
+  const userId = session.get("userId");
+  if (userId) {
+    await UsuarioRepo.setLocale(db, userId, locale);
+    session.set("locale", locale);
+    headers.append("Set-Cookie", await commitSession(session));
+  }
+
+  return redirect(safeRedirect(request, formData.get("redirectTo")), { headers });
+}
@@ -1,38 +1,26 @@
 // File: app/routes/index.tsx
-import { Form, useLoaderData } from "react-router";
+import { Form, Link, useLoaderData } from "react-router";
 import type { LoaderFunctionArgs, MetaFunction } from "react-router";
-import { getSession, requireUserId } from "~/auth.server";
+import { hasPermission, requireUser } from "~/auth.server";
+import { CsrfInput } from "~/components/csrf-input";
+import { LanguageSwitcher } from "~/components/language-switcher";
+import { metaTranslator, useTranslation } from "~/i18n";
+import { getModuleDefinition, modulePath, type ModuleRow } from "~/modules";
+import { ModuloRepo } from "~/repositories.server";
 
-// ... (interface AppModule e meta function permanecem as mesmas) ...
-interface AppModule {
-  id_modulo: number;
-  ds_modulo: string;
-}
+type AppModule = ModuleRow;
 
-export const meta: MetaFunction = () => [{ title: "Página Inicial - RENOVAAPP" }];
+export const meta: MetaFunction = ({ matches }) => [{ title: metaTranslator(matches).t("index.meta.title") }];
 
 export async function loader({ request, context }: LoaderFunctionArgs) {
-  await requireUserId(request); // Protege a rota
-  const session = await getSession(request.headers.get("Cookie"));
-
-  const userName = session.get("userName") || "Usuário";
-  const userProfile = session.get("userProfile");
-
-  // ... (a lógica do banco de dados permanece a mesma) ...
   const db = context.cloudflare.env.DB_APP;
-  const stmt = db.prepare(
-    `SELECT m.id_modulo, m.ds_modulo FROM tb_modulo m
-     JOIN tb_permissao p ON m.id_modulo = p.id_modulo
-     JOIN tb_usuario u ON p.id_perfil = u.tb_perfil_idtb_perfil
-     WHERE u.idtb_usuario = ? AND m.tipo_modulo = 'app'`
-  ).bind(session.get("userId"));
-  
-  const { results } = await stmt.all();
-  const appModules = (results || []) as AppModule[];
+  const { userId, userName } = await requireUser(request, db); // Protege a rota
+
+  const appModules = await ModuloRepo.listAppModulesForUser(db, userId);
 
   return {
     userName,
-    isAdmin: userProfile === "Administrador",
+    isAdmin: await hasPermission(db, userId, "admin"),
     appModules,
   };
 }
@@ -40,23 +28,41 @@ export async function loader({ request, context }: LoaderFunctionArgs) {
 export default function Index() {
     // This type inference will now work correctly
     const { userName, isAdmin, appModules } = useLoaderData() as Awaited<ReturnType<typeof loader>>;
+    const { t } = useTranslation();
 
     return (
         <div className="container mx-auto p-8 dark:bg-gray-900 min-h-screen">
             <header className="flex justify-between items-center mb-8">
                 <div>
-                    <h1 className="text-2xl font-bold text-gray-800 dark:text-white">Seja Bem Vindo</h1>
+                    <h1 className="text-2xl font-bold text-gray-800 dark:text-white">{t("index.welcome")}</h1>
                     <p className="text-gray-600 dark:text-gray-300">{userName}</p>
+                    <p className="text-sm text-gray-500 dark:text-gray-400">{t("index.modules", { count: appModules.length })}</p>
                 </div>
                 <div className="flex items-center space-x-4">
+                    <LanguageSwitcher />
                     {isAdmin && (
                         <a href="/admin" className="px-4 py-2 text-sm font-medium text-white bg-gray-600 rounded-md hover:bg-gray-700">
-                            Painel Admin
+                            {t("index.adminPanel")}
                         </a>
                     )}
+                    <Link to="/conta/senha" className="px-4 py-2 text-sm font-medium text-gray-700 bg-gray-200 rounded-md hover:bg-gray-300 dark:text-gray-200 dark:bg-gray-700 dark:hover:bg-gray-600">
+                        {t("index.changePassword")}
+                    </Link>
+                    <Link to="/conta/sessoes" className="px-4 py-2 text-sm font-medium text-gray-700 bg-gray-200 rounded-md hover:bg-gray-300 dark:text-gray-200 dark:bg-gray-700 dark:hover:bg-gray-600">
+                        {t("index.sessions")}
+                    </Link>
+                    <Link to="/conta/2fa" className="px-4 py-2 text-sm font-medium text-gray-700 bg-gray-200 rounded-md hover:bg-gray-300 dark:text-gray-200 dark:bg-gray-700 dark:hover:bg-gray-600">
+                        {t("index.twoFactor")}
+                    </Link>
+                    {isAdmin && (
+                        <Link to="/conta/tokens" className="px-4 py-2 text-sm font-medium text-gray-700 bg-gray-200 rounded-md hover:bg-gray-300 dark:text-gray-200 dark:bg-gray-700 dark:hover:bg-gray-600">
+                            {t("index.apiTokens")}
+                        </Link>
+                    )}
                     <Form action="/logout" method="post">
+                        <CsrfInput />
                         <button type="submit" className="px-4 py-2 text-sm font-medium text-white bg-red-600 rounded-md hover:bg-red-700">
-                            Sair
+                            {t("index.logout")}
                         </button>
                     </Form>
                 </div>
@@ -64,24 +70,22 @@ export default function Index() {
 
             <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4 gap-6">
                 {appModules.map((mod: AppModule) => (
-                    <ModuleCard key={mod.id_modulo} title={mod.ds_modulo} />
+                    <ModuleCard key={mod.id_modulo} module={mod} />
                 ))}
             </div>
         </div>
     );
 }
 
-function ModuleCard({ title }: { title: string }) {
-    // Placeholder icon - you can replace this with specific icons per module
-    const icon = (
-        <svg className="w-16 h-16 mb-4 text-blue-500" fill="none" stroke="currentColor" viewBox="0 0 24 24" xmlns="http://www.w3.org/2000/svg"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M4 6a2 2 0 012-2h2a2 2 0 012 2v2a2 2 0 01-2 2H6a2 2 0 01-2-2V6zM14 6a2 2 0 012-2h2a2 2 0 012 2v2a2 2 0 01-2 2h-2a2 2 0 01-2-2V6zM4 16a2 2 0 012-2h2a2 2 0 012 2v2a2 2 0 01-2 2H6a2 2 0 01-2-2v-2zM14 16a2 2 0 012-2h2a2 2 0 012 2v2a2 2 0 01-2 2h-2a2 2 0 01-2-2v-2z"></path></svg>
-    );
+function ModuleCard({ module }: { module: AppModule }) {
+    const { icon, description } = getModuleDefinition(module);
+    const { t } = useTranslation();
 
     return (
-        <div className="p-6 bg-white dark:bg-gray-800 rounded-lg shadow-md hover:shadow-lg transition-shadow cursor-pointer flex flex-col items-center text-center">
+        <Link to={modulePath(module)} className="p-6 bg-white dark:bg-gray-800 rounded-lg shadow-md hover:shadow-lg transition-shadow cursor-pointer flex flex-col items-center text-center">
             {icon}
-            <h3 className="text-lg font-semibold text-gray-900 dark:text-white mt-4">{title}</h3>
-        </div>
+            <h3 className="text-lg font-semibold text-gray-900 dark:text-white mt-4">{module.ds_modulo}</h3>
+            {description && <p className="mt-2 text-sm text-gray-600 dark:text-gray-300">{t(description)}</p>}
+        </Link>
     );
 }
-
@@ -0,0 +1,91 @@
+// File: app/routes/login.2fa.tsx
+// Segunda etapa do login, para usuários com verificação em duas etapas ativa. Só é acessível
+// com o login pendente gravado por login() após a senha correta.
+import { Form, Link, useActionData, useNavigation } from "react-router";
+import type { ActionFunctionArgs, LoaderFunctionArgs, MetaFunction } from "react-router";
+import { redirect } from "react-router";
+import { getPendingLogin, getSessionStorage, verifyLoginCode, type LoginFailure } from "~/auth.server";
+import { validateCsrf } from "~/csrf.server";
+import { CsrfInput } from "~/components/csrf-input";
+import { LanguageSwitcher } from "~/components/language-switcher";
+import { LoginErrorAlert } from "~/components/login-error";
+import { metaTranslator, useTranslation } from "~/i18n";
+
+export const meta: MetaFunction = ({ matches }) => [{ title: metaTranslator(matches).t("login2fa.meta.title") }];
+
+export async function loader({ request, context }: LoaderFunctionArgs) {
+  const session = await getSessionStorage(context.cloudflare.env.DB_APP).getSession(request.headers.get("Cookie"));
+  if (session.has("userId")) {
+    return redirect("/");
+  }
+  if (!(await getPendingLogin(request))) {
+    return redirect("/login");
+  }
+  return null;
+}
+
+type LoginCodeActionData = LoginFailure | null;
+
+export async function action({ request, context }: ActionFunctionArgs): Promise<LoginCodeActionData> {
+  const db = context.cloudflare.env.DB_APP;
+  const formData = await request.formData();
+  await validateCsrf(request, db, formData);
+  const response = await verifyLoginCode(request, db, String(formData.get("codigo") ?? ""));
+  // Código aceito devolve o redirect com o cookie de sessão, como no login com senha.
+  if (response.status >= 300 && response.status < 400) {
+    throw response;
+  }
+  return (await response.json()) as LoginCodeActionData;
+}
+
+export default function LoginCodePage() {
+  const actionData = useActionData<typeof action>();
+  const navigation = useNavigation();
+  const isSubmitting = navigation.state === "submitting";
+  const { t } = useTranslation();
+
+  return (
+    <div className="flex items-center justify-center min-h-screen bg-gray-50 dark:bg-gray-900">
+      <div className="w-full max-w-md p-8 space-y-6 bg-white rounded-lg shadow-md dark:bg-gray-800">
+        <h1 className="text-2xl font-bold text-center text-gray-900 dark:text-white">
+          {t("login2fa.title")}
+        </h1>
+        <p className="text-center text-gray-600 dark:text-gray-300">
+          {t("login2fa.instructions")}
+        </p>
+        <Form method="post" className="space-y-6">
+          <CsrfInput />
+          <div>
+            <label htmlFor="codigo" className="block text-sm font-medium text-gray-700 dark:text-gray-200">
+              {t("login2fa.code")}
+            </label>
+            <input
+              id="codigo"
+              name="codigo"
+              type="text"
+              inputMode="numeric"
+              autoComplete="one-time-code"
+              autoFocus
+              required
+              maxLength={20}
+              className="w-full px-3 py-2 mt-1 font-mono tracking-widest text-gray-900 bg-gray-100 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500 dark:bg-gray-700 dark:text-white dark:border-gray-600"
+            />
+            <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">{t("login2fa.recoveryHint")}</p>
+          </div>
+          {actionData && "error" in actionData && <LoginErrorAlert failure={actionData} />}
+          <button
+            type="submit"
+            disabled={isSubmitting}
+            className="w-full px-4 py-2 text-sm font-medium text-white bg-blue-600 rounded-md hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 disabled:opacity-50"
+          >
+            {isSubmitting ? t("login2fa.submitting") : t("login2fa.submit")}
+          </button>
+        </Form>
+        <p className="text-center">
+          <Link to="/login" className="text-sm text-gray-600 hover:underline dark:text-gray-300">{t("login2fa.restart")}</Link>
+        </p>
+        <LanguageSwitcher className="justify-center" />
+      </div>
+    </div>
+  );
+}
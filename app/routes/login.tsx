@@ -1,30 +1,40 @@
 // File: app/routes/login.tsx
 import { Form, useActionData, useNavigation } from "react-router";
 import type { ActionFunctionArgs, MetaFunction, LoaderFunctionArgs } from "react-router";
-import { getSession } from "~/auth.server";
-import { login } from "~/auth.server";
+import { getSessionStorage, login, type LoginFailure } from "~/auth.server";
+import { validateCsrf } from "~/csrf.server";
+import { CsrfInput } from "~/components/csrf-input";
+import { LanguageSwitcher } from "~/components/language-switcher";
+import { LoginErrorAlert } from "~/components/login-error";
+import { metaTranslator, useTranslation } from "~/i18n";
 // Utilitários agnósticos de runtime agora vêm de 'react-router'
 import { redirect } from "react-router";
 
-export const meta: MetaFunction = () => [{ title: "Login - RENOVAAPP" }];
+export const meta: MetaFunction = ({ matches }) => [{ title: metaTranslator(matches).t("login.meta.title") }];
 
-export async function loader({ request }: LoaderFunctionArgs) {
-  const session = await getSession(request.headers.get("Cookie"));
+export async function loader({ request, context }: LoaderFunctionArgs) {
+  const session = await getSessionStorage(context.cloudflare.env.DB_APP).getSession(request.headers.get("Cookie"));
   if (session.has("userId")) {
     return redirect("/");
   }
   return null;
 }
 
-type LoginActionData = { error?: string } | null;
+type LoginActionData = LoginFailure | null;
 
 export async function action({ request, context }: ActionFunctionArgs): Promise<LoginActionData> {
+  const db = context.cloudflare.env.DB_APP;
   const formData = await request.formData();
+  await validateCsrf(request, db, formData);
   const matricula = formData.get("matricula") as string;
   const senha = formData.get("senha") as string;
   
   // Assume login returns TypedResponse<{ error?: string }> or null
-  const response = await login(context.cloudflare.env.DB_APP, matricula, senha);
+  const response = await login(request, db, matricula, senha);
+  // Login bem-sucedido devolve um redirect (com o cookie de sessão), que não tem corpo JSON.
+  if (response.status >= 300 && response.status < 400) {
+    throw response;
+  }
   if (response && typeof response.json === "function") {
     const data = await response.json();
     return data as LoginActionData;
@@ -32,12 +42,12 @@ export async function action({ request, context }: ActionFunctionArgs): Promise<
   return null;
 }
 
-
 // Login form component
 export default function LoginPage() {
   const actionData = useActionData<typeof action>();
   const navigation = useNavigation();
   const isSubmitting = navigation.state === "submitting";
+  const { t } = useTranslation();
 
   return (
     <div className="flex items-center justify-center min-h-screen bg-gray-50 dark:bg-gray-900">
@@ -46,15 +56,16 @@ export default function LoginPage() {
           RENOVAAPP-V4
         </h1>
         <p className="text-center text-gray-600 dark:text-gray-300">
-          Acesse sua conta para continuar
+          {t("login.subtitle")}
         </p>
         <Form method="post" className="space-y-6">
+          <CsrfInput />
           <div>
             <label
               htmlFor="matricula"
               className="block text-sm font-medium text-gray-700 dark:text-gray-200"
             >
-              Matrícula
+              {t("login.matricula")}
             </label>
             <input
               id="matricula"
@@ -69,7 +80,7 @@ export default function LoginPage() {
               htmlFor="senha"
               className="block text-sm font-medium text-gray-700 dark:text-gray-200"
             >
-              Senha
+              {t("login.password")}
             </label>
             <input
               id="senha"
@@ -80,19 +91,16 @@ export default function LoginPage() {
             />
           </div>
           {/* This type guard ensures actionData and actionData.error exist before access */}
-          {actionData && "error" in actionData && (
-            <p className="text-sm text-red-500" role="alert">
-              {actionData.error as string}
-            </p>
-          )}
+          {actionData && "error" in actionData && <LoginErrorAlert failure={actionData} />}
           <button
             type="submit"
             disabled={isSubmitting}
             className="w-full px-4 py-2 text-sm font-medium text-white bg-blue-600 rounded-md hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 disabled:opacity-50"
           >
-            {isSubmitting ? "Entrando..." : "Entrar"}
+            {isSubmitting ? t("login.submitting") : t("login.submit")}
           </button>
         </Form>
+        <LanguageSwitcher className="justify-center" />
       </div>
     </div>
   );
@@ -3,10 +3,25 @@ import type { ActionFunctionArgs } from "react-router";
 // Utilitários agnósticos de runtime agora vêm de 'react-router'
 import { redirect } from "react-router";
 // Correção: Importando as funções do novo arquivo de autenticação
-import { destroySession, getSession } from "~/auth.server";
+import { getSessionStorage } from "~/auth.server";
+import { recordAudit } from "~/audit.server";
+import { validateCsrf } from "~/csrf.server";
 
-export async function action({ request }: ActionFunctionArgs) {
+export async function action({ request, context }: ActionFunctionArgs) {
+  const db = context.cloudflare.env.DB_APP;
+  // Um POST sem corpo não tem formulário para ler, mas ainda deve cair na checagem de CSRF.
+  const formData = await request.formData().catch(() => new FormData());
+  await validateCsrf(request, db, formData);
+  const { getSession, destroySession } = getSessionStorage(db);
   const session = await getSession(request.headers.get("Cookie"));
+  if (session.has("userId")) {
+    await recordAudit(db, request, {
+      actor: { userId: session.get("userId"), userName: session.get("userName") },
+      action: "logout",
+      table: "tb_usuario",
+      recordId: session.get("userId"),
+    });
+  }
   return redirect("/login", {
     headers: {
       "Set-Cookie": await destroySession(session),
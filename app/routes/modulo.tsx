@@ -0,0 +1,72 @@
+// File: app/routes/modulo.tsx
+import { isRouteErrorResponse, Link, useLoaderData, useRouteError } from "react-router";
+import type { LoaderFunctionArgs, MetaFunction } from "react-router";
+import { requirePermission, requireUser } from "~/auth.server";
+import { getModuleDefinition } from "~/modules";
+import { metaTranslator, useTranslation } from "~/i18n";
+import { ModuloRepo } from "~/repositories.server";
+
+export const meta: MetaFunction<typeof loader> = ({ data, matches }) => [
+    { title: `${data?.module.ds_modulo ?? metaTranslator(matches).t("module.fallbackTitle")} - RENOVAAPP` },
+];
+
+export async function loader({ request, params, context }: LoaderFunctionArgs) {
+    const db = context.cloudflare.env.DB_APP;
+    await requireUser(request, db);
+    const moduleId = params.moduleId ?? "";
+
+    // O parâmetro é o slug do módulo ou, para módulos sem slug, o id numérico (ver modulePath).
+    const module = await ModuloRepo.findAppModule(db, moduleId);
+    if (!module) {
+        throw new Response("Not Found", { status: 404 });
+    }
+
+    // Só entra no módulo quem tem uma linha em tb_permissao para o seu perfil.
+    await requirePermission(request, db, module.id_modulo);
+
+    return { module };
+}
+
+export default function ModulePage() {
+    const { module } = useLoaderData() as Awaited<ReturnType<typeof loader>>;
+    const { icon, description } = getModuleDefinition(module);
+    const { t } = useTranslation();
+
+    return (
+        <div className="container mx-auto p-8 dark:bg-gray-900 min-h-screen">
+            <header className="flex justify-between items-center mb-8">
+                <div className="flex items-center space-x-4">
+                    {icon}
+                    <div>
+                        <h1 className="text-2xl font-bold text-gray-800 dark:text-white">{module.ds_modulo}</h1>
+                        {description && <p className="text-gray-600 dark:text-gray-300">{t(description)}</p>}
+                    </div>
+                </div>
+                <Link to="/" className="px-4 py-2 text-sm font-medium text-white bg-gray-600 rounded-md hover:bg-gray-700">
+                    {t("common.back")}
+                </Link>
+            </header>
+            <div className="flex items-center justify-center h-64 bg-gray-50 dark:bg-gray-800 rounded-lg">
+                <p className="text-gray-500 dark:text-gray-400">{t("module.empty")}</p>
+            </div>
+        </div>
+    );
+}
+
+export function ErrorBoundary() {
+    const error = useRouteError();
+    const { t } = useTranslation();
+    const status = isRouteErrorResponse(error) ? error.status : 500;
+    const message =
+        status === 403 ? t("module.error.forbidden") :
+        status === 404 ? t("module.error.notFound") :
+        t("module.error.loadFailed");
+
+    return (
+        <main className="container mx-auto p-8 text-center">
+            <h1 className="text-2xl font-bold mb-4 text-gray-800 dark:text-white">{status === 403 ? t("module.error.forbiddenTitle") : t("error.generic")}</h1>
+            <p className="mb-6 text-gray-600 dark:text-gray-300">{message}</p>
+            <Link to="/" className="text-blue-600 hover:underline dark:text-blue-400">{t("module.error.home")}</Link>
+        </main>
+    );
+}
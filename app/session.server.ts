@@ -0,0 +1,148 @@
+// File: app/session.server.ts
+// Sessões guardadas no D1 (tb_sessao). O cookie carrega apenas o id assinado da sessão,
+// então alterações no usuário (perfil, situação) podem invalidar sessões imediatamente
+// com revokeUserSessions().
+import { createCookie, createSessionStorage } from "@remix-run/cloudflare";
+import type { D1Database } from "@cloudflare/workers-types";
+
+const sessionSecret = process.env.SESSION_SECRET;
+if (!sessionSecret && process.env.NODE_ENV === "production") {
+  throw new Error("A variável de ambiente SESSION_SECRET deve ser definida em produção.");
+}
+
+// Validade máxima de uma sessão, contada a partir do login.
+const ABSOLUTE_TIMEOUT_SECONDS = 8 * 60 * 60;
+// Sessão sem uso por mais tempo que isso é encerrada.
+const IDLE_TIMEOUT_SECONDS = 30 * 60;
+// Evita uma escrita no D1 a cada requisição: o último acesso só é atualizado após esse intervalo.
+const TOUCH_INTERVAL_SECONDS = 60;
+
+export interface ActiveSession {
+  id_sessao: string;
+  dt_criacao: string;
+  dt_ultimo_acesso: string;
+  dt_expiracao: string;
+  ds_ip: string | null;
+  ds_user_agent: string | null;
+}
+
+const sessionCookie = createCookie("__session", {
+  httpOnly: true,
+  path: "/",
+  sameSite: "lax",
+  maxAge: ABSOLUTE_TIMEOUT_SECONDS,
+  secrets: [sessionSecret || "DEV_SECRET_FALLBACK"],
+  secure: process.env.NODE_ENV === "production",
+});
+
+function newSessionId() {
+  const bytes = crypto.getRandomValues(new Uint8Array(32));
+  return Array.from(bytes, (byte) => byte.toString(16).padStart(2, "0")).join("");
+}
+
+// IP e user agent são gravados em colunas próprias (para a tela de sessões ativas)
+// e não ficam repetidos no JSON de dados.
+function splitData(data: Record<string, unknown>) {
+  const { ip, userAgent, ...rest } = data;
+  return {
+    userId: typeof rest.userId === "number" ? rest.userId : null,
+    ip: typeof ip === "string" ? ip : null,
+    userAgent: typeof userAgent === "string" ? userAgent : null,
+    json: JSON.stringify(rest),
+  };
+}
+
+export function getSessionStorage(db: D1Database) {
+  return createSessionStorage({
+    cookie: sessionCookie,
+    async createData(data) {
+      const id = newSessionId();
+      const { userId, ip, userAgent, json } = splitData(data);
+      await db.prepare(
+        `INSERT INTO tb_sessao (id_sessao, id_usuario, js_dados, ds_ip, ds_user_agent, dt_expiracao)
+         VALUES (?, ?, ?, ?, ?, datetime('now', ?))`
+      ).bind(id, userId, json, ip, userAgent, `+${ABSOLUTE_TIMEOUT_SECONDS} seconds`).run();
+      return id;
+    },
+    async readData(id) {
+      const row = await db.prepare(
+        `SELECT js_dados,
+                dt_expiracao <= datetime('now') OR dt_ultimo_acesso <= datetime('now', ?) AS expirada,
+                dt_ultimo_acesso <= datetime('now', ?) AS desatualizada
+         FROM tb_sessao WHERE id_sessao = ?`
+      ).bind(`-${IDLE_TIMEOUT_SECONDS} seconds`, `-${TOUCH_INTERVAL_SECONDS} seconds`, id)
+        .first<{ js_dados: string; expirada: number; desatualizada: number }>();
+      if (!row) return null;
+      if (row.expirada) {
+        await db.prepare("DELETE FROM tb_sessao WHERE id_sessao = ?").bind(id).run();
+        return null;
+      }
+      if (row.desatualizada) {
+        await db.prepare("UPDATE tb_sessao SET dt_ultimo_acesso = datetime('now') WHERE id_sessao = ?").bind(id).run();
+      }
+      return JSON.parse(row.js_dados);
+    },
+    async updateData(id, data) {
+      const { userId, json } = splitData(data);
+      await db.prepare("UPDATE tb_sessao SET id_usuario = ?, js_dados = ?, dt_ultimo_acesso = datetime('now') WHERE id_sessao = ?")
+        .bind(userId, json, id)
+        .run();
+    },
+    async deleteData(id) {
+      await db.prepare("DELETE FROM tb_sessao WHERE id_sessao = ?").bind(id).run();
+    },
+  });
+}
+
+/** Id da sessão no cookie assinado da requisição (sem consultar o D1), ou null sem sessão. */
+export async function getSessionId(request: Request) {
+  const id = await sessionCookie.parse(request.headers.get("Cookie"));
+  return typeof id === "string" && id ? id : null;
+}
+
+/**
+ * Encerra todas as sessões do usuário (ex.: após mudança de perfil ou desativação),
+ * exceto, opcionalmente, a sessão informada em exceptSessionId.
+ */
+export async function revokeUserSessions(db: D1Database, userId: number, exceptSessionId?: string) {
+  await db.prepare("DELETE FROM tb_sessao WHERE id_usuario = ? AND id_sessao <> ?")
+    .bind(userId, exceptSessionId ?? "")
+    .run();
+}
+
+/**
+ * Apaga as sessões vencidas (prazo absoluto ou inatividade). readData() já descarta a
+ * sessão vencida quando ela volta a ser usada; esta limpeza cobre as abandonadas.
+ */
+export async function purgeExpiredSessions(db: D1Database) {
+  const { meta } = await db.prepare(
+    "DELETE FROM tb_sessao WHERE dt_expiracao <= datetime('now') OR dt_ultimo_acesso <= datetime('now', ?)"
+  ).bind(`-${IDLE_TIMEOUT_SECONDS} seconds`).run();
+  return meta.changes;
+}
+
+/**
+ * Encerra as sessões de todos os usuários do perfil (ex.: antes de transferi-los para outro),
+ * exceto exceptSessionId, quando informada.
+ */
+export async function revokeProfileSessions(db: D1Database, perfilId: number, { exceptSessionId }: { exceptSessionId?: string } = {}) {
+  await db.prepare(
+    "DELETE FROM tb_sessao WHERE id_usuario IN (SELECT idtb_usuario FROM tb_usuario WHERE tb_perfil_idtb_perfil = ?) AND id_sessao <> ?"
+  ).bind(perfilId, exceptSessionId ?? "")
+    .run();
+}
+
+/** Encerra uma sessão específica, desde que pertença ao usuário informado. */
+export async function revokeSession(db: D1Database, userId: number, sessionId: string) {
+  await db.prepare("DELETE FROM tb_sessao WHERE id_sessao = ? AND id_usuario = ?").bind(sessionId, userId).run();
+}
+
+export async function listActiveSessions(db: D1Database, userId: number) {
+  const { results } = await db.prepare(
+    `SELECT id_sessao, dt_criacao, dt_ultimo_acesso, dt_expiracao, ds_ip, ds_user_agent
+     FROM tb_sessao
+     WHERE id_usuario = ? AND dt_expiracao > datetime('now') AND dt_ultimo_acesso > datetime('now', ?)
+     ORDER BY dt_ultimo_acesso DESC`
+  ).bind(userId, `-${IDLE_TIMEOUT_SECONDS} seconds`).all<ActiveSession>();
+  return results || [];
+}
@@ -0,0 +1,206 @@
+// File: app/totp.server.ts
+// Verificação em duas etapas por TOTP (RFC 6238), com os parâmetros aceitos por todos os
+// aplicativos autenticadores: HMAC-SHA1, 6 dígitos e passo de 30 s. O segredo fica em
+// tb_usuario.ds_totp_segredo (base32); os códigos de recuperação, de uso único, ficam em
+// tb_codigo_recuperacao apenas como SHA-256.
+import type { D1Database } from "@cloudflare/workers-types";
+import { renderSVG } from "uqr";
+
+const ISSUER = "RENOVAAPP";
+const DIGITS = 6;
+const PERIOD_SECONDS = 30;
+// Aceita o código do passo anterior e do seguinte, para tolerar relógios um pouco fora.
+const DRIFT_STEPS = 1;
+const SECRET_BYTES = 20;
+export const RECOVERY_CODE_COUNT = 10;
+
+const BASE32_ALPHABET = "ABCDEFGHIJKLMNOPQRSTUVWXYZ234567";
+
+export interface TwoFactorState {
+  ds_totp_segredo: string | null;
+  st_totp: number;
+  nr_totp_ultimo_passo: number | null;
+  // 1 quando o perfil do usuário exige a verificação em duas etapas.
+  st_2fa_obrigatorio: number;
+  codigos_restantes: number;
+}
+
+function base32Encode(bytes: Uint8Array) {
+  let bits = 0;
+  let value = 0;
+  let output = "";
+  for (const byte of bytes) {
+    value = (value << 8) | byte;
+    bits += 8;
+    while (bits >= 5) {
+      output += BASE32_ALPHABET[(value >>> (bits - 5)) & 31];
+      bits -= 5;
+    }
+  }
+  if (bits > 0) output += BASE32_ALPHABET[(value << (5 - bits)) & 31];
+  return output;
+}
+
+function base32Decode(text: string): Uint8Array<ArrayBuffer> {
+  const clean = text.toUpperCase().replace(/[\s=-]/g, "");
+  const bytes: number[] = [];
+  let bits = 0;
+  let value = 0;
+  for (const char of clean) {
+    const index = BASE32_ALPHABET.indexOf(char);
+    if (index < 0) throw new Error("Segredo TOTP inválido.");
+    value = (value << 5) | index;
+    bits += 5;
+    if (bits >= 8) {
+      bytes.push((value >>> (bits - 8)) & 255);
+      bits -= 8;
+    }
+  }
+  return new Uint8Array(bytes);
+}
+
+/** Código HOTP (RFC 4226) do contador, com truncamento dinâmico. */
+async function hotp(secret: Uint8Array<ArrayBuffer>, counter: number) {
+  const message = new ArrayBuffer(8);
+  const view = new DataView(message);
+  view.setUint32(0, Math.floor(counter / 2 ** 32));
+  view.setUint32(4, counter >>> 0);
+  const key = await crypto.subtle.importKey("raw", secret, { name: "HMAC", hash: "SHA-1" }, false, ["sign"]);
+  const hmac = new Uint8Array(await crypto.subtle.sign("HMAC", key, message));
+  const offset = hmac[hmac.length - 1] & 15;
+  const binary =
+    ((hmac[offset] & 127) << 24) | (hmac[offset + 1] << 16) | (hmac[offset + 2] << 8) | hmac[offset + 3];
+  return String(binary % 10 ** DIGITS).padStart(DIGITS, "0");
+}
+
+function currentStep(now = Date.now()) {
+  return Math.floor(now / 1000 / PERIOD_SECONDS);
+}
+
+/**
+ * Retorna o passo em que o código é válido, ou null. Passos até lastStep são recusados:
+ * um código já aceito não vale de novo, nem um anterior a ele.
+ */
+async function verifyTotp(secret: string, code: string, lastStep: number | null) {
+  if (!new RegExp(`^\\d{${DIGITS}}$`).test(code)) return null;
+  const key = base32Decode(secret);
+  const step = currentStep();
+  for (let drift = -DRIFT_STEPS; drift <= DRIFT_STEPS; drift++) {
+    const candidate = step + drift;
+    if (lastStep !== null && candidate <= lastStep) continue;
+    if ((await hotp(key, candidate)) === code) return candidate;
+  }
+  return null;
+}
+
+async function sha256(text: string) {
+  const digest = await crypto.subtle.digest("SHA-256", new TextEncoder().encode(text));
+  return Array.from(new Uint8Array(digest), (byte) => byte.toString(16).padStart(2, "0")).join("");
+}
+
+// Códigos de recuperação no formato "abcde-fghij"; maiúsculas, espaços e hífen são ignorados.
+function normalizeRecoveryCode(code: string) {
+  return code.toLowerCase().replace(/[\s-]/g, "");
+}
+
+function newRecoveryCode() {
+  const raw = base32Encode(crypto.getRandomValues(new Uint8Array(7))).slice(0, 10).toLowerCase();
+  return `${raw.slice(0, 5)}-${raw.slice(5)}`;
+}
+
+/** Endereço otpauth:// lido pelos aplicativos autenticadores (formato do Google Authenticator). */
+export function totpUri(secret: string, account: string) {
+  const label = encodeURIComponent(`${ISSUER}:${account}`);
+  const params = new URLSearchParams({ secret, issuer: ISSUER, algorithm: "SHA1", digits: String(DIGITS), period: String(PERIOD_SECONDS) });
+  return `otpauth://totp/${label}?${params.toString()}`;
+}
+
+export function qrCodeSvg(text: string) {
+  return renderSVG(text, { ecc: "M", border: 2, pixelSize: 6 });
+}
+
+/** Segredo em grupos de 4 caracteres, para digitação manual no aplicativo. */
+export function formatSecret(secret: string) {
+  return secret.match(/.{1,4}/g)?.join(" ") ?? secret;
+}
+
+export async function getTwoFactorState(db: D1Database, userId: number) {
+  return db.prepare(
+    `SELECT u.ds_totp_segredo, u.st_totp, u.nr_totp_ultimo_passo,
+            COALESCE(p.st_2fa_obrigatorio, 0) AS st_2fa_obrigatorio,
+            (SELECT COUNT(*) FROM tb_codigo_recuperacao c WHERE c.id_usuario = u.idtb_usuario AND c.dt_uso IS NULL) AS codigos_restantes
+     FROM tb_usuario u
+     LEFT JOIN tb_perfil p ON u.tb_perfil_idtb_perfil = p.idtb_perfil
+     WHERE u.idtb_usuario = ?`
+  ).bind(userId).first<TwoFactorState>();
+}
+
+/** Gera e grava um segredo novo, ainda inativo até a confirmação com confirmEnrollment(). */
+export async function startEnrollment(db: D1Database, userId: number) {
+  const secret = base32Encode(crypto.getRandomValues(new Uint8Array(SECRET_BYTES)));
+  await db.prepare(
+    "UPDATE tb_usuario SET ds_totp_segredo = ?, st_totp = 0, nr_totp_ultimo_passo = NULL WHERE idtb_usuario = ? AND st_totp = 0"
+  ).bind(secret, userId).run();
+  return secret;
+}
+
+/** Substitui os códigos de recuperação do usuário e devolve os novos, em texto. */
+async function replaceRecoveryCodes(db: D1Database, userId: number) {
+  const codes = Array.from({ length: RECOVERY_CODE_COUNT }, newRecoveryCode);
+  const hashes = await Promise.all(codes.map((code) => sha256(normalizeRecoveryCode(code))));
+  await db.batch([
+    db.prepare("DELETE FROM tb_codigo_recuperacao WHERE id_usuario = ?").bind(userId),
+    ...hashes.map((hash) => db.prepare("INSERT INTO tb_codigo_recuperacao (id_usuario, ds_hash) VALUES (?, ?)").bind(userId, hash)),
+  ]);
+  return codes;
+}
+
+/**
+ * Ativa a verificação em duas etapas se o código do aplicativo conferir com o segredo
+ * pendente. Devolve os códigos de recuperação ou null se o código não conferir.
+ */
+export async function confirmEnrollment(db: D1Database, userId: number, code: string) {
+  const state = await getTwoFactorState(db, userId);
+  if (!state?.ds_totp_segredo || state.st_totp === 1) return null;
+  const step = await verifyTotp(state.ds_totp_segredo, code.trim(), null);
+  if (step === null) return null;
+  await db.prepare("UPDATE tb_usuario SET st_totp = 1, nr_totp_ultimo_passo = ? WHERE idtb_usuario = ?").bind(step, userId).run();
+  return replaceRecoveryCodes(db, userId);
+}
+
+/**
+ * Confere o segundo fator: código TOTP ou, se não for, um código de recuperação ainda não
+ * usado, que passa a constar como usado. Devolve o método aceito ou null.
+ */
+export async function verifySecondFactor(db: D1Database, userId: number, input: string): Promise<"totp" | "recuperacao" | null> {
+  const state = await getTwoFactorState(db, userId);
+  if (!state?.ds_totp_segredo || state.st_totp !== 1) return null;
+  const code = input.trim();
+
+  const step = await verifyTotp(state.ds_totp_segredo, code.replace(/\s/g, ""), state.nr_totp_ultimo_passo);
+  if (step !== null) {
+    // A condição no WHERE evita que duas requisições simultâneas aceitem o mesmo código.
+    const { meta } = await db.prepare(
+      "UPDATE tb_usuario SET nr_totp_ultimo_passo = ? WHERE idtb_usuario = ? AND (nr_totp_ultimo_passo IS NULL OR nr_totp_ultimo_passo < ?)"
+    ).bind(step, userId, step).run();
+    return meta.changes > 0 ? "totp" : null;
+  }
+
+  const hash = await sha256(normalizeRecoveryCode(code));
+  const { meta } = await db.prepare(
+    "UPDATE tb_codigo_recuperacao SET dt_uso = datetime('now') WHERE id_usuario = ? AND ds_hash = ? AND dt_uso IS NULL"
+  ).bind(userId, hash).run();
+  return meta.changes > 0 ? "recuperacao" : null;
+}
+
+export async function regenerateRecoveryCodes(db: D1Database, userId: number) {
+  return replaceRecoveryCodes(db, userId);
+}
+
+/** Desativa a verificação em duas etapas e descarta o segredo e os códigos de recuperação. */
+export async function disableTwoFactor(db: D1Database, userId: number) {
+  await db.batch([
+    db.prepare("UPDATE tb_usuario SET ds_totp_segredo = NULL, st_totp = 0, nr_totp_ultimo_passo = NULL WHERE idtb_usuario = ?").bind(userId),
+    db.prepare("DELETE FROM tb_codigo_recuperacao WHERE id_usuario = ?").bind(userId),
+  ]);
+}
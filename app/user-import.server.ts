@@ -0,0 +1,191 @@
+// File: app/user-import.server.ts
+// Importação de usuários em lote (CSV ou XLSX) no painel admin: resolve o perfil pelo nome,
+// confere matrículas repetidas ou já cadastradas e grava em lotes com senhas iniciais geradas.
+import type { D1Database } from "@cloudflare/workers-types";
+import { parseCsvRecords, type CsvRecord } from "~/csv";
+import { parseXlsx } from "~/xlsx.server";
+import { generateTemporaryPassword, hashPassword } from "~/password.server";
+import { PerfilRepo, UsuarioRepo } from "~/repositories.server";
+import type { RejectedRow } from "~/database-import.server";
+import type { Translator } from "~/i18n";
+
+export const USER_IMPORT_MAX_BYTES = 2 * 1024 * 1024;
+// Cada senha gerada passa pelo PBKDF2; o limite mantém a importação dentro do tempo de CPU do Worker.
+export const USER_IMPORT_MAX_ROWS = 200;
+const BATCH_SIZE = 50;
+
+// Cabeçalhos aceitos para cada campo, comparados sem acentos nem maiúsculas.
+const HEADER_ALIASES = {
+  matricula: ["matricula"],
+  nome_usuario: ["nome", "nome_usuario"],
+  ds_perfil: ["perfil", "ds_perfil"],
+} as const;
+
+type ImportField = keyof typeof HEADER_ALIASES;
+export type UserImportColumns = Record<ImportField, number>;
+
+export interface UserImportRow {
+  line: number;
+  matricula: string;
+  nome_usuario: string;
+  ds_perfil: string;
+  tb_perfil_idtb_perfil: number;
+  // Id do usuário excluído com a mesma matrícula, quando a linha o restaura.
+  restoreId: number | null;
+}
+
+export interface UserImportPlan {
+  valid: UserImportRow[];
+  rejected: RejectedRow[];
+  // Linhas com matrícula de usuário excluído: entram em valid só com restoreDeleted.
+  restorable: number;
+}
+
+export interface ImportedCredential {
+  line: number;
+  matricula: string;
+  nome_usuario: string;
+  ds_perfil: string;
+  senha: string;
+  restored: boolean;
+}
+
+export interface UserImportReport {
+  created: ImportedCredential[];
+  restored: ImportedCredential[];
+  failed: { line: number; matricula: string; reason: string }[];
+}
+
+function normalizeHeader(header: string) {
+  return header.trim().toLowerCase().normalize("NFD").replace(/\p{Diacritic}/gu, "");
+}
+
+/** Lê o arquivo enviado (XLSX pela extensão; CSV nos demais casos) como linhas numeradas de texto. */
+export async function readSpreadsheet(file: File) {
+  if (/\.xlsx$/i.test(file.name)) {
+    return parseXlsx(await file.arrayBuffer());
+  }
+  return parseCsvRecords(await file.text());
+}
+
+/** Posição de cada campo no cabeçalho e a lista dos que não foram encontrados. */
+export function findColumns(headers: string[]) {
+  const normalized = headers.map(normalizeHeader);
+  const columns: Partial<UserImportColumns> = {};
+  const missing: ImportField[] = [];
+  for (const [field, aliases] of Object.entries(HEADER_ALIASES) as [ImportField, readonly string[]][]) {
+    const index = normalized.findIndex((header) => aliases.includes(header));
+    if (index === -1) missing.push(field);
+    else columns[field] = index;
+  }
+  return { columns: columns as UserImportColumns, missing };
+}
+
+/**
+ * Valida as linhas (sem o cabeçalho) sem gravar nada. Matrícula repetida no arquivo ou de
+ * usuário ativo rejeita a linha; a de usuário excluído o restaura se restoreDeleted. Os motivos
+ * de rejeição saem no idioma de t.
+ */
+export async function planUserImport(
+  db: D1Database,
+  records: CsvRecord[],
+  columns: UserImportColumns,
+  { restoreDeleted, t }: { restoreDeleted: boolean; t: Translator["t"] }
+): Promise<UserImportPlan> {
+  const profiles = new Map((await PerfilRepo.list(db)).map((profile) => [profile.ds_perfil.toLocaleLowerCase("pt-BR"), profile]));
+  const cell = (raw: string[], field: ImportField) => (raw[columns[field]] ?? "").trim();
+
+  const matriculas = [...new Set(records.map((record) => cell(record.fields, "matricula")).filter(Boolean))];
+  const existing = new Map((await UsuarioRepo.findByMatriculas(db, matriculas)).map((user) => [user.matricula, user]));
+
+  const valid: UserImportRow[] = [];
+  const rejected: RejectedRow[] = [];
+  const seen = new Map<string, number>();
+  let restorable = 0;
+
+  records.forEach(({ line, fields: raw }) => {
+    const matricula = cell(raw, "matricula");
+    const nome_usuario = cell(raw, "nome_usuario");
+    const profileName = cell(raw, "ds_perfil");
+    const reasons: string[] = [];
+
+    if (!matricula) reasons.push(t("admin.users.import.reason.matriculaEmpty"));
+    if (!nome_usuario) reasons.push(t("admin.users.import.reason.nameEmpty"));
+    const profile = profiles.get(profileName.toLocaleLowerCase("pt-BR"));
+    if (!profileName) reasons.push(t("admin.users.import.reason.profileEmpty"));
+    else if (!profile) reasons.push(t("admin.users.import.reason.profileNotFound", { profile: profileName }));
+
+    let restoreId: number | null = null;
+    if (matricula) {
+      const firstLine = seen.get(matricula);
+      const current = existing.get(matricula);
+      if (firstLine !== undefined) {
+        reasons.push(t("admin.users.import.reason.duplicate", { line: firstLine }));
+      } else {
+        seen.set(matricula, line);
+      }
+      if (current && !current.st_delete) {
+        reasons.push(t("admin.users.import.reason.exists"));
+      } else if (current && firstLine === undefined) {
+        restorable++;
+        if (restoreDeleted) restoreId = current.idtb_usuario;
+        else reasons.push(t("admin.users.import.reason.deleted"));
+      }
+    }
+
+    if (reasons.length > 0 || !profile) {
+      rejected.push({ line, raw, reasons });
+    } else {
+      valid.push({ line, matricula, nome_usuario, ds_perfil: profile.ds_perfil, tb_perfil_idtb_perfil: profile.idtb_perfil, restoreId });
+    }
+  });
+  return { valid, rejected, restorable };
+}
+
+/**
+ * Gera as senhas iniciais e grava as linhas válidas em lotes. Um lote do D1 é atômico: se
+ * falhar, as linhas dele são reenviadas uma a uma para identificar quais falharam e por quê.
+ * As senhas em texto só existem no relatório devolvido.
+ */
+export async function executeUserImport(db: D1Database, plan: UserImportPlan, t: Translator["t"]): Promise<UserImportReport> {
+  const report: UserImportReport = { created: [], restored: [], failed: [] };
+  const record = (credential: ImportedCredential, changes: number) => {
+    if (changes === 0) {
+      // Só acontece na restauração, se o usuário deixou de estar excluído após a prévia.
+      report.failed.push({ line: credential.line, matricula: credential.matricula, reason: t("admin.users.import.reason.notDeleted") });
+    } else {
+      (credential.restored ? report.restored : report.created).push(credential);
+    }
+  };
+
+  for (let i = 0; i < plan.valid.length; i += BATCH_SIZE) {
+    const chunk = await Promise.all(plan.valid.slice(i, i + BATCH_SIZE).map(async (row) => {
+      const senha = generateTemporaryPassword();
+      const statement = UsuarioRepo.importStatement(db, { ...row, senhaHash: await hashPassword(senha) }, row.restoreId);
+      const credential: ImportedCredential = {
+        line: row.line,
+        matricula: row.matricula,
+        nome_usuario: row.nome_usuario,
+        ds_perfil: row.ds_perfil,
+        senha,
+        restored: row.restoreId !== null,
+      };
+      return { credential, statement };
+    }));
+
+    try {
+      const results = await db.batch(chunk.map((item) => item.statement));
+      chunk.forEach((item, index) => record(item.credential, results[index].meta.changes));
+    } catch {
+      for (const item of chunk) {
+        try {
+          const { meta } = await item.statement.run();
+          record(item.credential, meta.changes);
+        } catch (e) {
+          report.failed.push({ line: item.credential.line, matricula: item.credential.matricula, reason: e instanceof Error ? e.message : String(e) });
+        }
+      }
+    }
+  }
+  return report;
+}
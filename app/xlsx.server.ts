@@ -0,0 +1,194 @@
+// File: app/xlsx.server.ts
+// Leitura mínima de planilhas .xlsx: abre o ZIP com o DecompressionStream do runtime e extrai
+// os valores da primeira aba como texto, no mesmo formato de parseCsvRecords(). Fórmulas valem
+// pelo último resultado salvo; formatação, datas e demais abas são ignoradas.
+import type { CsvRecord } from "~/csv";
+import type { MessageKey } from "~/i18n";
+
+// Limite para o conteúdo descompactado de cada parte lida, contra arquivos que expandem demais.
+const MAX_PART_BYTES = 20 * 1024 * 1024;
+
+const EOCD_SIGNATURE = 0x06054b50;
+const CENTRAL_SIGNATURE = 0x02014b50;
+const LOCAL_SIGNATURE = 0x04034b50;
+
+interface ZipEntry {
+  method: number;
+  compressedSize: number;
+  uncompressedSize: number;
+  localOffset: number;
+}
+
+/** Planilha que não pode ser lida; key é a mensagem a traduzir para o usuário. */
+export class SpreadsheetError extends Error {
+  constructor(readonly key: MessageKey) {
+    super(key);
+    this.name = "SpreadsheetError";
+  }
+}
+
+function invalid(): never {
+  throw new SpreadsheetError("admin.users.import.error.xlsxInvalid");
+}
+
+/** Índice do diretório central do ZIP: nome do arquivo -> posição e compressão. */
+function readCentralDirectory(bytes: Uint8Array) {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  // O registro final tem 22 bytes mais um comentário opcional de até 64 KB.
+  let eocd = -1;
+  for (let i = bytes.length - 22; i >= Math.max(0, bytes.length - 22 - 0xffff); i--) {
+    if (view.getUint32(i, true) === EOCD_SIGNATURE) {
+      eocd = i;
+      break;
+    }
+  }
+  if (eocd < 0) invalid();
+
+  const entries = new Map<string, ZipEntry>();
+  const count = view.getUint16(eocd + 10, true);
+  let offset = view.getUint32(eocd + 16, true);
+  const decoder = new TextDecoder();
+  for (let n = 0; n < count; n++) {
+    if (offset + 46 > bytes.length || view.getUint32(offset, true) !== CENTRAL_SIGNATURE) invalid();
+    const nameLength = view.getUint16(offset + 28, true);
+    const extraLength = view.getUint16(offset + 30, true);
+    const commentLength = view.getUint16(offset + 32, true);
+    const name = decoder.decode(bytes.subarray(offset + 46, offset + 46 + nameLength));
+    entries.set(name, {
+      method: view.getUint16(offset + 10, true),
+      compressedSize: view.getUint32(offset + 20, true),
+      uncompressedSize: view.getUint32(offset + 24, true),
+      localOffset: view.getUint32(offset + 42, true),
+    });
+    offset += 46 + nameLength + extraLength + commentLength;
+  }
+  return entries;
+}
+
+async function inflate(data: Uint8Array<ArrayBuffer>) {
+  const reader = new Blob([data]).stream().pipeThrough(new DecompressionStream("deflate-raw")).getReader();
+  const chunks: Uint8Array[] = [];
+  let total = 0;
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    total += value.byteLength;
+    if (total > MAX_PART_BYTES) {
+      await reader.cancel();
+      throw new SpreadsheetError("admin.users.import.error.xlsxTooLarge");
+    }
+    chunks.push(value);
+  }
+  const result = new Uint8Array(total);
+  let position = 0;
+  for (const chunk of chunks) {
+    result.set(chunk, position);
+    position += chunk.byteLength;
+  }
+  return result;
+}
+
+async function readEntry(bytes: Uint8Array<ArrayBuffer>, entries: Map<string, ZipEntry>, name: string) {
+  const entry = entries.get(name);
+  if (!entry) return null;
+  if (entry.uncompressedSize > MAX_PART_BYTES) {
+    throw new SpreadsheetError("admin.users.import.error.xlsxTooLarge");
+  }
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const local = entry.localOffset;
+  if (local + 30 > bytes.length || view.getUint32(local, true) !== LOCAL_SIGNATURE) invalid();
+  // O cabeçalho local pode ter nome e campo extra diferentes dos do diretório central.
+  const start = local + 30 + view.getUint16(local + 26, true) + view.getUint16(local + 28, true);
+  const data = bytes.subarray(start, start + entry.compressedSize);
+  if (entry.method === 0) return new TextDecoder().decode(data);
+  if (entry.method === 8) return new TextDecoder().decode(await inflate(data));
+  throw new SpreadsheetError("admin.users.import.error.xlsxCompression");
+}
+
+function decodeXml(text: string) {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|lt|gt|amp|quot|apos);/gi, (_, entity: string) => {
+    if (entity[0] === "#") {
+      const code = entity[1] === "x" || entity[1] === "X" ? parseInt(entity.slice(2), 16) : parseInt(entity.slice(1), 10);
+      return String.fromCodePoint(code);
+    }
+    return { lt: "<", gt: ">", amp: "&", quot: '"', apos: "'" }[entity.toLowerCase()] ?? "";
+  });
+}
+
+function attribute(attributes: string, name: string) {
+  const match = new RegExp(`(?:^|\\s)${name}="([^"]*)"`).exec(attributes);
+  return match ? decodeXml(match[1]) : null;
+}
+
+/** Texto de um elemento <si> ou <is>: junta as partes <t>, inclusive de texto formatado. */
+function richText(xml: string) {
+  // <rPh> guarda a leitura fonética de textos em japonês e não faz parte do valor.
+  const withoutPhonetic = xml.replace(/<rPh\b[\s\S]*?<\/rPh>/g, "");
+  return Array.from(withoutPhonetic.matchAll(/<t\b[^>]*>([\s\S]*?)<\/t>/g), (match) => decodeXml(match[1])).join("");
+}
+
+function columnIndex(reference: string) {
+  const letters = /^[A-Z]+/.exec(reference)?.[0] ?? "";
+  let index = 0;
+  for (const letter of letters) index = index * 26 + (letter.charCodeAt(0) - 64);
+  return index - 1;
+}
+
+/** Caminho da primeira aba, conforme a ordem do workbook.xml. */
+async function firstSheetPath(bytes: Uint8Array<ArrayBuffer>, entries: Map<string, ZipEntry>) {
+  const workbook = await readEntry(bytes, entries, "xl/workbook.xml");
+  const rels = await readEntry(bytes, entries, "xl/_rels/workbook.xml.rels");
+  const sheet = workbook && /<sheet\b([^>]*)\/?>/.exec(workbook);
+  const relId = sheet && attribute(sheet[1], "r:id");
+  if (rels && relId) {
+    for (const match of rels.matchAll(/<Relationship\b([^>]*)\/?>/g)) {
+      if (attribute(match[1], "Id") !== relId) continue;
+      const target = attribute(match[1], "Target") ?? "";
+      return target.startsWith("/") ? target.slice(1) : `xl/${target}`;
+    }
+  }
+  return "xl/worksheets/sheet1.xml";
+}
+
+/**
+ * Lê a primeira aba da planilha e retorna as linhas, com o número de cada uma na planilha, como
+ * listas de campos de texto. Células vazias no meio da linha viram ""; linhas totalmente vazias
+ * são ignoradas, como no CSV, mas continuam contando na numeração.
+ */
+export async function parseXlsx(buffer: ArrayBuffer) {
+  const bytes = new Uint8Array(buffer);
+  const entries = readCentralDirectory(bytes);
+
+  const sharedXml = await readEntry(bytes, entries, "xl/sharedStrings.xml");
+  const shared = sharedXml ? Array.from(sharedXml.matchAll(/<si\b[^>]*>([\s\S]*?)<\/si>/g), (match) => richText(match[1])) : [];
+
+  const sheet = await readEntry(bytes, entries, await firstSheetPath(bytes, entries));
+  if (sheet === null) invalid();
+
+  const records: CsvRecord[] = [];
+  let line = 0;
+  for (const rowMatch of sheet.matchAll(/<row\b([^>]*)>([\s\S]*?)<\/row>/g)) {
+    // O atributo r é opcional; sem ele a linha é a seguinte à anterior.
+    line = Number(attribute(rowMatch[1], "r")) || line + 1;
+    const row: string[] = [];
+    for (const cell of rowMatch[2].matchAll(/<c\b([^>]*?)(?:\/>|>([\s\S]*?)<\/c>)/g)) {
+      const [, attributes, content = ""] = cell;
+      const reference = attribute(attributes, "r");
+      const index = reference ? columnIndex(reference) : row.length;
+      const type = attribute(attributes, "t");
+      const raw = /<v\b[^>]*>([\s\S]*?)<\/v>/.exec(content)?.[1];
+      let value = "";
+      if (type === "s") {
+        value = shared[Number(raw)] ?? "";
+      } else if (type === "inlineStr") {
+        value = richText(/<is\b[^>]*>([\s\S]*?)<\/is>/.exec(content)?.[1] ?? "");
+      } else if (raw !== undefined) {
+        value = decodeXml(raw);
+      }
+      while (row.length < index) row.push("");
+      row[index] = value;
+    }
+    if (row.some((value) => value !== "")) records.push({ line, fields: row });
+  }
+  return records;
+}
@@ -0,0 +1,34 @@
+-- Migração 0001: tabelas principais do RENOVAAPP.
+-- Usa IF NOT EXISTS porque o renova-db de produção já possui estas tabelas; em um
+-- banco novo (wrangler local) elas são criadas do zero.
+
+CREATE TABLE IF NOT EXISTS tb_perfil (
+  idtb_perfil INTEGER PRIMARY KEY AUTOINCREMENT,
+  ds_perfil TEXT NOT NULL UNIQUE
+);
+
+CREATE TABLE IF NOT EXISTS tb_usuario (
+  idtb_usuario INTEGER PRIMARY KEY AUTOINCREMENT,
+  matricula TEXT NOT NULL UNIQUE,
+  nome_usuario TEXT NOT NULL,
+  senha TEXT NOT NULL,
+  tb_perfil_idtb_perfil INTEGER REFERENCES tb_perfil (idtb_perfil),
+  st_usuario INTEGER NOT NULL DEFAULT 1,
+  st_delete INTEGER NOT NULL DEFAULT 0
+);
+
+CREATE INDEX IF NOT EXISTS idx_usuario_perfil ON tb_usuario (tb_perfil_idtb_perfil);
+
+CREATE TABLE IF NOT EXISTS tb_modulo (
+  id_modulo INTEGER PRIMARY KEY AUTOINCREMENT,
+  ds_modulo TEXT NOT NULL,
+  tipo_modulo TEXT NOT NULL DEFAULT 'app'
+);
+
+CREATE TABLE IF NOT EXISTS tb_permissao (
+  id_perfil INTEGER NOT NULL REFERENCES tb_perfil (idtb_perfil),
+  id_modulo INTEGER NOT NULL REFERENCES tb_modulo (id_modulo),
+  PRIMARY KEY (id_perfil, id_modulo)
+);
+
+CREATE INDEX IF NOT EXISTS idx_permissao_modulo ON tb_permissao (id_modulo);
@@ -0,0 +1,7 @@
+-- Migração 0002: identificador de rota dos módulos.
+-- O slug liga cada linha de tb_modulo a uma entrada do registro em app/modules.tsx
+-- e compõe o endereço /m/:moduleId do módulo.
+
+ALTER TABLE tb_modulo ADD COLUMN slug TEXT;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_modulo_slug ON tb_modulo (slug);
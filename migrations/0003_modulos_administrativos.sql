@@ -0,0 +1,17 @@
+-- Migração 0003: módulos administrativos usados pela autorização (requirePermission).
+-- O acesso a /admin e /database passa a depender de tb_permissao em vez do nome do
+-- perfil; o perfil "Administrador", se existir, recebe os dois módulos para manter o
+-- comportamento anterior.
+
+INSERT INTO tb_modulo (ds_modulo, tipo_modulo, slug)
+SELECT 'Painel Administrativo', 'admin', 'admin'
+WHERE NOT EXISTS (SELECT 1 FROM tb_modulo WHERE slug = 'admin');
+
+INSERT INTO tb_modulo (ds_modulo, tipo_modulo, slug)
+SELECT 'Database Explorer', 'admin', 'database'
+WHERE NOT EXISTS (SELECT 1 FROM tb_modulo WHERE slug = 'database');
+
+INSERT OR IGNORE INTO tb_permissao (id_perfil, id_modulo)
+SELECT p.idtb_perfil, m.id_modulo
+FROM tb_perfil p, tb_modulo m
+WHERE p.ds_perfil = 'Administrador' AND m.slug IN ('admin', 'database');
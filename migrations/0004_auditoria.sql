@@ -0,0 +1,20 @@
+-- Migração 0004: trilha de auditoria de logins e alterações administrativas.
+-- js_antes / js_depois guardam o estado do registro em JSON (NULL quando não se aplica).
+
+CREATE TABLE IF NOT EXISTS tb_auditoria (
+  id_auditoria INTEGER PRIMARY KEY AUTOINCREMENT,
+  dt_evento TEXT NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  id_usuario INTEGER,
+  ds_usuario TEXT,
+  ds_acao TEXT NOT NULL,
+  ds_tabela TEXT,
+  id_registro TEXT,
+  js_antes TEXT,
+  js_depois TEXT,
+  ds_ip TEXT,
+  ds_user_agent TEXT
+);
+
+CREATE INDEX IF NOT EXISTS idx_auditoria_data ON tb_auditoria (dt_evento);
+CREATE INDEX IF NOT EXISTS idx_auditoria_usuario ON tb_auditoria (id_usuario);
+CREATE INDEX IF NOT EXISTS idx_auditoria_acao ON tb_auditoria (ds_acao);
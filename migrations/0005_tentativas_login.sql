@@ -0,0 +1,11 @@
+-- Migração 0005: controle de tentativas de login com falha, por matrícula e por IP.
+-- dt_bloqueio_ate preenchido (e no futuro) indica chave bloqueada.
+
+CREATE TABLE IF NOT EXISTS tb_tentativa_login (
+  ds_tipo TEXT NOT NULL CHECK (ds_tipo IN ('matricula', 'ip')),
+  ds_chave TEXT NOT NULL,
+  nr_falhas INTEGER NOT NULL DEFAULT 0,
+  dt_ultima_falha TEXT NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  dt_bloqueio_ate TEXT,
+  PRIMARY KEY (ds_tipo, ds_chave)
+);
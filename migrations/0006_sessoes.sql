@@ -0,0 +1,16 @@
+-- Migração 0006: sessões no servidor. O cookie __session passa a guardar apenas o id
+-- assinado da sessão; os dados ficam em js_dados.
+
+CREATE TABLE IF NOT EXISTS tb_sessao (
+  id_sessao TEXT PRIMARY KEY,
+  id_usuario INTEGER REFERENCES tb_usuario (idtb_usuario) ON DELETE CASCADE,
+  js_dados TEXT NOT NULL,
+  ds_ip TEXT,
+  ds_user_agent TEXT,
+  dt_criacao TEXT NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  dt_ultimo_acesso TEXT NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  dt_expiracao TEXT NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_sessao_usuario ON tb_sessao (id_usuario);
+CREATE INDEX IF NOT EXISTS idx_sessao_expiracao ON tb_sessao (dt_expiracao);
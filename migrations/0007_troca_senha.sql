@@ -0,0 +1,4 @@
+-- Migração 0007: obriga a troca de senha no próximo acesso (ex.: após senha temporária
+-- emitida por um administrador).
+
+ALTER TABLE tb_usuario ADD COLUMN st_troca_senha INTEGER NOT NULL DEFAULT 0;
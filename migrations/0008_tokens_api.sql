@@ -0,0 +1,17 @@
+-- Migração 0008: tokens de acesso à API /api/v1. Apenas o SHA-256 do token é guardado;
+-- ds_prefixo (início do token) serve para o usuário reconhecê-lo na lista.
+
+CREATE TABLE IF NOT EXISTS tb_token_api (
+  id_token INTEGER PRIMARY KEY AUTOINCREMENT,
+  id_usuario INTEGER NOT NULL REFERENCES tb_usuario (idtb_usuario) ON DELETE CASCADE,
+  ds_nome TEXT NOT NULL,
+  ds_prefixo TEXT NOT NULL,
+  ds_hash TEXT NOT NULL UNIQUE,
+  ds_escopos TEXT NOT NULL,
+  dt_criacao TEXT NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  dt_expiracao TEXT NOT NULL,
+  dt_ultimo_uso TEXT,
+  dt_revogacao TEXT
+);
+
+CREATE INDEX IF NOT EXISTS idx_token_api_usuario ON tb_token_api (id_usuario);
@@ -0,0 +1,4 @@
+-- Migração 0009: idioma preferido do usuário (pt-BR, en ou es). NULL segue o cookie
+-- ou o cabeçalho Accept-Language do navegador.
+
+ALTER TABLE tb_usuario ADD COLUMN ds_idioma TEXT;
@@ -0,0 +1,22 @@
+-- Migração 0010: verificação em duas etapas (TOTP, RFC 6238). O segredo é gravado ao
+-- iniciar o cadastro e só passa a ser exigido no login depois de confirmado (st_totp = 1).
+-- nr_totp_ultimo_passo guarda o passo de 30 s do último código aceito, para que o mesmo
+-- código não seja aceito duas vezes.
+
+ALTER TABLE tb_usuario ADD COLUMN ds_totp_segredo TEXT;
+ALTER TABLE tb_usuario ADD COLUMN st_totp INTEGER NOT NULL DEFAULT 0;
+ALTER TABLE tb_usuario ADD COLUMN nr_totp_ultimo_passo INTEGER;
+
+-- Perfis com st_2fa_obrigatorio = 1 exigem o cadastro do TOTP no próximo login.
+ALTER TABLE tb_perfil ADD COLUMN st_2fa_obrigatorio INTEGER NOT NULL DEFAULT 0;
+
+-- Códigos de recuperação de uso único (apenas o SHA-256 é guardado).
+CREATE TABLE IF NOT EXISTS tb_codigo_recuperacao (
+  id_codigo INTEGER PRIMARY KEY AUTOINCREMENT,
+  id_usuario INTEGER NOT NULL REFERENCES tb_usuario (idtb_usuario) ON DELETE CASCADE,
+  ds_hash TEXT NOT NULL,
+  dt_criacao TEXT NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  dt_uso TEXT
+);
+
+CREATE INDEX IF NOT EXISTS idx_codigo_recuperacao_usuario ON tb_codigo_recuperacao (id_usuario);
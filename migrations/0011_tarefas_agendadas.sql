@@ -0,0 +1,25 @@
+-- Migração 0011: tarefas de manutenção agendadas (handler "scheduled" do Worker).
+-- dt_exclusao marca quando o usuário foi excluído logicamente, para a tarefa que remove
+-- de vez os excluídos há mais tempo que o prazo de retenção. Os já excluídos contam a
+-- partir desta migração.
+
+ALTER TABLE tb_usuario ADD COLUMN dt_exclusao TEXT;
+UPDATE tb_usuario SET dt_exclusao = CURRENT_TIMESTAMP WHERE st_delete = 1;
+
+-- Histórico de execuções. ds_origem é "agendada" (cron) ou "manual" (botão no painel,
+-- com o usuário em id_usuario); ds_situacao é "executando", "sucesso" ou "falha".
+CREATE TABLE IF NOT EXISTS tb_execucao_tarefa (
+  id_execucao INTEGER PRIMARY KEY AUTOINCREMENT,
+  ds_tarefa TEXT NOT NULL,
+  ds_origem TEXT NOT NULL,
+  id_usuario INTEGER,
+  ds_situacao TEXT NOT NULL DEFAULT 'executando',
+  dt_inicio TEXT NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  dt_fim TEXT,
+  nr_afetados INTEGER,
+  js_detalhes TEXT,
+  ds_erro TEXT
+);
+
+CREATE INDEX IF NOT EXISTS idx_execucao_tarefa_inicio ON tb_execucao_tarefa (dt_inicio);
+CREATE INDEX IF NOT EXISTS idx_execucao_tarefa_tarefa ON tb_execucao_tarefa (ds_tarefa, dt_inicio);
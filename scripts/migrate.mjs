@@ -0,0 +1,152 @@
+// File: scripts/migrate.mjs
+// Aplica as migrações SQL de ./migrations no D1 "renova-db" através do wrangler.
+//
+// Uso:
+//   node scripts/migrate.mjs [apply|status|seed] [--remote]
+//
+// Cada arquivo NNNN_descricao.sql é aplicado uma única vez, em ordem, e registrado em
+// tb_migracao junto com o SHA-256 do conteúdo. Se um arquivo já aplicado for alterado
+// depois, o checksum deixa de bater e o comando falha em vez de seguir com um banco
+// divergente: crie uma nova migração em vez de editar uma antiga.
+import { createHash } from "node:crypto";
+import { execFileSync } from "node:child_process";
+import { mkdtempSync, readdirSync, readFileSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join, dirname } from "node:path";
+import { fileURLToPath } from "node:url";
+
+const DATABASE = "renova-db";
+const ROOT = join(dirname(fileURLToPath(import.meta.url)), "..");
+const MIGRATIONS_DIR = join(ROOT, "migrations");
+const SEED_FILE = join(ROOT, "seeds", "dev.sql");
+const MIGRATION_FILE = /^\d{4}_[\w-]+\.sql$/;
+
+const args = process.argv.slice(2);
+const command = args.find((arg) => !arg.startsWith("--")) ?? "apply";
+const target = args.includes("--remote") ? "--remote" : "--local";
+
+function wrangler(extraArgs) {
+  const output = execFileSync(
+    "npx",
+    ["wrangler", "d1", "execute", DATABASE, target, "--json", "--yes", ...extraArgs],
+    { cwd: ROOT, encoding: "utf8", stdio: ["ignore", "pipe", "inherit"] }
+  );
+  return JSON.parse(output);
+}
+
+function query(sql) {
+  const [result] = wrangler(["--command", sql]);
+  return result?.results ?? [];
+}
+
+function executeFile(sql) {
+  const dir = mkdtempSync(join(tmpdir(), "renova-migrate-"));
+  const file = join(dir, "migration.sql");
+  try {
+    writeFileSync(file, sql);
+    wrangler(["--file", file]);
+  } finally {
+    rmSync(dir, { recursive: true, force: true });
+  }
+}
+
+function checksum(sql) {
+  return createHash("sha256").update(sql.replace(/\r\n/g, "\n")).digest("hex");
+}
+
+function sqlString(value) {
+  return `'${String(value).replace(/'/g, "''")}'`;
+}
+
+function loadMigrations() {
+  return readdirSync(MIGRATIONS_DIR)
+    .filter((name) => MIGRATION_FILE.test(name))
+    .sort()
+    .map((name) => {
+      const sql = readFileSync(join(MIGRATIONS_DIR, name), "utf8");
+      return { name, sql, checksum: checksum(sql) };
+    });
+}
+
+function loadApplied() {
+  query(
+    `CREATE TABLE IF NOT EXISTS tb_migracao (
+       nome TEXT PRIMARY KEY,
+       checksum TEXT NOT NULL,
+       dt_aplicacao TEXT NOT NULL DEFAULT CURRENT_TIMESTAMP
+     )`
+  );
+  const rows = query("SELECT nome, checksum, dt_aplicacao FROM tb_migracao ORDER BY nome");
+  return new Map(rows.map((row) => [row.nome, row]));
+}
+
+function verify(migrations, applied) {
+  const known = new Set(migrations.map((m) => m.name));
+  for (const name of applied.keys()) {
+    if (!known.has(name)) {
+      throw new Error(`Migração "${name}" consta em tb_migracao mas não existe em ./migrations.`);
+    }
+  }
+  for (const migration of migrations) {
+    const row = applied.get(migration.name);
+    if (row && row.checksum !== migration.checksum) {
+      throw new Error(
+        `Checksum divergente para "${migration.name}": o arquivo foi alterado depois de aplicado.`
+      );
+    }
+  }
+}
+
+function apply() {
+  const migrations = loadMigrations();
+  const applied = loadApplied();
+  verify(migrations, applied);
+
+  const pending = migrations.filter((m) => !applied.has(m.name));
+  if (pending.length === 0) {
+    console.log(`Nenhuma migração pendente (${target.slice(2)}).`);
+    return;
+  }
+  for (const migration of pending) {
+    console.log(`Aplicando ${migration.name}...`);
+    // O registro em tb_migracao vai no mesmo arquivo para que a migração e o seu
+    // controle sejam enviados ao D1 juntos.
+    executeFile(
+      `${migration.sql.trimEnd()}\n\nINSERT INTO tb_migracao (nome, checksum) VALUES (${sqlString(migration.name)}, ${sqlString(migration.checksum)});\n`
+    );
+  }
+  console.log(`${pending.length} migração(ões) aplicada(s).`);
+}
+
+function status() {
+  const migrations = loadMigrations();
+  const applied = loadApplied();
+  for (const migration of migrations) {
+    const row = applied.get(migration.name);
+    const state = !row ? "pendente" : row.checksum === migration.checksum ? `aplicada em ${row.dt_aplicacao}` : "CHECKSUM DIVERGENTE";
+    console.log(`${migration.name}  ${state}`);
+  }
+  verify(migrations, applied);
+}
+
+function seed() {
+  if (target === "--remote") {
+    throw new Error("O seed cria credenciais de desenvolvimento e só pode ser executado com --local.");
+  }
+  apply();
+  console.log("Aplicando seeds/dev.sql...");
+  executeFile(readFileSync(SEED_FILE, "utf8"));
+  console.log("Seed concluído.");
+}
+
+const commands = { apply, status, seed };
+
+try {
+  if (!(command in commands)) {
+    throw new Error(`Comando desconhecido "${command}". Use apply, status ou seed.`);
+  }
+  commands[command]();
+} catch (error) {
+  console.error(error instanceof Error ? error.message : error);
+  process.exit(1);
+}
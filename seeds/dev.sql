@@ -0,0 +1,26 @@
+-- Dados iniciais para desenvolvimento local (node scripts/migrate.mjs seed).
+-- Pode ser executado mais de uma vez: todas as inserções ignoram linhas já existentes.
+--
+-- O usuário "admin" é criado com a senha "admin" em texto puro. login() reconhece o
+-- valor legado e o regrava como hash PBKDF2 no primeiro acesso.
+
+INSERT OR IGNORE INTO tb_perfil (idtb_perfil, ds_perfil) VALUES
+  (1, 'Administrador'),
+  (2, 'Usuário');
+
+INSERT OR IGNORE INTO tb_usuario (matricula, nome_usuario, senha, tb_perfil_idtb_perfil) VALUES
+  ('admin', 'Administrador do Sistema', 'admin', 1);
+
+-- Os módulos administrativos ("admin" e "database") são criados pela migração 0003.
+INSERT INTO tb_modulo (ds_modulo, tipo_modulo, slug) VALUES
+  ('Obras', 'app', 'obras'),
+  ('Almoxarifado', 'app', 'almoxarifado'),
+  ('Relatórios', 'app', 'relatorios')
+ON CONFLICT (slug) DO NOTHING;
+
+-- Administrador: todos os módulos. Usuário: apenas Obras.
+INSERT OR IGNORE INTO tb_permissao (id_perfil, id_modulo)
+SELECT 1, id_modulo FROM tb_modulo;
+
+INSERT OR IGNORE INTO tb_permissao (id_perfil, id_modulo)
+SELECT 2, id_modulo FROM tb_modulo WHERE slug = 'obras';
@@ -0,0 +1,14 @@
+// File: vitest.config.ts
+// Configuração dos testes (npm test). Fica separada do vite.config.ts para não carregar os
+// plugins do Worker e do React Router: os testes rodam no Node, com o D1 do Miniflare.
+import { defineConfig } from "vitest/config";
+import tsconfigPaths from "vite-tsconfig-paths";
+
+export default defineConfig({
+  plugins: [tsconfigPaths()],
+  test: {
+    include: ["app/**/*.test.ts"],
+    // O Miniflare inicia o workerd uma vez por arquivo de teste.
+    hookTimeout: 30_000,
+  },
+});
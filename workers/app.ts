@@ -1,4 +1,23 @@
 import { createRequestHandler } from "react-router";
+import { runScheduledJobs } from "../app/jobs.server";
+import {
+  REQUEST_ID_HEADER,
+  createRequestContext,
+  instrumentD1,
+  logRequest,
+  runWithRequestContext,
+  type RequestContext,
+} from "../app/request-context.server";
+
+declare global {
+  // O bloco Cloudflare.Env de worker-configuration.d.ts é descartado pelo TypeScript
+  // (conflita com @cloudflare/workers-types), então os bindings são declarados aqui.
+  interface Env {
+    DB_APP: D1Database;
+    // Id, tag e data da versão publicada (binding "version_metadata" do wrangler.jsonc).
+    CF_VERSION_METADATA: WorkerVersionMetadata;
+  }
+}
 
 declare module "react-router" {
   export interface AppLoadContext {
@@ -6,6 +25,7 @@ declare module "react-router" {
       env: Env;
       ctx: ExecutionContext;
     };
+    requestContext: RequestContext;
   }
 }
 
@@ -16,8 +36,29 @@ const requestHandler = createRequestHandler(
 
 export default {
   async fetch(request, env, ctx) {
-    return requestHandler(request, {
-      cloudflare: { env, ctx },
+    const requestContext = createRequestContext(request);
+    return runWithRequestContext(requestContext, async () => {
+      let response: Response;
+      try {
+        response = await requestHandler(request, {
+          // O D1 entregue às rotas mede cada consulta para o log da requisição.
+          cloudflare: { env: { ...env, DB_APP: instrumentD1(env.DB_APP, requestContext) }, ctx },
+          requestContext,
+        });
+      } catch (error) {
+        logRequest(requestContext, 500, error);
+        throw error;
+      }
+      // Os headers de algumas respostas (ex.: redirects) são imutáveis; a cópia permite alterá-los.
+      response = new Response(response.body, response);
+      response.headers.set(REQUEST_ID_HEADER, requestContext.requestId);
+      logRequest(requestContext, response.status);
+      return response;
     });
   },
+
+  // Cron triggers do wrangler.jsonc: tarefas de manutenção, registradas em tb_execucao_tarefa.
+  async scheduled(controller, env, ctx) {
+    ctx.waitUntil(runScheduledJobs(env.DB_APP, controller.cron));
+  },
 } satisfies ExportedHandler<Env>;